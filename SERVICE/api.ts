@@ -1,5 +1,28 @@
-import { Product, RegisterInput, Review, makeOrder } from "@/types";
-import axios from "axios";
+import {
+  Product,
+  ProductPage,
+  ProductQuery,
+  RegisterInput,
+  Review,
+  ReviewReportReason,
+  makeOrder,
+  NotificationPage,
+  ChatMessage,
+  Conversation,
+  WishlistItem,
+  ProductAlert,
+  ProductAlertInput,
+  ShippingQuoteResponse,
+  Address,
+  AddressInput,
+  Refund,
+  RefundStatus,
+  Claim,
+  ClaimDecision,
+  AnalyticsInterval,
+  SellerAnalytics,
+} from "@/types";
+import axios, { InternalAxiosRequestConfig } from "axios";
 import Constants from "expo-constants";
 
 const ApiUrl =
@@ -24,17 +47,98 @@ export const setAuthToken = (token: string | null) => {
   }
 };
 
+type SessionHandlers = {
+  getRefreshToken: () => string | null;
+  onRefreshed: (token: string, refreshToken: string) => void;
+  onSessionExpired: () => void;
+};
+
+let sessionHandlers: SessionHandlers | null = null;
+
+// Registered by the auth store so this module does not import it
+export const setSessionHandlers = (handlers: SessionHandlers | null) => {
+  sessionHandlers = handlers;
+};
+
+// Auth calls answer 401 for bad credentials, never retry them
+const NO_REFRESH_PATHS = [
+  "/auth/login",
+  "/auth/register",
+  "/auth/refresh",
+  "/auth/logout",
+];
+
+// Parallel 401s share one refresh, the server only accepts a token once
+let refreshInFlight: Promise<string | null> | null = null;
+
+const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = sessionHandlers?.getRefreshToken();
+  if (!refreshToken) {
+    sessionHandlers?.onSessionExpired();
+    return null;
+  }
+  try {
+    // plain axios: a 401 here must not re-enter the interceptor
+    const response = await axios.post(
+      `${ApiUrl}/auth/refresh`,
+      { refreshToken },
+      { timeout: 30000 },
+    );
+    const { token, refreshToken: nextRefreshToken } = response.data;
+    setAuthToken(token);
+    sessionHandlers?.onRefreshed(token, nextRefreshToken);
+    return token;
+  } catch (error) {
+    // a network blip keeps the session, a rejected refresh token ends it
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      sessionHandlers?.onSessionExpired();
+    }
+    return null;
+  }
+};
+
+// Refresh the access token on 401 and replay the request once
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const original = error?.config as
+      | (InternalAxiosRequestConfig & { _retried?: boolean })
+      | undefined;
+    if (
+      !axios.isAxiosError(error) ||
+      error.response?.status !== 401 ||
+      !original ||
+      original._retried ||
+      NO_REFRESH_PATHS.some((path) => original.url?.startsWith(path))
+    ) {
+      return Promise.reject(error);
+    }
+
+    original._retried = true;
+    refreshInFlight ??= refreshAccessToken().finally(() => {
+      refreshInFlight = null;
+    });
+    const token = await refreshInFlight;
+    if (!token) return Promise.reject(error);
+
+    original.headers.Authorization = `Bearer ${token}`;
+    return api(original);
+  },
+);
+
 export const registerUser = async (userData: RegisterInput) => {
   try {
     const response = await api.post("/auth/register", userData);
     const data = response.data;
     return {
       token: data.token,
+      refreshToken: data.refreshToken,
       user: {
         id: data.user._id || data.user.id, // <-- map _id to id
         fullName: data.user.fullName,
         email: data.user.email,
         role: data.user.role,
+        isApproved: data.user.isApproved ?? false,
       },
     };
   } catch (error) {
@@ -58,11 +162,14 @@ export const loginUser = async (email: string, password: string) => {
     const data = response.data;
     return {
       token: data.token,
+      refreshToken: data.refreshToken,
       user: {
         id: data.user._id || data.user.id, // <-- map _id to id
         fullName: data.user.fullName,
         email: data.user.email,
         role: data.user.role,
+        isApproved: data.user.isApproved ?? false,
+        isSuspended: data.user.isSuspended ?? false,
         // add other fields if needed
       },
     };
@@ -86,6 +193,17 @@ export const loginUser = async (email: string, password: string) => {
   }
 };
 
+// Revoke this device's refresh token; the access token may already be expired
+export const logoutSession = async (refreshToken: string) => {
+  const response = await api.post("/auth/logout", { refreshToken });
+  return response.data;
+};
+
+export const logoutAllDevices = async () => {
+  const response = await api.post("/auth/logout-all");
+  return response.data;
+};
+
 export const getUserProfile = async (id: string) => {
   const response = await api.get(`/auth/profile/${id}`);
   const data = response.data;
@@ -94,6 +212,8 @@ export const getUserProfile = async (id: string) => {
     fullName: data.fullName,
     email: data.email,
     role: data.role,
+    isApproved: data.isApproved ?? false,
+    isSuspended: data.isSuspended ?? false,
     location: data.location,
   };
 };
@@ -126,9 +246,11 @@ export const updateProduct = async (id: string, productData: Product) => {
   }
 };
 
-export const getProducts = async () => {
+export const getProducts = async (
+  params: ProductQuery = {},
+): Promise<ProductPage> => {
   try {
-    const response = await api.get("/products");
+    const response = await api.get("/products", { params });
     return response.data;
   } catch (error: unknown) {
     if (axios.isAxiosError(error)) {
@@ -160,9 +282,16 @@ export const deleteProduct = async (id: string) => {
   }
 };
 
-export const updateStock = async (id: string, stock: number) => {
+export const updateStock = async (
+  id: string,
+  stock: number,
+  variantId?: string,
+) => {
   try {
-    const response = await api.put(`/products/${id}/stock`, { stock });
+    const response = await api.put(`/products/${id}/stock`, {
+      stock,
+      variantId,
+    });
     return response.data;
   } catch (err) {
     console.error("Failed to update stock", err);
@@ -185,12 +314,14 @@ export const getProductListing = async (sellerId: string) => {
 
 export const addToCart = async (payload: {
   productId: string;
+  variantId?: string;
   quantity: number;
 
 }) => {
   try {
     const cartPayload = {
           productId: payload.productId,
+          variantId: payload.variantId,
           quantity: payload.quantity,
         
     };
@@ -215,9 +346,17 @@ export const addToCart = async (payload: {
   }
 };
 
-export const updateCart = async (productId: string, quantity: number) => {
+export const updateCart = async (
+  productId: string,
+  quantity: number,
+  variantId?: string,
+) => {
   try {
-    const response = await api.put(`/cart/${productId}`, { quantity });
+    const response = await api.put(
+      `/cart/${productId}`,
+      { quantity },
+      { params: { variantId } },
+    );
     return response.data; // { success: true, cart }
   } catch (err) {
     console.error("Failed to update cart", err);
@@ -228,9 +367,11 @@ export const updateCart = async (productId: string, quantity: number) => {
   }
 };
 
-export const removeFromCart = async (productId: string) => {
+export const removeFromCart = async (productId: string, variantId?: string) => {
   try {
-    const response = await api.delete(`/cart/${productId}`);
+    const response = await api.delete(`/cart/${productId}`, {
+      params: { variantId },
+    });
     return response.data;
   } catch (err) {
     console.error("Failed to remove from cart:", err);
@@ -274,6 +415,80 @@ export const addReview = async (data: Review) => {
   }
 };
 
+export const updateReview = async (
+  id: string,
+  data: Pick<Review, "content" | "stars">
+) => {
+  try {
+    const res = await api.put(`/review/${id}`, data);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to update Review", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to update review");
+    }
+    throw err;
+  }
+};
+
+export const getMyReview = async (productId: string) => {
+  try {
+    const res = await api.get(`/review/mine/${productId}`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get your review", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get your review");
+    }
+    throw err;
+  }
+};
+
+export const markReviewHelpful = async (id: string, helpful: boolean) => {
+  try {
+    const res = helpful
+      ? await api.post(`/review/${id}/helpful`)
+      : await api.delete(`/review/${id}/helpful`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to vote on review", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to vote on review");
+    }
+    throw err;
+  }
+};
+
+export const replyToReview = async (id: string, content: string) => {
+  try {
+    const res = await api.post(`/review/${id}/replies`, { content });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to reply to review", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to reply to review");
+    }
+    throw err;
+  }
+};
+
+export const reportReview = async (
+  id: string,
+  reason: ReviewReportReason,
+  note?: string
+) => {
+  try {
+    const res = await api.post(`/review/${id}/report`, { reason, note });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to report review", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to report review");
+    }
+    throw err;
+  }
+};
+
 export const getReviews = async (sellerId: string) => {
   try {
     const res = await api.get(`/review/seller/${sellerId}`);
@@ -308,6 +523,33 @@ export const order = async (payload: makeOrder) => {
   }
 };
 
+// The cart comes back with `couponCode`, `discount` and the reduced `total`
+export const applyCoupon = async (code: string) => {
+  try {
+    const response = await api.post("/cart/coupon", { code });
+    return response.data;
+  } catch (err) {
+    console.error("Failed to apply coupon:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to apply coupon");
+    }
+    throw err;
+  }
+};
+
+export const removeCoupon = async () => {
+  try {
+    const response = await api.delete("/cart/coupon");
+    return response.data;
+  } catch (err) {
+    console.error("Failed to remove coupon:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to remove coupon");
+    }
+    throw err;
+  }
+};
+
 export const getOrder = async (id: string) => {
   try {
     const response = await api.get(`/order/seller/${id}`); // or /order/buyer/${id}
@@ -364,9 +606,27 @@ export const getSellerOrders = async (sellerId: string) => {
   }
 };
 
-export const updateOrderStatus = async (orderId: string, status: string) => {
+// Cancelling restores stock, so it has its own endpoint
+export const cancelOrder = async (orderId: string, note?: string) => {
+  try {
+    const response = await api.put(`/order/cancel/${orderId}`, { note });
+    return response.data;
+  } catch (err) {
+    console.error("Failed to cancel order:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to cancel order");
+    }
+    throw err;
+  }
+};
+
+export const updateOrderStatus = async (
+  orderId: string,
+  status: string,
+  note?: string,
+) => {
   try {
-    const response = await api.put(`/order/${orderId}`, { status });
+    const response = await api.put(`/order/${orderId}`, { status, note });
     return response.data;
   } catch (err) {
     console.error("Failed to update order status:", err);
@@ -379,6 +639,52 @@ export const updateOrderStatus = async (orderId: string, status: string) => {
   }
 };
 
+export const addProductImages = async (id: string, formData: FormData) => {
+  try {
+    const response = await api.post(`/products/${id}/images`, formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+    });
+    return response.data;
+  } catch (err) {
+    console.error("Failed to upload product images:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to upload images");
+    }
+    throw err;
+  }
+};
+
+// The first URL becomes the cover
+export const arrangeProductImages = async (id: string, images: string[]) => {
+  try {
+    const response = await api.put(`/products/${id}/images`, { images });
+    return response.data;
+  } catch (err) {
+    console.error("Failed to reorder product images:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to reorder images");
+    }
+    throw err;
+  }
+};
+
+export const deleteProductImage = async (id: string, url: string) => {
+  try {
+    const response = await api.delete(`/products/${id}/images`, {
+      params: { url },
+    });
+    return response.data;
+  } catch (err) {
+    console.error("Failed to delete product image:", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to delete image");
+    }
+    throw err;
+  }
+};
+
 export const updateProductWithImage = async (
   id: string,
   formData: FormData,
@@ -424,15 +730,22 @@ export const updateSellerLocation = async (locationData: {
 };
 
 /**
- * Calculate shipping cost based on product and buyer's delivery city
+ * Quote shipping for cart lines to the buyer's delivery city, priced per
+ * seller by the server's rate tables
  */
-export const calculateShipping = async (productId: string, buyerCity: string) => {
+export const quoteShipping = async (
+  items: { product: string; variant?: string | null; quantity: number }[],
+  buyerCity: string,
+  // a pinned address is priced from its coordinates rather than the town
+  pin?: { latitude: number; longitude: number } | null,
+) => {
   try {
     const response = await api.post("/order/calculate-shipping", {
-      productId,
+      items,
       buyerCity,
+      ...(pin ?? {}),
     });
-    return response.data;
+    return response.data as ShippingQuoteResponse;
   } catch (err) {
     console.error("Failed to calculate shipping:", err);
     if (axios.isAxiosError(err)) {
@@ -443,3 +756,450 @@ export const calculateShipping = async (productId: string, buyerCity: string) =>
     throw err;
   }
 };
+
+export const getNotifications = async (
+  params: { before?: string; unread?: boolean; limit?: number } = {}
+): Promise<NotificationPage> => {
+  try {
+    const res = await api.get("/notifications", { params });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get notifications", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get notifications");
+    }
+    throw err;
+  }
+};
+
+export const markNotificationRead = async (id: string) => {
+  try {
+    const res = await api.patch(`/notifications/${id}/read`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to mark notification read", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to update notification");
+    }
+    throw err;
+  }
+};
+
+export const markAllNotificationsRead = async () => {
+  try {
+    const res = await api.patch("/notifications/read-all");
+    return res.data;
+  } catch (err) {
+    console.error("Failed to mark notifications read", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to update notifications");
+    }
+    throw err;
+  }
+};
+
+export const registerPushToken = async (token: string) => {
+  try {
+    const res = await api.post("/notifications/push-token", { token });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to register push token", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to register for notifications");
+    }
+    throw err;
+  }
+};
+
+export const unregisterPushToken = async (token: string) => {
+  try {
+    const res = await api.delete("/notifications/push-token", { data: { token } });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to unregister push token", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to unregister from notifications");
+    }
+    throw err;
+  }
+};
+
+export const getConversations = async (): Promise<{
+  conversations: Conversation[];
+  unreadCount: number;
+}> => {
+  try {
+    const res = await api.get("/conversations");
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get conversations", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get conversations");
+    }
+    throw err;
+  }
+};
+
+// Returns the existing thread for the product or order, or starts one
+export const openConversation = async (
+  target: { productId: string } | { orderId: string }
+): Promise<Conversation> => {
+  try {
+    const res = await api.post("/conversations", target);
+    return res.data.conversation;
+  } catch (err) {
+    console.error("Failed to open conversation", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to open conversation");
+    }
+    throw err;
+  }
+};
+
+export const getConversation = async (id: string): Promise<Conversation> => {
+  try {
+    const res = await api.get(`/conversations/${id}`);
+    return res.data.conversation;
+  } catch (err) {
+    console.error("Failed to get conversation", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get conversation");
+    }
+    throw err;
+  }
+};
+
+export const getConversationMessages = async (
+  id: string,
+  before?: string
+): Promise<{ messages: ChatMessage[]; nextCursor: string | null }> => {
+  try {
+    const res = await api.get(`/conversations/${id}/messages`, {
+      params: before ? { before } : {},
+    });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get messages", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get messages");
+    }
+    throw err;
+  }
+};
+
+export const sendConversationMessage = async (
+  id: string,
+  body: string
+): Promise<ChatMessage> => {
+  try {
+    const res = await api.post(`/conversations/${id}/messages`, { body });
+    return res.data.message;
+  } catch (err) {
+    console.error("Failed to send message", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to send message");
+    }
+    throw err;
+  }
+};
+
+export const markConversationRead = async (id: string) => {
+  try {
+    const res = await api.patch(`/conversations/${id}/read`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to mark conversation read", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to update conversation");
+    }
+    throw err;
+  }
+};
+
+// WebSocket endpoint next to the REST API, e.g. wss://host/api/v1/ws
+export const chatSocketUrl = (token: string) =>
+  `${ApiUrl.replace(/^http/, "ws").replace(/\/+$/, "")}/ws?token=${encodeURIComponent(token)}`;
+
+export const getWishlist = async (): Promise<{ items: WishlistItem[] }> => {
+  try {
+    const res = await api.get("/wishlist");
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get wishlist", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get wishlist");
+    }
+    throw err;
+  }
+};
+
+export const addToWishlist = async (
+  productId: string,
+  variantId?: string
+): Promise<{ items: WishlistItem[] }> => {
+  try {
+    const res = await api.post("/wishlist", {
+      productId,
+      ...(variantId ? { variantId } : {}),
+    });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to add to wishlist", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to add to wishlist");
+    }
+    throw err;
+  }
+};
+
+export const removeFromWishlist = async (
+  productId: string
+): Promise<{ items: WishlistItem[] }> => {
+  try {
+    const res = await api.delete(`/wishlist/${productId}`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to remove from wishlist", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to remove from wishlist");
+    }
+    throw err;
+  }
+};
+
+// Adds the saved product to the cart and takes it off the wishlist
+export const moveWishlistItemToCart = async (
+  productId: string,
+  options: { variantId?: string; quantity?: number } = {}
+) => {
+  try {
+    const res = await api.post(`/wishlist/${productId}/move-to-cart`, options);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to move wishlist item to cart", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to move item to cart");
+    }
+    throw err;
+  }
+};
+
+export const getProductAlerts = async (): Promise<{ alerts: ProductAlert[] }> => {
+  try {
+    const res = await api.get("/alerts");
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get product alerts", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get product alerts");
+    }
+    throw err;
+  }
+};
+
+// Creates the alert, or replaces the settings of an existing one
+export const subscribeToProduct = async (
+  productId: string,
+  options: ProductAlertInput = {}
+): Promise<{ alert: ProductAlert }> => {
+  try {
+    const res = await api.post("/alerts", { productId, ...options });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to save product alert", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to save product alert");
+    }
+    throw err;
+  }
+};
+
+export const unsubscribeFromProduct = async (productId: string) => {
+  try {
+    const res = await api.delete(`/alerts/${productId}`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to remove product alert", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to remove product alert");
+    }
+    throw err;
+  }
+};
+
+export const getAddresses = async (): Promise<{ addresses: Address[] }> => {
+  try {
+    const res = await api.get("/addresses");
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get addresses", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get addresses");
+    }
+    throw err;
+  }
+};
+
+export const createAddress = async (
+  input: AddressInput
+): Promise<{ address: Address; addresses: Address[] }> => {
+  try {
+    const res = await api.post("/addresses", input);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to save address", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to save address");
+    }
+    throw err;
+  }
+};
+
+export const updateAddress = async (
+  id: string,
+  input: AddressInput
+): Promise<{ address: Address; addresses: Address[] }> => {
+  try {
+    const res = await api.patch(`/addresses/${id}`, input);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to update address", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to update address");
+    }
+    throw err;
+  }
+};
+
+export const deleteAddress = async (id: string): Promise<{ addresses: Address[] }> => {
+  try {
+    const res = await api.delete(`/addresses/${id}`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to delete address", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to delete address");
+    }
+    throw err;
+  }
+};
+
+// Buyers get their refunds, sellers the ones they owe
+export const getRefunds = async (status?: RefundStatus): Promise<{ refunds: Refund[] }> => {
+  try {
+    const res = await api.get("/refunds", { params: status ? { status } : {} });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get refunds", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get refunds");
+    }
+    throw err;
+  }
+};
+
+// Approving sends the money to the buyer straight away
+export const approveRefund = async (id: string): Promise<{ refund: Refund }> => {
+  try {
+    const res = await api.patch(`/refunds/${id}/approve`);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to approve refund", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to approve refund");
+    }
+    throw err;
+  }
+};
+
+export const getClaims = async (
+  params: { orderId?: string; status?: Claim["status"] } = {}
+): Promise<{ claims: Claim[] }> => {
+  try {
+    const res = await api.get("/claims", { params });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get claims", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get claims");
+    }
+    throw err;
+  }
+};
+
+// orderId, type, reason, description and up to 6 `photos`
+export const openClaim = async (formData: FormData): Promise<{ claim: Claim }> => {
+  try {
+    const res = await api.post("/claims", formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+    });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to open claim", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to open claim");
+    }
+    throw err;
+  }
+};
+
+// Seller's answer; `amount` only for partial refunds
+export const respondToClaim = async (
+  id: string,
+  body: { decision: ClaimDecision; amount?: number; note?: string }
+): Promise<{ claim: Claim; refund: Refund | null }> => {
+  try {
+    const res = await api.patch(`/claims/${id}/respond`, body);
+    return res.data;
+  } catch (err) {
+    console.error("Failed to respond to claim", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to respond to claim");
+    }
+    throw err;
+  }
+};
+
+export const escalateClaim = async (id: string, note?: string): Promise<{ claim: Claim }> => {
+  try {
+    const res = await api.patch(`/claims/${id}/escalate`, { note });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to escalate claim", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to escalate claim");
+    }
+    throw err;
+  }
+};
+
+export const withdrawClaim = async (id: string): Promise<{ claim: Claim }> => {
+  try {
+    const res = await api.patch(`/claims/${id}/withdraw`, {});
+    return res.data;
+  } catch (err) {
+    console.error("Failed to withdraw claim", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to withdraw claim");
+    }
+    throw err;
+  }
+};
+
+// `from`/`to` are YYYY-MM-DD days; the server defaults to the last 30 days
+export const getSellerAnalytics = async (
+  params: { from?: string; to?: string; interval?: AnalyticsInterval } = {}
+): Promise<SellerAnalytics> => {
+  try {
+    const res = await api.get("/analytics", { params });
+    return res.data;
+  } catch (err) {
+    console.error("Failed to get sales analytics", err);
+    if (axios.isAxiosError(err)) {
+      throw new Error(err.response?.data?.message || "Failed to get sales analytics");
+    }
+    throw err;
+  }
+};
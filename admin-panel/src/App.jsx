@@ -1,11 +1,21 @@
 import { Route, Routes } from "react-router-dom";
 import "./App.css";
 import Sidebar from "./components/Sidebar";
+import ActivityPage from "./pages/ActivityPage";
 import Dashboard from "./pages/Dashboard";
+import LoginPage from "./pages/LoginPage";
+import ReviewsPage from "./pages/ReviewsPage";
 import Settings from "./pages/Settings";
 import UsersPage from "./pages/UsersPage";
+import { useAuthStore } from "./store";
 
 function App() {
+  const token = useAuthStore((state) => state.token);
+
+  if (!token) {
+    return <LoginPage />;
+  }
+
   return (
     <div className="admin-layout">
       <Sidebar />
@@ -13,6 +23,8 @@ function App() {
         <Routes>
           <Route path="/" element={<Dashboard />} />
           <Route path="/users" element={<UsersPage />} />
+          <Route path="/reviews" element={<ReviewsPage />} />
+          <Route path="/activity" element={<ActivityPage />} />
           <Route path="/settings" element={<Settings />} />
         </Routes>
       </main>
@@ -3,6 +3,10 @@ import axios from "axios";
 const baseURL =
   process.env.REACT_APP_API_URL || "http://localhost:3000/api/v1/admin";
 
+// Login lives under /auth, a sibling of the /admin base path
+const authURL =
+  process.env.REACT_APP_AUTH_URL || baseURL.replace(/\/admin\/?$/, "/auth");
+
 export const api = axios.create({
   baseURL,
   headers: {
@@ -10,6 +14,22 @@ export const api = axios.create({
   },
 });
 
+// Add token to requests automatically
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
+  } else {
+    delete api.defaults.headers.common["Authorization"];
+  }
+};
+
+let onUnauthorized: (() => void) | null = null;
+
+// Lets the store log out when the server rejects the token
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
 // Add request interceptor to log failed requests
 api.interceptors.response.use(
   (response) => response,
@@ -19,11 +39,24 @@ api.interceptors.response.use(
       data: error.response?.data,
       url: error.config?.url,
     });
+    if (error.response?.status === 401 && onUnauthorized) {
+      onUnauthorized();
+    }
     return Promise.reject(error);
   },
 );
 
+export const loginAdmin = (email: string, password: string) =>
+  axios.post(`${authURL}/login`, { email, password });
+
 export const fetchUsers = () => api.get("/users");
 export const approveUser = (id: string) => api.patch(`/users/${id}/approve`);
 export const suspendUser = (id: string) => api.patch(`/users/${id}/suspend`);
 export const deleteUser = (id: string) => api.delete(`/users/${id}`);
+export const fetchAuditLog = () => api.get("/audit-log");
+export const fetchReviewQueue = (status: "reported" | "hidden" = "reported") =>
+  api.get("/reviews", { params: { status } });
+export const hideReview = (id: string, note?: string) =>
+  api.patch(`/reviews/${id}/hide`, { note });
+export const restoreReview = (id: string, note?: string) =>
+  api.patch(`/reviews/${id}/restore`, { note });
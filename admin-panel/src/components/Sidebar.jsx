@@ -1,8 +1,10 @@
 import { Link, useLocation } from "react-router-dom";
+import { useAuthStore } from "../store";
 import "./Sidebar.css";
 
 const Sidebar = () => {
   const location = useLocation();
+  const { admin, logout } = useAuthStore();
 
   const isActive = (path) => location.pathname === path;
 
@@ -35,6 +37,24 @@ const Sidebar = () => {
               <span className="nav-text">Users</span>
             </Link>
           </li>
+          <li>
+            <Link
+              to="/reviews"
+              className={`nav-link ${isActive("/reviews") ? "active" : ""}`}
+            >
+              <span className="nav-icon">🚩</span>
+              <span className="nav-text">Reviews</span>
+            </Link>
+          </li>
+          <li>
+            <Link
+              to="/activity"
+              className={`nav-link ${isActive("/activity") ? "active" : ""}`}
+            >
+              <span className="nav-icon">📜</span>
+              <span className="nav-text">Activity</span>
+            </Link>
+          </li>
           <li>
             <Link
               to="/settings"
@@ -49,6 +69,10 @@ const Sidebar = () => {
 
       {/* Footer Info */}
       <div className="sidebar-footer">
+        {admin && <p>{admin.email}</p>}
+        <button className="logout-btn" onClick={logout}>
+          Log out
+        </button>
         <p>v1.0.0</p>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import { useAdminStore } from "../store";
+import "../components/UsersTable.css";
+import "./UsersPage.css";
+
+const ACTION_LABELS = {
+  approve_user: "Approved user",
+  suspend_user: "Suspended user",
+  reactivate_user: "Reactivated user",
+  delete_user: "Deleted user",
+  hide_review: "Hid review",
+  restore_review: "Restored review",
+};
+
+const ActivityPage = () => {
+  const { auditLog, isLoading, error, loadAuditLog } = useAdminStore();
+
+  useEffect(() => {
+    loadAuditLog();
+  }, [loadAuditLog]);
+
+  return (
+    <div className="users-page-container">
+      <div className="page-header">
+        <h1>Activity Log</h1>
+        <p>Every change made by an admin, newest first</p>
+      </div>
+
+      <div className="users-content">
+        {error && (
+          <div className="error-banner">
+            <span>⚠️</span> {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="loading-state">
+            <p>Loading activity...</p>
+          </div>
+        ) : (
+          <table className="users-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Admin</th>
+                <th>Action</th>
+                <th>Target</th>
+              </tr>
+            </thead>
+            <tbody>
+              {auditLog.length === 0 ? (
+                <tr>
+                  <td colSpan={4} style={{ textAlign: "center", padding: "16px" }}>
+                    No admin activity yet
+                  </td>
+                </tr>
+              ) : (
+                auditLog.map((entry) => (
+                  <tr key={entry._id}>
+                    <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td>{entry.admin?.fullName || entry.admin?.email || "Unknown"}</td>
+                    <td>{ACTION_LABELS[entry.action] || entry.action}</td>
+                    <td>
+                      {entry.targetReview
+                        ? `Review ${entry.targetReview}`
+                        : entry.targetEmail || entry.targetUser}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityPage;
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { useAuthStore } from "../store";
+import "./LoginPage.css";
+
+const LoginPage = () => {
+  const { login, isLoading, error } = useAuthStore();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+    try {
+      await login(email, password);
+    } catch (err) {
+      console.error("Login error:", err);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <form className="login-card" onSubmit={handleSubmit}>
+        <div className="login-brand">
+          <h2>🛋️ FurnitureApp</h2>
+          <p>Admin Panel</p>
+        </div>
+
+        {error && (
+          <div className="error-banner">
+            <span>⚠️</span> {error}
+          </div>
+        )}
+
+        <div className="login-group">
+          <label>Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="username"
+            required
+          />
+        </div>
+        <div className="login-group">
+          <label>Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        <button className="login-btn" type="submit" disabled={isLoading}>
+          {isLoading ? "Signing in..." : "Sign In"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPage;
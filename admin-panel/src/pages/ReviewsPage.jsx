@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useAdminStore } from "../store";
+import "../components/UsersTable.css";
+import "./UsersPage.css";
+
+const REASON_LABELS = {
+  abusive: "Abusive",
+  spam: "Spam",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+const ReviewsPage = () => {
+  const { reviews, isLoading, error, loadReviews, hide, restore } =
+    useAdminStore();
+  const [queue, setQueue] = useState("reported");
+  const [busyId, setBusyId] = useState(null);
+
+  useEffect(() => {
+    loadReviews(queue);
+  }, [loadReviews, queue]);
+
+  const handleHide = async (id) => {
+    const note = window.prompt("Why is this review being hidden? (optional)");
+    if (note === null) return;
+    setBusyId(id);
+    try {
+      await hide(id, note);
+    } catch (err) {
+      console.error("Hide review error:", err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async (id) => {
+    setBusyId(id);
+    try {
+      await restore(id);
+    } catch (err) {
+      console.error("Restore review error:", err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="users-page-container">
+      <div className="page-header">
+        <h1>Review Moderation</h1>
+        <p>Reviews reported by buyers, and the ones you have hidden</p>
+      </div>
+
+      <div className="filter-tabs">
+        <button
+          onClick={() => setQueue("reported")}
+          className={`tab-button ${queue === "reported" ? "active" : ""}`}
+        >
+          <span className="tab-icon">🚩</span>
+          <span className="tab-label">Reported</span>
+        </button>
+        <button
+          onClick={() => setQueue("hidden")}
+          className={`tab-button ${queue === "hidden" ? "active" : ""}`}
+        >
+          <span className="tab-icon">🙈</span>
+          <span className="tab-label">Hidden</span>
+        </button>
+      </div>
+
+      <div className="users-content">
+        {error && (
+          <div className="error-banner">
+            <span>⚠️</span> {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="loading-state">
+            <p>Loading reviews...</p>
+          </div>
+        ) : (
+          <table className="users-table">
+            <thead>
+              <tr>
+                <th>Product</th>
+                <th>Reviewer</th>
+                <th>Review</th>
+                <th>{queue === "reported" ? "Reports" : "Hidden"}</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reviews.length === 0 ? (
+                <tr>
+                  <td colSpan={5} style={{ textAlign: "center", padding: "16px" }}>
+                    {queue === "reported"
+                      ? "Nothing waiting for review"
+                      : "No hidden reviews"}
+                  </td>
+                </tr>
+              ) : (
+                reviews.map((review) => (
+                  <tr key={review._id}>
+                    <td>{review.product?.name || "Deleted product"}</td>
+                    <td>{review.user?.fullName || review.user?.email || "Unknown"}</td>
+                    <td>
+                      {"★".repeat(review.stars || 0)} {review.content}
+                    </td>
+                    <td>
+                      {queue === "reported"
+                        ? (review.reports || []).map((report, i) => (
+                            <div key={i}>
+                              {REASON_LABELS[report.reason] || report.reason}
+                              {report.note ? `: ${report.note}` : ""}
+                            </div>
+                          ))
+                        : review.moderation?.note || "—"}
+                    </td>
+                    <td>
+                      {review.status !== "hidden" && (
+                        <button
+                          className="delete-btn"
+                          disabled={busyId === review._id}
+                          onClick={() => handleHide(review._id)}
+                        >
+                          Hide
+                        </button>
+                      )}
+                      <button
+                        className="approve-btn"
+                        disabled={busyId === review._id}
+                        onClick={() => handleRestore(review._id)}
+                      >
+                        {review.status === "hidden" ? "Restore" : "Keep"}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewsPage;
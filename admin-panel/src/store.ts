@@ -1,8 +1,16 @@
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
 import {
     approveUser,
     deleteUser,
+    fetchAuditLog,
+    fetchReviewQueue,
     fetchUsers,
+    hideReview,
+    loginAdmin,
+    restoreReview,
+    setAuthToken,
+    setUnauthorizedHandler,
     suspendUser,
 } from "./api";
 
@@ -10,16 +18,110 @@ export type AdminUser = {
   _id: string;
   fullName?: string;
   email: string;
-  role: "buyer" | "seller" | string;
+  role: "buyer" | "seller" | "admin" | string;
   isApproved?: boolean;
   isSuspended?: boolean;
 };
 
+export type AuditEntry = {
+  _id: string;
+  admin?: { _id: string; fullName?: string; email?: string } | null;
+  action:
+    | "approve_user"
+    | "suspend_user"
+    | "reactivate_user"
+    | "delete_user"
+    | "hide_review"
+    | "restore_review";
+  targetUser?: string;
+  targetEmail?: string;
+  targetReview?: string;
+  changes?: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export type ModeratedReview = {
+  _id: string;
+  user?: { _id: string; fullName?: string; email?: string } | null;
+  product?: { _id: string; name?: string; image?: string } | null;
+  content: string;
+  stars: number;
+  status: "published" | "hidden";
+  needsModeration?: boolean;
+  reports?: {
+    user?: { _id: string; fullName?: string; email?: string } | null;
+    reason: string;
+    note?: string;
+    createdAt?: string;
+  }[];
+  moderation?: { at?: string; note?: string };
+  createdAt: string;
+};
+
+export type ReviewQueue = "reported" | "hidden";
+
+type AuthState = {
+  token: string | null;
+  admin: AdminUser | null;
+  isLoading: boolean;
+  error: string | null;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => void;
+};
+
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      token: null,
+      admin: null,
+      isLoading: false,
+      error: null,
+
+      login: async (email: string, password: string) => {
+        set({ isLoading: true, error: null });
+        try {
+          const { data } = await loginAdmin(email, password);
+          if (data?.user?.role !== "admin") {
+            throw new Error("This account does not have admin access");
+          }
+          setAuthToken(data.token);
+          set({ token: data.token, admin: data.user, isLoading: false });
+        } catch (err: any) {
+          const errorMsg = err?.response?.data?.message || err?.message || "Login failed";
+          set({ isLoading: false, error: errorMsg, token: null, admin: null });
+          throw new Error(errorMsg);
+        }
+      },
+
+      logout: () => {
+        setAuthToken(null);
+        set({ token: null, admin: null, error: null, isLoading: false });
+      },
+    }),
+    {
+      name: "admin_auth",
+      partialize: (state) => ({ token: state.token, admin: state.admin }),
+      onRehydrateStorage: () => (state) => {
+        if (state?.token) setAuthToken(state.token);
+      },
+    },
+  ),
+);
+
+setUnauthorizedHandler(() => useAuthStore.getState().logout());
+
 type AdminState = {
   users: AdminUser[];
+  auditLog: AuditEntry[];
+  reviews: ModeratedReview[];
   isLoading: boolean;
   error: string | null;
   loadUsers: () => Promise<void>;
+  loadAuditLog: () => Promise<void>;
+  loadReviews: (queue: ReviewQueue) => Promise<void>;
+  // both take the review off the current queue
+  hide: (id: string, note?: string) => Promise<void>;
+  restore: (id: string, note?: string) => Promise<void>;
   approve: (id: string) => Promise<void>;
   suspend: (id: string) => Promise<void>;
   remove: (id: string) => Promise<void>;
@@ -27,6 +129,8 @@ type AdminState = {
 
 export const useAdminStore = create<AdminState>((set, get) => ({
   users: [],
+  auditLog: [],
+  reviews: [],
   isLoading: false,
   error: null,
 
@@ -42,6 +146,54 @@ export const useAdminStore = create<AdminState>((set, get) => ({
     }
   },
 
+  loadAuditLog: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data } = await fetchAuditLog();
+      set({ auditLog: data || [], isLoading: false });
+    } catch (err: any) {
+      const errorMsg = err?.response?.data?.message || err?.message || "Failed to fetch activity log";
+      set({ isLoading: false, error: errorMsg });
+      console.error("Failed to fetch activity log:", err);
+    }
+  },
+
+  loadReviews: async (queue: ReviewQueue) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data } = await fetchReviewQueue(queue);
+      set({ reviews: data || [], isLoading: false });
+    } catch (err: any) {
+      const errorMsg = err?.response?.data?.message || err?.message || "Failed to fetch reviews";
+      set({ isLoading: false, error: errorMsg });
+      console.error("Failed to fetch reviews:", err);
+    }
+  },
+
+  hide: async (id: string, note?: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      await hideReview(id, note);
+      set({ reviews: get().reviews.filter((r) => r._id !== id), isLoading: false });
+    } catch (err: any) {
+      const errorMsg = err?.response?.data?.message || err?.message || "Failed to hide review";
+      set({ isLoading: false, error: errorMsg });
+      throw new Error(errorMsg);
+    }
+  },
+
+  restore: async (id: string, note?: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      await restoreReview(id, note);
+      set({ reviews: get().reviews.filter((r) => r._id !== id), isLoading: false });
+    } catch (err: any) {
+      const errorMsg = err?.response?.data?.message || err?.message || "Failed to restore review";
+      set({ isLoading: false, error: errorMsg });
+      throw new Error(errorMsg);
+    }
+  },
+
   approve: async (id: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -1,8 +1,20 @@
 import { setAuthToken } from "@/SERVICE/api";
 import { useAuthStore } from "@/stores/authStore";
+import { useNotificationStore } from "@/stores/notificationStore";
+import * as Notifications from "expo-notifications";
 import { Stack } from "expo-router";
 import { useEffect } from "react";
 
+// Show pushes that arrive while the app is open instead of dropping them
+Notifications.setNotificationHandler({
+	handleNotification: async () => ({
+		shouldShowBanner: true,
+		shouldShowList: true,
+		shouldPlaySound: true,
+		shouldSetBadge: false,
+	}),
+});
+
 export default function RootLayout() {
 	const { token } = useAuthStore();
 
@@ -16,6 +28,16 @@ export default function RootLayout() {
 		}
 	}, [token]);
 
+	useEffect(() => {
+		// keep the bell's count in step with pushes received in the foreground
+		const subscription = Notifications.addNotificationReceivedListener(() => {
+			if (useAuthStore.getState().token) {
+				useNotificationStore.getState().fetchNotifications();
+			}
+		});
+		return () => subscription.remove();
+	}, []);
+
 	return (
 		<Stack screenOptions={{ headerShown: false }}>
 			<Stack.Screen name="index" />
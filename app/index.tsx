@@ -1,5 +1,7 @@
 import { useAuthStore } from "@/stores/authStore";
 import { useCartStore } from "@/stores/cartStore";
+import { useChatStore } from "@/stores/chatStore";
+import { useNotificationStore } from "@/stores/notificationStore";
 import { setAuthToken } from "@/SERVICE/api";
 import React, { useEffect, useState } from "react";
 import BuyerInterface from "../components/buyer-interface/buyer-interface";
@@ -13,6 +15,8 @@ export default function Index() {
 	>("login");
 	const { user, token } = useAuthStore();
 	const { setUserId, fetchCart } = useCartStore();
+	const { registerDevice, fetchNotifications } = useNotificationStore();
+	const { connect: connectChat, reset: resetChat } = useChatStore();
 	const [hydrated, setHydrated] = useState(false);
 
 	
@@ -38,6 +42,20 @@ export default function Index() {
 		}
 	}, [token, hydrated]);
 
+	useEffect(() => {
+		if (!hydrated || !user?.id) return;
+		// once per sign-in, not on every token refresh
+		fetchNotifications();
+		registerDevice();
+	}, [user?.id, hydrated, fetchNotifications, registerDevice]);
+
+	useEffect(() => {
+		if (!hydrated) return;
+		// reconnects with the new token after each refresh, drops on logout
+		if (token) connectChat(token);
+		else resetChat();
+	}, [token, hydrated, connectChat, resetChat]);
+
 	useEffect(() => {
 		if (!hydrated) return; 
 
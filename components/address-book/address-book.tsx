@@ -0,0 +1,217 @@
+import { useAddressStore } from "@/stores/addressStore";
+import { Address } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	Alert,
+	FlatList,
+	RefreshControl,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+import AddressForm from "./address-form";
+
+// "Kimathi St, Thika, Kiambu"
+export const addressSummary = (address: Address) =>
+	[address.addressLine, address.town, address.county].filter(Boolean).join(", ");
+
+type AddressBookProps = {
+	onBack?: () => void;
+};
+
+// Saved delivery addresses, default first
+const AddressBook: React.FC<AddressBookProps> = ({ onBack }) => {
+	const { addresses, isLoading, error, fetchAddresses, remove, makeDefault } =
+		useAddressStore();
+	// undefined: form closed; null: adding a new address
+	const [editing, setEditing] = useState<Address | null | undefined>(undefined);
+
+	useEffect(() => {
+		fetchAddresses();
+	}, [fetchAddresses]);
+
+	const confirmRemove = (address: Address) => {
+		Alert.alert("Delete address", `Remove "${address.label}"?`, [
+			{ text: "Cancel", style: "cancel" },
+			{ text: "Delete", style: "destructive", onPress: () => remove(address._id) },
+		]);
+	};
+
+	const renderItem = ({ item }: { item: Address }) => (
+		<View style={styles.card}>
+			<View style={styles.cardHeader}>
+				<Text style={styles.label}>{item.label}</Text>
+				{item.isDefault && <Text style={styles.defaultBadge}>Default</Text>}
+				{item.latitude != null && (
+					<Ionicons name="location" size={16} color="#38E472" />
+				)}
+			</View>
+			<Text style={styles.recipient}>
+				{item.recipientName} · {item.phone}
+			</Text>
+			<Text style={styles.line}>{addressSummary(item)}</Text>
+			{item.landmark ? <Text style={styles.landmark}>{item.landmark}</Text> : null}
+			<View style={styles.actions}>
+				{!item.isDefault && (
+					<TouchableOpacity onPress={() => makeDefault(item._id)}>
+						<Text style={styles.action}>Set as default</Text>
+					</TouchableOpacity>
+				)}
+				<TouchableOpacity onPress={() => setEditing(item)}>
+					<Text style={styles.action}>Edit</Text>
+				</TouchableOpacity>
+				<TouchableOpacity onPress={() => confirmRemove(item)}>
+					<Ionicons name="trash-outline" size={20} color="#E47272" />
+				</TouchableOpacity>
+			</View>
+		</View>
+	);
+
+	return (
+		<View style={styles.container}>
+			<View style={styles.headerRow}>
+				<TouchableOpacity onPress={onBack} style={{ padding: 4 }}>
+					<Ionicons name="arrow-back" size={24} color="#222" />
+				</TouchableOpacity>
+				<Text style={styles.header}>Addresses</Text>
+				<TouchableOpacity onPress={() => setEditing(null)} style={{ padding: 4 }}>
+					<Ionicons name="add" size={26} color="#38E472" />
+				</TouchableOpacity>
+			</View>
+
+			{isLoading && addresses.length === 0 ? (
+				<ActivityIndicator size="large" color="#38E472" style={{ marginTop: 40 }} />
+			) : (
+				<FlatList
+					data={addresses}
+					keyExtractor={(item) => item._id}
+					renderItem={renderItem}
+					contentContainerStyle={styles.listContent}
+					refreshControl={
+						<RefreshControl refreshing={false} onRefresh={fetchAddresses} />
+					}
+					ListHeaderComponent={
+						error ? <Text style={styles.errorText}>{error}</Text> : null
+					}
+					ListEmptyComponent={
+						<View style={styles.empty}>
+							<Ionicons name="home-outline" size={64} color="#E7F3EC" />
+							<Text style={styles.emptyText}>No saved addresses</Text>
+							<Text style={styles.emptySubtext}>
+								Add one to check out faster
+							</Text>
+						</View>
+					}
+					showsVerticalScrollIndicator={false}
+				/>
+			)}
+
+			<AddressForm
+				visible={editing !== undefined}
+				address={editing ?? null}
+				onClose={() => setEditing(undefined)}
+			/>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+		padding: 24,
+	},
+	headerRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		marginBottom: 16,
+		marginTop: 28,
+	},
+	header: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	listContent: {
+		paddingBottom: 100,
+	},
+	card: {
+		backgroundColor: "#fff",
+		borderRadius: 12,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		padding: 12,
+		marginBottom: 12,
+	},
+	cardHeader: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 8,
+	},
+	label: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	defaultBadge: {
+		fontSize: 11,
+		fontWeight: "bold",
+		color: "#fff",
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingHorizontal: 6,
+		paddingVertical: 2,
+		overflow: "hidden",
+	},
+	recipient: {
+		fontSize: 14,
+		color: "#222",
+		marginTop: 4,
+	},
+	line: {
+		fontSize: 14,
+		color: "#555",
+	},
+	landmark: {
+		fontSize: 13,
+		color: "#7CB798",
+		fontStyle: "italic",
+	},
+	actions: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "flex-end",
+		gap: 16,
+		marginTop: 8,
+	},
+	action: {
+		color: "#38E472",
+		fontWeight: "bold",
+	},
+	errorText: {
+		color: "red",
+		marginBottom: 8,
+	},
+	empty: {
+		alignItems: "center",
+		paddingVertical: 40,
+	},
+	emptyText: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+		marginTop: 12,
+	},
+	emptySubtext: {
+		fontSize: 14,
+		color: "#7CB798",
+		marginTop: 4,
+	},
+});
+
+export default AddressBook;
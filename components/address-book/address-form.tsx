@@ -0,0 +1,382 @@
+import { useAddressStore } from "@/stores/addressStore";
+import { Address } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import * as Location from "expo-location";
+import React, { useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	Alert,
+	KeyboardAvoidingView,
+	Modal,
+	Platform,
+	Pressable,
+	ScrollView,
+	StyleSheet,
+	Switch,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+const LABELS = ["Home", "Work", "Other"];
+
+type Pin = { latitude: number; longitude: number };
+
+type AddressFormProps = {
+	visible: boolean;
+	// null adds a new address
+	address: Address | null;
+	onClose: () => void;
+	onSaved?: (address: Address) => void;
+};
+
+/**
+ * Add or edit a saved delivery address. "Pin my location" stores the
+ * phone's GPS position so shipping is priced from where the buyer really is.
+ */
+const AddressForm: React.FC<AddressFormProps> = ({
+	visible,
+	address,
+	onClose,
+	onSaved,
+}) => {
+	const save = useAddressStore((state) => state.save);
+	const [label, setLabel] = useState("Home");
+	const [recipientName, setRecipientName] = useState("");
+	const [phone, setPhone] = useState("");
+	const [town, setTown] = useState("");
+	const [county, setCounty] = useState("");
+	const [addressLine, setAddressLine] = useState("");
+	const [landmark, setLandmark] = useState("");
+	const [pin, setPin] = useState<Pin | null>(null);
+	const [isDefault, setIsDefault] = useState(false);
+	const [isPinning, setIsPinning] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		if (!visible) return;
+		setLabel(address?.label ?? "Home");
+		setRecipientName(address?.recipientName ?? "");
+		setPhone(address?.phone ?? "");
+		setTown(address?.town ?? "");
+		setCounty(address?.county ?? "");
+		setAddressLine(address?.addressLine ?? "");
+		setLandmark(address?.landmark ?? "");
+		setPin(
+			address?.latitude != null && address.longitude != null
+				? { latitude: address.latitude, longitude: address.longitude }
+				: null
+		);
+		setIsDefault(address?.isDefault ?? false);
+	}, [visible, address]);
+
+	const handlePin = async () => {
+		setIsPinning(true);
+		try {
+			const { status } = await Location.requestForegroundPermissionsAsync();
+			if (status !== "granted") {
+				Alert.alert(
+					"Permission Denied",
+					"Location permission is needed to pin this address. You can still save it without a pin."
+				);
+				return;
+			}
+			const position = await Location.getCurrentPositionAsync({});
+			const { latitude, longitude } = position.coords;
+			setPin({ latitude, longitude });
+
+			// fill in the town and county if the buyer has not typed them yet
+			const [place] = await Location.reverseGeocodeAsync({ latitude, longitude });
+			if (place && !town.trim()) setTown(place.city || place.district || "");
+			if (place && !county.trim()) setCounty(place.subregion || place.region || "");
+		} catch (err) {
+			console.error("Failed to pin location", err);
+			Alert.alert("Location Error", "Could not get your location. Please try again.");
+		} finally {
+			setIsPinning(false);
+		}
+	};
+
+	const handleSave = async () => {
+		if (!recipientName.trim() || !phone.trim() || !town.trim()) {
+			Alert.alert("Missing details", "Recipient, phone and town are required.");
+			return;
+		}
+		setIsSaving(true);
+		const saved = await save(
+			{
+				label: label.trim() || "Home",
+				recipientName: recipientName.trim(),
+				phone: phone.replace(/\s/g, ""),
+				town: town.trim(),
+				county: county.trim() || null,
+				addressLine: addressLine.trim(),
+				landmark: landmark.trim(),
+				latitude: pin?.latitude ?? null,
+				longitude: pin?.longitude ?? null,
+				...(isDefault ? { isDefault: true } : {}),
+			},
+			address?._id
+		);
+		setIsSaving(false);
+		if (saved) {
+			onSaved?.(saved);
+			onClose();
+		} else {
+			Alert.alert(
+				"Could not save address",
+				useAddressStore.getState().error ?? "Please try again."
+			);
+		}
+	};
+
+	return (
+		<Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+			<KeyboardAvoidingView
+				style={styles.container}
+				behavior={Platform.OS === "ios" ? "padding" : undefined}
+			>
+				<View style={styles.header}>
+					<Pressable onPress={onClose}>
+						<Ionicons name="close" size={24} color="#222" />
+					</Pressable>
+					<Text style={styles.headerTitle}>
+						{address ? "Edit Address" : "New Address"}
+					</Text>
+					<View style={{ width: 24 }} />
+				</View>
+
+				<ScrollView contentContainerStyle={styles.content}>
+					<View style={styles.labelRow}>
+						{LABELS.map((option) => (
+							<TouchableOpacity
+								key={option}
+								style={[styles.chip, label === option && styles.chipActive]}
+								onPress={() => setLabel(option)}
+							>
+								<Text style={[styles.chipText, label === option && styles.chipTextActive]}>
+									{option}
+								</Text>
+							</TouchableOpacity>
+						))}
+					</View>
+
+					<TextInput
+						style={styles.input}
+						placeholder="Recipient name"
+						placeholderTextColor="#7CB798"
+						value={recipientName}
+						onChangeText={setRecipientName}
+					/>
+					<TextInput
+						style={styles.input}
+						placeholder="Phone, e.g. 0712345678"
+						placeholderTextColor="#7CB798"
+						value={phone}
+						onChangeText={setPhone}
+						keyboardType="phone-pad"
+					/>
+					<TextInput
+						style={styles.input}
+						placeholder="Town, e.g. Thika"
+						placeholderTextColor="#7CB798"
+						value={town}
+						onChangeText={setTown}
+					/>
+					<TextInput
+						style={styles.input}
+						placeholder="County (optional)"
+						placeholderTextColor="#7CB798"
+						value={county}
+						onChangeText={setCounty}
+					/>
+					<TextInput
+						style={styles.input}
+						placeholder="Street, building, house number"
+						placeholderTextColor="#7CB798"
+						value={addressLine}
+						onChangeText={setAddressLine}
+					/>
+					<TextInput
+						style={[styles.input, styles.multiline]}
+						placeholder="Landmark or directions for the rider"
+						placeholderTextColor="#7CB798"
+						value={landmark}
+						onChangeText={setLandmark}
+						multiline
+					/>
+
+					<View style={styles.pinRow}>
+						<Ionicons
+							name={pin ? "location" : "location-outline"}
+							size={20}
+							color={pin ? "#38E472" : "#7CB798"}
+						/>
+						<Text style={styles.pinText}>
+							{pin
+								? `Pinned at ${pin.latitude.toFixed(5)}, ${pin.longitude.toFixed(5)}`
+								: "No map pin; shipping uses the town"}
+						</Text>
+						{pin && (
+							<TouchableOpacity onPress={() => setPin(null)}>
+								<Text style={styles.pinClear}>Clear</Text>
+							</TouchableOpacity>
+						)}
+					</View>
+					<TouchableOpacity
+						style={styles.pinBtn}
+						onPress={handlePin}
+						disabled={isPinning}
+					>
+						{isPinning ? (
+							<ActivityIndicator color="#38E472" size="small" />
+						) : (
+							<Text style={styles.pinBtnText}>
+								{pin ? "Re-pin to my location" : "Pin my current location"}
+							</Text>
+						)}
+					</TouchableOpacity>
+
+					{!address?.isDefault && (
+						<View style={styles.defaultRow}>
+							<Text style={styles.defaultText}>Use as default address</Text>
+							<Switch
+								value={isDefault}
+								onValueChange={setIsDefault}
+								trackColor={{ true: "#38E472" }}
+							/>
+						</View>
+					)}
+
+					<TouchableOpacity
+						style={[styles.saveBtn, isSaving && styles.saveBtnDisabled]}
+						onPress={handleSave}
+						disabled={isSaving}
+					>
+						{isSaving ? (
+							<ActivityIndicator color="#fff" />
+						) : (
+							<Text style={styles.saveBtnText}>Save Address</Text>
+						)}
+					</TouchableOpacity>
+				</ScrollView>
+			</KeyboardAvoidingView>
+		</Modal>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		paddingHorizontal: 24,
+		paddingTop: 58,
+		paddingBottom: 16,
+	},
+	headerTitle: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	content: {
+		paddingHorizontal: 24,
+		paddingBottom: 60,
+	},
+	labelRow: {
+		flexDirection: "row",
+		gap: 8,
+		marginBottom: 12,
+	},
+	chip: {
+		borderRadius: 16,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		paddingHorizontal: 14,
+		paddingVertical: 6,
+		backgroundColor: "#fff",
+	},
+	chipActive: {
+		backgroundColor: "#38E472",
+		borderColor: "#38E472",
+	},
+	chipText: {
+		color: "#222",
+	},
+	chipTextActive: {
+		color: "#fff",
+		fontWeight: "bold",
+	},
+	input: {
+		backgroundColor: "#E7F3EC",
+		borderRadius: 6,
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		fontSize: 15,
+		color: "#222",
+		marginBottom: 10,
+	},
+	multiline: {
+		minHeight: 70,
+		textAlignVertical: "top",
+	},
+	pinRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 6,
+		marginTop: 4,
+	},
+	pinText: {
+		flex: 1,
+		color: "#7CB798",
+		fontSize: 13,
+	},
+	pinClear: {
+		color: "#E47272",
+		fontWeight: "bold",
+	},
+	pinBtn: {
+		borderWidth: 1,
+		borderColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 10,
+		alignItems: "center",
+		marginTop: 8,
+	},
+	pinBtnText: {
+		color: "#38E472",
+		fontWeight: "bold",
+	},
+	defaultRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		marginTop: 16,
+	},
+	defaultText: {
+		fontSize: 15,
+		color: "#222",
+	},
+	saveBtn: {
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 14,
+		alignItems: "center",
+		marginTop: 20,
+	},
+	saveBtnDisabled: {
+		backgroundColor: "#A0D9B4",
+	},
+	saveBtnText: {
+		color: "#fff",
+		fontWeight: "bold",
+		fontSize: 16,
+	},
+});
+
+export default AddressForm;
@@ -1,9 +1,12 @@
-import { calculateShipping } from "@/SERVICE/shippingUtils";
-import { useCartStore } from "@/stores/cartStore";
+import { useAlertStore } from "@/stores/alertStore";
+import { unitPrice, useCartStore } from "@/stores/cartStore";
+import { useChatStore } from "@/stores/chatStore";
+import { useWishlistStore } from "@/stores/wishlistStore";
 import { useOrderStore } from "@/stores/orderStore";
-import { useProductStore } from "@/stores/productStore";
+import { ProductFilters, useProductStore } from "@/stores/productStore";
+import { ChatTarget, Product, ProductSort, ProductVariant } from "@/types";
 import { Feather, Ionicons } from "@expo/vector-icons";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Dimensions,
@@ -12,6 +15,7 @@ import {
   Modal,
   Platform,
   Pressable,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
@@ -24,65 +28,143 @@ import {
 } from "react-native-safe-area-context";
 import Profile from "../buyerprofile/profile";
 import Cart from "../cart/cart";
+import ChatInbox from "../chat/chat-inbox";
+import ChatScreen from "../chat/chat-screen";
 import Checkout from "../checkout/checkout";
+import NotificationBell from "../notification-center/notification-bell";
+import VariantPicker from "../product-variants/variant-picker";
+import {
+  cartLineKey,
+  cartLineName,
+} from "../product-variants/variant-utils";
 import Receipt from "../receipt/receipt";
 import ReviewInterface from "../review-interface/review-interface";
 
+// Price buckets shown in the filter dropdown, sent to the server as a range
+const PRICE_RANGES: Record<string, { minPrice?: number; maxPrice?: number }> = {
+  "0 to 999": { minPrice: 0, maxPrice: 999 },
+  "1000 to 20000": { minPrice: 1000, maxPrice: 20000 },
+  "20001 to 29999": { minPrice: 20001, maxPrice: 29999 },
+  "30000+": { minPrice: 30000 },
+};
+
+const SORT_OPTIONS: Record<string, ProductSort> = {
+  Newest: "newest",
+  "Price: Low to High": "price_asc",
+  "Price: High to Low": "price_desc",
+  "Top Rated": "rating",
+};
+
+const SEARCH_DEBOUNCE_MS = 350;
+
 const BuyerInterface = () => {
-  const { products, fetchProducts, isLoading } = useProductStore();
+  const {
+    products,
+    fetchProducts,
+    fetchMoreProducts,
+    isLoading,
+    isLoadingMore,
+  } = useProductStore();
   const {
     items: cartItems,
     addItem,
     removeItem,
     subtotal: getSubtotal,
     shippingCost,
-    setShippingCost,
   } = useCartStore();
   const { currentOrder } = useOrderStore();
+  const unreadMessages = useChatStore((state) => state.unreadCount);
+  const {
+    savedIds,
+    toggle: toggleWishlist,
+    fetchWishlist,
+  } = useWishlistStore();
+  const { isWatching, fetchAlerts, watch, unwatch } = useAlertStore();
   const insets = useSafeAreaInsets();
   const [search, setSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [priceFilter, setPriceFilter] = useState<string | null>(null);
-  const [openDropdown, setOpenDropdown] = useState<"category" | "price" | null>(
-    null,
-  );
+  const [sortOption, setSortOption] = useState<string | null>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [openDropdown, setOpenDropdown] = useState<
+    "category" | "price" | "sort" | null
+  >(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedImage, setSelectedImage] = useState<any>(null);
   const [selectedProductId, setSelectedProductId] = useState<string | null>(
     null,
   );
+  const [selectedVariant, setSelectedVariant] =
+    useState<ProductVariant | null>(null);
   const [reviewVisible, setReviewVisible] = useState(false);
   const [showCart, setShowCart] = useState(false);
   const [showCheckout, setShowCheckout] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastOrder, setLastOrder] = useState<any>(null);
   const [showProfile, setShowProfile] = useState(false);
+  const [chatTarget, setChatTarget] = useState<ChatTarget | null>(null);
+  const [showInbox, setShowInbox] = useState(false);
 
   useEffect(() => {
-    fetchProducts();
-  }, []);
+    const timer = setTimeout(
+      () => setDebouncedSearch(search.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filters = useMemo<ProductFilters>(
+    () => ({
+      ...(debouncedSearch ? { q: debouncedSearch } : {}),
+      ...(categoryFilter ? { category: categoryFilter } : {}),
+      ...(priceFilter ? PRICE_RANGES[priceFilter] : {}),
+      ...(sortOption ? { sort: SORT_OPTIONS[sortOption] } : {}),
+    }),
+    [debouncedSearch, categoryFilter, priceFilter, sortOption],
+  );
+  const hasFilters = Object.keys(filters).length > 0;
 
-  // Calculate shipping cost whenever cart subtotal changes
+  // Hearts on the product cards reflect the saved wishlist
   useEffect(() => {
-    const subtotal = getSubtotal();
-    const newShipping = calculateShipping(subtotal);
-    setShippingCost(newShipping);
-  }, [cartItems, getSubtotal, setShippingCost]);
+    fetchWishlist();
+    fetchAlerts();
+  }, [fetchWishlist, fetchAlerts]);
+
+  // Search, filtering and sorting happen on the server
+  useEffect(() => {
+    fetchProducts(filters);
+  }, [filters, fetchProducts]);
 
   const handleImagePress = (imageUrl: string, productId: string) => {
     setSelectedImage(imageUrl);
     setSelectedProductId(productId);
+    setSelectedVariant(null);
     setModalVisible(true);
   };
 
-  const handleAddToCart = async (product: any) => {
+  const selectedProduct = selectedProductId
+    ? products.find((p) => p.id === selectedProductId)
+    : undefined;
+  const selectedVariants = selectedProduct?.variants ?? [];
+  const selectedGallery = selectedProduct?.images ?? [];
+
+  const handleVariantSelect = (variant: ProductVariant) => {
+    setSelectedVariant(variant);
+    if (variant.images?.[0]) setSelectedImage(variant.images[0]);
+  };
+
+  const handleAddToCart = async (
+    product: Product,
+    variant: ProductVariant | null = null,
+  ) => {
     try {
       console.log("🛒 Adding product to cart:", {
         product: product.id,
+        variant: variant?._id,
         name: product.name,
-        price: product.price,
+        price: variant?.price ?? product.price,
       });
-      await addItem(product, 1);
+      await addItem(product, 1, variant);
       console.log("✅ Product added to cart successfully");
     } catch (error: any) {
       console.error("❌ Failed to add product to cart:", {
@@ -96,6 +178,8 @@ const BuyerInterface = () => {
 
   const renderProduct = ({ item }: any) => {
     const isInStock = item.stock > 0;
+    // variant products are added from the product modal once an option is picked
+    const hasVariants = (item.variants?.length ?? 0) > 0;
     const sellerCity =
       item?.sellerLocation?.city || item?.seller?.location?.city || null;
     return (
@@ -122,6 +206,17 @@ const BuyerInterface = () => {
             </View>
           )}
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.heartBtn}
+          onPress={() => toggleWishlist(item.id)}
+          hitSlop={8}
+        >
+          <Ionicons
+            name={savedIds.includes(item.id) ? "heart" : "heart-outline"}
+            size={20}
+            color="#E47272"
+          />
+        </TouchableOpacity>
         <Text style={styles.cardTitle} numberOfLines={2}>
           {item.name}
         </Text>
@@ -136,16 +231,24 @@ const BuyerInterface = () => {
 
         <View style={styles.cardRow}>
           <Text style={styles.cardPrice}>
-            Ksh {item.price?.toLocaleString()}
+            {hasVariants ? "From " : ""}Ksh {item.price?.toLocaleString()}
           </Text>
           <TouchableOpacity
-            onPress={() => handleAddToCart(item)}
+            onPress={() =>
+              hasVariants
+                ? handleImagePress(item.image, item.id)
+                : handleAddToCart(item)
+            }
             disabled={!isInStock}
           >
             <Text
               style={[styles.addToCart, !isInStock && styles.addToCartDisabled]}
             >
-              {isInStock ? "Add to Cart" : "Out of Stock"}
+              {!isInStock
+                ? "Out of Stock"
+                : hasVariants
+                  ? "Choose Options"
+                  : "Add to Cart"}
             </Text>
           </TouchableOpacity>
         </View>
@@ -159,10 +262,12 @@ const BuyerInterface = () => {
 
   // Map cartItems to UI format for Checkout/Receipt
   const uiCartItems = cartItems.map((it) => ({
-    id: it.product.id,
-    name: it.product.name,
-    price: `Ksh ${it.product.price}`,
-    image: it.product.image,
+    id: cartLineKey(it),
+    productId: it.product.id,
+    variantId: it.variant?._id,
+    name: cartLineName(it),
+    price: `Ksh ${unitPrice(it)}`,
+    image: it.variant?.images?.[0] || it.product.image,
     quantity: it.quantity,
   }));
 
@@ -194,9 +299,12 @@ const BuyerInterface = () => {
     console.log("Order completed, showing receipt");
   };
 
-  const handleRemoveFromCheckout = async (productId: string) => {
+  const handleRemoveFromCheckout = async (
+    productId: string,
+    variantId?: string,
+  ) => {
     try {
-      await removeItem(productId);
+      await removeItem(productId, variantId);
       console.log("Item removed from checkout");
     } catch (error) {
       console.error("Failed to remove item:", error);
@@ -249,27 +357,6 @@ const BuyerInterface = () => {
     );
   }
 
-  // Filtering logic
-  let filteredProducts = products.filter((p) => {
-    let priceValue = p.price || 0;
-    let priceMatch = true;
-    if (priceFilter === "0 to 999")
-      priceMatch = priceValue >= 0 && priceValue <= 999;
-    else if (priceFilter === "1000 to 20000")
-      priceMatch = priceValue >= 1000 && priceValue <= 20000;
-    else if (priceFilter === "20001 to 29999")
-      priceMatch = priceValue >= 20001 && priceValue <= 29999;
-    else if (priceFilter === "30000+") priceMatch = priceValue >= 30000;
-
-    const categoryMatch =
-      !categoryFilter ||
-      p.category?.toLowerCase() === categoryFilter.toLowerCase();
-    const searchMatch =
-      !search || p.name?.toLowerCase().includes(search.toLowerCase());
-
-    return categoryMatch && priceMatch && searchMatch;
-  });
-
   const renderDropdownOverlay = () => {
     if (!openDropdown) return null;
     let options: string[] = [];
@@ -291,6 +378,13 @@ const BuyerInterface = () => {
         setOpenDropdown(null);
       };
       selected = priceFilter || "All";
+    } else if (openDropdown === "sort") {
+      options = Object.keys(SORT_OPTIONS);
+      onSelect = (option) => {
+        setSortOption(option === "Newest" ? null : option);
+        setOpenDropdown(null);
+      };
+      selected = sortOption || "Newest";
     }
     return (
       <Pressable
@@ -315,7 +409,7 @@ const BuyerInterface = () => {
     );
   };
 
-  if (isLoading && products.length === 0) {
+  if (isLoading && products.length === 0 && !hasFilters) {
     return (
       <View
         style={[
@@ -377,10 +471,28 @@ const BuyerInterface = () => {
             <Text style={styles.filterBtnText}>{priceFilter || "Price"}</Text>
           </TouchableOpacity>
         </View>
+        <View style={{ flex: 1, zIndex: 2 }}>
+          <TouchableOpacity
+            style={styles.filterBtn}
+            onPress={() =>
+              setOpenDropdown(openDropdown === "sort" ? null : "sort")
+            }
+          >
+            <Text style={styles.filterBtnText} numberOfLines={1}>
+              {sortOption || "Sort"}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Product Grid */}
-      {filteredProducts.length === 0 ? (
+      {isLoading && products.length === 0 ? (
+        <View
+          style={{ flex: 1, justifyContent: "center", alignItems: "center" }}
+        >
+          <ActivityIndicator size="large" color="#38E472" />
+        </View>
+      ) : products.length === 0 ? (
         <View
           style={{ flex: 1, justifyContent: "center", alignItems: "center" }}
         >
@@ -391,10 +503,20 @@ const BuyerInterface = () => {
         </View>
       ) : (
         <FlatList
-          data={filteredProducts}
+          data={products}
           renderItem={renderProduct}
           keyExtractor={(item) => item.id}
           numColumns={2}
+          onEndReached={fetchMoreProducts}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <ActivityIndicator
+                color="#38E472"
+                style={{ marginVertical: 16 }}
+              />
+            ) : null
+          }
           columnWrapperStyle={{ justifyContent: "space-between" }}
           contentContainerStyle={{
             paddingBottom: (styles.bottomNav.height || 56) + insets.bottom + 24,
@@ -428,6 +550,51 @@ const BuyerInterface = () => {
                 resizeMode="contain"
               />
             )}
+            {selectedGallery.length > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.thumbRow}
+              >
+                {selectedGallery.map((uri) => (
+                  <TouchableOpacity key={uri} onPress={() => setSelectedImage(uri)}>
+                    <Image
+                      source={{ uri }}
+                      style={[
+                        styles.thumb,
+                        uri === selectedImage && styles.thumbSelected,
+                      ]}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+            {selectedProduct && selectedVariants.length > 0 && (
+              <>
+                <VariantPicker
+                  variants={selectedVariants}
+                  selectedId={selectedVariant?._id ?? null}
+                  onSelect={handleVariantSelect}
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.rateBtn,
+                    !selectedVariant && styles.modalBtnDisabled,
+                  ]}
+                  disabled={!selectedVariant}
+                  onPress={async () => {
+                    await handleAddToCart(selectedProduct, selectedVariant);
+                    setModalVisible(false);
+                  }}
+                >
+                  <Text style={styles.rateBtnText}>
+                    {selectedVariant
+                      ? `Add to Cart · Ksh ${selectedVariant.price.toLocaleString()}`
+                      : "Choose an option"}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
             {/* Rate Product Button */}
             <TouchableOpacity
               style={styles.rateBtn}
@@ -438,10 +605,56 @@ const BuyerInterface = () => {
             >
               <Text style={styles.rateBtnText}>Rate Product</Text>
             </TouchableOpacity>
+            {selectedProductId && (
+              <TouchableOpacity
+                style={styles.askSellerBtn}
+                onPress={() => {
+                  setChatTarget({ productId: selectedProductId });
+                  setModalVisible(false);
+                }}
+              >
+                <Ionicons
+                  name="chatbubble-ellipses-outline"
+                  size={18}
+                  color="#38E472"
+                />
+                <Text style={styles.askSellerText}>Ask Seller</Text>
+              </TouchableOpacity>
+            )}
+            {selectedProductId && (
+              <TouchableOpacity
+                style={styles.askSellerBtn}
+                onPress={() =>
+                  isWatching(selectedProductId)
+                    ? unwatch(selectedProductId)
+                    : watch(selectedProductId, {
+                        variantId: selectedVariant?._id ?? null,
+                      })
+                }
+              >
+                <Ionicons
+                  name={
+                    isWatching(selectedProductId)
+                      ? "notifications"
+                      : "notifications-outline"
+                  }
+                  size={18}
+                  color="#38E472"
+                />
+                <Text style={styles.askSellerText}>
+                  {isWatching(selectedProductId)
+                    ? "Alerts on"
+                    : "Notify me of price drops"}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Modal>
 
+      <ChatScreen target={chatTarget} onClose={() => setChatTarget(null)} />
+      <ChatInbox visible={showInbox} onClose={() => setShowInbox(false)} />
+
       {/* Review Modal */}
       <ReviewInterface
         visible={reviewVisible}
@@ -466,6 +679,18 @@ const BuyerInterface = () => {
               </View>
             )}
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setShowInbox(true)}
+            style={{ position: "relative" }}
+          >
+            <Ionicons name="chatbubbles-outline" size={24} color="#7CB798" />
+            {unreadMessages > 0 && (
+              <View style={styles.cartBadge}>
+                <Text style={styles.cartBadgeText}>{unreadMessages}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <NotificationBell />
           <TouchableOpacity onPress={() => setShowProfile(true)}>
             <Ionicons name="person-outline" size={24} color="#7CB798" />
           </TouchableOpacity>
@@ -609,6 +834,22 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     backgroundColor: "#eee",
   },
+  thumbRow: {
+    alignSelf: "stretch",
+    marginTop: 8,
+  },
+  thumb: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    marginRight: 8,
+    backgroundColor: "#eee",
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  thumbSelected: {
+    borderColor: "#38E472",
+  },
   closeBtn: {
     position: "absolute",
     top: 8,
@@ -711,6 +952,31 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     fontSize: 16,
   },
+  heartBtn: {
+    position: "absolute",
+    top: 8,
+    right: 8,
+    backgroundColor: "rgba(255,255,255,0.9)",
+    borderRadius: 16,
+    padding: 6,
+  },
+  askSellerBtn: {
+    marginTop: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  askSellerText: {
+    color: "#38E472",
+    fontWeight: "bold",
+    fontSize: 15,
+  },
+  modalBtnDisabled: {
+    backgroundColor: "#E7F3EC",
+  },
   cartBadge: {
     position: "absolute",
     top: -6,
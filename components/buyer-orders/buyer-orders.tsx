@@ -1,7 +1,9 @@
+import { getClaims } from "@/SERVICE/api";
 import { useAuthStore } from "@/stores/authStore";
 import { useOrderStore } from "@/stores/orderStore";
+import { Claim } from "@/types";
 import { Ionicons } from "@expo/vector-icons";
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import {
     ActivityIndicator,
     FlatList,
@@ -11,6 +13,12 @@ import {
     View,
 } from "react-native";
 
+import ClaimCard from "../claims/claim-card";
+import ClaimForm from "../claims/claim-form";
+
+const claimOrderId = (claim: Claim) =>
+  typeof claim.order === "string" ? claim.order : claim.order._id;
+
 type BuyerOrdersProps = {
   onBack?: () => void;
 };
@@ -18,6 +26,11 @@ type BuyerOrdersProps = {
 const BuyerOrders: React.FC<BuyerOrdersProps> = ({ onBack }) => {
   const { user } = useAuthStore();
   const { orders, fetchOrders, isLoading } = useOrderStore();
+  // latest claim per order; withdrawn ones leave room for a new claim
+  const [claimsByOrder, setClaimsByOrder] = useState<Record<string, Claim>>({});
+  const [claimOrder, setClaimOrder] = useState<{ id: string; orderNumber?: string } | null>(
+    null
+  );
 
   useEffect(() => {
     if (user?.id) {
@@ -25,6 +38,32 @@ const BuyerOrders: React.FC<BuyerOrdersProps> = ({ onBack }) => {
     }
   }, [user?.id]);
 
+  useEffect(() => {
+    if (!orders.some((order) => order.status === "delivered" || order.status === "returned")) {
+      return;
+    }
+    getClaims()
+      .then(({ claims }) => {
+        const latest: Record<string, Claim> = {};
+        for (const claim of claims) {
+          if (claim.status === "withdrawn") continue;
+          latest[claimOrderId(claim)] ??= claim;
+        }
+        setClaimsByOrder(latest);
+      })
+      .catch(() => {
+        // Claims are extra; the orders still render without them.
+      });
+  }, [orders]);
+
+  const updateClaim = (claim: Claim) =>
+    setClaimsByOrder((prev) => {
+      const next = { ...prev };
+      if (claim.status === "withdrawn") delete next[claimOrderId(claim)];
+      else next[claimOrderId(claim)] = claim;
+      return next;
+    });
+
   const renderOrder = ({ item }: any) => {
     const statusColor =
       (
@@ -34,18 +73,31 @@ const BuyerOrders: React.FC<BuyerOrdersProps> = ({ onBack }) => {
           failed: "#E47272",
           cancelled: "#999",
           timeout: "#999",
+          refunded: "#7CB798",
+          partially_refunded: "#7CB798",
         } as Record<string, string>
       )[item.paymentStatus] || "#999";
 
     return (
       <View style={styles.orderCard}>
         <View style={styles.orderHeader}>
-          <Text style={styles.orderNumber}>Order #{item.id || item._id}</Text>
+          <Text style={styles.orderNumber}>
+            Order {item.orderNumber || `#${item.id || item._id}`}
+          </Text>
           <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
             <Text style={styles.statusText}>{item.paymentStatus}</Text>
           </View>
         </View>
 
+        {item.sellerName ? (
+          <Text style={styles.sellerName}>Sold by {item.sellerName}</Text>
+        ) : null}
+        {item.checkoutNumber && item.checkoutNumber !== item.orderNumber ? (
+          <Text style={styles.checkoutNote}>
+            Part of checkout {item.checkoutNumber}
+          </Text>
+        ) : null}
+
         <Text style={styles.orderDate}>
           {new Date(item.createdAt).toLocaleDateString("en-KE", {
             year: "numeric",
@@ -72,6 +124,24 @@ const BuyerOrders: React.FC<BuyerOrdersProps> = ({ onBack }) => {
         )}
 
         <Text style={styles.itemsCount}>{item.items?.length || 0} item(s)</Text>
+
+        {claimsByOrder[item.id || item._id] ? (
+          <ClaimCard
+            claim={claimsByOrder[item.id || item._id]!}
+            userRole="buyer"
+            onChange={updateClaim}
+          />
+        ) : item.status === "delivered" ? (
+          <TouchableOpacity
+            style={styles.claimButton}
+            onPress={() =>
+              setClaimOrder({ id: item.id || item._id, orderNumber: item.orderNumber })
+            }
+          >
+            <Ionicons name="alert-circle-outline" size={16} color="#E47272" />
+            <Text style={styles.claimButtonText}>Report a problem</Text>
+          </TouchableOpacity>
+        ) : null}
       </View>
     );
   };
@@ -111,6 +181,14 @@ const BuyerOrders: React.FC<BuyerOrdersProps> = ({ onBack }) => {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <ClaimForm
+        visible={claimOrder !== null}
+        orderId={claimOrder?.id ?? ""}
+        orderNumber={claimOrder?.orderNumber}
+        onClose={() => setClaimOrder(null)}
+        onOpened={updateClaim}
+      />
     </View>
   );
 };
@@ -190,6 +268,17 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     textTransform: "capitalize",
   },
+  sellerName: {
+    color: "#222",
+    fontSize: 14,
+    marginBottom: 2,
+  },
+  checkoutNote: {
+    color: "#7CB798",
+    fontSize: 12,
+    fontStyle: "italic",
+    marginBottom: 4,
+  },
   orderDate: {
     color: "#7CB798",
     fontSize: 14,
@@ -215,6 +304,19 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: "italic",
   },
+  claimButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 4,
+  },
+  claimButtonText: {
+    color: "#E47272",
+    fontWeight: "600",
+    fontSize: 14,
+  },
 });
 
 export default BuyerOrders;
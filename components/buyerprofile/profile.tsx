@@ -14,12 +14,38 @@ import {
 	TouchableOpacity,
 	View,
 } from "react-native";
+import AddressBook from "../address-book/address-book";
 import OrderHistory from "../order-history/order-history";
+import Wishlist from "../wishlist/wishlist";
 
 const LogoutButton: React.FC<{ onLoggedOut?: () => void }> = ({
 	onLoggedOut,
 }) => {
-	const { logout } = useAuthStore();
+	const { logout, logoutAllDevices } = useAuthStore();
+
+	const confirmLogoutAll = () => {
+		Alert.alert(
+			"Log out of all devices?",
+			"You will be signed out everywhere, including this phone.",
+			[
+				{ text: "Cancel", style: "cancel" },
+				{
+					text: "Log out all",
+					style: "destructive",
+					onPress: async () => {
+						try {
+							await logoutAllDevices();
+							onLoggedOut?.();
+						} catch (err) {
+							console.error("Failed to log out of all devices", err);
+							Alert.alert("Error", "Could not log out of all devices.");
+						}
+					},
+				},
+			]
+		);
+	};
+
 	return (
 		<View style={logoutStyles.logoutContainer}>
 			<TouchableOpacity
@@ -32,6 +58,13 @@ const LogoutButton: React.FC<{ onLoggedOut?: () => void }> = ({
 			>
 				<Text style={logoutStyles.logoutText}>Logout</Text>
 			</TouchableOpacity>
+			<TouchableOpacity
+				style={logoutStyles.logoutAllButton}
+				activeOpacity={0.8}
+				onPress={confirmLogoutAll}
+			>
+				<Text style={logoutStyles.logoutAllText}>Log out of all devices</Text>
+			</TouchableOpacity>
 		</View>
 	);
 };
@@ -47,6 +80,8 @@ const Profile: React.FC<ProfileProps> = ({ onBack }) => {
 	const [email, setEmail] = useState("");
 	const [phone, setPhone] = useState("");
 	const [showOrderHistory, setShowOrderHistory] = useState(false); 
+	const [showWishlist, setShowWishlist] = useState(false);
+	const [showAddresses, setShowAddresses] = useState(false);
 	const id = user?.id;
 
 	useEffect(() => {
@@ -77,6 +112,14 @@ const Profile: React.FC<ProfileProps> = ({ onBack }) => {
 		return <OrderHistory onBack={() => setShowOrderHistory(false)} />;
 	}
 
+	if (showWishlist) {
+		return <Wishlist onBack={() => setShowWishlist(false)} />;
+	}
+
+	if (showAddresses) {
+		return <AddressBook onBack={() => setShowAddresses(false)} />;
+	}
+
 	// Profile image picker
 	const pickImage = async () => {
 		let result = await ImagePicker.launchImageLibraryAsync({
@@ -168,6 +211,30 @@ const Profile: React.FC<ProfileProps> = ({ onBack }) => {
 					<Feather name="chevron-right" size={20} color="#222" />
 				</TouchableOpacity>
 
+				<Text style={styles.sectionTitle}>Saved Items</Text>
+				<TouchableOpacity
+					style={styles.orderHistoryRow}
+					onPress={() => setShowWishlist(true)}
+				>
+					<View style={styles.orderHistoryIcon}>
+						<Ionicons name="heart-outline" size={20} color="#7CB798" />
+					</View>
+					<Text style={styles.orderHistoryText}>View Wishlist</Text>
+					<Feather name="chevron-right" size={20} color="#222" />
+				</TouchableOpacity>
+
+				<Text style={styles.sectionTitle}>Delivery Addresses</Text>
+				<TouchableOpacity
+					style={styles.orderHistoryRow}
+					onPress={() => setShowAddresses(true)}
+				>
+					<View style={styles.orderHistoryIcon}>
+						<Ionicons name="location-outline" size={20} color="#7CB798" />
+					</View>
+					<Text style={styles.orderHistoryText}>Manage Addresses</Text>
+					<Feather name="chevron-right" size={20} color="#222" />
+				</TouchableOpacity>
+
 				<View style={styles.saveBtnWrap}>
 					<TouchableOpacity style={styles.saveBtn} onPress={saveProfile}>
 						<Text style={styles.saveBtnText}>Save</Text>
@@ -320,6 +387,15 @@ const logoutStyles = StyleSheet.create({
 		fontWeight: "bold",
 		letterSpacing: 1,
 	},
+	logoutAllButton: {
+		alignItems: "center",
+		paddingVertical: 10,
+	},
+	logoutAllText: {
+		color: "#e74c3c",
+		fontSize: 13,
+		fontWeight: "600",
+	},
 });
 
 export default Profile;
@@ -1,5 +1,6 @@
-import { api } from "@/SERVICE/api";
-import { useCartStore } from "@/stores/cartStore";
+import { quoteShipping } from "@/SERVICE/api";
+import { unitPrice, useCartStore } from "@/stores/cartStore";
+import { useWishlistStore } from "@/stores/wishlistStore";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useEffect, useMemo, useState } from "react";
 import {
@@ -14,10 +15,15 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
-
+import {
+  cartLineKey,
+  cartLineName,
+} from "../product-variants/variant-utils";
 
 export type CartItem = {
   id: string;
+  productId: string;
+  variantId?: string;
   name: string;
   price: string;
   image: any;
@@ -45,39 +51,60 @@ const Cart: React.FC<CartProps> = ({
     shippingCost,
     setShippingCost,
   } = useCartStore();
+  const addToWishlist = useWishlistStore((state) => state.add);
   const [isCalculatingShipping, setIsCalculatingShipping] = useState(false);
+  // free delivery quotes 0, so keep track of whether we have a quote at all
+  const [isQuoted, setIsQuoted] = useState(false);
 
   // Reset shipping when cart changes
   useEffect(() => {
     setShippingCost(0);
+    setIsQuoted(false);
   }, [items, setShippingCost]);
 
   // Map store items -> UI CartItem shape
   const uiItems: CartItem[] = useMemo(() => {
-    return items.map((it) => ({
-      id: it.product.id,
-      name: it.product.name,
-      price: `Ksh ${Number(it.product.price || 0)}`,
-      image: it.product.image ? { uri: it.product.image } : undefined,
-      quantity: it.quantity,
-    }));
+    return items.map((it) => {
+      const image = it.variant?.images?.[0] || it.product.image;
+      return {
+        id: cartLineKey(it),
+        productId: it.product.id,
+        variantId: it.variant?._id,
+        name: cartLineName(it),
+        price: `Ksh ${unitPrice(it)}`,
+        image: image ? { uri: image } : undefined,
+        quantity: it.quantity,
+      };
+    });
   }, [items]);
 
   const subtotalValue = subtotal();
   const total = subtotalValue + shippingCost;
 
-  const handleSetQuantity = (id: string, nextQty: number) => {
+  const handleSetQuantity = (item: CartItem, nextQty: number) => {
     if (onUpdateQuantity) {
-      onUpdateQuantity(id, nextQty);
+      onUpdateQuantity(item.id, nextQty);
       return;
     }
     if (nextQty <= 0) {
-      removeItem(id).catch((err) =>
+      removeItem(item.productId, item.variantId).catch((err) =>
         console.error("Failed to remove item:", err),
       );
     } else {
-      setQuantity(id, nextQty);
+      setQuantity(item.productId, nextQty, item.variantId);
+    }
+  };
+
+  // Parks the line in the wishlist and takes it out of the cart
+  const handleSaveForLater = async (item: CartItem) => {
+    const saved = await addToWishlist(item.productId, item.variantId);
+    if (!saved) {
+      Alert.alert("Error", "Could not save the item for later.");
+      return;
     }
+    removeItem(item.productId, item.variantId).catch((err) =>
+      console.error("Failed to remove item:", err),
+    );
   };
 
   const handleCalculateShipping = async () => {
@@ -88,23 +115,17 @@ const Cart: React.FC<CartProps> = ({
 
     setIsCalculatingShipping(true);
     try {
-      let totalShipping = 0;
-
-      // Calculate shipping for each unique seller
-      for (const item of items) {
-        const productId = item.product.id;
-        
-        // Call backend to calculate shipping
-        const response = await api.post("/order/calculate-shipping", {
-          productId,
-          buyerCity: buyerCity.trim(),
-        });
-
-        const shippingFee = response.data?.fee || 0;
-        totalShipping += shippingFee;
-      }
-
-      setShippingCost(totalShipping);
+      // One quote for the whole cart; the server prices each seller's parcel
+      const quote = await quoteShipping(
+        items.map((item) => ({
+          product: item.product.id,
+          variant: item.variant?._id ?? null,
+          quantity: item.quantity,
+        })),
+        buyerCity.trim(),
+      );
+      setShippingCost(quote.fee);
+      setIsQuoted(true);
     } catch (error) {
       Alert.alert("Error", "Failed to calculate shipping. Please try again.");
       console.error("Shipping calculation error:", error);
@@ -157,11 +178,14 @@ const Cart: React.FC<CartProps> = ({
                   <View style={{ flex: 1 }}>
                     <Text style={styles.cartItemName}>{item.name}</Text>
                     <Text style={styles.cartItemPrice}>{item.price}</Text>
+                    <TouchableOpacity onPress={() => handleSaveForLater(item)}>
+                      <Text style={styles.saveForLater}>Save for later</Text>
+                    </TouchableOpacity>
                   </View>
                   <View style={styles.quantityBox}>
                     <TouchableOpacity
                       onPress={() =>
-                        handleSetQuantity(item.id, item.quantity - 1)
+                        handleSetQuantity(item, item.quantity - 1)
                       }
                     >
                       <Text style={styles.quantityBtn}>-</Text>
@@ -169,7 +193,7 @@ const Cart: React.FC<CartProps> = ({
                     <Text style={styles.quantityText}>{item.quantity}</Text>
                     <TouchableOpacity
                       onPress={() =>
-                        handleSetQuantity(item.id, item.quantity + 1)
+                        handleSetQuantity(item, item.quantity + 1)
                       }
                     >
                       <Text style={styles.quantityBtn}>+</Text>
@@ -203,7 +227,7 @@ const Cart: React.FC<CartProps> = ({
             </View>
 
             {/* Summary - ONLY SHOWS AFTER CALCULATING */}
-            {shippingCost > 0 && (
+            {isQuoted && (
               <>
                 <Text style={styles.summaryTitle}>Summary</Text>
                 <View style={styles.summaryRow}>
@@ -212,7 +236,9 @@ const Cart: React.FC<CartProps> = ({
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Shipping</Text>
-                  <Text style={styles.summaryValue}>Ksh {shippingCost}</Text>
+                  <Text style={styles.summaryValue}>
+                    {shippingCost === 0 ? "Free" : `Ksh ${shippingCost}`}
+                  </Text>
                 </View>
                 <View style={[styles.summaryRow, styles.totalRow]}>
                   <Text style={styles.totalLabel}>Total</Text>
@@ -276,6 +302,12 @@ const styles = StyleSheet.create({
     marginBottom: 2,
   },
   cartItemPrice: { color: "#7CB798", fontSize: 14 },
+  saveForLater: {
+    color: "#38E472",
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 4,
+  },
   quantityBox: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,196 @@
+import { useChatStore } from "@/stores/chatStore";
+import { ChatTarget, Conversation } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+	FlatList,
+	Image,
+	Modal,
+	Pressable,
+	RefreshControl,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+import ChatScreen, { conversationTitle } from "./chat-screen";
+
+// Every thread the user is part of, most recent first
+const ChatInbox = ({
+	visible,
+	onClose,
+}: {
+	visible: boolean;
+	onClose: () => void;
+}) => {
+	const { conversations, fetchConversations } = useChatStore();
+	const [target, setTarget] = useState<ChatTarget | null>(null);
+	const [refreshing, setRefreshing] = useState(false);
+
+	useEffect(() => {
+		if (visible) fetchConversations();
+	}, [visible, fetchConversations]);
+
+	const handleRefresh = async () => {
+		setRefreshing(true);
+		await fetchConversations();
+		setRefreshing(false);
+	};
+
+	const renderConversation = ({ item }: { item: Conversation }) => {
+		const title = conversationTitle(item);
+		const image = item.product?.images?.[0] ?? item.product?.image;
+		return (
+			<TouchableOpacity
+				style={styles.row}
+				onPress={() => setTarget({ conversationId: item._id })}
+			>
+				{image ? (
+					<Image source={{ uri: image }} style={styles.thumb} />
+				) : (
+					<View style={[styles.thumb, styles.thumbIcon]}>
+						<Ionicons name="receipt-outline" size={22} color="#38E472" />
+					</View>
+				)}
+				<View style={styles.rowText}>
+					<Text style={styles.rowTitle} numberOfLines={1}>
+						{title.with}
+					</Text>
+					<Text style={styles.rowAbout} numberOfLines={1}>
+						{title.about}
+					</Text>
+					{item.lastMessage && (
+						<Text
+							style={[styles.rowPreview, item.unreadCount > 0 && styles.rowUnread]}
+							numberOfLines={1}
+						>
+							{item.lastMessage.body}
+						</Text>
+					)}
+				</View>
+				{item.unreadCount > 0 && (
+					<View style={styles.badge}>
+						<Text style={styles.badgeText}>{item.unreadCount}</Text>
+					</View>
+				)}
+			</TouchableOpacity>
+		);
+	};
+
+	return (
+		<Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+			<View style={styles.container}>
+				<View style={styles.header}>
+					<Pressable onPress={onClose}>
+						<Ionicons name="arrow-back" size={24} color="#222" />
+					</Pressable>
+					<Text style={styles.headerTitle}>Messages</Text>
+					<View style={{ width: 24 }} />
+				</View>
+				<FlatList
+					data={conversations}
+					keyExtractor={(item) => item._id}
+					renderItem={renderConversation}
+					contentContainerStyle={styles.list}
+					refreshControl={
+						<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+					}
+					ListEmptyComponent={
+						<Text style={styles.emptyText}>No conversations yet</Text>
+					}
+				/>
+			</View>
+			<ChatScreen target={target} onClose={() => setTarget(null)} />
+		</Modal>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		paddingHorizontal: 24,
+		paddingTop: 58,
+		paddingBottom: 16,
+	},
+	headerTitle: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	list: {
+		paddingHorizontal: 24,
+		paddingBottom: 40,
+	},
+	row: {
+		flexDirection: "row",
+		alignItems: "center",
+		backgroundColor: "#fff",
+		borderRadius: 12,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		padding: 12,
+		marginBottom: 10,
+	},
+	thumb: {
+		width: 48,
+		height: 48,
+		borderRadius: 8,
+		backgroundColor: "#eee",
+	},
+	thumbIcon: {
+		alignItems: "center",
+		justifyContent: "center",
+		backgroundColor: "#E7F3EC",
+	},
+	rowText: {
+		flex: 1,
+		marginLeft: 12,
+	},
+	rowTitle: {
+		fontSize: 15,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	rowAbout: {
+		fontSize: 12,
+		color: "#7CB798",
+	},
+	rowPreview: {
+		fontSize: 14,
+		color: "#555",
+		marginTop: 2,
+	},
+	rowUnread: {
+		color: "#222",
+		fontWeight: "600",
+	},
+	badge: {
+		backgroundColor: "#38E472",
+		borderRadius: 10,
+		minWidth: 20,
+		height: 20,
+		justifyContent: "center",
+		alignItems: "center",
+		paddingHorizontal: 5,
+		marginLeft: 8,
+	},
+	badgeText: {
+		color: "#fff",
+		fontWeight: "bold",
+		fontSize: 12,
+	},
+	emptyText: {
+		color: "#7CB798",
+		textAlign: "center",
+		marginTop: 24,
+	},
+});
+
+export default ChatInbox;
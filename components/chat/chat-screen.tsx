@@ -0,0 +1,294 @@
+import { useChatStore } from "@/stores/chatStore";
+import { ChatMessage, ChatTarget, Conversation } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	FlatList,
+	KeyboardAvoidingView,
+	Modal,
+	Platform,
+	Pressable,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+const EMPTY: ChatMessage[] = [];
+
+const formatTime = (iso: string) =>
+	new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+// "Sofa · Jane Doe" or "Order ORD-123 · Jane Doe"
+export const conversationTitle = (conversation: Conversation) => {
+	const other = conversation.role === "buyer" ? conversation.seller : conversation.buyer;
+	const about =
+		conversation.subject === "order"
+			? `Order ${conversation.order?.orderNumber ?? ""}`
+			: (conversation.product?.name ?? "Product");
+	return { about, with: other?.fullName ?? "Unknown" };
+};
+
+/**
+ * One thread between a buyer and a seller. Opening it marks the other
+ * side's messages read; ours show a double tick once they have read them.
+ */
+const ChatScreen = ({
+	target,
+	onClose,
+}: {
+	target: ChatTarget | null;
+	onClose: () => void;
+}) => {
+	const { open, close, loadOlder, send, messages, cursors, isLoading, error } =
+		useChatStore();
+	const [conversation, setConversation] = useState<Conversation | null>(null);
+	const [draft, setDraft] = useState("");
+	const [isSending, setIsSending] = useState(false);
+
+	useEffect(() => {
+		if (!target) return;
+		let cancelled = false;
+		open(target).then((result) => {
+			if (!cancelled) setConversation(result);
+		});
+		return () => {
+			cancelled = true;
+			close();
+			setConversation(null);
+		};
+	}, [target, open, close]);
+
+	const thread = conversation ? (messages[conversation._id] ?? EMPTY) : EMPTY;
+	const me = conversation
+		? conversation.role === "buyer"
+			? conversation.buyer._id
+			: conversation.seller._id
+		: null;
+	const title = conversation ? conversationTitle(conversation) : null;
+
+	const handleSend = async () => {
+		const body = draft.trim();
+		if (!conversation || !body) return;
+		setIsSending(true);
+		const sent = await send(conversation._id, body);
+		setIsSending(false);
+		if (sent) setDraft("");
+	};
+
+	const renderMessage = ({ item }: { item: ChatMessage }) => {
+		const mine = item.sender === me;
+		return (
+			<View style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}>
+				<Text style={styles.bubbleText}>{item.body}</Text>
+				<View style={styles.meta}>
+					<Text style={styles.metaText}>{formatTime(item.createdAt)}</Text>
+					{mine && (
+						<Ionicons
+							name={item.readAt ? "checkmark-done" : "checkmark"}
+							size={14}
+							color={item.readAt ? "#38E472" : "#7CB798"}
+						/>
+					)}
+				</View>
+			</View>
+		);
+	};
+
+	return (
+		<Modal
+			visible={Boolean(target)}
+			animationType="slide"
+			onRequestClose={onClose}
+		>
+			<KeyboardAvoidingView
+				style={styles.container}
+				behavior={Platform.OS === "ios" ? "padding" : undefined}
+			>
+				<View style={styles.header}>
+					<Pressable onPress={onClose}>
+						<Ionicons name="arrow-back" size={24} color="#222" />
+					</Pressable>
+					<View style={styles.headerText}>
+						<Text style={styles.headerTitle} numberOfLines={1}>
+							{title?.with ?? "Chat"}
+						</Text>
+						{title && (
+							<Text style={styles.headerSubtitle} numberOfLines={1}>
+								{title.about}
+							</Text>
+						)}
+					</View>
+				</View>
+
+				{!conversation && isLoading ? (
+					<ActivityIndicator color="#38E472" style={{ marginTop: 24 }} />
+				) : (
+					<FlatList
+						inverted
+						data={thread}
+						keyExtractor={(item) => item._id}
+						renderItem={renderMessage}
+						contentContainerStyle={styles.list}
+						onEndReached={
+							conversation && cursors[conversation._id]
+								? () => loadOlder(conversation._id)
+								: undefined
+						}
+						onEndReachedThreshold={0.3}
+						ListEmptyComponent={
+							conversation ? (
+								<Text style={styles.emptyText}>
+									{conversation.role === "buyer"
+										? "Ask the seller anything about this item"
+										: "No messages yet"}
+								</Text>
+							) : null
+						}
+					/>
+				)}
+
+				{error && <Text style={styles.errorText}>{error}</Text>}
+
+				<View style={styles.composer}>
+					<TextInput
+						style={styles.input}
+						placeholder="Type a message..."
+						placeholderTextColor="#7CB798"
+						value={draft}
+						onChangeText={setDraft}
+						editable={Boolean(conversation)}
+						multiline
+					/>
+					<TouchableOpacity
+						style={[
+							styles.sendBtn,
+							(!draft.trim() || isSending) && styles.sendBtnDisabled,
+						]}
+						onPress={handleSend}
+						disabled={!conversation || !draft.trim() || isSending}
+					>
+						{isSending ? (
+							<ActivityIndicator color="#fff" size="small" />
+						) : (
+							<Ionicons name="send" size={18} color="#fff" />
+						)}
+					</TouchableOpacity>
+				</View>
+			</KeyboardAvoidingView>
+		</Modal>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		paddingHorizontal: 18,
+		paddingTop: 58,
+		paddingBottom: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: "#E7F3EC",
+	},
+	headerText: {
+		flex: 1,
+		marginLeft: 12,
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	headerSubtitle: {
+		fontSize: 13,
+		color: "#7CB798",
+	},
+	list: {
+		padding: 16,
+	},
+	bubble: {
+		maxWidth: "80%",
+		borderRadius: 12,
+		paddingVertical: 8,
+		paddingHorizontal: 12,
+		marginVertical: 4,
+	},
+	bubbleMine: {
+		alignSelf: "flex-end",
+		backgroundColor: "#D9F8E4",
+	},
+	bubbleTheirs: {
+		alignSelf: "flex-start",
+		backgroundColor: "#fff",
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+	},
+	bubbleText: {
+		fontSize: 15,
+		color: "#222",
+	},
+	meta: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "flex-end",
+		marginTop: 4,
+		gap: 4,
+	},
+	metaText: {
+		fontSize: 11,
+		color: "#7CB798",
+	},
+	emptyText: {
+		color: "#7CB798",
+		textAlign: "center",
+		marginTop: 24,
+		// the list is inverted, so flip the placeholder back
+		transform: [{ scaleY: -1 }],
+	},
+	errorText: {
+		color: "red",
+		paddingHorizontal: 16,
+		marginBottom: 6,
+	},
+	composer: {
+		flexDirection: "row",
+		alignItems: "flex-end",
+		padding: 12,
+		paddingBottom: 24,
+		borderTopWidth: 1,
+		borderTopColor: "#E7F3EC",
+		backgroundColor: "#fff",
+	},
+	input: {
+		flex: 1,
+		maxHeight: 120,
+		backgroundColor: "#F8FCF9",
+		borderRadius: 8,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		fontSize: 15,
+		color: "#222",
+	},
+	sendBtn: {
+		marginLeft: 8,
+		backgroundColor: "#38E472",
+		borderRadius: 20,
+		width: 40,
+		height: 40,
+		alignItems: "center",
+		justifyContent: "center",
+	},
+	sendBtnDisabled: {
+		backgroundColor: "#E7F3EC",
+	},
+});
+
+export default ChatScreen;
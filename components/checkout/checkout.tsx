@@ -1,11 +1,12 @@
-import { api } from "@/SERVICE/api";
+import { api, applyCoupon, quoteShipping, removeCoupon } from "@/SERVICE/api";
+import { useAddressStore } from "@/stores/addressStore";
 import { useAuthStore } from "@/stores/authStore";
 import { useCartStore } from "@/stores/cartStore";
 import { useOrderStore } from "@/stores/orderStore";
 import { useProductStore } from "@/stores/productStore";
-import { makeOrder, Order } from "@/types";
+import { Address, makeOrder, Order } from "@/types";
 import { Ionicons } from "@expo/vector-icons";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
@@ -18,8 +19,14 @@ import {
     View,
 } from "react-native";
 
+import { addressSummary } from "../address-book/address-book";
+import AddressForm from "../address-book/address-form";
+
 type CartItem = {
   id: string;
+  // set when `id` is a cart line key rather than the product id
+  productId?: string;
+  variantId?: string;
   name: string;
   price: string;
   image: any;
@@ -32,7 +39,7 @@ type CheckoutProps = {
   shipping?: number;
   total?: number;
   onBack?: () => void;
-  onRemoveItem?: (id: string) => void;
+  onRemoveItem?: (productId: string, variantId?: string) => void;
   onConfirmPayment?: (orderData: any) => void;
 };
 
@@ -51,7 +58,9 @@ const Checkout: React.FC<CheckoutProps> = ({
     clear: clearCart,
     buyerCity,
     shippingCost,
+    setShippingCost,
   } = useCartStore();
+  const { addresses, fetchAddresses, defaultAddress } = useAddressStore();
   const { createOrder, isLoading } = useOrderStore();
   const { fetchProducts } = useProductStore();
 
@@ -60,29 +69,89 @@ const Checkout: React.FC<CheckoutProps> = ({
   const [phone, setPhone] = useState("");
   const [email, setEmail] = useState(user?.email || "");
   const [mpesaPhone, setMpesaPhone] = useState("");
+  const [couponInput, setCouponInput] = useState("");
+  const [coupon, setCoupon] = useState<{ code: string; discount: number } | null>(
+    null,
+  );
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  // a saved address, or null to type a one-off address below
+  const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
+  const [showAddressForm, setShowAddressForm] = useState(false);
+
+  useEffect(() => {
+    fetchAddresses().then(() => setSelectedAddress(defaultAddress()));
+  }, [fetchAddresses, defaultAddress]);
+
+  // the server prices shipping from the chosen address (its pin if it has one)
+  useEffect(() => {
+    if (!selectedAddress || cartItems.length === 0) return;
+    const pin =
+      selectedAddress.latitude != null && selectedAddress.longitude != null
+        ? {
+            latitude: selectedAddress.latitude,
+            longitude: selectedAddress.longitude,
+          }
+        : null;
+    quoteShipping(
+      cartItems.map((item) => ({
+        product: item.product.id,
+        variant: item.variant?._id ?? null,
+        quantity: item.quantity,
+      })),
+      selectedAddress.town,
+      pin,
+    )
+      .then((quote) => setShippingCost(quote.fee))
+      .catch((err) => console.error("Failed to quote shipping", err));
+  }, [selectedAddress, cartItems, setShippingCost]);
+  // the server re-prices the code with the real per-seller shipping at payment
+  const discount = coupon?.discount ?? 0;
+  const payable = Math.max(total - discount, 0);
 
   // New state variables
   const [lastOrder, setLastOrder] = useState<Order | null>(null);
   const [showCheckout, setShowCheckout] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
 
-  const handleConfirmPayment = async () => {
-    // Validation
-    if (!fullName.trim()) {
-      Alert.alert("Validation Error", "Please enter your full name");
-      return;
-    }
-    if (!address.trim()) {
-      Alert.alert("Validation Error", "Please enter your address");
-      return;
-    }
-    if (!buyerCity.trim()) {
-      Alert.alert("Validation Error", "Please enter your city");
-      return;
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim();
+    if (!code) return;
+    setIsApplyingCoupon(true);
+    try {
+      const { cart } = await applyCoupon(code);
+      setCoupon({ code: cart.couponCode, discount: Number(cart.discount ?? 0) });
+      setCouponInput("");
+    } catch (error: any) {
+      Alert.alert("Coupon", error?.message || "This code could not be applied");
+    } finally {
+      setIsApplyingCoupon(false);
     }
-    if (!phone.trim()) {
-      Alert.alert("Validation Error", "Please enter your phone number");
-      return;
+  };
+
+  const handleRemoveCoupon = async () => {
+    setCoupon(null);
+    removeCoupon().catch((err) => console.error("Failed to remove coupon", err));
+  };
+
+  const handleConfirmPayment = async () => {
+    // Validation; a saved address already has recipient, phone and town
+    if (!selectedAddress) {
+      if (!fullName.trim()) {
+        Alert.alert("Validation Error", "Please enter your full name");
+        return;
+      }
+      if (!address.trim()) {
+        Alert.alert("Validation Error", "Please enter your address");
+        return;
+      }
+      if (!buyerCity.trim()) {
+        Alert.alert("Validation Error", "Please enter your city");
+        return;
+      }
+      if (!phone.trim()) {
+        Alert.alert("Validation Error", "Please enter your phone number");
+        return;
+      }
     }
     if (!email.trim()) {
       Alert.alert("Validation Error", "Please enter your email");
@@ -120,14 +189,20 @@ const Checkout: React.FC<CheckoutProps> = ({
         buyer: user.id,
         items: cartItems.map((item: any) => ({
           product: item.product.id,
+          variant: item.variant?._id ?? null,
           quantity: item.quantity,
         })),
         phoneNumber: formattedPhone,
         paymentMethod: "mpesa",
-        shippingInfo: {
-          city: buyerCity.trim(),
-          address: address.trim(),
-        },
+        couponCode: coupon?.code ?? null,
+        ...(selectedAddress
+          ? { addressId: selectedAddress._id }
+          : {
+              shippingInfo: {
+                city: buyerCity.trim(),
+                address: address.trim(),
+              },
+            }),
       };
 
       console.log("Creating order with data:", orderData);
@@ -144,14 +219,23 @@ const Checkout: React.FC<CheckoutProps> = ({
       if (onConfirmPayment) {
         onConfirmPayment({
           order: newOrder,
-          shippingDetails: {
-            fullName,
-            address,
-            city: buyerCity,
-            phone,
-            email,
-            mpesaPhone: formattedPhone,
-          },
+          shippingDetails: selectedAddress
+            ? {
+                fullName: selectedAddress.recipientName,
+                address: addressSummary(selectedAddress),
+                city: selectedAddress.town,
+                phone: selectedAddress.phone,
+                email,
+                mpesaPhone: formattedPhone,
+              }
+            : {
+                fullName,
+                address,
+                city: buyerCity,
+                phone,
+                email,
+                mpesaPhone: formattedPhone,
+              },
         });
       }
 
@@ -196,6 +280,13 @@ const Checkout: React.FC<CheckoutProps> = ({
                 },
               ]);
               return;
+            } else if (transaction.status === "flagged") {
+              Alert.alert(
+                "Payment Under Review",
+                "We received your M-Pesa payment but could not match it to your order. Our team will review it and contact you.",
+                [{ text: "OK" }],
+              );
+              return;
             }
           } catch (err) {
             console.log("Polling transaction status...", err);
@@ -267,7 +358,10 @@ const Checkout: React.FC<CheckoutProps> = ({
               <Text style={styles.orderItemDesc}>{item.price}</Text>
             </View>
             <TouchableOpacity
-              onPress={() => onRemoveItem && onRemoveItem(item.id)}
+              onPress={() =>
+                onRemoveItem &&
+                onRemoveItem(item.productId ?? item.id, item.variantId)
+              }
               disabled={isLoading}
             >
               <Ionicons name="close-circle" size={22} color="#E47272" />
@@ -285,41 +379,134 @@ const Checkout: React.FC<CheckoutProps> = ({
           <Text style={styles.summaryLabel}>Shipping</Text>
           <Text style={styles.summaryValue}>KES {shippingCost}</Text>
         </View>
+        {coupon && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Discount ({coupon.code})</Text>
+            <Text style={styles.discountValue}>- KES {discount}</Text>
+          </View>
+        )}
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Total</Text>
-          <Text style={styles.summaryValue}>KES {total}</Text>
+          <Text style={styles.summaryValue}>KES {payable}</Text>
         </View>
 
+        {/* Discount Code */}
+        {coupon ? (
+          <View style={styles.couponApplied}>
+            <Ionicons name="pricetag" size={16} color="#38E472" />
+            <Text style={styles.couponAppliedText}>{coupon.code} applied</Text>
+            <TouchableOpacity onPress={handleRemoveCoupon} disabled={isLoading}>
+              <Text style={styles.couponRemove}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.couponRow}>
+            <TextInput
+              style={[styles.input, styles.couponInput]}
+              placeholder="Discount code"
+              value={couponInput}
+              onChangeText={setCouponInput}
+              autoCapitalize="characters"
+              editable={!isLoading && !isApplyingCoupon}
+            />
+            <TouchableOpacity
+              style={styles.couponBtn}
+              onPress={handleApplyCoupon}
+              disabled={isLoading || isApplyingCoupon || !couponInput.trim()}
+            >
+              {isApplyingCoupon ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.couponBtnText}>Apply</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Shipping Details */}
         <Text style={styles.sectionTitle}>Shipping Details</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="Enter your full name"
-          value={fullName}
-          onChangeText={setFullName}
-          editable={!isLoading}
-        />
-        <TextInput
-          style={styles.input}
-          placeholder="Street address, building, apartment"
-          value={address}
-          onChangeText={setAddress}
-          editable={!isLoading}
-        />
-        <TextInput
-          style={styles.input}
-          placeholder="Enter your city"
-          value={buyerCity}
-          editable={false}
-        />
-        <TextInput
-          style={styles.input}
-          placeholder="Enter your phone number"
-          value={phone}
-          onChangeText={setPhone}
-          keyboardType="phone-pad"
-          editable={!isLoading}
-        />
+        {addresses.map((saved) => {
+          const selected = selectedAddress?._id === saved._id;
+          return (
+            <TouchableOpacity
+              key={saved._id}
+              style={[styles.addressCard, selected && styles.addressCardSelected]}
+              onPress={() => setSelectedAddress(saved)}
+              disabled={isLoading}
+            >
+              <Ionicons
+                name={selected ? "radio-button-on" : "radio-button-off"}
+                size={20}
+                color="#38E472"
+              />
+              <View style={{ flex: 1, marginLeft: 10 }}>
+                <Text style={styles.addressLabel}>
+                  {saved.label} · {saved.recipientName}
+                </Text>
+                <Text style={styles.addressLine}>{addressSummary(saved)}</Text>
+                <Text style={styles.addressLine}>{saved.phone}</Text>
+              </View>
+              {saved.latitude != null && (
+                <Ionicons name="location" size={16} color="#38E472" />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+        {addresses.length > 0 && (
+          <TouchableOpacity
+            style={[styles.addressCard, !selectedAddress && styles.addressCardSelected]}
+            onPress={() => setSelectedAddress(null)}
+            disabled={isLoading}
+          >
+            <Ionicons
+              name={selectedAddress ? "radio-button-off" : "radio-button-on"}
+              size={20}
+              color="#38E472"
+            />
+            <Text style={[styles.addressLabel, { marginLeft: 10 }]}>
+              Deliver somewhere else
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={() => setShowAddressForm(true)}
+          disabled={isLoading}
+        >
+          <Text style={styles.addAddress}>+ Save a new address</Text>
+        </TouchableOpacity>
+
+        {!selectedAddress && (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your full name"
+              value={fullName}
+              onChangeText={setFullName}
+              editable={!isLoading}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Street address, building, apartment"
+              value={address}
+              onChangeText={setAddress}
+              editable={!isLoading}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your city"
+              value={buyerCity}
+              editable={false}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your phone number"
+              value={phone}
+              onChangeText={setPhone}
+              keyboardType="phone-pad"
+              editable={!isLoading}
+            />
+          </>
+        )}
         <TextInput
           style={styles.input}
           placeholder="you@example.com"
@@ -349,9 +536,16 @@ const Checkout: React.FC<CheckoutProps> = ({
         />
         <Text style={styles.paymentNote}>
           You will receive an M-Pesa prompt on your phone to complete the
-          payment of KES {total}.
+          payment of KES {payable}.
         </Text>
 
+        <AddressForm
+          visible={showAddressForm}
+          address={null}
+          onClose={() => setShowAddressForm(false)}
+          onSaved={setSelectedAddress}
+        />
+
         {/* Confirm Payment Button */}
         <TouchableOpacity
           style={[styles.confirmBtn, isLoading && styles.confirmBtnDisabled]}
@@ -438,6 +632,74 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#222",
   },
+  discountValue: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#38E472",
+  },
+  couponRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 12,
+  },
+  couponInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  couponBtn: {
+    backgroundColor: "#38E472",
+    borderRadius: 6,
+    paddingHorizontal: 18,
+    paddingVertical: 13,
+  },
+  couponBtnText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 15,
+  },
+  couponApplied: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  couponAppliedText: {
+    flex: 1,
+    color: "#222",
+    fontWeight: "600",
+  },
+  couponRemove: {
+    color: "#E47272",
+    fontWeight: "bold",
+  },
+  addressCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E7F3EC",
+    padding: 12,
+    marginBottom: 8,
+  },
+  addressCardSelected: {
+    borderColor: "#38E472",
+  },
+  addressLabel: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#222",
+  },
+  addressLine: {
+    fontSize: 13,
+    color: "#7CB798",
+  },
+  addAddress: {
+    color: "#38E472",
+    fontWeight: "bold",
+    marginBottom: 12,
+  },
   input: {
     backgroundColor: "#E7F3EC",
     borderRadius: 6,
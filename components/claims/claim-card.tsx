@@ -0,0 +1,314 @@
+import { escalateClaim, respondToClaim, withdrawClaim } from "@/SERVICE/api";
+import { Claim, ClaimDecision } from "@/types";
+import React, { useState } from "react";
+import {
+	ActivityIndicator,
+	Alert,
+	Image,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+import { CLAIM_REASON_LABELS, CLAIM_STATUS_META, CLAIM_TYPE_LABELS } from "./claim-meta";
+
+type ClaimCardProps = {
+	claim: Claim;
+	userRole: "buyer" | "seller";
+	onChange?: (claim: Claim) => void;
+};
+
+const formatDateTime = (value: string) =>
+	new Date(value).toLocaleString("en-KE", {
+		month: "short",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+
+// A claim on an order, with the actions open to this side of it
+const ClaimCard: React.FC<ClaimCardProps> = ({ claim, userRole, onChange }) => {
+	const [note, setNote] = useState("");
+	const [amount, setAmount] = useState("");
+	const [isBusy, setIsBusy] = useState(false);
+	const status = CLAIM_STATUS_META[claim.status];
+
+	const run = async (action: () => Promise<{ claim: Claim }>) => {
+		setIsBusy(true);
+		try {
+			const { claim: updated } = await action();
+			setNote("");
+			setAmount("");
+			onChange?.(updated);
+		} catch (error: any) {
+			Alert.alert("Error", error?.message || "Please try again.");
+		} finally {
+			setIsBusy(false);
+		}
+	};
+
+	const respond = (decision: ClaimDecision) => {
+		const partial = decision === "partial_refund" ? Number(amount) : undefined;
+		if (decision === "partial_refund" && !(partial && partial >= 1)) {
+			Alert.alert("Amount needed", "Enter how much to refund the buyer.");
+			return;
+		}
+		const summary = {
+			accept: "accept the claim and refund the full order amount",
+			partial_refund: `refund Ksh ${partial?.toLocaleString()}`,
+			reject: "reject the claim",
+		}[decision];
+		Alert.alert("Respond to claim", `Are you sure you want to ${summary}?`, [
+			{ text: "Cancel", style: "cancel" },
+			{
+				text: "Confirm",
+				onPress: () =>
+					run(() =>
+						respondToClaim(claim._id, {
+							decision,
+							...(partial ? { amount: Math.round(partial) } : {}),
+							...(note.trim() ? { note: note.trim() } : {}),
+						})
+					),
+			},
+		]);
+	};
+
+	const canRespond = userRole === "seller" && claim.status === "open";
+	const canEscalate =
+		userRole === "buyer" &&
+		(claim.status === "rejected" || claim.status === "partial_refund") &&
+		claim.decision?.role === "seller";
+	const canWithdraw =
+		userRole === "buyer" && (claim.status === "open" || claim.status === "escalated");
+
+	return (
+		<View style={styles.card}>
+			<View style={styles.headerRow}>
+				<Text style={styles.title}>
+					{CLAIM_TYPE_LABELS[claim.type]} · {CLAIM_REASON_LABELS[claim.reason]}
+				</Text>
+				<View style={[styles.badge, { backgroundColor: status.color }]}>
+					<Text style={styles.badgeText}>{status.label}</Text>
+				</View>
+			</View>
+			{claim.description ? <Text style={styles.description}>{claim.description}</Text> : null}
+
+			{claim.photos.length > 0 && (
+				<ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photos}>
+					{claim.photos.map((uri) => (
+						<Image key={uri} source={{ uri }} style={styles.photo} />
+					))}
+				</ScrollView>
+			)}
+
+			{claim.decision && claim.decision.amount > 0 ? (
+				<Text style={styles.decision}>
+					Refund: Ksh {claim.decision.amount.toLocaleString()}
+				</Text>
+			) : null}
+			{claim.status === "open" ? (
+				<Text style={styles.meta}>Seller to respond by {formatDateTime(claim.respondBy)}</Text>
+			) : null}
+
+			<View style={styles.timeline}>
+				{claim.timeline.map((event) => (
+					<Text key={`${event.status}-${event.at}`} style={styles.meta}>
+						{formatDateTime(event.at)} · {CLAIM_STATUS_META[event.status].label}
+						{event.note ? `: ${event.note}` : ""}
+					</Text>
+				))}
+			</View>
+
+			{(canRespond || canEscalate) && (
+				<TextInput
+					style={styles.input}
+					placeholder={canRespond ? "Note to the buyer (optional)" : "Why should support review this?"}
+					placeholderTextColor="#7CB798"
+					value={note}
+					onChangeText={setNote}
+					maxLength={500}
+				/>
+			)}
+
+			{isBusy ? (
+				<ActivityIndicator color="#38E472" style={{ marginTop: 8 }} />
+			) : (
+				<>
+					{canRespond && (
+						<>
+							<View style={styles.partialRow}>
+								<TextInput
+									style={[styles.input, styles.amountInput]}
+									placeholder="Partial amount (Ksh)"
+									placeholderTextColor="#7CB798"
+									value={amount}
+									onChangeText={setAmount}
+									keyboardType="numeric"
+								/>
+								<TouchableOpacity
+									style={styles.secondaryBtn}
+									onPress={() => respond("partial_refund")}
+								>
+									<Text style={styles.secondaryText}>Refund part</Text>
+								</TouchableOpacity>
+							</View>
+							<View style={styles.actions}>
+								<TouchableOpacity style={styles.primaryBtn} onPress={() => respond("accept")}>
+									<Text style={styles.primaryText}>Accept</Text>
+								</TouchableOpacity>
+								<TouchableOpacity style={styles.dangerBtn} onPress={() => respond("reject")}>
+									<Text style={styles.dangerText}>Reject</Text>
+								</TouchableOpacity>
+							</View>
+						</>
+					)}
+					{canEscalate && (
+						<TouchableOpacity
+							style={styles.secondaryBtn}
+							onPress={() => run(() => escalateClaim(claim._id, note.trim() || undefined))}
+						>
+							<Text style={styles.secondaryText}>Ask support to review</Text>
+						</TouchableOpacity>
+					)}
+					{canWithdraw && (
+						<TouchableOpacity
+							style={styles.linkBtn}
+							onPress={() => run(() => withdrawClaim(claim._id))}
+						>
+							<Text style={styles.dangerText}>Withdraw claim</Text>
+						</TouchableOpacity>
+					)}
+				</>
+			)}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	card: {
+		marginTop: 10,
+		padding: 12,
+		borderRadius: 8,
+		backgroundColor: "#F8FCF9",
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+	},
+	headerRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: 8,
+	},
+	title: {
+		flex: 1,
+		fontSize: 14,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	badge: {
+		paddingHorizontal: 8,
+		paddingVertical: 3,
+		borderRadius: 10,
+	},
+	badgeText: {
+		fontSize: 11,
+		fontWeight: "bold",
+		color: "#fff",
+	},
+	description: {
+		fontSize: 13,
+		color: "#555",
+		marginTop: 6,
+	},
+	photos: {
+		marginTop: 8,
+	},
+	photo: {
+		width: 64,
+		height: 64,
+		borderRadius: 6,
+		marginRight: 6,
+	},
+	decision: {
+		fontSize: 13,
+		fontWeight: "600",
+		color: "#222",
+		marginTop: 6,
+	},
+	timeline: {
+		marginTop: 6,
+	},
+	meta: {
+		fontSize: 12,
+		color: "#7CB798",
+		marginTop: 2,
+	},
+	input: {
+		backgroundColor: "#E7F3EC",
+		borderRadius: 6,
+		paddingHorizontal: 12,
+		paddingVertical: 8,
+		fontSize: 14,
+		color: "#222",
+		marginTop: 8,
+	},
+	partialRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 8,
+	},
+	amountInput: {
+		flex: 1,
+	},
+	actions: {
+		flexDirection: "row",
+		gap: 8,
+		marginTop: 8,
+	},
+	primaryBtn: {
+		flex: 1,
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 8,
+		alignItems: "center",
+	},
+	primaryText: {
+		color: "#fff",
+		fontWeight: "bold",
+	},
+	secondaryBtn: {
+		borderWidth: 1,
+		borderColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 8,
+		paddingHorizontal: 12,
+		alignItems: "center",
+		marginTop: 8,
+	},
+	secondaryText: {
+		color: "#38E472",
+		fontWeight: "bold",
+	},
+	dangerBtn: {
+		flex: 1,
+		borderWidth: 1,
+		borderColor: "#E47272",
+		borderRadius: 8,
+		paddingVertical: 8,
+		alignItems: "center",
+	},
+	dangerText: {
+		color: "#E47272",
+		fontWeight: "bold",
+	},
+	linkBtn: {
+		alignSelf: "flex-start",
+		marginTop: 8,
+	},
+});
+
+export default ClaimCard;
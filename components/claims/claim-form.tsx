@@ -0,0 +1,329 @@
+import { openClaim } from "@/SERVICE/api";
+import { Claim, ClaimReason, ClaimType } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import React, { useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	Alert,
+	Image,
+	KeyboardAvoidingView,
+	Modal,
+	Platform,
+	Pressable,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+import {
+	CLAIM_REASON_LABELS,
+	CLAIM_TYPE_LABELS,
+	MAX_CLAIM_PHOTOS,
+} from "./claim-meta";
+
+type Photo = { uri: string; name: string; type: string };
+
+type ClaimFormProps = {
+	visible: boolean;
+	orderId: string;
+	orderNumber?: string;
+	onClose: () => void;
+	onOpened?: (claim: Claim) => void;
+};
+
+/**
+ * Report a problem with a delivered order. Damage claims need at least
+ * one photo; the seller answers within a few days or support steps in.
+ */
+const ClaimForm: React.FC<ClaimFormProps> = ({
+	visible,
+	orderId,
+	orderNumber,
+	onClose,
+	onOpened,
+}) => {
+	const [type, setType] = useState<ClaimType>("damage");
+	const [reason, setReason] = useState<ClaimReason>("damaged_in_transit");
+	const [description, setDescription] = useState("");
+	const [photos, setPhotos] = useState<Photo[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		if (!visible) return;
+		setType("damage");
+		setReason("damaged_in_transit");
+		setDescription("");
+		setPhotos([]);
+	}, [visible]);
+
+	const addPhotos = async () => {
+		try {
+			const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+			if (status !== "granted") {
+				Alert.alert("Permission needed", "Please grant camera roll permissions to add photos.");
+				return;
+			}
+			const result = await ImagePicker.launchImageLibraryAsync({
+				mediaTypes: ImagePicker.MediaTypeOptions.Images,
+				allowsMultipleSelection: true,
+				selectionLimit: MAX_CLAIM_PHOTOS - photos.length,
+				quality: 0.8,
+			});
+			if (result.canceled || result.assets.length === 0) return;
+			const picked = result.assets.map((asset) => {
+				const name = asset.fileName || asset.uri.split("/").pop() || "photo.jpg";
+				const match = /\.(\w+)$/.exec(name);
+				return {
+					uri: asset.uri,
+					name,
+					type: asset.mimeType || (match ? `image/${match[1]}` : "image/jpeg"),
+				};
+			});
+			setPhotos((prev) => [...prev, ...picked].slice(0, MAX_CLAIM_PHOTOS));
+		} catch (error) {
+			console.error("Error picking photos:", error);
+			Alert.alert("Error", "Failed to pick photos. Please try again.");
+		}
+	};
+
+	const handleSubmit = async () => {
+		if (type === "damage" && photos.length === 0) {
+			Alert.alert("Photos needed", "Add at least one photo of the damage.");
+			return;
+		}
+		const formData = new FormData();
+		formData.append("orderId", orderId);
+		formData.append("type", type);
+		formData.append("reason", reason);
+		formData.append("description", description.trim());
+		for (const photo of photos) {
+			formData.append("photos", photo as any);
+		}
+
+		setIsSaving(true);
+		try {
+			const { claim } = await openClaim(formData);
+			onOpened?.(claim);
+			onClose();
+			Alert.alert("Claim sent", "The seller has been asked to respond.");
+		} catch (error: any) {
+			Alert.alert("Could not open claim", error?.message || "Please try again.");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+			<KeyboardAvoidingView
+				style={styles.container}
+				behavior={Platform.OS === "ios" ? "padding" : undefined}
+			>
+				<View style={styles.header}>
+					<Pressable onPress={onClose}>
+						<Ionicons name="close" size={24} color="#222" />
+					</Pressable>
+					<Text style={styles.headerTitle}>Report a problem</Text>
+					<View style={{ width: 24 }} />
+				</View>
+
+				<ScrollView contentContainerStyle={styles.content}>
+					{orderNumber ? <Text style={styles.subtitle}>Order {orderNumber}</Text> : null}
+
+					<Text style={styles.sectionLabel}>What do you need?</Text>
+					<View style={styles.chipRow}>
+						{(Object.keys(CLAIM_TYPE_LABELS) as ClaimType[]).map((option) => (
+							<TouchableOpacity
+								key={option}
+								style={[styles.chip, type === option && styles.chipActive]}
+								onPress={() => setType(option)}
+							>
+								<Text style={[styles.chipText, type === option && styles.chipTextActive]}>
+									{CLAIM_TYPE_LABELS[option]}
+								</Text>
+							</TouchableOpacity>
+						))}
+					</View>
+
+					<Text style={styles.sectionLabel}>Reason</Text>
+					<View style={styles.chipRow}>
+						{(Object.keys(CLAIM_REASON_LABELS) as ClaimReason[]).map((option) => (
+							<TouchableOpacity
+								key={option}
+								style={[styles.chip, reason === option && styles.chipActive]}
+								onPress={() => setReason(option)}
+							>
+								<Text style={[styles.chipText, reason === option && styles.chipTextActive]}>
+									{CLAIM_REASON_LABELS[option]}
+								</Text>
+							</TouchableOpacity>
+						))}
+					</View>
+
+					<TextInput
+						style={[styles.input, styles.multiline]}
+						placeholder="Describe the problem"
+						placeholderTextColor="#7CB798"
+						value={description}
+						onChangeText={setDescription}
+						maxLength={2000}
+						multiline
+					/>
+
+					<Text style={styles.sectionLabel}>
+						Photos ({photos.length}/{MAX_CLAIM_PHOTOS})
+					</Text>
+					<View style={styles.photoRow}>
+						{photos.map((photo, index) => (
+							<TouchableOpacity
+								key={photo.uri}
+								onPress={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+							>
+								<Image source={{ uri: photo.uri }} style={styles.photo} />
+								<View style={styles.photoRemove}>
+									<Ionicons name="close" size={12} color="#fff" />
+								</View>
+							</TouchableOpacity>
+						))}
+						{photos.length < MAX_CLAIM_PHOTOS && (
+							<TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={addPhotos}>
+								<Ionicons name="camera-outline" size={24} color="#38E472" />
+							</TouchableOpacity>
+						)}
+					</View>
+
+					<TouchableOpacity
+						style={[styles.submitBtn, isSaving && styles.submitBtnDisabled]}
+						onPress={handleSubmit}
+						disabled={isSaving}
+					>
+						{isSaving ? (
+							<ActivityIndicator color="#fff" />
+						) : (
+							<Text style={styles.submitBtnText}>Send to seller</Text>
+						)}
+					</TouchableOpacity>
+				</ScrollView>
+			</KeyboardAvoidingView>
+		</Modal>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		paddingHorizontal: 24,
+		paddingTop: 58,
+		paddingBottom: 16,
+	},
+	headerTitle: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	content: {
+		paddingHorizontal: 24,
+		paddingBottom: 60,
+	},
+	subtitle: {
+		fontSize: 14,
+		color: "#7CB798",
+		marginBottom: 8,
+	},
+	sectionLabel: {
+		fontSize: 15,
+		fontWeight: "bold",
+		color: "#222",
+		marginTop: 12,
+		marginBottom: 8,
+	},
+	chipRow: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		gap: 8,
+	},
+	chip: {
+		borderRadius: 16,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		paddingHorizontal: 14,
+		paddingVertical: 6,
+		backgroundColor: "#fff",
+	},
+	chipActive: {
+		backgroundColor: "#38E472",
+		borderColor: "#38E472",
+	},
+	chipText: {
+		color: "#222",
+	},
+	chipTextActive: {
+		color: "#fff",
+		fontWeight: "bold",
+	},
+	input: {
+		backgroundColor: "#E7F3EC",
+		borderRadius: 6,
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		fontSize: 15,
+		color: "#222",
+		marginTop: 16,
+	},
+	multiline: {
+		minHeight: 90,
+		textAlignVertical: "top",
+	},
+	photoRow: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		gap: 8,
+	},
+	photo: {
+		width: 72,
+		height: 72,
+		borderRadius: 8,
+	},
+	addPhoto: {
+		borderWidth: 1,
+		borderColor: "#38E472",
+		borderStyle: "dashed",
+		alignItems: "center",
+		justifyContent: "center",
+	},
+	photoRemove: {
+		position: "absolute",
+		top: 4,
+		right: 4,
+		backgroundColor: "rgba(0,0,0,0.5)",
+		borderRadius: 8,
+		padding: 2,
+	},
+	submitBtn: {
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 14,
+		alignItems: "center",
+		marginTop: 24,
+	},
+	submitBtnDisabled: {
+		backgroundColor: "#A0D9B4",
+	},
+	submitBtnText: {
+		color: "#fff",
+		fontWeight: "bold",
+		fontSize: 16,
+	},
+});
+
+export default ClaimForm;
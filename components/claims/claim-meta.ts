@@ -0,0 +1,27 @@
+import { ClaimReason, ClaimStatus, ClaimType } from "@/types";
+
+export const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+	return: "Return",
+	damage: "Damage",
+};
+
+export const CLAIM_REASON_LABELS: Record<ClaimReason, string> = {
+	damaged_in_transit: "Damaged in transit",
+	defective: "Defective",
+	not_as_described: "Not as described",
+	wrong_item: "Wrong item",
+	missing_parts: "Missing parts",
+	changed_mind: "Changed my mind",
+};
+
+export const CLAIM_STATUS_META: Record<ClaimStatus, { label: string; color: string }> = {
+	open: { label: "Waiting for seller", color: "#FFA500" },
+	accepted: { label: "Accepted", color: "#38E472" },
+	partial_refund: { label: "Partial refund", color: "#2196F3" },
+	rejected: { label: "Rejected", color: "#E47272" },
+	escalated: { label: "With support", color: "#7E57C2" },
+	withdrawn: { label: "Withdrawn", color: "#999" },
+};
+
+// Mirrors server/src/models/claim.models.ts
+export const MAX_CLAIM_PHOTOS = 6;
@@ -0,0 +1,54 @@
+import { useNotificationStore } from "@/stores/notificationStore";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import NotificationCenter from "./notification-center";
+
+// Bell icon with the unread count; opens the notification center
+const NotificationBell = ({ color = "#7CB798" }: { color?: string }) => {
+	const [open, setOpen] = useState(false);
+	const unreadCount = useNotificationStore((state) => state.unreadCount);
+
+	return (
+		<>
+			<TouchableOpacity
+				onPress={() => setOpen(true)}
+				style={{ position: "relative" }}
+			>
+				<Ionicons name="notifications-outline" size={24} color={color} />
+				{unreadCount > 0 && (
+					<View style={styles.badge}>
+						<Text style={styles.badgeText}>
+							{unreadCount > 99 ? "99+" : unreadCount}
+						</Text>
+					</View>
+				)}
+			</TouchableOpacity>
+			<NotificationCenter visible={open} onClose={() => setOpen(false)} />
+		</>
+	);
+};
+
+const styles = StyleSheet.create({
+	badge: {
+		position: "absolute",
+		top: -6,
+		right: -10,
+		backgroundColor: "#38E472",
+		borderRadius: 10,
+		minWidth: 18,
+		height: 18,
+		justifyContent: "center",
+		alignItems: "center",
+		paddingHorizontal: 4,
+		zIndex: 10,
+	},
+	badgeText: {
+		color: "#fff",
+		fontWeight: "bold",
+		fontSize: 12,
+	},
+});
+
+export default NotificationBell;
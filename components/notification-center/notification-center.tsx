@@ -0,0 +1,214 @@
+import { useNotificationStore } from "@/stores/notificationStore";
+import { AppNotification, NotificationType } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect } from "react";
+import {
+	ActivityIndicator,
+	FlatList,
+	Modal,
+	Pressable,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+const ICONS: Record<NotificationType, keyof typeof Ionicons.glyphMap> = {
+	payment_received: "card-outline",
+	new_order: "bag-handle-outline",
+	order_status: "cube-outline",
+	new_review: "star-outline",
+	account_approved: "checkmark-circle-outline",
+	price_drop: "pricetag-outline",
+	back_in_stock: "notifications-outline",
+	refund_requested: "return-down-back-outline",
+	refund_completed: "cash-outline",
+	claim_update: "alert-circle-outline",
+};
+
+const formatTime = (iso: string) =>
+	new Date(iso).toLocaleString(undefined, {
+		day: "numeric",
+		month: "short",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+
+const NotificationRow = ({
+	item,
+	onPress,
+}: {
+	item: AppNotification;
+	onPress: () => void;
+}) => (
+	<TouchableOpacity
+		style={[styles.row, !item.readAt && styles.rowUnread]}
+		onPress={onPress}
+	>
+		<Ionicons name={ICONS[item.type]} size={22} color="#38E472" />
+		<View style={styles.rowText}>
+			<Text style={styles.rowTitle}>{item.title}</Text>
+			<Text style={styles.rowBody}>{item.body}</Text>
+			<Text style={styles.rowTime}>{formatTime(item.createdAt)}</Text>
+		</View>
+		{!item.readAt && <View style={styles.unreadDot} />}
+	</TouchableOpacity>
+);
+
+const NotificationCenter = ({
+	visible,
+	onClose,
+}: {
+	visible: boolean;
+	onClose: () => void;
+}) => {
+	const {
+		notifications,
+		unreadCount,
+		nextCursor,
+		isLoading,
+		error,
+		fetchNotifications,
+		loadMore,
+		markRead,
+		markAllRead,
+	} = useNotificationStore();
+
+	useEffect(() => {
+		if (visible) fetchNotifications();
+	}, [visible, fetchNotifications]);
+
+	return (
+		<Modal
+			visible={visible}
+			transparent
+			animationType="slide"
+			onRequestClose={onClose}
+		>
+			<View style={styles.overlay}>
+				<View style={styles.modal}>
+					<View style={styles.header}>
+						<Pressable onPress={onClose}>
+							<Ionicons name="close" size={28} color="#222" />
+						</Pressable>
+						<Text style={styles.title}>Notifications</Text>
+						<TouchableOpacity onPress={markAllRead} disabled={unreadCount === 0}>
+							<Text
+								style={[
+									styles.markAll,
+									unreadCount === 0 && styles.markAllDisabled,
+								]}
+							>
+								Mark all read
+							</Text>
+						</TouchableOpacity>
+					</View>
+					{error && <Text style={styles.errorText}>{error}</Text>}
+					<FlatList
+						data={notifications}
+						keyExtractor={(item) => item._id}
+						renderItem={({ item }) => (
+							<NotificationRow item={item} onPress={() => markRead(item._id)} />
+						)}
+						onEndReached={nextCursor ? loadMore : undefined}
+						onEndReachedThreshold={0.3}
+						ListEmptyComponent={
+							isLoading ? null : (
+								<Text style={styles.emptyText}>No notifications yet</Text>
+							)
+						}
+						ListFooterComponent={
+							isLoading ? (
+								<ActivityIndicator color="#38E472" style={{ marginVertical: 12 }} />
+							) : null
+						}
+					/>
+				</View>
+			</View>
+		</Modal>
+	);
+};
+
+const styles = StyleSheet.create({
+	overlay: {
+		flex: 1,
+		backgroundColor: "rgba(0,0,0,0.2)",
+		justifyContent: "flex-end",
+	},
+	modal: {
+		height: "80%",
+		backgroundColor: "#F8FCF9",
+		borderTopLeftRadius: 12,
+		borderTopRightRadius: 12,
+		padding: 18,
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		marginBottom: 12,
+	},
+	title: {
+		fontSize: 18,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	markAll: {
+		color: "#38E472",
+		fontWeight: "600",
+		fontSize: 14,
+	},
+	markAllDisabled: {
+		color: "#ccc",
+	},
+	row: {
+		flexDirection: "row",
+		alignItems: "flex-start",
+		backgroundColor: "#fff",
+		borderRadius: 8,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		padding: 12,
+		marginBottom: 8,
+	},
+	rowUnread: {
+		borderColor: "#38E472",
+	},
+	rowText: {
+		flex: 1,
+		marginLeft: 10,
+	},
+	rowTitle: {
+		fontSize: 15,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	rowBody: {
+		fontSize: 14,
+		color: "#222",
+		marginTop: 2,
+	},
+	rowTime: {
+		fontSize: 12,
+		color: "#7CB798",
+		marginTop: 4,
+	},
+	unreadDot: {
+		width: 8,
+		height: 8,
+		borderRadius: 4,
+		backgroundColor: "#38E472",
+		marginTop: 6,
+	},
+	emptyText: {
+		color: "#7CB798",
+		textAlign: "center",
+		marginTop: 24,
+	},
+	errorText: {
+		color: "red",
+		marginBottom: 8,
+	},
+});
+
+export default NotificationCenter;
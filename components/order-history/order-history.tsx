@@ -2,7 +2,7 @@ import { useAuthStore } from "@/stores/authStore";
 import { useOrderStore } from "@/stores/orderStore";
 import { Order } from "@/types";
 import { Ionicons } from "@expo/vector-icons";
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import {
     ActivityIndicator,
     FlatList,
@@ -12,7 +12,9 @@ import {
     TouchableOpacity,
     View,
 } from "react-native";
+import { getStatusMeta } from "../order-status/order-status-meta";
 import OrderStatusButtons from "../order-status/order-status-buttons"; 
+import OrderTimeline from "../order-status/order-timeline";
 
 interface OrderHistoryProps {
     onBack?: () => void;
@@ -25,6 +27,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
 }) => {
     const { user } = useAuthStore();
     const { orders, isLoading, error, fetchOrders } = useOrderStore();
+    const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
 
     useEffect(() => {
         if (user?.id) {
@@ -38,25 +41,6 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
         }
     };
 
-    const getStatusColor = (status: string) => {
-        switch (status?.toLowerCase()) {
-            case "pending":
-                return "#FFD600";
-            case "confirmed":
-            case "paid":
-                return "#38E472";
-            case "shipped":
-                return "#2196F3"; 
-            case "delivered":
-                return "#4CAF50";
-            case "cancelled":
-            case "failed":
-                return "#FF5722";
-            default:
-                return "#757575";
-        }
-    };
-
     const formatDate = (dateString: string) => {
         return new Date(dateString).toLocaleDateString("en-KE", {
             year: "numeric",
@@ -74,54 +58,74 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
         }
     };
 
-    const renderOrderItem = ({ item: order }: { item: Order }) => (
-        <View style={styles.orderCard}>
-            {/* Order Header */}
-            <TouchableOpacity
-                style={styles.orderHeader}
-                onPress={() => onOrderPress?.(order)}
-            >
-                <Text style={styles.orderNumber}>
-                    {order.orderNumber || `#${order.id?.slice(-6)}`}
-                </Text>
-                <View
-                    style={[
-                        styles.statusBadge,
-                        { backgroundColor: getStatusColor(order.status || "pending") }, 
-                    ]}
+    const renderOrderItem = ({ item: order }: { item: Order }) => {
+        const orderId = order.id || order._id || "";
+        const statusMeta = getStatusMeta(order.status);
+        const isExpanded = expandedOrderId === orderId;
+
+        return (
+            <View style={styles.orderCard}>
+                {/* Order Header */}
+                <TouchableOpacity
+                    style={styles.orderHeader}
+                    onPress={() => onOrderPress?.(order)}
                 >
-                    <Text style={styles.statusText}>
-                        {(order.status || "pending").toUpperCase()}
+                    <Text style={styles.orderNumber}>
+                        {order.orderNumber || `#${order.id?.slice(-6)}`}
                     </Text>
-                </View>
-            </TouchableOpacity>
-
-            <Text style={styles.orderDate}>
-                {order.createdAt ? formatDate(order.createdAt) : "Date not available"}
-            </Text>
+                    <View
+                        style={[
+                            styles.statusBadge,
+                            { backgroundColor: statusMeta.color },
+                        ]}
+                    >
+                        <Text style={styles.statusText}>
+                            {statusMeta.label.toUpperCase()}
+                        </Text>
+                    </View>
+                </TouchableOpacity>
 
-            <View style={styles.orderDetails}>
-                <Text style={styles.orderSummary}>
-                    {order.items?.length || 0} item(s)
+                <Text style={styles.orderDate}>
+                    {order.createdAt ? formatDate(order.createdAt) : "Date not available"}
                 </Text>
-                <Text style={styles.orderTotal}>
-                    KES {order.total?.toLocaleString() || "0"}
+
+                <View style={styles.orderDetails}>
+                    <Text style={styles.orderSummary}>
+                        {order.items?.length || 0} item(s)
+                    </Text>
+                    <Text style={styles.orderTotal}>
+                        KES {order.total?.toLocaleString() || "0"}
+                    </Text>
+                </View>
+
+                <Text style={styles.paymentMethod}>
+                    Payment: {order.paymentMethod?.toUpperCase() || "N/A"} -{" "}
+                    {order.paymentStatus?.toUpperCase() || "PENDING"}
                 </Text>
-            </View>
 
-            <Text style={styles.paymentMethod}>
-                Payment: {order.paymentMethod?.toUpperCase() || "N/A"} -{" "}
-                {order.paymentStatus?.toUpperCase() || "PENDING"}
-            </Text>
+                <TouchableOpacity
+                    style={styles.timelineToggle}
+                    onPress={() => setExpandedOrderId(isExpanded ? null : orderId)}
+                >
+                    <Text style={styles.timelineToggleText}>
+                        {isExpanded ? "Hide tracking" : "Track order"}
+                    </Text>
+                    <Ionicons
+                        name={isExpanded ? "chevron-up" : "chevron-down"}
+                        size={14}
+                        color="#38E472"
+                    />
+                </TouchableOpacity>
+                {isExpanded && <OrderTimeline order={order} />}
 
-           
-            <OrderStatusButtons
-                order={order}
-                userRole="buyer"
-                onStatusUpdate={(newStatus) => handleStatusUpdate(order.id || order._id || "", newStatus)}
-            />
-        </View>
-    );
+                <OrderStatusButtons
+                    order={order}
+                    userRole="buyer"
+                    onStatusUpdate={(newStatus) => handleStatusUpdate(orderId, newStatus)}
+                />
+            </View>
+        );
+    };
 
     if (isLoading && orders.length === 0) {
         return (
@@ -266,6 +270,18 @@ const styles = StyleSheet.create({
         color: "#7CB798",
         marginBottom: 12, // ✅ Add margin for status buttons
     },
+    timelineToggle: {
+        flexDirection: "row",
+        alignItems: "center",
+        alignSelf: "flex-start",
+        marginBottom: 8,
+    },
+    timelineToggleText: {
+        color: "#38E472",
+        fontSize: 13,
+        fontWeight: "600",
+        marginRight: 4,
+    },
     loadingText: {
         color: "#7CB798",
         marginTop: 12,
@@ -1,5 +1,5 @@
 import { useOrderStore } from "@/stores/orderStore";
-import { Order } from "@/types";
+import { Order, OrderStatus } from "@/types";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useState } from "react";
 import {
@@ -12,6 +12,12 @@ import {
 	TouchableOpacity,
 	View,
 } from "react-native";
+import {
+	getStatusMeta,
+	ORDER_STATUS_META,
+	ORDER_TRANSITIONS,
+} from "./order-status-meta";
+import OrderTimeline from "./order-timeline";
 
 interface OrderStatusButtonsProps {
 	order: Order;
@@ -30,72 +36,29 @@ const OrderStatusButtons: React.FC<OrderStatusButtonsProps> = ({
 
 	const currentStatus = order.status?.toLowerCase() || "pending";
 
-	// Define available status transitions based on current status and user role
-	const getAvailableStatuses = () => {
-		if (userRole === "buyer") {
-			// Buyers can only cancel pending orders
-			if (currentStatus === "pending") {
-				return [
-					{
-						value: "cancelled",
-						label: "Cancel Order",
-						color: "#FF5722",
-						icon: "close-circle",
-					},
-				];
-			}
-			return [];
-		}
-
-		// Seller status options
-		switch (currentStatus) {
-			case "pending":
-				return [
-					{
-						value: "shipped",
-						label: "Mark as Shipped",
-						color: "#2196F3",
-						icon: "airplane",
-					},
-					{
-						value: "cancelled",
-						label: "Cancel Order",
-						color: "#FF5722",
-						icon: "close-circle",
-					},
-				];
-			case "shipped":
-				return [
-					{
-						value: "delivered",
-						label: "Mark as Delivered",
-						color: "#4CAF50",
-						icon: "checkmark-circle",
-					},
-				];
-			case "delivered":
-			case "cancelled":
-				return []; // No status changes allowed
-			default:
-				return [];
-		}
-	};
-
-	const availableStatuses = getAvailableStatuses();
+	// Offer only the moves the server's state machine allows for this role
+	const availableStatuses = (
+		Object.entries(
+			ORDER_TRANSITIONS[currentStatus as OrderStatus] ?? {}
+		) as [OrderStatus, ("buyer" | "seller")[]][]
+	)
+		.filter(([, roles]) => roles.includes(userRole))
+		.map(([value]) => ({
+			value,
+			label:
+				value === "cancelled"
+					? "Cancel Order"
+					: `Mark as ${ORDER_STATUS_META[value].label}`,
+			color: ORDER_STATUS_META[value].color,
+			icon: ORDER_STATUS_META[value].icon,
+		}));
 
 	const handleStatusUpdate = async (newStatus: string) => {
-		const statusLabels = {
-			pending: "Pending",
-			shipped: "Shipped",
-			delivered: "Delivered",
-			cancelled: "Cancelled",
-		};
+		const newLabel = getStatusMeta(newStatus).label;
 
 		Alert.alert(
 			"Confirm Status Update",
-			`Are you sure you want to change the order status to "${
-				statusLabels[newStatus as keyof typeof statusLabels]
-			}"?`,
+			`Are you sure you want to change the order status to "${newLabel}"?`,
 			[
 				{ text: "Cancel", style: "cancel" },
 				{
@@ -108,12 +71,7 @@ const OrderStatusButtons: React.FC<OrderStatusButtonsProps> = ({
 							onStatusUpdate?.(newStatus);
 							setShowStatusModal(false);
 
-							Alert.alert(
-								"Success",
-								`Order status updated to ${
-									statusLabels[newStatus as keyof typeof statusLabels]
-								}.`
-							);
+							Alert.alert("Success", `Order status updated to ${newLabel}.`);
 						} catch (error: any) {
 							Alert.alert(
 								"Error",
@@ -129,35 +87,7 @@ const OrderStatusButtons: React.FC<OrderStatusButtonsProps> = ({
 		);
 	};
 
-	const getStatusColor = (status: string) => {
-		switch (status.toLowerCase()) {
-			case "pending":
-				return "#FFD600";
-			case "shipped":
-				return "#2196F3";
-			case "delivered":
-				return "#4CAF50";
-			case "cancelled":
-				return "#FF5722";
-			default:
-				return "#757575";
-		}
-	};
-
-	const getStatusIcon = (status: string) => {
-		switch (status.toLowerCase()) {
-			case "pending":
-				return "time";
-			case "shipped":
-				return "airplane";
-			case "delivered":
-				return "checkmark-circle";
-			case "cancelled":
-				return "close-circle";
-			default:
-				return "help-circle";
-		}
-	};
+	const currentMeta = getStatusMeta(currentStatus);
 
 	if (availableStatuses.length === 0) {
 		return null; 
@@ -170,16 +100,18 @@ const OrderStatusButtons: React.FC<OrderStatusButtonsProps> = ({
 				<View
 					style={[
 						styles.statusBadge,
-						{ backgroundColor: getStatusColor(currentStatus) },
+						{ backgroundColor: currentMeta.color },
 					]}
 				>
 					<Ionicons
-						name={getStatusIcon(currentStatus) as any}
+						name={currentMeta.icon as any}
 						size={16}
 						color="#fff"
 						style={{ marginRight: 4 }}
 					/>
-					<Text style={styles.statusText}>{currentStatus.toUpperCase()}</Text>
+					<Text style={styles.statusText}>
+						{currentMeta.label.toUpperCase()}
+					</Text>
 				</View>
 			</View>
 
@@ -221,6 +153,8 @@ const OrderStatusButtons: React.FC<OrderStatusButtonsProps> = ({
 							Order: {order.orderNumber || `#${order.id?.slice(-6)}`}
 						</Text>
 
+						<OrderTimeline order={order} />
+
 						{availableStatuses.map((status) => (
 							<TouchableOpacity
 								key={status.value}
@@ -318,7 +252,7 @@ const styles = StyleSheet.create({
 		fontSize: 14,
 		color: "#666",
 		textAlign: "center",
-		marginBottom: 24,
+		marginBottom: 16,
 	},
 	statusOption: {
 		flexDirection: "row",
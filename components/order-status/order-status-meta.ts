@@ -0,0 +1,39 @@
+import { OrderStatus } from "@/types";
+
+export const ORDER_STATUS_META: Record<
+	OrderStatus,
+	{ label: string; color: string; icon: string }
+> = {
+	pending: { label: "Pending", color: "#FFD600", icon: "time" },
+	confirmed: { label: "Confirmed", color: "#38E472", icon: "checkmark" },
+	shipped: { label: "Shipped", color: "#2196F3", icon: "airplane" },
+	out_for_delivery: {
+		label: "Out for Delivery",
+		color: "#7E57C2",
+		icon: "bicycle",
+	},
+	delivered: { label: "Delivered", color: "#4CAF50", icon: "checkmark-circle" },
+	cancelled: { label: "Cancelled", color: "#FF5722", icon: "close-circle" },
+	returned: { label: "Returned", color: "#795548", icon: "return-down-back" },
+};
+
+// Mirrors server/src/services/orderStatus.ts - the server has the final say
+export const ORDER_TRANSITIONS: Record<
+	OrderStatus,
+	Partial<Record<OrderStatus, ("buyer" | "seller")[]>>
+> = {
+	pending: { confirmed: ["seller"], cancelled: ["buyer", "seller"] },
+	confirmed: { shipped: ["seller"], cancelled: ["buyer", "seller"] },
+	shipped: { out_for_delivery: ["seller"] },
+	out_for_delivery: { delivered: ["seller"] },
+	delivered: { returned: ["seller"] },
+	cancelled: {},
+	returned: {},
+};
+
+export const getStatusMeta = (status?: string) =>
+	ORDER_STATUS_META[(status?.toLowerCase() || "pending") as OrderStatus] ?? {
+		label: status || "Unknown",
+		color: "#757575",
+		icon: "help-circle",
+	};
@@ -0,0 +1,121 @@
+import { Order, OrderStatusEvent } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { getStatusMeta } from "./order-status-meta";
+
+interface OrderTimelineProps {
+	order: Order;
+}
+
+const formatDateTime = (value: string) =>
+	new Date(value).toLocaleString("en-KE", {
+		month: "short",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+
+const actorName = (by: OrderStatusEvent["by"]) => {
+	if (!by || typeof by === "string") return null;
+	if (by.role === "admin") return "Support";
+	return by.fullName || null;
+};
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+	// Orders placed before history was recorded only know their creation date
+	const events: OrderStatusEvent[] =
+		order.statusHistory && order.statusHistory.length > 0
+			? order.statusHistory
+			: order.createdAt
+				? [{ status: "pending", at: order.createdAt }]
+				: [];
+
+	if (events.length === 0) return null;
+
+	return (
+		<View style={styles.container}>
+			{events.map((event, index) => {
+				const meta = getStatusMeta(event.status);
+				const isLast = index === events.length - 1;
+				const by = actorName(event.by);
+				return (
+					<View key={`${event.status}-${event.at}`} style={styles.row}>
+						<View style={styles.markerColumn}>
+							<View style={[styles.dot, { backgroundColor: meta.color }]}>
+								<Ionicons name={meta.icon as any} size={10} color="#fff" />
+							</View>
+							{!isLast && <View style={styles.line} />}
+						</View>
+						<View style={styles.content}>
+							<Text style={[styles.label, isLast && styles.labelCurrent]}>
+								{meta.label}
+							</Text>
+							<Text style={styles.meta}>
+								{formatDateTime(event.at)}
+								{by ? ` · ${by}` : ""}
+							</Text>
+							{event.note ? (
+								<Text style={styles.note}>{event.note}</Text>
+							) : null}
+						</View>
+					</View>
+				);
+			})}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		marginTop: 8,
+		marginBottom: 4,
+	},
+	row: {
+		flexDirection: "row",
+	},
+	markerColumn: {
+		width: 20,
+		alignItems: "center",
+	},
+	dot: {
+		width: 16,
+		height: 16,
+		borderRadius: 8,
+		alignItems: "center",
+		justifyContent: "center",
+	},
+	line: {
+		flex: 1,
+		width: 2,
+		backgroundColor: "#E7F3EC",
+		marginVertical: 2,
+	},
+	content: {
+		flex: 1,
+		paddingLeft: 10,
+		paddingBottom: 12,
+	},
+	label: {
+		fontSize: 14,
+		color: "#666",
+		fontWeight: "500",
+	},
+	labelCurrent: {
+		color: "#222",
+		fontWeight: "bold",
+	},
+	meta: {
+		fontSize: 12,
+		color: "#7CB798",
+		marginTop: 2,
+	},
+	note: {
+		fontSize: 12,
+		color: "#666",
+		marginTop: 2,
+		fontStyle: "italic",
+	},
+});
+
+export default OrderTimeline;
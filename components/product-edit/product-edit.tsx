@@ -6,7 +6,6 @@ import React, { useEffect, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
-    Image,
     KeyboardAvoidingView,
     Platform,
     ScrollView,
@@ -16,6 +15,12 @@ import {
     TouchableOpacity,
     View,
 } from "react-native";
+import GalleryStrip, { MAX_PRODUCT_IMAGES } from "../product-gallery/gallery-strip";
+import VariantEditor, {
+    fromVariantDrafts,
+    toVariantDrafts,
+    VariantDraft,
+} from "../product-variants/variant-editor";
 
 interface ProductEditProps {
     product: Product;
@@ -34,12 +39,16 @@ const categories = [
     "Decor",
 ];
 
+// Older products only carry a single `image`
+const galleryOf = (product: Product) =>
+    product.images?.length ? product.images : product.image ? [product.image] : [];
+
 const ProductEdit: React.FC<ProductEditProps> = ({
     product,
     onClose,
     onSave,
 }) => {
-    const { updateProductWithImage, update_product, isLoading } = useProductStore();
+    const { update_product, addImages, arrangeImages, removeImage, isLoading } = useProductStore();
     
     // Form state
     const [name, setName] = useState(product.name || "");
@@ -47,8 +56,13 @@ const ProductEdit: React.FC<ProductEditProps> = ({
     const [price, setPrice] = useState(product.price?.toString() || "");
     const [stock, setStock] = useState(product.stock?.toString() || "");
     const [category, setCategory] = useState(product.category || "");
-    const [selectedImage, setSelectedImage] = useState<string | null>(null);
+    const [gallery, setGallery] = useState<string[]>(galleryOf(product));
+    const [galleryBusy, setGalleryBusy] = useState(false);
     const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+    const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>(
+        toVariantDrafts(product.variants)
+    );
+    const hasVariants = variantDrafts.length > 0;
 
     // Validation state
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -60,7 +74,8 @@ const ProductEdit: React.FC<ProductEditProps> = ({
         setPrice(product.price?.toString() || "");
         setStock(product.stock?.toString() || "");
         setCategory(product.category || "");
-        setSelectedImage(null); // Reset selected image when product changes
+        setVariantDrafts(toVariantDrafts(product.variants));
+        setGallery(galleryOf(product));
     }, [product]);
 
     const validateForm = () => {
@@ -68,19 +83,37 @@ const ProductEdit: React.FC<ProductEditProps> = ({
 
         if (!name.trim()) newErrors.name = "Product name is required";
         if (!description.trim()) newErrors.description = "Description is required";
-        if (!price.trim() || isNaN(Number(price)) || Number(price) <= 0) {
+        // variant products take their price and stock from the variants
+        if (!hasVariants && (!price.trim() || isNaN(Number(price)) || Number(price) <= 0)) {
             newErrors.price = "Valid price is required";
         }
-        if (!stock.trim() || isNaN(Number(stock)) || Number(stock) < 0) {
+        if (!hasVariants && (!stock.trim() || isNaN(Number(stock)) || Number(stock) < 0)) {
             newErrors.stock = "Valid stock quantity is required";
         }
+        const parsedVariants = fromVariantDrafts(variantDrafts);
+        if ("error" in parsedVariants) newErrors.variants = parsedVariants.error;
         if (!category) newErrors.category = "Category is required";
 
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
 
-    const pickImage = async () => {
+    // Gallery changes are saved straight away, separately from the form
+    const applyGallery = async (action: () => Promise<Product>) => {
+        setGalleryBusy(true);
+        try {
+            const updated = await action();
+            setGallery(galleryOf(updated));
+            onSave?.(updated);
+        } catch (error: any) {
+            console.error("Failed to update product photos:", error);
+            Alert.alert("Error", error?.response?.data?.message || "Failed to update photos. Please try again.");
+        } finally {
+            setGalleryBusy(false);
+        }
+    };
+
+    const addPhotos = async () => {
         try {
             const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
             if (status !== "granted") {
@@ -90,68 +123,85 @@ const ProductEdit: React.FC<ProductEditProps> = ({
 
             const result = await ImagePicker.launchImageLibraryAsync({
                 mediaTypes: ImagePicker.MediaTypeOptions.Images,
-                allowsEditing: true,
-                aspect: [1, 1],
+                allowsMultipleSelection: true,
+                selectionLimit: MAX_PRODUCT_IMAGES - gallery.length,
                 quality: 0.8,
             });
+            if (result.canceled || result.assets.length === 0) return;
 
-            if (!result.canceled && result.assets[0]) {
-                setSelectedImage(result.assets[0].uri);
+            const formData = new FormData();
+            for (const asset of result.assets) {
+                const filename = asset.fileName || asset.uri.split("/").pop() || "image.jpg";
+                const match = /\.(\w+)$/.exec(filename);
+                formData.append("images", {
+                    uri: asset.uri,
+                    name: filename,
+                    type: asset.mimeType || (match ? `image/${match[1]}` : "image/jpeg"),
+                } as any);
             }
+            await applyGallery(() => addImages(product.id, formData));
         } catch (error) {
             console.error("Error picking image:", error);
             Alert.alert("Error", "Failed to pick image. Please try again.");
         }
     };
 
+    const makeCover = (index: number) => {
+        const next = [gallery[index]!, ...gallery.filter((_, i) => i !== index)];
+        applyGallery(() => arrangeImages(product.id, next));
+    };
+
+    const movePhoto = (index: number, direction: -1 | 1) => {
+        const next = [...gallery];
+        const target = index + direction;
+        [next[index], next[target]] = [next[target]!, next[index]!];
+        applyGallery(() => arrangeImages(product.id, next));
+    };
+
+    const deletePhoto = (index: number) => {
+        const url = gallery[index]!;
+        if (gallery.length === 1) {
+            Alert.alert("Cover needed", "A product needs at least one photo. Add another before removing this one.");
+            return;
+        }
+        Alert.alert("Remove photo", "Delete this photo from the product?", [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: () => applyGallery(() => removeImage(product.id, url)),
+            },
+        ]);
+    };
+
     const handleSave = async () => {
         if (!validateForm()) {
             Alert.alert("Validation Error", "Please fix the errors before saving.");
             return;
         }
 
+        const parsedVariants = fromVariantDrafts(variantDrafts);
+        const variants = "variants" in parsedVariants ? parsedVariants.variants : [];
+
         // Only send fields that are allowed by backend validator
         const updatePayload = {
             name: name.trim(),
             description: description.trim(),
-            price: Number(price),
-            stock: Number(stock),
+            ...(hasVariants ? {} : { price: Number(price), stock: Number(stock) }),
+            variants,
             category,
-            image: selectedImage || product.image, // Include current image if no new one selected
         };
 
         // Create full product data for local state/callback
         const updatedProductData: Product = {
             ...product,
             ...updatePayload,
+            image: gallery[0] ?? product.image,
+            images: gallery,
         };
 
         try {
-            if (selectedImage) {
-                // Create FormData for multipart upload with new image
-                const formData = new FormData();
-                formData.append("name", name.trim());
-                formData.append("description", description.trim());
-                formData.append("price", String(price));
-                formData.append("stock", String(stock));
-                formData.append("category", category);
-
-                // Add image file
-                const filename = selectedImage.split("/").pop() || "image.jpg";
-                const match = /\.(\w+)$/.exec(filename);
-                const type = match ? `image/${match[1]}` : "image/jpeg";
-
-                formData.append("image", {
-                    uri: selectedImage,
-                    name: filename,
-                    type,
-                } as any);
-
-                await updateProductWithImage(product.id, formData);
-            } else {
-                // Update without changing image - include current image URL
-                await update_product(product.id, updatePayload as any);
-            }
+            await update_product(product.id, updatePayload as any);
 
             Alert.alert("Success", "Product updated successfully!", [
                 { text: "OK", onPress: onClose },
@@ -172,8 +222,6 @@ const ProductEdit: React.FC<ProductEditProps> = ({
         }
     };
 
-    const currentImage = selectedImage || product.image;
-
     return (
         <KeyboardAvoidingView 
             style={styles.container} 
@@ -203,22 +251,17 @@ const ProductEdit: React.FC<ProductEditProps> = ({
                 showsVerticalScrollIndicator={false}
                 keyboardShouldPersistTaps="handled"
             >
-                {/* Product Image */}
+                {/* Product Photos */}
                 <View style={styles.imageSection}>
-                    <Text style={styles.sectionTitle}>Product Image</Text>
-                    <TouchableOpacity style={styles.imageContainer} onPress={pickImage}>
-                        {currentImage ? (
-                            <Image source={{ uri: currentImage }} style={styles.productImage} />
-                        ) : (
-                            <View style={styles.imagePlaceholder}>
-                                <Ionicons name="camera" size={32} color="#7CB798" />
-                                <Text style={styles.placeholderText}>Tap to add image</Text>
-                            </View>
-                        )}
-                        <View style={styles.imageOverlay}>
-                            <Ionicons name="camera" size={20} color="#fff" />
-                        </View>
-                    </TouchableOpacity>
+                    <Text style={styles.sectionTitle}>Product Photos</Text>
+                    <GalleryStrip
+                        images={gallery}
+                        onAdd={addPhotos}
+                        onMakeCover={makeCover}
+                        onMove={movePhoto}
+                        onRemove={deletePhoto}
+                        busy={galleryBusy}
+                    />
                 </View>
 
                 {/* Product Details */}
@@ -260,40 +303,42 @@ const ProductEdit: React.FC<ProductEditProps> = ({
                         {errors.description && <Text style={styles.errorText}>{errors.description}</Text>}
                     </View>
 
-                    {/* Price and Stock Row */}
-                    <View style={styles.row}>
-                        <View style={[styles.inputGroup, { flex: 1, marginRight: 8 }]}>
-                            <Text style={styles.inputLabel}>Price (KES) *</Text>
-                            <TextInput
-                                style={[styles.input, errors.price && styles.inputError]}
-                                value={price}
-                                onChangeText={(text) => {
-                                    setPrice(text);
-                                    if (errors.price) setErrors(prev => ({ ...prev, price: "" }));
-                                }}
-                                placeholder="0"
-                                placeholderTextColor="#9DB8A5"
-                                keyboardType="numeric"
-                            />
-                            {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
-                        </View>
+                    {/* Price and Stock Row - set per variant when there are variants */}
+                    {!hasVariants && (
+                        <View style={styles.row}>
+                            <View style={[styles.inputGroup, { flex: 1, marginRight: 8 }]}>
+                                <Text style={styles.inputLabel}>Price (KES) *</Text>
+                                <TextInput
+                                    style={[styles.input, errors.price && styles.inputError]}
+                                    value={price}
+                                    onChangeText={(text) => {
+                                        setPrice(text);
+                                        if (errors.price) setErrors(prev => ({ ...prev, price: "" }));
+                                    }}
+                                    placeholder="0"
+                                    placeholderTextColor="#9DB8A5"
+                                    keyboardType="numeric"
+                                />
+                                {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
+                            </View>
 
-                        <View style={[styles.inputGroup, { flex: 1, marginLeft: 8 }]}>
-                            <Text style={styles.inputLabel}>Stock Quantity *</Text>
-                            <TextInput
-                                style={[styles.input, errors.stock && styles.inputError]}
-                                value={stock}
-                                onChangeText={(text) => {
-                                    setStock(text);
-                                    if (errors.stock) setErrors(prev => ({ ...prev, stock: "" }));
-                                }}
-                                placeholder="0"
-                                placeholderTextColor="#9DB8A5"
-                                keyboardType="numeric"
-                            />
-                            {errors.stock && <Text style={styles.errorText}>{errors.stock}</Text>}
+                            <View style={[styles.inputGroup, { flex: 1, marginLeft: 8 }]}>
+                                <Text style={styles.inputLabel}>Stock Quantity *</Text>
+                                <TextInput
+                                    style={[styles.input, errors.stock && styles.inputError]}
+                                    value={stock}
+                                    onChangeText={(text) => {
+                                        setStock(text);
+                                        if (errors.stock) setErrors(prev => ({ ...prev, stock: "" }));
+                                    }}
+                                    placeholder="0"
+                                    placeholderTextColor="#9DB8A5"
+                                    keyboardType="numeric"
+                                />
+                                {errors.stock && <Text style={styles.errorText}>{errors.stock}</Text>}
+                            </View>
                         </View>
-                    </View>
+                    )}
 
                     {/* Category */}
                     <View style={styles.inputGroup}>
@@ -345,6 +390,15 @@ const ProductEdit: React.FC<ProductEditProps> = ({
                             </View>
                         )}
                     </View>
+
+                    <VariantEditor
+                        variants={variantDrafts}
+                        onChange={(next) => {
+                            setVariantDrafts(next);
+                            if (errors.variants) setErrors(prev => ({ ...prev, variants: "" }));
+                        }}
+                    />
+                    {errors.variants ? <Text style={styles.errorText}>{errors.variants}</Text> : null}
                 </View>
 
                 {/* Save Button */}
@@ -413,43 +467,6 @@ const styles = StyleSheet.create({
     imageSection: {
         marginBottom: 24,
     },
-    imageContainer: {
-        alignSelf: "center",
-        position: "relative",
-    },
-    productImage: {
-        width: 200,
-        height: 200,
-        borderRadius: 12,
-        backgroundColor: "#223324",
-    },
-    imagePlaceholder: {
-        width: 200,
-        height: 200,
-        borderRadius: 12,
-        backgroundColor: "#223324",
-        alignItems: "center",
-        justifyContent: "center",
-        borderWidth: 2,
-        borderColor: "#7CB798",
-        borderStyle: "dashed",
-    },
-    placeholderText: {
-        color: "#7CB798",
-        fontSize: 14,
-        marginTop: 8,
-    },
-    imageOverlay: {
-        position: "absolute",
-        bottom: 8,
-        right: 8,
-        width: 32,
-        height: 32,
-        borderRadius: 16,
-        backgroundColor: "rgba(0,0,0,0.6)",
-        alignItems: "center",
-        justifyContent: "center",
-    },
     formSection: {
         marginBottom: 24,
     },
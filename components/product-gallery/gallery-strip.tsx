@@ -0,0 +1,161 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+	ActivityIndicator,
+	Image,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+// Matches the server's default MAX_PRODUCT_IMAGES
+export const MAX_PRODUCT_IMAGES = 8;
+
+interface GalleryStripProps {
+	images: string[];
+	onAdd?: () => void;
+	onMakeCover: (index: number) => void;
+	onMove: (index: number, direction: -1 | 1) => void;
+	onRemove: (index: number) => void;
+	busy?: boolean;
+}
+
+/**
+ * Horizontal list of product photos. The first one is the cover shown in
+ * the catalogue; the arrows reorder, the star makes a photo the cover.
+ */
+const GalleryStrip: React.FC<GalleryStripProps> = ({
+	images,
+	onAdd,
+	onMakeCover,
+	onMove,
+	onRemove,
+	busy = false,
+}) => (
+	<View>
+		<ScrollView horizontal showsHorizontalScrollIndicator={false}>
+			{images.map((uri, index) => (
+				<View key={uri} style={styles.tile}>
+					<Image source={{ uri }} style={styles.image} />
+					{index === 0 && (
+						<View style={styles.coverBadge}>
+							<Text style={styles.coverText}>Cover</Text>
+						</View>
+					)}
+					<View style={styles.actions}>
+						<TouchableOpacity
+							onPress={() => onMove(index, -1)}
+							disabled={busy || index === 0}
+						>
+							<Ionicons
+								name="chevron-back"
+								size={18}
+								color={index === 0 ? "#ccc" : "#222"}
+							/>
+						</TouchableOpacity>
+						<TouchableOpacity
+							onPress={() => onMakeCover(index)}
+							disabled={busy || index === 0}
+						>
+							<Ionicons
+								name={index === 0 ? "star" : "star-outline"}
+								size={18}
+								color="#FFD600"
+							/>
+						</TouchableOpacity>
+						<TouchableOpacity
+							onPress={() => onMove(index, 1)}
+							disabled={busy || index === images.length - 1}
+						>
+							<Ionicons
+								name="chevron-forward"
+								size={18}
+								color={index === images.length - 1 ? "#ccc" : "#222"}
+							/>
+						</TouchableOpacity>
+						<TouchableOpacity onPress={() => onRemove(index)} disabled={busy}>
+							<Ionicons name="trash-outline" size={18} color="#E47272" />
+						</TouchableOpacity>
+					</View>
+				</View>
+			))}
+			{onAdd && images.length < MAX_PRODUCT_IMAGES && (
+				<TouchableOpacity
+					style={[styles.tile, styles.addTile]}
+					onPress={onAdd}
+					disabled={busy}
+				>
+					{busy ? (
+						<ActivityIndicator color="#38E472" />
+					) : (
+						<>
+							<Ionicons name="add" size={28} color="#38E472" />
+							<Text style={styles.addText}>Add photos</Text>
+						</>
+					)}
+				</TouchableOpacity>
+			)}
+		</ScrollView>
+		<Text style={styles.hint}>
+			{images.length}/{MAX_PRODUCT_IMAGES} photos · the first photo is the cover
+		</Text>
+	</View>
+);
+
+const styles = StyleSheet.create({
+	tile: {
+		width: 120,
+		marginRight: 10,
+		borderRadius: 8,
+		backgroundColor: "#fff",
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		overflow: "hidden",
+	},
+	image: {
+		width: "100%",
+		height: 100,
+		backgroundColor: "#eee",
+	},
+	coverBadge: {
+		position: "absolute",
+		top: 6,
+		left: 6,
+		backgroundColor: "#38E472",
+		borderRadius: 6,
+		paddingHorizontal: 6,
+		paddingVertical: 2,
+	},
+	coverText: {
+		color: "#fff",
+		fontSize: 11,
+		fontWeight: "bold",
+	},
+	actions: {
+		flexDirection: "row",
+		justifyContent: "space-around",
+		paddingVertical: 6,
+	},
+	addTile: {
+		height: 132,
+		alignItems: "center",
+		justifyContent: "center",
+		borderStyle: "dashed",
+		borderColor: "#38E472",
+	},
+	addText: {
+		color: "#38E472",
+		fontSize: 13,
+		fontWeight: "600",
+		marginTop: 4,
+	},
+	hint: {
+		fontSize: 12,
+		color: "#7CB798",
+		marginTop: 6,
+	},
+});
+
+export default GalleryStrip;
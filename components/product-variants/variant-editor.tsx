@@ -0,0 +1,234 @@
+import { ProductVariant } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+// Form state for one variant; numbers stay strings while being typed
+export type VariantDraft = {
+	_id?: string;
+	sku: string;
+	color: string;
+	material: string;
+	size: string;
+	price: string;
+	stock: string;
+	images?: string[];
+};
+
+export const emptyVariantDraft = (): VariantDraft => ({
+	sku: "",
+	color: "",
+	material: "",
+	size: "",
+	price: "",
+	stock: "",
+});
+
+export const toVariantDrafts = (variants: ProductVariant[] = []): VariantDraft[] =>
+	variants.map((v) => ({
+		_id: v._id,
+		sku: v.sku,
+		color: v.attributes?.color ?? "",
+		material: v.attributes?.material ?? "",
+		size: v.attributes?.size ?? "",
+		price: String(v.price),
+		stock: String(v.stock),
+		images: v.images,
+	}));
+
+/**
+ * Turn the form rows back into variants, or explain what is missing.
+ */
+export const fromVariantDrafts = (
+	drafts: VariantDraft[]
+): { variants: ProductVariant[] } | { error: string } => {
+	const variants: ProductVariant[] = [];
+	for (const [index, d] of drafts.entries()) {
+		const row = `Variant ${index + 1}`;
+		const price = Number(d.price);
+		const stock = Number(d.stock || 0);
+		if (!d.sku.trim()) return { error: `${row}: enter a SKU` };
+		if (!d.color.trim() && !d.material.trim() && !d.size.trim()) {
+			return { error: `${row}: enter a colour, material or size` };
+		}
+		if (!d.price || Number.isNaN(price) || price < 0) {
+			return { error: `${row}: enter a valid price` };
+		}
+		if (!Number.isInteger(stock) || stock < 0) {
+			return { error: `${row}: enter a valid stock quantity` };
+		}
+		variants.push({
+			...(d._id ? { _id: d._id } : {}),
+			sku: d.sku.trim(),
+			attributes: {
+				color: d.color.trim(),
+				material: d.material.trim(),
+				size: d.size.trim(),
+			},
+			price,
+			stock,
+			images: d.images ?? [],
+		});
+	}
+	const skus = variants.map((v) => v.sku);
+	if (new Set(skus).size !== skus.length) {
+		return { error: "Each variant needs its own SKU" };
+	}
+	return { variants };
+};
+
+interface VariantEditorProps {
+	variants: VariantDraft[];
+	onChange: (variants: VariantDraft[]) => void;
+}
+
+const VariantEditor: React.FC<VariantEditorProps> = ({ variants, onChange }) => {
+	const update = (index: number, field: keyof VariantDraft, value: string) =>
+		onChange(variants.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+
+	const remove = (index: number) =>
+		onChange(variants.filter((_, i) => i !== index));
+
+	return (
+		<View style={styles.section}>
+			<Text style={styles.sectionTitle}>Variants (optional)</Text>
+			<Text style={styles.hint}>
+				Sell this product in several colours, materials or sizes. Each
+				variant has its own price and stock.
+			</Text>
+
+			{variants.map((variant, index) => (
+				<View key={variant._id ?? `new-${index}`} style={styles.card}>
+					<View style={styles.cardHeader}>
+						<Text style={styles.cardTitle}>Variant {index + 1}</Text>
+						<TouchableOpacity onPress={() => remove(index)}>
+							<Ionicons name="trash-outline" size={20} color="#E47272" />
+						</TouchableOpacity>
+					</View>
+					<TextInput
+						style={styles.input}
+						placeholder="SKU (e.g. SOFA-GRY-LIN)"
+						value={variant.sku}
+						onChangeText={(value) => update(index, "sku", value)}
+						autoCapitalize="characters"
+						placeholderTextColor="#7CB798"
+					/>
+					<View style={styles.row}>
+						<TextInput
+							style={[styles.input, styles.rowInput]}
+							placeholder="Colour"
+							value={variant.color}
+							onChangeText={(value) => update(index, "color", value)}
+							placeholderTextColor="#7CB798"
+						/>
+						<TextInput
+							style={[styles.input, styles.rowInput]}
+							placeholder="Material"
+							value={variant.material}
+							onChangeText={(value) => update(index, "material", value)}
+							placeholderTextColor="#7CB798"
+						/>
+						<TextInput
+							style={[styles.input, styles.rowInput]}
+							placeholder="Size"
+							value={variant.size}
+							onChangeText={(value) => update(index, "size", value)}
+							placeholderTextColor="#7CB798"
+						/>
+					</View>
+					<View style={styles.row}>
+						<TextInput
+							style={[styles.input, styles.rowInput]}
+							placeholder="Price (KES)"
+							value={variant.price}
+							onChangeText={(value) => update(index, "price", value)}
+							keyboardType="numeric"
+							placeholderTextColor="#7CB798"
+						/>
+						<TextInput
+							style={[styles.input, styles.rowInput]}
+							placeholder="Stock"
+							value={variant.stock}
+							onChangeText={(value) => update(index, "stock", value)}
+							keyboardType="numeric"
+							placeholderTextColor="#7CB798"
+						/>
+					</View>
+				</View>
+			))}
+
+			<TouchableOpacity
+				style={styles.addBtn}
+				onPress={() => onChange([...variants, emptyVariantDraft()])}
+			>
+				<Ionicons name="add-circle-outline" size={18} color="#38E472" />
+				<Text style={styles.addBtnText}>Add variant</Text>
+			</TouchableOpacity>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	section: {
+		marginBottom: 12,
+	},
+	sectionTitle: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+		marginBottom: 4,
+	},
+	hint: {
+		fontSize: 13,
+		color: "#7CB798",
+		marginBottom: 10,
+	},
+	card: {
+		backgroundColor: "#fff",
+		borderRadius: 10,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		padding: 12,
+		marginBottom: 10,
+	},
+	cardHeader: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
+		marginBottom: 8,
+	},
+	cardTitle: {
+		fontSize: 14,
+		fontWeight: "600",
+		color: "#222",
+	},
+	input: {
+		backgroundColor: "#E7F3EC",
+		borderRadius: 8,
+		padding: 10,
+		fontSize: 14,
+		color: "#222",
+		marginBottom: 8,
+	},
+	row: {
+		flexDirection: "row",
+		gap: 8,
+	},
+	rowInput: {
+		flex: 1,
+	},
+	addBtn: {
+		flexDirection: "row",
+		alignItems: "center",
+		alignSelf: "flex-start",
+		paddingVertical: 6,
+	},
+	addBtnText: {
+		color: "#38E472",
+		fontSize: 14,
+		fontWeight: "600",
+		marginLeft: 6,
+	},
+});
+
+export default VariantEditor;
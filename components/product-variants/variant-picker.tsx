@@ -0,0 +1,99 @@
+import { ProductVariant } from "@/types";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { describeVariant } from "./variant-utils";
+
+interface VariantPickerProps {
+	variants: ProductVariant[];
+	selectedId: string | null;
+	onSelect: (variant: ProductVariant) => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({
+	variants,
+	selectedId,
+	onSelect,
+}) => (
+	<View style={styles.container}>
+		<Text style={styles.title}>Choose an option</Text>
+		<View style={styles.options}>
+			{variants.map((variant) => {
+				const isSelected = variant._id === selectedId;
+				const isSoldOut = variant.stock <= 0;
+				return (
+					<TouchableOpacity
+						key={variant._id ?? variant.sku}
+						style={[
+							styles.option,
+							isSelected && styles.optionSelected,
+							isSoldOut && styles.optionSoldOut,
+						]}
+						onPress={() => onSelect(variant)}
+						disabled={isSoldOut}
+					>
+						<Text
+							style={[styles.optionLabel, isSelected && styles.optionLabelSelected]}
+						>
+							{describeVariant(variant)}
+						</Text>
+						<Text
+							style={[styles.optionMeta, isSelected && styles.optionLabelSelected]}
+						>
+							{isSoldOut
+								? "Sold out"
+								: `Ksh ${variant.price.toLocaleString()} · ${variant.stock} left`}
+						</Text>
+					</TouchableOpacity>
+				);
+			})}
+		</View>
+	</View>
+);
+
+const styles = StyleSheet.create({
+	container: {
+		width: "100%",
+		marginTop: 12,
+	},
+	title: {
+		fontSize: 14,
+		fontWeight: "600",
+		color: "#222",
+		marginBottom: 8,
+	},
+	options: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		gap: 8,
+	},
+	option: {
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		borderRadius: 8,
+		paddingVertical: 8,
+		paddingHorizontal: 10,
+		backgroundColor: "#fff",
+	},
+	optionSelected: {
+		backgroundColor: "#38E472",
+		borderColor: "#38E472",
+	},
+	optionSoldOut: {
+		opacity: 0.4,
+	},
+	optionLabel: {
+		fontSize: 13,
+		fontWeight: "600",
+		color: "#222",
+	},
+	optionLabelSelected: {
+		color: "#fff",
+	},
+	optionMeta: {
+		fontSize: 12,
+		color: "#7CB798",
+		marginTop: 2,
+	},
+});
+
+export default VariantPicker;
@@ -0,0 +1,20 @@
+import { CartItem, ProductVariant, VariantAttributes } from "@/types";
+
+// "Grey · Linen · 3-seater"
+export const variantLabel = (attributes?: VariantAttributes) =>
+	[attributes?.color, attributes?.material, attributes?.size]
+		.filter(Boolean)
+		.join(" · ");
+
+export const describeVariant = (variant: ProductVariant) =>
+	variantLabel(variant.attributes) || variant.sku;
+
+// Cart, checkout and receipt rows show the chosen option after the name
+export const cartLineName = (item: CartItem) =>
+	item.variant
+		? `${item.product.name} (${describeVariant(item.variant)})`
+		: item.product.name;
+
+// Distinct key for a cart row: the product, or one variant of it
+export const cartLineKey = (item: CartItem) =>
+	item.variant?._id ? `${item.product.id}:${item.variant._id}` : item.product.id;
@@ -1,6 +1,6 @@
 import { useReviewStore } from "@/stores/reviewStore"; // Import the review store
 import { Ionicons } from "@expo/vector-icons";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
 	ActivityIndicator,
 	Modal,
@@ -23,14 +23,29 @@ const ReviewInterface = ({
 }) => {
 	const [review, setReview] = useState("");
 	const [stars, setStars] = useState(0); 
-	const { leaveReview, isLoading, error } = useReviewStore(); 
+	const { leaveReview, fetchMyReview, myReview, isLoading, error } =
+		useReviewStore();
+	const isEditing = Boolean(myReview && myReview.product === productId);
+
+	useEffect(() => {
+		if (visible && productId) fetchMyReview(productId);
+	}, [visible, productId, fetchMyReview]);
+
+	// buyers have one review per product; open it for editing
+	useEffect(() => {
+		if (myReview && myReview.product === productId) {
+			setReview(myReview.content);
+			setStars(myReview.stars);
+		}
+	}, [myReview, productId]);
 
 	const handleSubmit = async () => {
 		if (review.trim() === "" || stars === 0) {
 			alert("Please provide a review and a star rating.");
 			return;
 		}
-		await leaveReview(productId, review, stars);
+		const saved = await leaveReview(productId, review, stars);
+		if (!saved) return;
 		setReview(""); 
 		setStars(0);
 		onClose();  
@@ -48,7 +63,9 @@ const ReviewInterface = ({
 					<Pressable style={styles.closeBtn} onPress={onClose}>
 						<Ionicons name="close" size={28} color="#222" />
 					</Pressable>
-					<Text style={styles.title}>Rate Product</Text>
+					<Text style={styles.title}>
+						{isEditing ? "Edit Your Review" : "Rate Product"}
+					</Text>
 					<Text style={styles.subtitle}>How would you rate this product?</Text>
 					<View style={styles.row}>
 						<Text style={styles.ratingNum}>{stars > 0 ? stars : "0"}</Text>
@@ -83,7 +100,9 @@ const ReviewInterface = ({
 						{isLoading ? (
 							<ActivityIndicator color="#fff" />
 						) : (
-							<Text style={styles.submitBtnText}>Submit Review</Text>
+							<Text style={styles.submitBtnText}>
+								{isEditing ? "Update Review" : "Submit Review"}
+							</Text>
 						)}
 					</TouchableOpacity>
 					{error && <Text style={styles.errorText}>{error}</Text>}
@@ -0,0 +1,511 @@
+import { getSellerAnalytics } from "@/SERVICE/api";
+import { AnalyticsInterval, RevenuePoint, SellerAnalytics } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	RefreshControl,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+const RANGES: { label: string; days: number; interval: AnalyticsInterval }[] = [
+	{ label: "7 days", days: 7, interval: "day" },
+	{ label: "30 days", days: 30, interval: "day" },
+	{ label: "90 days", days: 90, interval: "week" },
+	{ label: "12 months", days: 365, interval: "month" },
+];
+
+const CHART_HEIGHT = 140;
+
+// YYYY-MM-DD on the phone's calendar
+const dayString = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+		date.getDate()
+	).padStart(2, "0")}`;
+
+const ksh = (amount: number) => `Ksh ${Math.round(amount).toLocaleString()}`;
+
+const bucketLabel = (point: RevenuePoint, interval: AnalyticsInterval) => {
+	const start = new Date(point.start);
+	if (interval === "month") {
+		return start.toLocaleDateString("en-KE", { month: "short", year: "numeric" });
+	}
+	const day = start.toLocaleDateString("en-KE", { day: "numeric", month: "short" });
+	return interval === "week" ? `Week of ${day}` : day;
+};
+
+// One labelled horizontal bar, sized against the largest value in its list
+const BarRow = ({
+	label,
+	value,
+	max,
+	caption,
+}: {
+	label: string;
+	value: number;
+	max: number;
+	caption: string;
+}) => (
+	<View style={styles.barRow}>
+		<View style={styles.barRowHeader}>
+			<Text style={styles.barRowLabel} numberOfLines={1}>
+				{label}
+			</Text>
+			<Text style={styles.barRowCaption}>{caption}</Text>
+		</View>
+		<View style={styles.barTrack}>
+			<View style={[styles.barFill, { width: `${max ? (value / max) * 100 : 0}%` }]} />
+		</View>
+	</View>
+);
+
+interface SellerAnalyticsProps {
+	onBack?: () => void;
+}
+
+const SellerAnalyticsScreen: React.FC<SellerAnalyticsProps> = ({ onBack }) => {
+	const [rangeIndex, setRangeIndex] = useState(1);
+	const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// revenue bar whose figures are shown above the chart
+	const [selectedBar, setSelectedBar] = useState<number | null>(null);
+
+	const range = RANGES[rangeIndex] ?? RANGES[1]!;
+
+	const load = useCallback(async () => {
+		const today = new Date();
+		const from = new Date(today);
+		from.setDate(today.getDate() - (range.days - 1));
+		setIsLoading(true);
+		setError(null);
+		try {
+			const data = await getSellerAnalytics({
+				from: dayString(from),
+				to: dayString(today),
+				interval: range.interval,
+			});
+			setAnalytics(data);
+			setSelectedBar(null);
+		} catch (err: unknown) {
+			setError(err instanceof Error ? err.message : "Failed to load analytics");
+		} finally {
+			setIsLoading(false);
+		}
+	}, [range]);
+
+	useEffect(() => {
+		void load();
+	}, [load]);
+
+	const renderRevenueChart = (points: RevenuePoint[]) => {
+		const max = Math.max(...points.map((point) => point.revenue), 0);
+		const shown = points[selectedBar ?? points.length - 1];
+		return (
+			<View style={styles.card}>
+				<Text style={styles.cardTitle}>Revenue</Text>
+				{shown && (
+					<Text style={styles.chartCaption}>
+						{bucketLabel(shown, range.interval)} · {ksh(shown.revenue)} ·{" "}
+						{shown.orders} {shown.orders === 1 ? "order" : "orders"}
+					</Text>
+				)}
+				<View style={styles.chart}>
+					{points.map((point, index) => (
+						<TouchableOpacity
+							key={point.start}
+							style={styles.chartColumn}
+							onPress={() => setSelectedBar(index)}
+						>
+							<View
+								style={[
+									styles.chartBar,
+									{ height: max ? Math.max((point.revenue / max) * CHART_HEIGHT, 2) : 2 },
+									(selectedBar ?? points.length - 1) === index && styles.chartBarSelected,
+								]}
+							/>
+						</TouchableOpacity>
+					))}
+				</View>
+				{points.length > 0 && (
+					<View style={styles.chartAxis}>
+						<Text style={styles.axisLabel}>{bucketLabel(points[0]!, range.interval)}</Text>
+						<Text style={styles.axisLabel}>
+							{bucketLabel(points[points.length - 1]!, range.interval)}
+						</Text>
+					</View>
+				)}
+			</View>
+		);
+	};
+
+	const renderBody = ({ summary, revenue, products, cities, lowStock }: SellerAnalytics) => {
+		const stats = [
+			{ label: "Revenue", value: ksh(summary.revenue) },
+			{ label: "After refunds", value: ksh(summary.netRevenue) },
+			{ label: "Paid orders", value: String(summary.paidOrders) },
+			{ label: "Avg. order value", value: ksh(summary.averageOrderValue) },
+			{ label: "Units sold", value: String(summary.unitsSold) },
+			{ label: "Cancelled", value: `${Math.round(summary.cancellationRate * 100)}%` },
+		];
+		const maxUnits = Math.max(...products.map((product) => product.units), 0);
+		const maxCityOrders = Math.max(...cities.map((city) => city.orders), 0);
+
+		return (
+			<>
+				<View style={styles.statsGrid}>
+					{stats.map((stat) => (
+						<View key={stat.label} style={styles.statBox}>
+							<Text style={styles.statLabel}>{stat.label}</Text>
+							<Text style={styles.statValue}>{stat.value}</Text>
+						</View>
+					))}
+				</View>
+
+				{renderRevenueChart(revenue)}
+
+				<View style={styles.card}>
+					<Text style={styles.cardTitle}>Best sellers</Text>
+					{products.length === 0 ? (
+						<Text style={styles.emptyText}>No sales in this period</Text>
+					) : (
+						products.map((product) => (
+							<BarRow
+								key={product.product}
+								label={product.name ?? "Removed product"}
+								value={product.units}
+								max={maxUnits}
+								caption={`${product.units} sold · ${ksh(product.revenue)}`}
+							/>
+						))
+					)}
+				</View>
+
+				<View style={styles.card}>
+					<Text style={styles.cardTitle}>Top buyer towns</Text>
+					{cities.length === 0 ? (
+						<Text style={styles.emptyText}>No deliveries in this period</Text>
+					) : (
+						cities.map((city) => (
+							<BarRow
+								key={city.city}
+								label={city.city}
+								value={city.orders}
+								max={maxCityOrders}
+								caption={`${city.orders} ${city.orders === 1 ? "order" : "orders"}`}
+							/>
+						))
+					)}
+				</View>
+
+				<View style={styles.card}>
+					<Text style={styles.cardTitle}>Low stock</Text>
+					{lowStock.length === 0 ? (
+						<Text style={styles.emptyText}>Everything is well stocked</Text>
+					) : (
+						lowStock.map((product) => (
+							<View key={product._id} style={styles.stockRow}>
+								<View style={styles.stockInfo}>
+									<Text style={styles.stockName} numberOfLines={1}>
+										{product.name}
+									</Text>
+									{product.variants.map((variant) => (
+										<Text key={variant._id} style={styles.stockVariant}>
+											{variant.sku}: {variant.stock} left
+										</Text>
+									))}
+								</View>
+								<Text
+									style={[styles.stockCount, product.stock === 0 && styles.stockOut]}
+								>
+									{product.stock === 0 ? "Sold out" : `${product.stock} left`}
+								</Text>
+							</View>
+						))
+					)}
+				</View>
+			</>
+		);
+	};
+
+	return (
+		<View style={styles.container}>
+			<View style={styles.header}>
+				<TouchableOpacity onPress={onBack} style={styles.backButton}>
+					<Ionicons name="arrow-back" size={24} color="#222" />
+				</TouchableOpacity>
+				<Text style={styles.headerTitle}>Sales Analytics</Text>
+				<View style={{ width: 32 }} />
+			</View>
+
+			<View style={styles.rangeRow}>
+				{RANGES.map((option, index) => (
+					<TouchableOpacity
+						key={option.label}
+						style={[styles.rangeChip, index === rangeIndex && styles.rangeChipActive]}
+						onPress={() => setRangeIndex(index)}
+					>
+						<Text
+							style={[styles.rangeText, index === rangeIndex && styles.rangeTextActive]}
+						>
+							{option.label}
+						</Text>
+					</TouchableOpacity>
+				))}
+			</View>
+
+			{error && !analytics ? (
+				<View style={styles.centered}>
+					<Ionicons name="alert-circle-outline" size={64} color="#FF5722" />
+					<Text style={styles.errorText}>{error}</Text>
+					<TouchableOpacity style={styles.retryButton} onPress={load}>
+						<Text style={styles.retryText}>Retry</Text>
+					</TouchableOpacity>
+				</View>
+			) : !analytics ? (
+				<View style={styles.centered}>
+					<ActivityIndicator size="large" color="#38E472" />
+					<Text style={styles.loadingText}>Loading analytics...</Text>
+				</View>
+			) : (
+				<ScrollView
+					contentContainerStyle={styles.content}
+					refreshControl={<RefreshControl refreshing={isLoading} onRefresh={load} />}
+					showsVerticalScrollIndicator={false}
+				>
+					{error && <Text style={styles.inlineError}>{error}</Text>}
+					{renderBody(analytics)}
+				</ScrollView>
+			)}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+	},
+	centered: {
+		flex: 1,
+		justifyContent: "center",
+		alignItems: "center",
+		padding: 24,
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		paddingHorizontal: 24,
+		paddingTop: 58,
+		paddingBottom: 16,
+	},
+	backButton: {
+		padding: 4,
+	},
+	headerTitle: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	rangeRow: {
+		flexDirection: "row",
+		gap: 8,
+		paddingHorizontal: 24,
+		marginBottom: 12,
+	},
+	rangeChip: {
+		flex: 1,
+		paddingVertical: 8,
+		borderRadius: 16,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		backgroundColor: "#fff",
+		alignItems: "center",
+	},
+	rangeChipActive: {
+		backgroundColor: "#38E472",
+		borderColor: "#38E472",
+	},
+	rangeText: {
+		fontSize: 13,
+		color: "#7CB798",
+		fontWeight: "500",
+	},
+	rangeTextActive: {
+		color: "#111",
+		fontWeight: "bold",
+	},
+	content: {
+		paddingHorizontal: 24,
+		paddingBottom: 100,
+	},
+	statsGrid: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		justifyContent: "space-between",
+	},
+	statBox: {
+		width: "48.5%",
+		backgroundColor: "#fff",
+		borderRadius: 10,
+		padding: 14,
+		marginBottom: 10,
+		alignItems: "center",
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+	},
+	statLabel: {
+		color: "#7CB798",
+		fontSize: 13,
+		marginBottom: 4,
+	},
+	statValue: {
+		fontSize: 17,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	card: {
+		backgroundColor: "#fff",
+		borderRadius: 12,
+		padding: 16,
+		marginBottom: 12,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+	},
+	cardTitle: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+		marginBottom: 8,
+	},
+	chartCaption: {
+		fontSize: 13,
+		color: "#666",
+		marginBottom: 8,
+	},
+	chart: {
+		flexDirection: "row",
+		alignItems: "flex-end",
+		height: CHART_HEIGHT,
+	},
+	chartColumn: {
+		flex: 1,
+		height: "100%",
+		justifyContent: "flex-end",
+		paddingHorizontal: 1,
+	},
+	chartBar: {
+		backgroundColor: "#A8DDBF",
+		borderTopLeftRadius: 3,
+		borderTopRightRadius: 3,
+	},
+	chartBarSelected: {
+		backgroundColor: "#38E472",
+	},
+	chartAxis: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		marginTop: 6,
+	},
+	axisLabel: {
+		fontSize: 11,
+		color: "#999",
+	},
+	barRow: {
+		marginBottom: 10,
+	},
+	barRowHeader: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		marginBottom: 4,
+		gap: 8,
+	},
+	barRowLabel: {
+		flex: 1,
+		fontSize: 14,
+		color: "#222",
+	},
+	barRowCaption: {
+		fontSize: 13,
+		color: "#666",
+	},
+	barTrack: {
+		height: 8,
+		backgroundColor: "#F0F0F0",
+		borderRadius: 4,
+		overflow: "hidden",
+	},
+	barFill: {
+		height: "100%",
+		backgroundColor: "#38E472",
+		borderRadius: 4,
+	},
+	stockRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		paddingVertical: 8,
+		borderBottomWidth: 1,
+		borderBottomColor: "#F3F8F5",
+		gap: 8,
+	},
+	stockInfo: {
+		flex: 1,
+	},
+	stockName: {
+		fontSize: 14,
+		fontWeight: "500",
+		color: "#222",
+	},
+	stockVariant: {
+		fontSize: 12,
+		color: "#666",
+		marginTop: 2,
+	},
+	stockCount: {
+		fontSize: 13,
+		fontWeight: "bold",
+		color: "#E8A317",
+	},
+	stockOut: {
+		color: "#FF5722",
+	},
+	emptyText: {
+		fontSize: 14,
+		color: "#999",
+	},
+	loadingText: {
+		marginTop: 12,
+		fontSize: 16,
+		color: "#666",
+	},
+	errorText: {
+		marginTop: 12,
+		fontSize: 16,
+		color: "#FF5722",
+		textAlign: "center",
+	},
+	inlineError: {
+		color: "#FF5722",
+		fontSize: 13,
+		marginBottom: 8,
+	},
+	retryButton: {
+		marginTop: 16,
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingHorizontal: 24,
+		paddingVertical: 12,
+	},
+	retryText: {
+		color: "#111",
+		fontWeight: "bold",
+	},
+});
+
+export default SellerAnalyticsScreen;
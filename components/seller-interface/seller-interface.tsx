@@ -5,6 +5,8 @@ import { useReviewStore } from "@/stores/reviewStore";
 import { Feather, Ionicons } from "@expo/vector-icons";
 import React, { useEffect, useRef, useState } from "react";
 import { Alert, Image, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import NotificationBell from "../notification-center/notification-bell";
+import SellerAnalyticsScreen from "../seller-analytics/seller-analytics";
 import SellerOrders from "../seller-orders/seller-orders";
 import SellerManageListing from "../sellerManageListing/SellerManageListing";
 import SellerProducts from "../sellerproducts/upload";
@@ -21,6 +23,8 @@ const SellerInterface: React.FC<SellerInterfaceProps> = ({ onBack }) => {
 	const [showProfile, setShowProfile] = useState(false);
 	const [showReviews, setShowReviews] = useState(false);
 	const [showOrders, setShowOrders] = useState(false);  
+	const [showAnalytics, setShowAnalytics] = useState(false);
+	const [checkingApproval, setCheckingApproval] = useState(false);
 	const hasShownMissingSellerAlert = useRef(false);
 
 	const { getProfile, user, token } = useAuthStore();
@@ -60,6 +64,29 @@ const SellerInterface: React.FC<SellerInterfaceProps> = ({ onBack }) => {
 		}
 	}, [id, fetchSellersListings, fetchOrders]);
 
+	const isPendingApproval = user?.role === "seller" && !user?.isApproved;
+
+	const checkApproval = async () => {
+		if (!id) return;
+		setCheckingApproval(true);
+		try {
+			await getProfile(id);
+		} catch (err) {
+			console.error("Failed to refresh approval status", err);
+		} finally {
+			setCheckingApproval(false);
+		}
+	};
+
+	// The stored profile may be stale - re-check whenever the dashboard opens
+	useEffect(() => {
+		if (id && isPendingApproval) {
+			getProfile(id).catch((err) =>
+				console.error("Failed to refresh approval status", err)
+			);
+		}
+	}, [id, isPendingApproval, getProfile]);
+
 	useEffect(() => {
 		if (id) {
 			fetchReviews(id);
@@ -91,10 +118,51 @@ const SellerInterface: React.FC<SellerInterfaceProps> = ({ onBack }) => {
 	if (showReviews) {
 		return <SellerReviewsFromBuyers onClose={() => setShowReviews(false)} />;
 	}
+
+	if (isPendingApproval) {
+		return (
+			<View style={styles.container}>
+				<View style={styles.headerRow}>
+					<View style={{ width: 24 }} />
+					<Text style={styles.header}>Seller Dashboard</Text>
+					<View style={{ width: 24 }} />
+				</View>
+
+				<View style={styles.pendingCard}>
+					<Ionicons name="time-outline" size={48} color="#7CB798" />
+					<Text style={styles.pendingTitle}>Pending approval</Text>
+					<Text style={styles.pendingText}>
+						An admin needs to approve your seller account before you can
+						list products. Your dashboard unlocks as soon as that happens.
+					</Text>
+					<TouchableOpacity
+						style={[styles.addBtn, styles.pendingBtn]}
+						onPress={checkApproval}
+						disabled={checkingApproval}
+					>
+						<Text style={styles.addBtnText}>
+							{checkingApproval ? "Checking..." : "Check again"}
+						</Text>
+					</TouchableOpacity>
+				</View>
+
+				<View style={styles.bottomNav}>
+					<Ionicons name="home-outline" size={24} color="#7CB798" />
+					<NotificationBell />
+					<TouchableOpacity onPress={() => setShowProfile(true)}>
+						<Ionicons name="person-outline" size={24} color="#7CB798" />
+					</TouchableOpacity>
+				</View>
+			</View>
+		);
+	}
  
 	if (showOrders) {
 		return <SellerOrders onBack={() => setShowOrders(false)} />;
 	}
+	if (showAnalytics) {
+		return <SellerAnalyticsScreen onBack={() => setShowAnalytics(false)} />;
+	}
 
 	return (
 		<View style={styles.container}>
@@ -173,6 +241,22 @@ const SellerInterface: React.FC<SellerInterfaceProps> = ({ onBack }) => {
 				<Ionicons name="chevron-forward" size={20} color="#222" />
 			</View>
 
+			<View style={styles.quickActionRow}>
+				<TouchableOpacity
+					style={styles.quickActionBox}
+					onPress={() => setShowAnalytics(true)}
+				>
+					<Feather
+						name="trending-up"
+						size={20}
+						color="#7CB798"
+						style={{ marginRight: 8 }}
+					/>
+					<Text style={styles.quickActionText}>Sales Analytics</Text>
+				</TouchableOpacity>
+				<Ionicons name="chevron-forward" size={20} color="#222" />
+			</View>
+
 			<View style={styles.quickActionRow}>
 				<TouchableOpacity
 					style={styles.quickActionBox}
@@ -192,6 +276,7 @@ const SellerInterface: React.FC<SellerInterfaceProps> = ({ onBack }) => {
 			{/* Bottom Navigation */}
 			<View style={styles.bottomNav}>
 				<Ionicons name="home-outline" size={24} color="#7CB798" />
+				<NotificationBell />
 				<TouchableOpacity onPress={() => setShowProfile(true)}>
 					<Ionicons name="person-outline" size={24} color="#7CB798" />
 				</TouchableOpacity>
@@ -313,6 +398,33 @@ const styles = StyleSheet.create({
 		fontSize: 15,
 		fontWeight: "500",
 	},
+	pendingCard: {
+		backgroundColor: "#fff",
+		borderRadius: 10,
+		padding: 24,
+		alignItems: "center",
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		marginTop: 24,
+	},
+	pendingTitle: {
+		fontSize: 18,
+		fontWeight: "bold",
+		color: "#222",
+		marginTop: 12,
+		marginBottom: 8,
+	},
+	pendingText: {
+		color: "#7CB798",
+		fontSize: 14,
+		textAlign: "center",
+		lineHeight: 20,
+	},
+	pendingBtn: {
+		alignSelf: "stretch",
+		marginTop: 20,
+		marginBottom: 0,
+	},
 	bottomNav: {
 		position: "absolute",
 		left: 0,
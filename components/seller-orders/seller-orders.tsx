@@ -1,11 +1,13 @@
 import { useAuthStore } from "@/stores/authStore";
+import { useChatStore } from "@/stores/chatStore";
 import { useOrderStore } from "@/stores/orderStore";
-import { Buyer, Order } from "@/types";
-import { getUserProfile } from "@/SERVICE/api";
+import { Buyer, ChatTarget, Claim, Order, Refund } from "@/types";
+import { approveRefund, getClaims, getRefunds, getUserProfile } from "@/SERVICE/api";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useEffect, useState } from "react";
 import {
 	ActivityIndicator,
+	Alert,
 	FlatList,
 	RefreshControl,
 	StyleSheet,
@@ -13,7 +15,21 @@ import {
 	TouchableOpacity,
 	View,
 } from "react-native";
+import ChatInbox from "../chat/chat-inbox";
+import ChatScreen from "../chat/chat-screen";
+import ClaimCard from "../claims/claim-card";
 import OrderStatusButtons from "../order-status/order-status-buttons"; 
+import { getStatusMeta } from "../order-status/order-status-meta";
+
+const REFUND_TEXT: Record<Refund["status"], string> = {
+	requested: "awaiting your approval",
+	approved: "approved",
+	processing: "being sent",
+	completed: "sent",
+	failed: "failed",
+	needs_review: "timed out, being checked with M-Pesa",
+};
+
 interface SellerOrdersProps {
 	onBack?: () => void;
 	onOrderPress?: (order: Order) => void;
@@ -25,9 +41,19 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 }) => {
 	const { user } = useAuthStore();
 	const { orders, isLoading, error, fetchOrders } = useOrderStore();
+	const unreadMessages = useChatStore((state) => state.unreadCount);
+	const [chatTarget, setChatTarget] = useState<ChatTarget | null>(null);
+	const [showInbox, setShowInbox] = useState(false);
 	const [buyerNamesById, setBuyerNamesById] = useState<Record<string, string>>(
 		{},
 	);
+	// refunds owed on cancelled paid orders, by order id
+	const [refundsByOrder, setRefundsByOrder] = useState<Record<string, Refund>>(
+		{},
+	);
+	const [approvingRefund, setApprovingRefund] = useState<string | null>(null);
+	// return and damage claims on delivered orders, by order id
+	const [claimsByOrder, setClaimsByOrder] = useState<Record<string, Claim>>({});
 
 	useEffect(() => {
 		if (user?.id) {
@@ -86,28 +112,91 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 		void loadBuyerNames();
 	}, [orders, buyerNamesById]);
 
-	const handleRefresh = () => {
+	useEffect(() => {
+		if (!orders.some((order) => order.status === "cancelled")) return;
+		getRefunds()
+			.then(({ refunds }) =>
+				setRefundsByOrder(
+					Object.fromEntries(
+						refunds.map((refund) => [
+							typeof refund.order === "string" ? refund.order : refund.order._id,
+							refund,
+						]),
+					),
+				),
+			)
+			.catch(() => {
+				// Refund rows are extra; the orders still render without them.
+			});
+	}, [orders]);
+
+	useEffect(() => {
+		if (!orders.some((order) => order.status === "delivered" || order.status === "returned")) {
+			return;
+		}
+		getClaims()
+			.then(({ claims }) => {
+				const latest: Record<string, Claim> = {};
+				for (const claim of claims) {
+					if (claim.status === "withdrawn") continue;
+					const orderId = typeof claim.order === "string" ? claim.order : claim.order._id;
+					latest[orderId] ??= claim;
+				}
+				setClaimsByOrder(latest);
+			})
+			.catch(() => {
+				// Claims are extra; the orders still render without them.
+			});
+	}, [orders]);
+
+	const handleClaimChange = (claim: Claim) => {
+		const orderId = typeof claim.order === "string" ? claim.order : claim.order._id;
+		setClaimsByOrder((prev) => ({ ...prev, [orderId]: claim }));
+		// accepting a return moves the order to returned
 		if (user?.id) {
 			fetchOrders(user.id, "seller");
 		}
 	};
 
-	const getStatusColor = (status: string) => {
-		switch (status?.toLowerCase()) {
-			case "pending":
-				return "#FFD600";
-			case "confirmed":
-			case "paid":
-				return "#38E472";
-			case "shipped":
-				return "#2196F3"; 
-			case "delivered":
-				return "#4CAF50";
-			case "cancelled":
-			case "failed":
-				return "#FF5722";
-			default:
-				return "#757575";
+	const handleApproveRefund = (refund: Refund) => {
+		Alert.alert(
+			"Approve refund",
+			`Send Ksh ${refund.amount.toLocaleString()} back to ${refund.phoneNumber} by M-Pesa?`,
+			[
+				{ text: "Cancel", style: "cancel" },
+				{
+					text: "Approve",
+					onPress: async () => {
+						setApprovingRefund(refund._id);
+						try {
+							const { refund: updated } = await approveRefund(refund._id);
+							setRefundsByOrder((prev) => {
+								const orderId =
+									typeof updated.order === "string"
+										? updated.order
+										: updated.order._id;
+								return { ...prev, [orderId]: updated };
+							});
+							if (updated.status === "failed") {
+								Alert.alert(
+									"Refund failed",
+									updated.resultDesc || "M-Pesa did not accept the payout.",
+								);
+							}
+						} catch (error: any) {
+							Alert.alert("Error", error?.message || "Failed to approve refund");
+						} finally {
+							setApprovingRefund(null);
+						}
+					},
+				},
+			],
+		);
+	};
+
+	const handleRefresh = () => {
+		if (user?.id) {
+			fetchOrders(user.id, "seller");
 		}
 	};
 
@@ -153,6 +242,31 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 		return "Unknown customer";
 	};
 
+	const renderRefund = (refund: Refund | undefined) => {
+		if (!refund) return null;
+		const canApprove = refund.status === "requested" || refund.status === "failed";
+		return (
+			<View style={styles.refundRow}>
+				<Text style={styles.refundText}>
+					Refund Ksh {refund.amount.toLocaleString()}: {REFUND_TEXT[refund.status]}
+					{refund.status === "failed" && refund.resultDesc
+						? ` (${refund.resultDesc})`
+						: ""}
+				</Text>
+				{canApprove &&
+					(approvingRefund === refund._id ? (
+						<ActivityIndicator size="small" color="#38E472" />
+					) : (
+						<TouchableOpacity onPress={() => handleApproveRefund(refund)}>
+							<Text style={styles.refundAction}>
+								{refund.status === "failed" ? "Retry" : "Approve"}
+							</Text>
+						</TouchableOpacity>
+					))}
+			</View>
+		);
+	};
+
 	const renderOrderItem = ({ item: order }: { item: Order }) => (
 		<View style={styles.orderCard}>
 			{/* Order Header */}
@@ -167,12 +281,12 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 					style={[
 						styles.statusBadge,
 						{
-							backgroundColor: getStatusColor(order.status || "pending"),  
+							backgroundColor: getStatusMeta(order.status).color,
 						},
 					]}
 				>
 					<Text style={styles.statusText}>
-						{(order.status || "pending").toUpperCase()}
+						{getStatusMeta(order.status).label.toUpperCase()}
 					</Text>
 				</View>
 			</TouchableOpacity>
@@ -204,6 +318,32 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 			<Text style={styles.buyerPhone}>
 				Buyer Phone: {order.phoneNumber || "N/A"}
 			</Text>
+			{order.shippingInfo?.recipientName && (
+				<Text style={styles.buyerPhone}>
+					Deliver to: {order.shippingInfo.recipientName}
+					{order.shippingInfo.phone ? ` (${order.shippingInfo.phone})` : ""}
+					{order.shippingInfo.address ? `, ${order.shippingInfo.address}` : ""}
+				</Text>
+			)}
+			{order.shippingInfo?.landmark ? (
+				<Text style={styles.shippingInfo}>{order.shippingInfo.landmark}</Text>
+			) : null}
+			{renderRefund(refundsByOrder[order.id || order._id || ""])}
+			{claimsByOrder[order.id || order._id || ""] && (
+				<ClaimCard
+					claim={claimsByOrder[order.id || order._id || ""]!}
+					userRole="seller"
+					onChange={handleClaimChange}
+				/>
+			)}
+
+			<TouchableOpacity
+				style={styles.messageButton}
+				onPress={() => setChatTarget({ orderId: order.id || order._id || "" })}
+			>
+				<Ionicons name="chatbubble-ellipses-outline" size={16} color="#38E472" />
+				<Text style={styles.messageText}>Message buyer</Text>
+			</TouchableOpacity>
 
 		
 			<OrderStatusButtons
@@ -233,7 +373,14 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 					<Ionicons name="arrow-back" size={24} color="#222" />
 				</TouchableOpacity>
 				<Text style={styles.headerTitle}>Customer Orders</Text>
-				<View style={{ width: 24 }} />
+				<TouchableOpacity onPress={() => setShowInbox(true)}>
+					<Ionicons name="chatbubbles-outline" size={24} color="#222" />
+					{unreadMessages > 0 && (
+						<View style={styles.unreadBadge}>
+							<Text style={styles.unreadText}>{unreadMessages}</Text>
+						</View>
+					)}
+				</TouchableOpacity>
 			</View>
 
 			{error ? (
@@ -264,6 +411,9 @@ const SellerOrders: React.FC<SellerOrdersProps> = ({
 					showsVerticalScrollIndicator={false}
 				/>
 			)}
+
+			<ChatScreen target={chatTarget} onClose={() => setChatTarget(null)} />
+			<ChatInbox visible={showInbox} onClose={() => setShowInbox(false)} />
 		</View>
 	);
 };
@@ -291,6 +441,55 @@ const styles = StyleSheet.create({
 	backButton: {
 		padding: 4,
 	},
+	unreadBadge: {
+		position: "absolute",
+		top: -6,
+		right: -10,
+		backgroundColor: "#38E472",
+		borderRadius: 10,
+		minWidth: 18,
+		height: 18,
+		justifyContent: "center",
+		alignItems: "center",
+		paddingHorizontal: 4,
+	},
+	unreadText: {
+		color: "#fff",
+		fontWeight: "bold",
+		fontSize: 12,
+	},
+	refundRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		gap: 8,
+		marginTop: 8,
+		padding: 8,
+		borderRadius: 8,
+		backgroundColor: "#F8FCF9",
+	},
+	refundText: {
+		flex: 1,
+		fontSize: 13,
+		color: "#222",
+	},
+	refundAction: {
+		color: "#38E472",
+		fontWeight: "bold",
+	},
+	messageButton: {
+		flexDirection: "row",
+		alignItems: "center",
+		alignSelf: "flex-start",
+		gap: 6,
+		marginTop: 8,
+		paddingVertical: 6,
+	},
+	messageText: {
+		color: "#38E472",
+		fontWeight: "600",
+		fontSize: 14,
+	},
 	headerTitle: {
 		fontSize: 20,
 		fontWeight: "bold",
@@ -5,10 +5,12 @@ import { useNavigation } from "@react-navigation/native";
 import React, { useEffect, useState } from "react";
 import {
 	ActivityIndicator,
+	Alert,
 	Image,
 	ScrollView,
 	StyleSheet,
 	Text,
+	TextInput,
 	TouchableOpacity,
 	View,
 } from "react-native";
@@ -24,10 +26,19 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 }) => {
 	const navigation = useNavigation();
 	const { user } = useAuthStore();
-	const { reviews = [], fetchReviews, isLoading, error } = useReviewStore();
-	const [dummyInteractions, setDummyInteractions] = useState<
-		{ likes: number; comments: number }[]
-	>([]);
+	const {
+		reviews = [],
+		rating,
+		fetchReviews,
+		reply,
+		report,
+		isLoading,
+		error,
+	} = useReviewStore();
+	// review whose reply thread is open, and the reply being typed
+	const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+	const [replyDraft, setReplyDraft] = useState("");
+	const [isSending, setIsSending] = useState(false);
 
 	useEffect(() => {
 		if (user?.id) {
@@ -36,17 +47,32 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 		}
 	}, [user?.id]);
 
-	useEffect(() => {
-		if (reviews && reviews.length > 0) {
-			console.log("Reviews received:", JSON.stringify(reviews, null, 2));
-			setDummyInteractions(
-				reviews.map(() => ({
-					likes: Math.floor(Math.random() * 50) + 5,
-					comments: Math.floor(Math.random() * 10) + 1,
-				}))
-			);
+	const toggleThread = (reviewId: string) => {
+		setReplyDraft("");
+		setOpenThreadId((current) => (current === reviewId ? null : reviewId));
+	};
+
+	const sendReply = async (reviewId: string) => {
+		if (!replyDraft.trim()) return;
+		setIsSending(true);
+		const sent = await reply(reviewId, replyDraft.trim());
+		setIsSending(false);
+		if (sent) setReplyDraft("");
+	};
+
+	const confirmReport = (reviewId: string) => {
+		Alert.alert("Report review", "Why should a moderator look at this review?", [
+			{ text: "Abusive", onPress: () => submitReport(reviewId, "abusive") },
+			{ text: "Spam", onPress: () => submitReport(reviewId, "spam") },
+			{ text: "Cancel", style: "cancel" },
+		]);
+	};
+
+	const submitReport = async (reviewId: string, reason: "abusive" | "spam") => {
+		if (await report(reviewId, reason)) {
+			Alert.alert("Reported", "Thanks, a moderator will take a look.");
 		}
-	}, [reviews]);
+	};
 
 	const handleClose = () => {
 		if (onClose) {
@@ -56,21 +82,13 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 		}
 	};
 
-	// Calculate average rating
-	const averageRating =
-		reviews && reviews.length > 0
-			? (
-					reviews.reduce((sum, r) => sum + (r.stars || 0), 0) / reviews.length
-			  ).toFixed(1)
-			: "0.0";
+	// Average and star distribution are maintained by the server
+	const reviewTotal = rating?.reviewCount ?? 0;
+	const averageRating = (rating?.averageRating ?? 0).toFixed(1);
 
-	// Calculate star distribution
-	const starDistribution = [5, 4, 3, 2, 1].map((star) => {
-		if (!reviews || reviews.length === 0) {
-			return { star, count: 0, percentage: 0 };
-		}
-		const count = reviews.filter((r) => r.stars === star).length;
-		const percentage = Math.round((count / reviews.length) * 100);
+	const starDistribution = ([5, 4, 3, 2, 1] as const).map((star) => {
+		const count = rating?.ratingHistogram[star] ?? 0;
+		const percentage = reviewTotal ? Math.round((count / reviewTotal) * 100) : 0;
 		return { star, count, percentage };
 	});
 
@@ -145,8 +163,8 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 								})}
 							</View>
 							<Text style={styles.reviewCount}>
-								Based on {reviews?.length || 0}{" "}
-								{reviews?.length === 1 ? "review" : "reviews"}
+								Based on {reviewTotal}{" "}
+								{reviewTotal === 1 ? "review" : "reviews"}
 							</Text>
 						</View>
 
@@ -232,10 +250,8 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 
 										{/* Reviews for this product */}
 										{productReviews.map((item, index) => {
-											const interactions = dummyInteractions[index] || {
-												likes: 0,
-												comments: 0,
-											};
+											const replies = item.replies ?? [];
+											const isThreadOpen = openThreadId === item.id;
 
 											// ✅ Extract buyer name with detailed logging
 											let buyerName = "Anonymous Buyer";
@@ -260,6 +276,18 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 														</View>
 														<View style={styles.buyerInfo}>
 															<Text style={styles.buyerName}>{buyerName}</Text>
+															{item.verifiedPurchase && (
+																<View style={styles.verifiedRow}>
+																	<Ionicons
+																		name="checkmark-circle"
+																		size={12}
+																		color="#38E472"
+																	/>
+																	<Text style={styles.verifiedText}>
+																		Verified purchase
+																	</Text>
+																</View>
+															)}
 															<View style={styles.reviewMeta}>
 																{[...Array(item.stars || 0)].map((_, i) => (
 																	<Ionicons
@@ -299,27 +327,71 @@ const SellerReviewsFromBuyers: React.FC<SellerReviewsFromBuyersProps> = ({
 													</Text>
 
 													<View style={styles.reviewActions}>
-														<TouchableOpacity style={styles.actionButton}>
+														<View style={styles.actionButton}>
 															<Ionicons
 																name="thumbs-up-outline"
 																size={18}
 																color="#7CB798"
 															/>
 															<Text style={styles.actionText}>
-																{interactions.likes}
+																{item.likesCount ?? 0} found helpful
 															</Text>
-														</TouchableOpacity>
-														<TouchableOpacity style={styles.actionButton}>
+														</View>
+														<TouchableOpacity
+															style={styles.actionButton}
+															onPress={() => toggleThread(item.id)}
+														>
 															<Ionicons
-																name="chatbubble-outline"
+																name={isThreadOpen ? "chatbubble" : "chatbubble-outline"}
 																size={18}
 																color="#7CB798"
 															/>
 															<Text style={styles.actionText}>
-																{interactions.comments}
+																{replies.length ? replies.length : "Reply"}
 															</Text>
 														</TouchableOpacity>
+														<TouchableOpacity
+															style={styles.actionButton}
+															onPress={() => confirmReport(item.id)}
+														>
+															<Ionicons name="flag-outline" size={18} color="#7CB798" />
+														</TouchableOpacity>
 													</View>
+
+													{isThreadOpen && (
+														<View style={styles.thread}>
+															{replies.map((r: any, i: number) => (
+																<View key={r._id ?? i} style={styles.replyBubble}>
+																	<Text style={styles.replyAuthor}>
+																		{r.authorRole === "seller"
+																			? "You (seller)"
+																			: r.author?.fullName || "Buyer"}
+																	</Text>
+																	<Text style={styles.replyText}>{r.content}</Text>
+																</View>
+															))}
+															<View style={styles.replyComposer}>
+																<TextInput
+																	style={styles.replyInput}
+																	placeholder="Write a public reply..."
+																	placeholderTextColor="#7CB798"
+																	value={replyDraft}
+																	onChangeText={setReplyDraft}
+																	multiline
+																/>
+																<TouchableOpacity
+																	onPress={() => sendReply(item.id)}
+																	disabled={isSending || !replyDraft.trim()}
+																>
+																	{isSending ? (
+																		<ActivityIndicator color="#38E472" />
+																	) : (
+																		<Ionicons name="send" size={20} color="#38E472" />
+																	)}
+																</TouchableOpacity>
+															</View>
+														</View>
+													)}
 												</View>
 											);
 										})}
@@ -565,6 +637,17 @@ const styles = StyleSheet.create({
 		color: "#1B1B1B",
 		marginBottom: 4,
 	},
+	verifiedRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		marginBottom: 4,
+	},
+	verifiedText: {
+		fontSize: 12,
+		color: "#38E472",
+		fontWeight: "600",
+		marginLeft: 4,
+	},
 	reviewMeta: {
 		flexDirection: "row",
 		alignItems: "center",
@@ -598,6 +681,41 @@ const styles = StyleSheet.create({
 		color: "#7CB798",
 		fontWeight: "600",
 	},
+	thread: {
+		marginTop: 12,
+		gap: 8,
+	},
+	replyBubble: {
+		backgroundColor: "#F8FCF9",
+		borderRadius: 10,
+		padding: 10,
+		borderLeftWidth: 3,
+		borderLeftColor: "#38E472",
+	},
+	replyAuthor: {
+		fontSize: 13,
+		fontWeight: "700",
+		color: "#1B1B1B",
+		marginBottom: 2,
+	},
+	replyText: {
+		fontSize: 14,
+		color: "#1B1B1B",
+		lineHeight: 20,
+	},
+	replyComposer: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 10,
+	},
+	replyInput: {
+		flex: 1,
+		backgroundColor: "#E7F3EC",
+		borderRadius: 8,
+		padding: 10,
+		fontSize: 14,
+		color: "#1B1B1B",
+	},
 });
 
 export default SellerReviewsFromBuyers;
@@ -6,8 +6,6 @@ import * as Location from "expo-location";
 import React, { useState } from "react";
 import {
 	Alert,
-	Image,
-	Modal,
 	ScrollView,
 	StyleSheet,
 	Text,
@@ -16,6 +14,11 @@ import {
 	View,
 	ActivityIndicator,
 } from "react-native";
+import GalleryStrip, { MAX_PRODUCT_IMAGES } from "../product-gallery/gallery-strip";
+import VariantEditor, {
+	fromVariantDrafts,
+	VariantDraft,
+} from "../product-variants/variant-editor";
 
 type SellerProductsProps = {
 	onClose?: () => void;
@@ -30,9 +33,9 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 	const [location, setLocation] = useState("");
 	const [isDetectingLocation, setIsDetectingLocation] = useState(false);
 	const [dropdownOpen, setDropdownOpen] = useState(false);
-	const [imageModal, setImageModal] = useState(false);
-	const [selectedImage, setSelectedImage] = useState<string | null>(null);
-	const [imageFile, setImageFile] = useState<any>(null);
+	// the first photo becomes the cover
+	const [imageFiles, setImageFiles] = useState<ImagePicker.ImagePickerAsset[]>([]);
+	const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
 	const { createProduct, isLoading } = useProductStore();
 	const { user } = useAuthStore();
 	const id = user?.id;
@@ -94,17 +97,35 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 		// Launch image picker
 		const result = await ImagePicker.launchImageLibraryAsync({
 			mediaTypes: ImagePicker.MediaTypeOptions.Images,
-			allowsEditing: true,
-			aspect: [4, 3],
+			allowsMultipleSelection: true,
+			selectionLimit: MAX_PRODUCT_IMAGES - imageFiles.length,
 			quality: 0.8,
 		});
 
-		if (!result.canceled && result.assets[0]) {
-			setSelectedImage(result.assets[0].uri);
-			setImageFile(result.assets[0]);
+		if (!result.canceled && result.assets.length > 0) {
+			setImageFiles((current) =>
+				[...current, ...result.assets].slice(0, MAX_PRODUCT_IMAGES)
+			);
 		}
 	};
 
+	const makeCover = (index: number) =>
+		setImageFiles((current) => [
+			current[index]!,
+			...current.filter((_, i) => i !== index),
+		]);
+
+	const movePhoto = (index: number, direction: -1 | 1) =>
+		setImageFiles((current) => {
+			const next = [...current];
+			const target = index + direction;
+			[next[index], next[target]] = [next[target]!, next[index]!];
+			return next;
+		});
+
+	const removePhoto = (index: number) =>
+		setImageFiles((current) => current.filter((_, i) => i !== index));
+
 	const addProduct = async () => {
 		try {
 			if (!id) {
@@ -112,12 +133,18 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 				return;
 			}
 
-		if (!name || !price || !description || !category || !location.trim()) {
+		const hasVariants = variantDrafts.length > 0;
+		if (!name || (!hasVariants && !price) || !description || !category || !location.trim()) {
 			Alert.alert("Error", "Please fill in all fields including location.");
 				return;
 			}
-			if (!imageFile) {
-				Alert.alert("Error", "Please select an image.");
+			const parsed = fromVariantDrafts(variantDrafts);
+			if ("error" in parsed) {
+				Alert.alert("Error", parsed.error);
+				return;
+			}
+			if (imageFiles.length === 0) {
+				Alert.alert("Error", "Please select at least one image.");
 				return;
 			}
 
@@ -126,21 +153,29 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 			formData.append("seller", id);
 			formData.append("name", name);
 			formData.append("description", description);
-			formData.append("price", price);
 			formData.append("category", category);
-			formData.append("stock", stock);
+			// with variants the server derives price and stock from them
+			if (hasVariants) {
+				formData.append("variants", JSON.stringify(parsed.variants));
+			} else {
+				formData.append("price", price);
+				formData.append("stock", stock);
+			}
 
-			// Add image file
-			const imageUri = imageFile.uri;
-			const filename = imageUri.split("/").pop() || "image.jpg";
-			const match = /\.(\w+)$/.exec(filename);
-			const type = match ? `image/${match[1]}` : "image/jpeg";
+			// Add image files, cover first
+			for (const imageFile of imageFiles) {
+				const filename =
+					imageFile.fileName || imageFile.uri.split("/").pop() || "image.jpg";
+				const match = /\.(\w+)$/.exec(filename);
+				const type =
+					imageFile.mimeType || (match ? `image/${match[1]}` : "image/jpeg");
 
-			formData.append("image", {
-				uri: imageUri,
-				name: filename,
-				type: type,
-			} as any);
+				formData.append("images", {
+					uri: imageFile.uri,
+					name: filename,
+					type: type,
+				} as any);
+			}
 
 			await createProduct(formData);
 			Alert.alert("Success", "Product added!");
@@ -151,8 +186,8 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 			setDescription("");
 			setCategory("");
 			setStock("1");
-			setSelectedImage(null);
-			setImageFile(null);
+			setVariantDrafts([]);
+			setImageFiles([]);
 
 			if (onClose) onClose();
 		} catch (err) {
@@ -184,25 +219,28 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 				placeholderTextColor="#7CB798"
 			/>
 
-			{/* Price */}
-			<TextInput
-				style={styles.input}
-				placeholder="Price (KES)"
-				value={price}
-				onChangeText={setPrice}
-				keyboardType="numeric"
-				placeholderTextColor="#7CB798"
-			/>
+			{/* Price and stock - set per variant when there are variants */}
+			{variantDrafts.length === 0 && (
+				<>
+					<TextInput
+						style={styles.input}
+						placeholder="Price (KES)"
+						value={price}
+						onChangeText={setPrice}
+						keyboardType="numeric"
+						placeholderTextColor="#7CB798"
+					/>
 
-			{/* Stock */}
-			<TextInput
-				style={styles.input}
-				placeholder="Stock Quantity"
-				value={stock}
-				onChangeText={setStock}
-				keyboardType="numeric"
-				placeholderTextColor="#7CB798"
-			/>
+					<TextInput
+						style={styles.input}
+						placeholder="Stock Quantity"
+						value={stock}
+						onChangeText={setStock}
+						keyboardType="numeric"
+						placeholderTextColor="#7CB798"
+					/>
+				</>
+			)}
 
 			{/* Description */}
 			<TextInput
@@ -254,6 +292,8 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 				</View>
 			)}
 
+			<VariantEditor variants={variantDrafts} onChange={setVariantDrafts} />
+
 			{/* Location Section - Required for shipping calculation */}
 			<View style={styles.locationSection}>
 				<Text style={styles.sectionTitle}>Product Location</Text>
@@ -281,29 +321,27 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 				</TouchableOpacity>
 			</View>
 
-			{/* Upload Image */}
-			<Text style={styles.sectionTitle}>Upload Image</Text>
+			{/* Upload Images */}
+			<Text style={styles.sectionTitle}>Upload Images</Text>
 			<View style={styles.uploadBox}>
-				{!selectedImage ? (
+				{imageFiles.length === 0 ? (
 					<View style={styles.uploadEmpty}>
-						<Text style={styles.uploadAdd}>Add Image</Text>
-						<Text style={styles.uploadDesc}>Upload product image</Text>
+						<Text style={styles.uploadAdd}>Add Images</Text>
+						<Text style={styles.uploadDesc}>
+							Upload up to {MAX_PRODUCT_IMAGES} product photos
+						</Text>
 						<TouchableOpacity style={styles.uploadBtn} onPress={pickImage}>
-							<Text style={styles.uploadBtnText}>Choose Image</Text>
+							<Text style={styles.uploadBtnText}>Choose Images</Text>
 						</TouchableOpacity>
 					</View>
 				) : (
-					<View style={styles.uploadImagesWrap}>
-						<TouchableOpacity onPress={() => setImageModal(true)}>
-							<Image
-								source={{ uri: selectedImage }}
-								style={styles.uploadImageLarge}
-							/>
-						</TouchableOpacity>
-						<TouchableOpacity style={styles.changeBtn} onPress={pickImage}>
-							<Text style={styles.changeBtnText}>Change Image</Text>
-						</TouchableOpacity>
-					</View>
+					<GalleryStrip
+						images={imageFiles.map((file) => file.uri)}
+						onAdd={pickImage}
+						onMakeCover={makeCover}
+						onMove={movePhoto}
+						onRemove={removePhoto}
+					/>
 				)}
 			</View>
 
@@ -318,31 +356,6 @@ const SellerProducts: React.FC<SellerProductsProps> = ({ onClose }) => {
 				</Text>
 			</TouchableOpacity>
 
-			{/* Image Preview Modal */}
-			<Modal
-				visible={imageModal}
-				transparent
-				animationType="fade"
-				onRequestClose={() => setImageModal(false)}
-			>
-				<View style={styles.modalOverlay}>
-					<View style={styles.modalContent}>
-						<Text style={styles.modalTitle}>Image Preview</Text>
-						{selectedImage && (
-							<Image
-								source={{ uri: selectedImage }}
-								style={styles.previewImage}
-							/>
-						)}
-						<TouchableOpacity
-							style={styles.modalClose}
-							onPress={() => setImageModal(false)}
-						>
-							<Text style={styles.modalCloseText}>Close</Text>
-						</TouchableOpacity>
-					</View>
-				</View>
-			</Modal>
 		</ScrollView>
 	);
 };
@@ -448,39 +461,6 @@ const styles = StyleSheet.create({
 		fontWeight: "bold",
 		fontSize: 15,
 	},
-	uploadImagesWrap: {
-		flexDirection: "row",
-		flexWrap: "wrap",
-		gap: 8,
-		alignItems: "center",
-		justifyContent: "center",
-	},
-	uploadImage: {
-		width: 60,
-		height: 60,
-		borderRadius: 8,
-		margin: 4,
-		backgroundColor: "#eee",
-	},
-	uploadImageLarge: {
-		width: 200,
-		height: 200,
-		borderRadius: 12,
-		backgroundColor: "#eee",
-		marginBottom: 12,
-	},
-	changeBtn: {
-		backgroundColor: "#E7F3EC",
-		borderRadius: 8,
-		paddingVertical: 10,
-		paddingHorizontal: 24,
-		alignItems: "center",
-	},
-	changeBtnText: {
-		color: "#222",
-		fontWeight: "bold",
-		fontSize: 15,
-	},
 	postBtn: {
 		backgroundColor: "#38E472",
 		borderRadius: 8,
@@ -497,41 +477,6 @@ const styles = StyleSheet.create({
 		fontWeight: "bold",
 		fontSize: 16,
 	},
-	modalOverlay: {
-		flex: 1,
-		backgroundColor: "rgba(0,0,0,0.15)",
-		justifyContent: "center",
-		alignItems: "center",
-	},
-	modalContent: {
-		backgroundColor: "#fff",
-		borderRadius: 14,
-		padding: 18,
-		width: 320,
-		maxWidth: "90%",
-		alignItems: "center",
-	},
-	modalTitle: {
-		fontWeight: "bold",
-		fontSize: 16,
-		marginBottom: 12,
-		alignSelf: "center",
-	},
-	modalClose: {
-		marginTop: 16,
-		alignSelf: "center",
-	},
-	modalCloseText: {
-		color: "#7CB798",
-		fontWeight: "bold",
-		fontSize: 15,
-	},
-	previewImage: {
-		width: 280,
-		height: 280,
-		borderRadius: 12,
-		marginVertical: 16,
-	},
 	locationSection: {
         marginBottom: 16,
         backgroundColor: "#fff",
@@ -3,6 +3,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
+	Alert,
 	Image,
 	SafeAreaView,
 	ScrollView,
@@ -29,11 +30,41 @@ const logoutStyles = StyleSheet.create({
 		fontWeight: "600",
 		fontSize: 16,
 	},
+	logoutAllText: {
+		color: "#FF5A5F",
+		fontWeight: "600",
+		fontSize: 12,
+		marginTop: 6,
+	},
 });
 
 const LogoutButton = () => {
 	const router = useRouter();
-	const { logout } = useAuthStore();
+	const { logout, logoutAllDevices } = useAuthStore();
+
+	const confirmLogoutAll = () => {
+		Alert.alert(
+			"Log out of all devices?",
+			"You will be signed out everywhere, including this phone.",
+			[
+				{ text: "Cancel", style: "cancel" },
+				{
+					text: "Log out all",
+					style: "destructive",
+					onPress: async () => {
+						try {
+							await logoutAllDevices();
+							router.replace("/");
+						} catch (err) {
+							console.error("Failed to log out of all devices", err);
+							Alert.alert("Error", "Could not log out of all devices.");
+						}
+					},
+				},
+			]
+		);
+	};
+
 	return (
 		<View style={logoutStyles.logoutContainer}>
 			<TouchableOpacity
@@ -46,6 +77,9 @@ const LogoutButton = () => {
 			>
 				<Text style={logoutStyles.logoutText}>Logout</Text>
 			</TouchableOpacity>
+			<TouchableOpacity activeOpacity={0.8} onPress={confirmLogoutAll}>
+				<Text style={logoutStyles.logoutAllText}>All devices</Text>
+			</TouchableOpacity>
 		</View>
 	);
 };
@@ -0,0 +1,251 @@
+import { useWishlistStore } from "@/stores/wishlistStore";
+import { WishlistItem } from "@/types";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect } from "react";
+import {
+	ActivityIndicator,
+	Alert,
+	FlatList,
+	Image,
+	RefreshControl,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from "react-native";
+
+import { describeVariant } from "../product-variants/variant-utils";
+
+const formatKsh = (amount: number) => `Ksh ${amount.toLocaleString()}`;
+
+type WishlistProps = {
+	onBack?: () => void;
+};
+
+// Saved products with their current price and stock
+const Wishlist: React.FC<WishlistProps> = ({ onBack }) => {
+	const { items, isLoading, error, fetchWishlist, remove, moveToCart } =
+		useWishlistStore();
+
+	useEffect(() => {
+		fetchWishlist();
+	}, [fetchWishlist]);
+
+	const handleMoveToCart = async (item: WishlistItem) => {
+		const moved = await moveToCart(item.product.id, item.variant?._id);
+		if (moved) {
+			Alert.alert("Moved to cart", `${item.product.name} is in your cart.`);
+		} else {
+			Alert.alert(
+				"Could not move to cart",
+				useWishlistStore.getState().error ?? "Please try again."
+			);
+		}
+	};
+
+	const renderItem = ({ item }: { item: WishlistItem }) => {
+		const image = item.variant?.images?.[0] || item.product.images?.[0] || item.product.image;
+		return (
+			<View style={styles.card}>
+				{image ? (
+					<Image source={{ uri: image }} style={styles.image} />
+				) : (
+					<View style={[styles.image, { backgroundColor: "#eee" }]} />
+				)}
+				<View style={styles.details}>
+					<Text style={styles.name} numberOfLines={2}>
+						{item.product.name}
+					</Text>
+					{item.variant && (
+						<Text style={styles.variant}>{describeVariant(item.variant)}</Text>
+					)}
+					<Text style={styles.price}>{formatKsh(item.price)}</Text>
+					{item.priceChange < 0 && (
+						<Text style={styles.priceDrop}>
+							Down from {formatKsh(item.priceWhenAdded)}
+						</Text>
+					)}
+					{item.priceChange > 0 && (
+						<Text style={styles.priceRise}>
+							Was {formatKsh(item.priceWhenAdded)} when saved
+						</Text>
+					)}
+					<Text style={item.inStock ? styles.inStock : styles.outOfStock}>
+						{item.inStock
+							? item.stock <= 5
+								? `Only ${item.stock} left`
+								: "In stock"
+							: "Out of stock"}
+					</Text>
+					<View style={styles.actions}>
+						<TouchableOpacity
+							style={[styles.moveBtn, !item.inStock && styles.moveBtnDisabled]}
+							disabled={!item.inStock || isLoading}
+							onPress={() => handleMoveToCart(item)}
+						>
+							<Text style={styles.moveBtnText}>Move to cart</Text>
+						</TouchableOpacity>
+						<TouchableOpacity onPress={() => remove(item.product.id)}>
+							<Ionicons name="trash-outline" size={20} color="#E47272" />
+						</TouchableOpacity>
+					</View>
+				</View>
+			</View>
+		);
+	};
+
+	return (
+		<View style={styles.container}>
+			<View style={styles.headerRow}>
+				<TouchableOpacity onPress={onBack} style={{ padding: 4 }}>
+					<Ionicons name="arrow-back" size={24} color="#222" />
+				</TouchableOpacity>
+				<Text style={styles.header}>Wishlist</Text>
+				<View style={{ width: 24 }} />
+			</View>
+
+			{isLoading && items.length === 0 ? (
+				<ActivityIndicator size="large" color="#38E472" style={{ marginTop: 40 }} />
+			) : (
+				<FlatList
+					data={items}
+					keyExtractor={(item) => item.product.id}
+					renderItem={renderItem}
+					contentContainerStyle={styles.listContent}
+					refreshControl={
+						<RefreshControl refreshing={false} onRefresh={fetchWishlist} />
+					}
+					ListHeaderComponent={
+						error ? <Text style={styles.errorText}>{error}</Text> : null
+					}
+					ListEmptyComponent={
+						<View style={styles.empty}>
+							<Ionicons name="heart-outline" size={64} color="#E7F3EC" />
+							<Text style={styles.emptyText}>Nothing saved yet</Text>
+							<Text style={styles.emptySubtext}>
+								Tap the heart on a product to keep it here
+							</Text>
+						</View>
+					}
+					showsVerticalScrollIndicator={false}
+				/>
+			)}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#F8FCF9",
+		padding: 24,
+	},
+	headerRow: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		marginBottom: 16,
+		marginTop: 28,
+	},
+	header: {
+		fontSize: 20,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	listContent: {
+		paddingBottom: 100,
+	},
+	card: {
+		flexDirection: "row",
+		backgroundColor: "#fff",
+		borderRadius: 12,
+		borderWidth: 1,
+		borderColor: "#E7F3EC",
+		padding: 12,
+		marginBottom: 12,
+	},
+	image: {
+		width: 90,
+		height: 90,
+		borderRadius: 8,
+	},
+	details: {
+		flex: 1,
+		marginLeft: 12,
+	},
+	name: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+	},
+	variant: {
+		fontSize: 13,
+		color: "#7CB798",
+	},
+	price: {
+		fontSize: 15,
+		fontWeight: "600",
+		color: "#222",
+		marginTop: 4,
+	},
+	priceDrop: {
+		fontSize: 12,
+		color: "#38E472",
+		fontWeight: "600",
+	},
+	priceRise: {
+		fontSize: 12,
+		color: "#7CB798",
+	},
+	inStock: {
+		fontSize: 12,
+		color: "#38E472",
+		marginTop: 2,
+	},
+	outOfStock: {
+		fontSize: 12,
+		color: "#E47272",
+		marginTop: 2,
+	},
+	actions: {
+		flexDirection: "row",
+		alignItems: "center",
+		justifyContent: "space-between",
+		marginTop: 8,
+	},
+	moveBtn: {
+		backgroundColor: "#38E472",
+		borderRadius: 8,
+		paddingVertical: 6,
+		paddingHorizontal: 14,
+	},
+	moveBtnDisabled: {
+		backgroundColor: "#E7F3EC",
+	},
+	moveBtnText: {
+		color: "#111",
+		fontWeight: "bold",
+		fontSize: 14,
+	},
+	errorText: {
+		color: "red",
+		marginBottom: 8,
+	},
+	empty: {
+		alignItems: "center",
+		paddingVertical: 40,
+	},
+	emptyText: {
+		fontSize: 16,
+		fontWeight: "bold",
+		color: "#222",
+		marginTop: 12,
+	},
+	emptySubtext: {
+		fontSize: 14,
+		color: "#7CB798",
+		marginTop: 4,
+	},
+});
+
+export default Wishlist;
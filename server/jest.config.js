@@ -0,0 +1,11 @@
+/** @type {import("jest").Config} */
+module.exports = {
+	testEnvironment: "node",
+	roots: ["<rootDir>/tests"],
+	setupFiles: ["<rootDir>/tests/setup-env.ts"],
+	transform: {
+		"^.+\\.ts$": ["ts-jest", { tsconfig: "tsconfig.test.json" }],
+	},
+	// the first run downloads a MongoDB binary for mongodb-memory-server
+	testTimeout: 60000,
+};
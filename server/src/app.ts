@@ -0,0 +1,123 @@
+import cors from "cors";
+import express from "express";
+
+import { localUploadsDir } from "./services/imageStorage";
+import { httpLogger, logger } from "./utils/logger";
+
+import addressRoutes from "./routes/address.routes";
+import adminRoutes from "./routes/admin.routes";
+import analyticsRoutes from "./routes/analytics.routes";
+import authRoutes from "./routes/auth.routes";
+import cartRoutes from "./routes/cart.routes";
+import claimRoutes from "./routes/claim.routes";
+import conversationRoutes from "./routes/conversation.routes";
+import couponRoutes from "./routes/coupon.routes";
+import mpesaRoutes from "./routes/mpesa.routes";
+import notificationRoutes from "./routes/notification.routes";
+import orderRoutes from "./routes/order.routes";
+import produRoutes from "./routes/product.routes";
+import productAlertRoutes from "./routes/productAlert.routes";
+import refundRoutes from "./routes/refund.routes";
+import reviewRoutes from "./routes/review.routes";
+import shippingRoutes from "./routes/shipping.routes";
+import testRoutes from "./routes/test.routes";
+import userRoutes from "./routes/user.routes";
+import wishlistRoutes from "./routes/wishlist.routes";
+
+export const apiVersion = `/api/${process.env.API_VERSION || "v1"}`;
+
+// Passwords and tokens (refresh tokens are only stored hashed) never reach the logs
+const SECRET_FIELD = /password|token|secret/i;
+const redactSecrets = (key: string, value: unknown) =>
+  SECRET_FIELD.test(key) && value != null ? "[redacted]" : value;
+
+/**
+ * Build the Express app without listening or touching the database, so
+ * tests can mount it on their own server. `index.ts` does the wiring.
+ */
+export const createApp = () => {
+  const app = express();
+  app.use(express.json());
+
+  // Behind Render/nginx req.ip is the proxy unless we trust X-Forwarded-For
+  if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set(
+      "trust proxy",
+      trustProxy === "true" ? true : Number(trustProxy) || trustProxy,
+    );
+  }
+
+  // Log ALL incoming requests FIRST
+  app.use((req, res, next) => {
+    logger.info(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+    logger.info(`🌐 INCOMING REQUEST: ${req.method} ${req.url}`);
+    logger.info(`🌐 Full path: ${req.path}`);
+    logger.info(`🌐 Origin: ${req.headers.origin}`);
+    logger.info(`🌐 User-Agent: ${req.headers["user-agent"]}`);
+    if (req.body && Object.keys(req.body).length > 0) {
+      logger.info(`🌐 Body: ${JSON.stringify(req.body, redactSecrets)}`);
+    }
+    logger.info(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+    next();
+  });
+
+  app.use(
+    cors({
+      origin: "*",
+    }),
+  );
+  app.use(httpLogger);
+
+  // Product images stored on disk (IMAGE_STORAGE=local) are served from here
+  if (process.env.IMAGE_STORAGE === "local") {
+    app.use("/uploads", express.static(localUploadsDir()));
+  }
+
+  //routes
+  app.use(`${apiVersion}/auth`, authRoutes);
+  app.use(`${apiVersion}/products`, produRoutes);
+  app.use(`${apiVersion}/cart`, cartRoutes);
+  app.use(`${apiVersion}/addresses`, addressRoutes);
+  app.use(`${apiVersion}/wishlist`, wishlistRoutes);
+  app.use(`${apiVersion}/alerts`, productAlertRoutes);
+  app.use(`${apiVersion}/order`, orderRoutes);
+  app.use(`${apiVersion}/coupons`, couponRoutes);
+  app.use(`${apiVersion}/shipping`, shippingRoutes);
+  app.use(`${apiVersion}/refunds`, refundRoutes);
+  app.use(`${apiVersion}/claims`, claimRoutes);
+  app.use(`${apiVersion}/analytics`, analyticsRoutes);
+  app.use(`${apiVersion}/review`, reviewRoutes);
+  app.use(`${apiVersion}/mpesa`, mpesaRoutes);
+  app.use(`${apiVersion}/notifications`, notificationRoutes);
+  app.use(`${apiVersion}/conversations`, conversationRoutes);
+  app.use(`${apiVersion}/users`, userRoutes);
+  app.use(`${apiVersion}/admin`, adminRoutes);
+  // Manual payment shortcuts; never mounted against real M-Pesa
+  if (process.env.TEST_MODE === "true") {
+    app.use(`${apiVersion}/test`, testRoutes);
+  }
+
+  // Health check endpoint
+  app.get("/health", (req, res) => {
+    logger.info("🏥 HEALTH CHECK REQUEST RECEIVED");
+    res.json({
+      status: "OK",
+      timestamp: new Date().toISOString(),
+      testMode: process.env.TEST_MODE === "true",
+      message: "Server is running!",
+    });
+  });
+
+  app.get(`${apiVersion}/health`, (req, res) => {
+    logger.info("🏥 HEALTH CHECK REQUEST RECEIVED (API v1)");
+    res.json({
+      status: "OK",
+      timestamp: new Date().toISOString(),
+      testMode: process.env.TEST_MODE === "true",
+      message: "Server is running!",
+    });
+  });
+
+  return app;
+};
@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Address, { MAX_ADDRESSES } from "../models/address.models";
+import { countyOf } from "../utils/kenyaGazetteer";
+import { logger } from "../utils/logger";
+
+const listFor = (userId: unknown) =>
+	Address.find({ user: userId }).sort({ isDefault: -1, updatedAt: -1 }).lean();
+
+// At most one default per buyer: setting one clears the others
+const clearDefault = (userId: unknown, except: unknown) =>
+	Address.updateMany(
+		{ user: userId, _id: { $ne: except }, isDefault: true },
+		{ $set: { isDefault: false } }
+	);
+
+export const getAddresses = async (req: Request, res: Response) => {
+	try {
+		const addresses = await listFor(req.user?.id);
+		res.status(200).json({ success: true, addresses });
+	} catch (err) {
+		logger.error("Failed to fetch addresses", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The first address saved becomes the default
+export const createAddress = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	try {
+		const count = await Address.countDocuments({ user: userId });
+		if (count >= MAX_ADDRESSES) {
+			return res.status(400).json({
+				success: false,
+				message: `You can save at most ${MAX_ADDRESSES} addresses`,
+			});
+		}
+		const address = new Address({
+			...req.body,
+			user: userId,
+			county: req.body.county || countyOf(req.body.town),
+			isDefault: count === 0 || req.body.isDefault === true,
+		});
+		if (address.isDefault) await clearDefault(userId, address._id);
+		await address.save();
+
+		res.status(201).json({ success: true, address, addresses: await listFor(userId) });
+	} catch (err) {
+		logger.error("Failed to save address", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// `isDefault: false` is ignored; pick another default instead
+export const updateAddress = async (req: Request, res: Response) => {
+	const { id } = req.params;
+	const userId = req.user?.id;
+	if (!mongoose.isValidObjectId(id)) {
+		return res.status(400).json({ success: false, message: "Invalid address id" });
+	}
+	try {
+		const address = await Address.findOne({ _id: id, user: userId });
+		if (!address) {
+			return res.status(404).json({ success: false, message: "Address not found" });
+		}
+		const { isDefault, ...fields } = req.body;
+		address.set(fields);
+		if (fields.town && !fields.county) address.county = countyOf(fields.town);
+		if (isDefault === true) {
+			address.isDefault = true;
+			await clearDefault(userId, address._id);
+		}
+		await address.save();
+
+		res.status(200).json({ success: true, address, addresses: await listFor(userId) });
+	} catch (err) {
+		logger.error("Failed to update address", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Orders keep their own copy, so deleting never changes a past delivery
+export const deleteAddress = async (req: Request, res: Response) => {
+	const { id } = req.params;
+	const userId = req.user?.id;
+	if (!mongoose.isValidObjectId(id)) {
+		return res.status(400).json({ success: false, message: "Invalid address id" });
+	}
+	try {
+		const address = await Address.findOneAndDelete({ _id: id, user: userId });
+		if (!address) {
+			return res.status(404).json({ success: false, message: "Address not found" });
+		}
+		if (address.isDefault) {
+			await Address.findOneAndUpdate(
+				{ user: userId },
+				{ $set: { isDefault: true } },
+				{ sort: { updatedAt: -1 } }
+			);
+		}
+		res.status(200).json({ success: true, addresses: await listFor(userId) });
+	} catch (err) {
+		logger.error("Failed to delete address", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
@@ -0,0 +1,130 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import {
+	AnalyticsInterval,
+	DateRange,
+	lowStockThreshold,
+	lowStockProducts,
+	MAX_RANGE_DAYS,
+	parseRange,
+	productSales,
+	revenueSeries,
+	salesSummary,
+	topCities,
+} from "../services/analytics";
+import { logger } from "../utils/logger";
+
+type Scope = { seller: mongoose.Types.ObjectId; range: DateRange };
+
+/**
+ * Whose numbers and over which dates. Sellers see their own; admins name
+ * the seller with `?seller=`. Sends the 400 itself when either is missing.
+ */
+const scopeFor = (req: Request, res: Response): Scope | null => {
+	const sellerId = req.user?.role === "admin" ? req.query.seller : req.user?.id;
+	if (typeof sellerId !== "string" || !mongoose.isValidObjectId(sellerId)) {
+		res.status(400).json({ success: false, message: "seller is required" });
+		return null;
+	}
+	const range = parseRange(req.query.from, req.query.to);
+	if (!range) {
+		res.status(400).json({
+			success: false,
+			message: `from must be before to, and at most ${MAX_RANGE_DAYS} days apart`,
+		});
+		return null;
+	}
+	return { seller: new mongoose.Types.ObjectId(sellerId), range };
+};
+
+// query values are checked by schemas.analyticsQuery
+const intervalOf = (req: Request) => (req.query.interval ?? "day") as AnalyticsInterval;
+const limitOf = (req: Request, fallback: number) => Number(req.query.limit) || fallback;
+const thresholdOf = (req: Request) =>
+	req.query.threshold === undefined ? lowStockThreshold() : Number(req.query.threshold);
+
+/**
+ * Everything the seller analytics screen shows, in one request.
+ */
+export const getDashboard = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	const { seller, range } = scope;
+	try {
+		const [summary, revenue, products, cities, lowStock] = await Promise.all([
+			salesSummary(seller, range),
+			revenueSeries(seller, range, intervalOf(req)),
+			productSales(seller, range, 5),
+			topCities(seller, range, 5),
+			lowStockProducts(seller, thresholdOf(req)),
+		]);
+		res.status(200).json({ success: true, range, summary, revenue, products, cities, lowStock });
+	} catch (err) {
+		logger.error("Failed to load seller analytics", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getSummary = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	try {
+		const summary = await salesSummary(scope.seller, scope.range);
+		res.status(200).json({ success: true, range: scope.range, summary });
+	} catch (err) {
+		logger.error("Failed to load sales summary", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getRevenue = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	const interval = intervalOf(req);
+	try {
+		const revenue = await revenueSeries(scope.seller, scope.range, interval);
+		res.status(200).json({ success: true, range: scope.range, interval, revenue });
+	} catch (err) {
+		logger.error("Failed to load revenue", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getProductSales = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	try {
+		const products = await productSales(scope.seller, scope.range, limitOf(req, 20));
+		res.status(200).json({ success: true, range: scope.range, products });
+	} catch (err) {
+		logger.error("Failed to load product sales", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getTopCities = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	try {
+		const cities = await topCities(scope.seller, scope.range, limitOf(req, 10));
+		res.status(200).json({ success: true, range: scope.range, cities });
+	} catch (err) {
+		logger.error("Failed to load top cities", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Current stock, so the date range does not apply
+export const getLowStock = async (req: Request, res: Response) => {
+	const scope = scopeFor(req, res);
+	if (!scope) return;
+	const threshold = thresholdOf(req);
+	try {
+		const products = await lowStockProducts(scope.seller, threshold);
+		res.status(200).json({ success: true, threshold, products });
+	} catch (err) {
+		logger.error("Failed to load low-stock products", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
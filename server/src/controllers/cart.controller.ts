@@ -1,35 +1,111 @@
 import { Request, Response } from "express";
-import mongoose from "mongoose";
+import mongoose, { HydratedDocument, InferSchemaType } from "mongoose";
 
 import Cart from "../models/cart.models";
 import Product from "../models/product.models";
+import User from "../models/user.models";
+import { defaultAddressOf } from "../services/addresses";
+import { quoteCoupon } from "../services/coupons";
+import {
+  DEFAULT_CITY,
+  quoteSellerShipping,
+  ShipmentItem,
+} from "../services/shipping";
 import { logger } from "../utils/logger";
 
-const FREE_DELIVERY_THRESHOLD = 50000; // Free delivery for orders above $100
-const NORMAL_SHIPPING_FEE = 1500; // Flat shipping fee for orders below the threshold
-
-const calculateShipping = (subtotal: number): number => {
-  if (subtotal <= 0) return 0;
+type CartDoc = HydratedDocument<InferSchemaType<typeof Cart.schema>>;
+
+// Lines grouped by seller, each group's shipping quoted by the shipping
+// engine to the buyer's default address, or their profile town
+const cartGroups = async (
+  buyerId: unknown,
+  items: { product: unknown; price: number; quantity?: number | null }[],
+) => {
+  const productIds = items.map((it: any) => it.product?._id ?? it.product);
+  const [products, buyer, address] = await Promise.all([
+    Product.find({ _id: { $in: productIds } }).select(
+      "seller weightKg shippingClass",
+    ),
+    User.findById(buyerId).select("location"),
+    defaultAddressOf(buyerId),
+  ]);
+  const destination = address
+    ? {
+        city: address.town,
+        county: address.county,
+        latitude: address.latitude,
+        longitude: address.longitude,
+      }
+    : { city: buyer?.location?.city ?? DEFAULT_CITY };
+  const byId = new Map(products.map((p) => [String(p._id), p]));
+
+  const parcels = new Map<string, ShipmentItem[]>();
+  items.forEach((it, i) => {
+    const product = byId.get(String(productIds[i]));
+    // a deleted product has no seller to ship it, so it is not priced
+    if (!product) return;
+    const seller = String(product.seller);
+    parcels.set(seller, [
+      ...(parcels.get(seller) ?? []),
+      {
+        price: it.price,
+        quantity: it.quantity ?? 0,
+        weightKg: product.weightKg,
+        shippingClass: product.shippingClass,
+      },
+    ]);
+  });
+
+  return Promise.all(
+    [...parcels].map(async ([seller, parcel]) => ({
+      seller,
+      subTotal: parcel.reduce((sum, it) => sum + it.price * it.quantity, 0),
+      shipping: (
+        await quoteSellerShipping(seller, destination, parcel)
+      ).fee,
+    })),
+  );
+};
 
-  // Free delivery if subtotal is above the threshold
-  if (subtotal >= FREE_DELIVERY_THRESHOLD) {
-    return 0;
+/**
+ * Recompute the cart's totals, re-pricing its shipping and coupon. A code
+ * that no longer applies (expired, or the cart fell below its minimum
+ * spend) is dropped; the reason is returned so the response can say why.
+ */
+const refreshTotals = async (cart: CartDoc): Promise<string | null> => {
+  const groups = await cartGroups(cart.user, cart.items ?? []);
+  cart.subTotal = groups.reduce((sum, g) => sum + g.subTotal, 0);
+  cart.shipping = groups.reduce((sum, g) => sum + g.shipping, 0);
+  cart.total = cart.subTotal + cart.shipping;
+  cart.discount = 0;
+  if (!cart.couponCode) return null;
+
+  const quote = await quoteCoupon(cart.couponCode, cart.user, groups);
+  if (quote.status !== "ok") {
+    cart.couponCode = null;
+    return quote.message;
   }
-
-  // Otherwise, use normal shipping fee
-  return NORMAL_SHIPPING_FEE;
+  cart.discount = quote.discount;
+  cart.total -= quote.discount;
+  return null;
 };
 
-const calculateTotals = (items: { price: number; quantity: number }[]) => {
-  const subTotal = items.reduce((sum, it) => sum + it.price * it.quantity, 0);
-  const shipping = calculateShipping(subTotal); // Random shipping not exceeding half of subtotal
-  const total = subTotal + shipping;
-  return { subTotal, shipping, total };
-};
+// Cart lines are keyed by product plus, for products sold in variants,
+// the variant (?variantId=... on update and remove)
+const lineVariantId = (req: Request) =>
+  typeof req.query.variantId === "string" ? req.query.variantId : null;
+
+const isSameLine = (
+  item: { product: unknown; variant?: unknown },
+  productId: string,
+  variantId: string | null,
+) =>
+  String(item.product) === productId &&
+  String(item.variant ?? "") === (variantId ?? "");
 
 export const addToCart = async (req: Request, res: Response) => {
   const userId = req.user?.id;
-  const { productId, price, quantity = 1 } = req.body;
+  const { productId, variantId, price, quantity = 1 } = req.body;
 
   if (!userId) {
     return res
@@ -84,6 +160,18 @@ export const addToCart = async (req: Request, res: Response) => {
         .json({ success: false, message: "Product has invalid price" });
     }
 
+    // products sold in variants are added one variant at a time
+    const variant = variantId ? product.variants.id(variantId) : null;
+    if (product.variants.length > 0 && !variant) {
+      return res.status(400).json({
+        success: false,
+        message: variantId
+          ? "Selected option not found"
+          : "Choose an option before adding to cart",
+      });
+    }
+    const unitPrice = variant ? variant.price : product.price;
+
     console.log("🔍 Step 2: Converting userId to ObjectId:", userId);
     let userObjectId: mongoose.Types.ObjectId;
     try {
@@ -99,14 +187,16 @@ export const addToCart = async (req: Request, res: Response) => {
 
     console.log("🔍 Step 3: Finding cart for user:", userObjectId.toString());
     let cart = await Cart.findOne({ user: userObjectId });
+    let couponRemoved: string | null = null;
 
     if (!cart) {
       console.log("🔍 Step 4: Creating new cart");
       const itemData = {
         product: product._id,
+        variant: variant?._id ?? null,
         quantity: qty,
         // Prefer authoritative DB price; fall back to request price if provided
-        price: Number(product.price ?? price),
+        price: Number(unitPrice ?? price),
       };
       console.log("📦 Single item data:", {
         product: itemData.product?.toString(),
@@ -125,15 +215,9 @@ export const addToCart = async (req: Request, res: Response) => {
         throw new Error(`Invalid quantity: ${itemData.quantity}`);
       }
 
-      const totals = calculateTotals([itemData]);
-      console.log("💰 Calculated totals:", totals);
-      
       const cartData = {
         user: userObjectId,
         items: [itemData],
-        subTotal: totals.subTotal,
-        shipping: totals.shipping,
-        total: totals.total,
       };
       console.log("🛒 Cart data to save:", {
         user: cartData.user?.toString(),
@@ -142,9 +226,6 @@ export const addToCart = async (req: Request, res: Response) => {
           quantity: i.quantity,
           price: i.price,
         })),
-        subTotal: cartData.subTotal,
-        shipping: cartData.shipping,
-        total: cartData.total,
       });
       
       cart = new Cart(cartData);
@@ -154,6 +235,7 @@ export const addToCart = async (req: Request, res: Response) => {
         quantity: item.quantity,
         price: item.price,
       })));
+      await refreshTotals(cart);
     } else {
       // Ensure items array exists
       if (!cart.items || cart.items.length === 0) {
@@ -162,7 +244,9 @@ export const addToCart = async (req: Request, res: Response) => {
       }
 
       const itemIndex = cart.items.findIndex(
-        (it: any) => it.product?.toString() === product._id.toString(),
+        (it: any) =>
+          it.product?.toString() === product._id.toString() &&
+          String(it.variant ?? "") === String(variant?._id ?? ""),
       );
 
       if (itemIndex > -1) {
@@ -176,8 +260,9 @@ export const addToCart = async (req: Request, res: Response) => {
         // Add new item
         const newItem = {
           product: product._id,
+          variant: variant?._id ?? null,
           quantity: qty,
-          price: Number(product.price),
+          price: Number(unitPrice),
         };
         console.log("📦 New item to push:", {
           product: newItem.product?.toString(),
@@ -198,15 +283,7 @@ export const addToCart = async (req: Request, res: Response) => {
         console.log("✅ New item added to cart");
       }
 
-      const totals = calculateTotals(
-        (cart.items as any).map((it: any) => ({
-          price: Number(it.price || 0),
-          quantity: Number(it.quantity || 0),
-        })),
-      );
-      cart.subTotal = totals.subTotal;
-      cart.shipping = totals.shipping;
-      cart.total = totals.total;
+      couponRemoved = await refreshTotals(cart);
     }
 
     console.log("💾 Attempting to save cart...");
@@ -256,7 +333,7 @@ export const addToCart = async (req: Request, res: Response) => {
     logger.info("Item added to cart", cart);
     return res
       .status(200)
-      .json({ success: true, message: "Item added to cart", cart });
+      .json({ success: true, message: "Item added to cart", cart, couponRemoved });
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
     const errorStack = err instanceof Error ? err.stack : "";
@@ -303,12 +380,17 @@ export const updateCart = async (req: Request, res: Response) => {
   const userId = req.user?.id;
   const { id: productId } = req.params; // ✅ Use 'id' from route parameter
   const { quantity } = req.body;
+  const variantId = lineVariantId(req);
 
   if (!userId) {
     return res.status(401).json({ message: "Authentication required" });
   }
 
-  if (!productId || Array.isArray(productId)) {
+  if (
+    !productId ||
+    Array.isArray(productId) ||
+    !mongoose.isValidObjectId(productId)
+  ) {
     return res.status(400).json({ message: "Invalid product id" });
   }
 
@@ -325,21 +407,16 @@ export const updateCart = async (req: Request, res: Response) => {
 
     cart.items = cart.items ?? [];
     // ✅ Use toString() for comparison
-    const item = cart.items.find((it) => it.product.toString() === productId);
+    const item = cart.items.find((it) => isSameLine(it, productId, variantId));
     if (!item) return res.status(404).json({ message: "Cart item not found" });
 
     item.quantity = Number(quantity);
-    const totals = calculateTotals(
-      cart.items.map((it) => ({ price: it.price, quantity: it.quantity ?? 0 })),
-    );
-    cart.subTotal = totals.subTotal;
-    cart.shipping = totals.shipping;
-    cart.total = totals.total;
+    const couponRemoved = await refreshTotals(cart);
 
     await cart.save();
     await cart.populate("items.product");
     logger.info("Item in cart updated:", cart);
-    return res.status(200).json({ success: true, cart });
+    return res.status(200).json({ success: true, cart, couponRemoved });
   } catch (err) {
     logger.error("Failed to update cart item", err);
     return res.status(500).json({ message: "Server Error" });
@@ -349,14 +426,22 @@ export const updateCart = async (req: Request, res: Response) => {
 export const removeItem = async (req: Request, res: Response) => {
   const userId = req.user?.id;
   const { id: productId } = req.params;
+  const variantId = lineVariantId(req);
 
   if (!userId) {
     return res.status(401).json({ message: "Authentication required" });
   }
 
-  if (!productId || Array.isArray(productId)) {
+  if (
+    !productId ||
+    Array.isArray(productId) ||
+    !mongoose.isValidObjectId(productId)
+  ) {
     return res.status(400).json({ message: "Invalid product id" });
   }
+  if (variantId && !mongoose.isValidObjectId(variantId)) {
+    return res.status(400).json({ message: "Invalid variant id" });
+  }
 
   try {
     const userObjectId = new mongoose.Types.ObjectId(userId);
@@ -364,7 +449,14 @@ export const removeItem = async (req: Request, res: Response) => {
 
     const cart = await Cart.findOneAndUpdate(
       { user: userObjectId },
-      { $pull: { items: { product: productObjectId } } },
+      {
+        $pull: {
+          items: {
+            product: productObjectId,
+            variant: variantId ? new mongoose.Types.ObjectId(variantId) : null,
+          },
+        },
+      },
       { new: true },
     ).populate("items.product");
 
@@ -373,15 +465,10 @@ export const removeItem = async (req: Request, res: Response) => {
     }
 
     cart.items = cart.items ?? [];
-    const totals = calculateTotals(
-      cart.items.map((it) => ({ price: it.price, quantity: it.quantity ?? 0 })),
-    );
-    cart.subTotal = totals.subTotal;
-    cart.shipping = totals.shipping;
-    cart.total = totals.total;
+    const couponRemoved = await refreshTotals(cart);
     await cart.save();
     logger.info("Item removed from cart");
-    return res.status(200).json({ success: true, cart });
+    return res.status(200).json({ success: true, cart, couponRemoved });
   } catch (err) {
     logger.error("Failed to remove item from cart", err);
     return res.status(500).json({ message: "Server Error" });
@@ -410,3 +497,46 @@ export const getItems = async (req: Request, res: Response) => {
     return res.status(500).json({ message: "Server Error" });
   }
 };
+
+export const applyCoupon = async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const { code } = req.body;
+  try {
+    const cart = await Cart.findOne({ user: userId });
+    if (!cart || !cart.items?.length) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Add items to your cart first" });
+    }
+
+    cart.couponCode = String(code).trim().toUpperCase();
+    const rejected = await refreshTotals(cart);
+    if (rejected) {
+      return res.status(400).json({ success: false, message: rejected });
+    }
+    await cart.save();
+    await cart.populate("items.product");
+    logger.info(`🏷️ Coupon ${cart.couponCode} applied to cart of ${userId}`);
+    return res.status(200).json({ success: true, cart });
+  } catch (err) {
+    logger.error("Failed to apply coupon", err);
+    return res.status(500).json({ message: "Server Error" });
+  }
+};
+
+export const removeCoupon = async (req: Request, res: Response) => {
+  try {
+    const cart = await Cart.findOne({ user: req.user?.id });
+    if (!cart) {
+      return res.status(404).json({ message: "Cart not found" });
+    }
+    cart.couponCode = null;
+    await refreshTotals(cart);
+    await cart.save();
+    await cart.populate("items.product");
+    return res.status(200).json({ success: true, cart });
+  } catch (err) {
+    logger.error("Failed to remove coupon", err);
+    return res.status(500).json({ message: "Server Error" });
+  }
+};
@@ -0,0 +1,266 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import { uploadedImages } from "../middleware/multer";
+import Claim, { CLAIM_STATUSES } from "../models/claim.models";
+import Order from "../models/orde.models";
+import {
+	claimDeadline,
+	claimWindowDays,
+	decideClaim,
+	DecisionResult,
+	moveClaim,
+	notifyEscalation,
+	respondByFrom,
+} from "../services/claims";
+import { removeImages, saveImages } from "../services/imageStorage";
+import { notifyClaimUpdate } from "../services/notifications";
+import { logger } from "../utils/logger";
+
+// Buyers see their claims, sellers the ones against them, admins all
+const scopeFor = (user: Request["user"]) => {
+	if (user?.role === "admin") return {};
+	return user?.role === "seller" ? { seller: user.id } : { buyer: user?.id };
+};
+
+const isParty = (claim: { buyer?: unknown; seller?: unknown }, user: Request["user"]) =>
+	user?.role === "admin" ||
+	String(claim.buyer) === user?.id ||
+	String(claim.seller) === user?.id;
+
+const ORDER_FIELDS = "orderNumber total status paymentStatus";
+
+// Loads the claim for a party to it; sends the error response otherwise
+const findClaim = async (req: Request, res: Response) => {
+	if (!mongoose.isValidObjectId(req.params.id)) {
+		res.status(400).json({ success: false, message: "Invalid claim id" });
+		return null;
+	}
+	const claim = await Claim.findById(req.params.id);
+	if (!claim || !isParty(claim, req.user)) {
+		res.status(404).json({ success: false, message: "Claim not found" });
+		return null;
+	}
+	return claim;
+};
+
+const decisionErrors: Record<Extract<DecisionResult, { ok: false }>["reason"], [number, string]> = {
+	order_not_found: [404, "Order not found"],
+	invalid_amount: [400, "A partial refund must be less than the order total"],
+	invalid_state: [409, "This claim can no longer be decided"],
+};
+
+const sendDecision = async (res: Response, result: DecisionResult) => {
+	if (!result.ok) {
+		const [status, message] = decisionErrors[result.reason];
+		res.status(status).json({ success: false, message });
+		return;
+	}
+	await result.claim.populate("order", ORDER_FIELDS);
+	res.status(200).json({ success: true, claim: result.claim, refund: result.refund });
+};
+
+export const getClaims = async (req: Request, res: Response) => {
+	const { status, orderId } = req.query;
+	if (status !== undefined && !(CLAIM_STATUSES as readonly unknown[]).includes(status)) {
+		res.status(400).json({ success: false, message: "Unknown claim status" });
+		return;
+	}
+	if (orderId !== undefined && !mongoose.isValidObjectId(orderId)) {
+		res.status(400).json({ success: false, message: "Invalid order id" });
+		return;
+	}
+	try {
+		const claims = await Claim.find({
+			...scopeFor(req.user),
+			...(status ? { status } : {}),
+			...(orderId ? { order: orderId } : {}),
+		})
+			.populate("order", ORDER_FIELDS)
+			.sort({ createdAt: -1 })
+			.limit(100);
+		res.status(200).json({ success: true, claims });
+	} catch (err) {
+		logger.error("Failed to fetch claims", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getClaim = async (req: Request, res: Response) => {
+	try {
+		const claim = await findClaim(req, res);
+		if (!claim) return;
+		await claim.populate("order", ORDER_FIELDS);
+		res.status(200).json({ success: true, claim });
+	} catch (err) {
+		logger.error("Failed to fetch claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+/**
+ * A buyer reports a problem with a delivered order, within the claim
+ * window. Damage claims need at least one photo.
+ */
+export const openClaim = async (req: Request, res: Response) => {
+	const { orderId, type, reason, description } = req.body;
+	const files = uploadedImages(req);
+	if (type === "damage" && files.length === 0) {
+		res.status(400).json({
+			success: false,
+			message: "Add at least one photo of the damage",
+		});
+		return;
+	}
+
+	let photos: string[] = [];
+	try {
+		const order = await Order.findById(orderId);
+		if (!order || String(order.buyer) !== req.user?.id) {
+			res.status(404).json({ success: false, message: "Order not found" });
+			return;
+		}
+		const deadline = claimDeadline(order);
+		if (order.status !== "delivered" || !deadline) {
+			res.status(400).json({
+				success: false,
+				message: "Claims can only be opened on delivered orders",
+			});
+			return;
+		}
+		if (deadline < new Date()) {
+			res.status(400).json({
+				success: false,
+				message: `Claims must be opened within ${claimWindowDays()} days of delivery`,
+			});
+			return;
+		}
+		if (await Claim.exists({ order: order._id, status: { $ne: "withdrawn" } })) {
+			res.status(409).json({
+				success: false,
+				message: "This order already has a claim",
+			});
+			return;
+		}
+
+		photos = await saveImages(files, "claims");
+		const claim = await Claim.create({
+			order: order._id,
+			buyer: order.buyer,
+			seller: order.seller,
+			type,
+			reason,
+			description: description ?? "",
+			photos,
+			respondBy: respondByFrom(),
+			timeline: [{ status: "open", at: new Date(), by: req.user.id }],
+		});
+		logger.info(`🧾 ${type} claim opened on order ${order.orderNumber}`);
+		await notifyClaimUpdate(claim, [claim.seller], order.orderNumber);
+		res.status(201).json({ success: true, claim });
+	} catch (err) {
+		await removeImages(photos);
+		logger.error("Failed to open claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The seller accepts, rejects or offers a partial refund on an open claim
+export const respondToClaim = async (req: Request, res: Response) => {
+	try {
+		const claim = await findClaim(req, res);
+		if (!claim) return;
+		if (String(claim.seller) !== req.user?.id) {
+			res.status(403).json({
+				success: false,
+				message: "Only the seller can respond to this claim",
+			});
+			return;
+		}
+		const result = await decideClaim(claim._id, ["open"], {
+			...req.body,
+			by: req.user.id,
+			role: "seller",
+		});
+		await sendDecision(res, result);
+	} catch (err) {
+		logger.error("Failed to respond to claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The buyer disagrees with the seller's answer and asks an admin to decide
+export const escalateClaim = async (req: Request, res: Response) => {
+	try {
+		const claim = await findClaim(req, res);
+		if (!claim) return;
+		if (String(claim.buyer) !== req.user?.id) {
+			res.status(403).json({ success: false, message: "Only the buyer can escalate" });
+			return;
+		}
+		const escalated = await moveClaim(
+			claim._id,
+			["rejected", "partial_refund"],
+			"escalated",
+			{ by: req.user.id, note: req.body?.note, set: { escalatedAt: new Date() } }
+		);
+		if (!escalated) {
+			res.status(409).json({
+				success: false,
+				message: "Only a rejected or partly refunded claim can be escalated",
+			});
+			return;
+		}
+		const order = await Order.findById(escalated.order).select("orderNumber").lean();
+		await notifyEscalation(escalated, order?.orderNumber);
+		res.status(200).json({ success: true, claim: escalated });
+	} catch (err) {
+		logger.error("Failed to escalate claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// An admin's decision on an escalated claim is final
+export const resolveClaim = async (req: Request, res: Response) => {
+	try {
+		const claim = await findClaim(req, res);
+		if (!claim) return;
+		const result = await decideClaim(claim._id, ["escalated"], {
+			...req.body,
+			by: req.user?.id,
+			role: "admin",
+		});
+		await sendDecision(res, result);
+	} catch (err) {
+		logger.error("Failed to resolve claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const withdrawClaim = async (req: Request, res: Response) => {
+	try {
+		const claim = await findClaim(req, res);
+		if (!claim) return;
+		if (String(claim.buyer) !== req.user?.id) {
+			res.status(403).json({ success: false, message: "Only the buyer can withdraw" });
+			return;
+		}
+		const withdrawn = await moveClaim(claim._id, ["open", "escalated"], "withdrawn", {
+			by: req.user.id,
+			note: req.body?.note,
+		});
+		if (!withdrawn) {
+			res.status(409).json({
+				success: false,
+				message: "Only an open or escalated claim can be withdrawn",
+			});
+			return;
+		}
+		const order = await Order.findById(withdrawn.order).select("orderNumber").lean();
+		await notifyClaimUpdate(withdrawn, [withdrawn.seller], order?.orderNumber);
+		res.status(200).json({ success: true, claim: withdrawn });
+	} catch (err) {
+		logger.error("Failed to withdraw claim", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
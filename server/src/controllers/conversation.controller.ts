@@ -0,0 +1,195 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Conversation from "../models/conversation.models";
+import Message from "../models/message.models";
+import {
+	ChatRole,
+	chatRoleOf,
+	markConversationRead,
+	openOrderConversation,
+	openProductConversation,
+	postMessage,
+} from "../services/messaging";
+import { logger } from "../utils/logger";
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const MAX_INBOX_SIZE = 100;
+
+const PARTICIPANT_FIELDS = "fullName profilePic role";
+
+// Names and pictures the inbox and chat header show
+const DETAILS = [
+	{ path: "buyer", select: PARTICIPANT_FIELDS },
+	{ path: "seller", select: PARTICIPANT_FIELDS },
+	{ path: "product", select: "name image images" },
+	{ path: "order", select: "orderNumber status" },
+];
+
+// What the requester sees: their side of the thread and their unread count
+const forViewer = (conversation: InstanceType<typeof Conversation>, role: ChatRole) => ({
+	...conversation.toObject(),
+	role,
+	unreadCount: role === "buyer" ? conversation.buyerUnread : conversation.sellerUnread,
+});
+
+// Loads a thread and checks the requester takes part in it
+const findOwnConversation = async (req: Request, res: Response) => {
+	const { id } = req.params;
+	if (!mongoose.isValidObjectId(id)) {
+		res.status(404).json({ success: false, message: "Conversation not found" });
+		return null;
+	}
+	const conversation = await Conversation.findById(id);
+	const role = conversation && chatRoleOf(conversation, req.user?.id);
+	if (!conversation || !role) {
+		res.status(404).json({ success: false, message: "Conversation not found" });
+		return null;
+	}
+	return { conversation, role };
+};
+
+// Inbox: every thread the user is in, most recently active first
+export const getConversations = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	try {
+		const conversations = await Conversation.find({
+			$or: [{ buyer: userId }, { seller: userId }],
+		})
+			.sort({ updatedAt: -1 })
+			.limit(MAX_INBOX_SIZE);
+		// roles are worked out before populating replaces the ids
+		const roles = conversations.map((c) => chatRoleOf(c, userId) ?? "buyer");
+		await Conversation.populate(conversations, DETAILS);
+		const inbox = conversations.map((conversation, i) =>
+			forViewer(conversation, roles[i] ?? "buyer")
+		);
+		res.status(200).json({
+			success: true,
+			conversations: inbox,
+			unreadCount: inbox.reduce((sum, c) => sum + c.unreadCount, 0),
+		});
+	} catch (err) {
+		logger.error("Failed to fetch conversations", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Opens (or returns the existing) thread for a product or an order
+export const openConversation = async (req: Request, res: Response) => {
+	const userId = req.user?.id as string;
+	const { productId, orderId } = req.body;
+	try {
+		const result = productId
+			? await openProductConversation(userId, productId)
+			: await openOrderConversation(userId, orderId);
+
+		if (result.status === "not_found") {
+			return res.status(404).json({
+				success: false,
+				message: productId ? "Product not found" : "Order not found",
+			});
+		}
+		if (result.status !== "ok") {
+			return res.status(403).json({
+				success: false,
+				message: productId
+					? "You cannot message yourself about your own product"
+					: "You are not part of this order",
+			});
+		}
+
+		const { conversation, created } = result;
+		const role = chatRoleOf(conversation, userId) ?? "buyer";
+		await conversation.populate(DETAILS);
+		res.status(created ? 201 : 200).json({
+			success: true,
+			conversation: forViewer(conversation, role),
+		});
+	} catch (err) {
+		logger.error("Failed to open conversation", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getConversation = async (req: Request, res: Response) => {
+	try {
+		const thread = await findOwnConversation(req, res);
+		if (!thread) return;
+		await thread.conversation.populate(DETAILS);
+		res.status(200).json({
+			success: true,
+			conversation: forViewer(thread.conversation, thread.role),
+		});
+	} catch (err) {
+		logger.error("Failed to fetch conversation", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Newest first; pass the last id as ?before=<id> for older messages
+export const getMessages = async (req: Request, res: Response) => {
+	const limit = Math.min(
+		Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1),
+		MAX_PAGE_SIZE
+	);
+	const { before } = req.query;
+	if (before !== undefined && !mongoose.isValidObjectId(before)) {
+		return res.status(400).json({ success: false, message: "Invalid cursor" });
+	}
+
+	try {
+		const thread = await findOwnConversation(req, res);
+		if (!thread) return;
+
+		const filter: Record<string, unknown> = { conversation: thread.conversation._id };
+		if (typeof before === "string") filter._id = { $lt: before };
+
+		const messages = await Message.find(filter).sort({ _id: -1 }).limit(limit + 1);
+		const hasMore = messages.length > limit;
+		const page = messages.slice(0, limit);
+		res.status(200).json({
+			success: true,
+			messages: page,
+			nextCursor: hasMore ? String(page[page.length - 1]?._id) : null,
+		});
+	} catch (err) {
+		logger.error("Failed to fetch messages", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const sendMessage = async (req: Request, res: Response) => {
+	try {
+		const thread = await findOwnConversation(req, res);
+		if (!thread) return;
+		const message = await postMessage(
+			thread.conversation,
+			req.user?.id as string,
+			thread.role,
+			req.body.body.trim()
+		);
+		res.status(201).json({ success: true, message });
+	} catch (err) {
+		logger.error("Failed to send message", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Read receipt: marks the other side's messages as read
+export const markConversationAsRead = async (req: Request, res: Response) => {
+	try {
+		const thread = await findOwnConversation(req, res);
+		if (!thread) return;
+		const updated = await markConversationRead(
+			thread.conversation,
+			thread.role,
+			req.user?.id as string
+		);
+		res.status(200).json({ success: true, updated });
+	} catch (err) {
+		logger.error("Failed to mark conversation read", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Checkout from "../models/checkout.models";
+import Coupon from "../models/coupon.models";
+import { logger } from "../utils/logger";
+
+// Paid checkouts per coupon, for the sellers' and admins' lists
+const redemptionsOf = async (couponIds: unknown[]) => {
+	const counts = await Checkout.aggregate<{ _id: unknown; count: number }>([
+		{ $match: { coupon: { $in: couponIds }, paymentStatus: "paid" } },
+		{ $group: { _id: "$coupon", count: { $sum: 1 } } },
+	]);
+	return new Map(counts.map((c) => [String(c._id), c.count]));
+};
+
+// Sellers see their own codes; admins see all, or one seller's (?sellerId=)
+export const getCoupons = async (req: Request, res: Response) => {
+	const filter: Record<string, unknown> = {};
+	if (req.user?.role === "seller") filter.seller = req.user.id;
+	else if (typeof req.query.sellerId === "string") filter.seller = req.query.sellerId;
+
+	try {
+		const coupons = await Coupon.find(filter).sort({ createdAt: -1 }).lean();
+		const redemptions = await redemptionsOf(coupons.map((c) => c._id));
+		res.status(200).json({
+			success: true,
+			coupons: coupons.map((c) => ({
+				...c,
+				redemptions: redemptions.get(String(c._id)) ?? 0,
+			})),
+		});
+	} catch (err) {
+		logger.error("Failed to fetch coupons", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const createCoupon = async (req: Request, res: Response) => {
+	const { sellerId, ...fields } = req.body;
+	const isSeller = req.user?.role === "seller";
+	if (isSeller && !req.user?.isApproved) {
+		return res.status(403).json({
+			success: false,
+			code: "SELLER_PENDING_APPROVAL",
+			message: "Your seller account is pending approval",
+		});
+	}
+
+	try {
+		const coupon = await Coupon.create({
+			...fields,
+			// sellers can only discount their own items
+			seller: isSeller ? req.user?.id : (sellerId ?? null),
+			createdBy: req.user?.id,
+		});
+		logger.info(`🏷️ Coupon ${coupon.code} created by ${req.user?.email}`);
+		res.status(201).json({ success: true, coupon });
+	} catch (err: any) {
+		if (err?.code === 11000) {
+			return res
+				.status(409)
+				.json({ success: false, message: "A coupon with this code already exists" });
+		}
+		logger.error("Failed to create coupon", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The code, type and owner stay fixed; limits, dates and value can change
+export const updateCoupon = async (req: Request, res: Response) => {
+	const { id } = req.params;
+	if (!mongoose.isValidObjectId(id)) {
+		return res.status(400).json({ success: false, message: "Invalid coupon id" });
+	}
+	try {
+		const coupon = await Coupon.findById(id);
+		if (!coupon || (req.user?.role === "seller" && String(coupon.seller) !== req.user.id)) {
+			return res.status(404).json({ success: false, message: "Coupon not found" });
+		}
+		if (coupon.type === "percent" && req.body.value > 100) {
+			return res
+				.status(400)
+				.json({ success: false, message: "A percent discount cannot exceed 100" });
+		}
+		coupon.set(req.body);
+		await coupon.save();
+		res.status(200).json({ success: true, coupon });
+	} catch (err) {
+		logger.error("Failed to update coupon", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Notification from "../models/notification.models";
+import User from "../models/user.models";
+import { logger } from "../utils/logger";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Newest first; pass the last id as ?before=<id> for the next page
+export const getNotifications = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	const limit = Math.min(
+		Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1),
+		MAX_PAGE_SIZE
+	);
+	const { before } = req.query;
+
+	const filter: Record<string, unknown> = { user: userId };
+	if (req.query.unread === "true") filter.readAt = null;
+	if (typeof before === "string") {
+		if (!mongoose.isValidObjectId(before)) {
+			return res.status(400).json({ success: false, message: "Invalid cursor" });
+		}
+		filter._id = { $lt: before };
+	}
+
+	try {
+		const [notifications, unreadCount] = await Promise.all([
+			Notification.find(filter).sort({ _id: -1 }).limit(limit + 1),
+			Notification.countDocuments({ user: userId, readAt: null }),
+		]);
+		const hasMore = notifications.length > limit;
+		const page = notifications.slice(0, limit);
+		res.status(200).json({
+			success: true,
+			notifications: page,
+			unreadCount,
+			nextCursor: hasMore ? String(page[page.length - 1]?._id) : null,
+		});
+	} catch (err) {
+		logger.error("Failed to fetch notifications", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const markNotificationRead = async (req: Request, res: Response) => {
+	try {
+		const notification = await Notification.findOne({
+			_id: req.params.id,
+			user: req.user?.id,
+		});
+		if (!notification) {
+			return res
+				.status(404)
+				.json({ success: false, message: "Notification not found" });
+		}
+		notification.readAt ??= new Date();
+		await notification.save();
+		res.status(200).json({ success: true, notification });
+	} catch (err) {
+		logger.error("Failed to mark notification read", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+	try {
+		const result = await Notification.updateMany(
+			{ user: req.user?.id, readAt: null },
+			{ $set: { readAt: new Date() } }
+		);
+		res.status(200).json({ success: true, updated: result.modifiedCount });
+	} catch (err) {
+		logger.error("Failed to mark notifications read", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Called by the app after login with this device's Expo push token
+export const registerPushToken = async (req: Request, res: Response) => {
+	const { token } = req.body;
+	try {
+		// a device belongs to whoever signed in on it last
+		await User.updateMany(
+			{ pushTokens: token, _id: { $ne: req.user?.id } },
+			{ $pull: { pushTokens: token } }
+		);
+		await User.updateOne({ _id: req.user?.id }, { $addToSet: { pushTokens: token } });
+		logger.info(`🔔 Push token registered for user ${req.user?.id}`);
+		res.status(200).json({ success: true });
+	} catch (err) {
+		logger.error("Failed to register push token", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Called on logout so the device stops receiving this user's pushes
+export const unregisterPushToken = async (req: Request, res: Response) => {
+	const { token } = req.body;
+	try {
+		await User.updateOne({ _id: req.user?.id }, { $pull: { pushTokens: token } });
+		res.status(200).json({ success: true });
+	} catch (err) {
+		logger.error("Failed to unregister push token", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
@@ -1,12 +1,34 @@
 import { Request, Response } from "express";
 import mongoose from "mongoose";
+import Address from "../models/address.models";
 import Cart from "../models/cart.models";
+import Checkout from "../models/checkout.models";
 import MpesaTransaction from "../models/mpesa.models";
 import Order from "../models/orde.models";
 import Product from "../models/product.models";
 import User from "../models/user.models";
+import { defaultAddressOf, toShippingInfo } from "../services/addresses";
+import { quoteCoupon } from "../services/coupons";
 import { mpesaController } from "../services/mpesa.controller";
-import { getShippingInfo } from "../utils/distanceUtils";
+import {
+  initialStatusEvent,
+  OrderActor,
+  transitionOrder,
+} from "../services/orderStatus";
+import {
+  commitReservation,
+  createReservation,
+  dropOrderFromReservation,
+  releaseReservation,
+  restoreStock,
+} from "../services/reservation";
+import {
+  notifyOrderStatus,
+  notifyRefundRequested,
+} from "../services/notifications";
+import { openRefund, payOutRefund } from "../services/refunds";
+import { quoteSellerShipping, ShipmentItem } from "../services/shipping";
+import { returnStock, takeStock } from "../services/stock";
 import { logger } from "../utils/logger";
 
 export const initiatePayment = async (req: Request, res: Response) => {
@@ -16,7 +38,14 @@ export const initiatePayment = async (req: Request, res: Response) => {
 
   // only mpesa is supported
   const buyerId = req.user?.id ?? req.body?.buyer;
-  const { items, paymentMethod, phoneNumber, shippingInfo } = req.body;
+  const { items, paymentMethod, phoneNumber, addressId } = req.body;
+  let shippingInfo = req.body.shippingInfo;
+
+  // what the catch below has to undo if something throws part-way
+  const reservedItems: any[] = [];
+  let transactionId: unknown = null;
+  let created: { orderIds: unknown[]; checkoutId: unknown } | null = null;
+  let stkSent = false;
 
   try {
     if (!buyerId)
@@ -28,42 +57,80 @@ export const initiatePayment = async (req: Request, res: Response) => {
     if (!phoneNumber)
       return res.status(400).json({ message: "Phone number required" });
 
-    let subTotal = 0;
-    const orderItems: any[] = [];
-    let sellerId: any = undefined;
+    // a saved address (or the default one, when nothing was typed in) is
+    // snapshotted onto the orders
+    if (addressId || !shippingInfo?.city) {
+      const saved = addressId
+        ? await Address.findOne({ _id: addressId, user: buyerId })
+        : await defaultAddressOf(buyerId);
+      if (addressId && !saved)
+        return res.status(404).json({ message: "Address not found" });
+      if (saved) shippingInfo = toShippingInfo(saved);
+    }
+
+    const itemsBySeller = new Map<string, any[]>();
+    const parcelsBySeller = new Map<string, ShipmentItem[]>();
 
     // Validate stock AND reduce it immediately (reserve stock for this order)
     for (const item of items) {
       const product = await Product.findById(item.product);
-      if (!product)
+      if (!product) {
+        await restoreStock(reservedItems);
         return res
           .status(404)
           .json({ message: `Product ${item.product} not found` });
-      if (product.stock < item.quantity)
+      }
+      if (await User.exists({ _id: product.seller, isSuspended: true })) {
+        await restoreStock(reservedItems);
         return res
           .status(400)
-          .json({ message: `Insufficient stock for ${product.name}` });
+          .json({ message: `${product.name} is no longer available` });
+      }
+      // products sold in variants are bought one variant at a time
+      const variant = item.variant
+        ? product.variants.id(item.variant)
+        : null;
+      if (product.variants.length > 0 && !variant) {
+        await restoreStock(reservedItems);
+        return res.status(400).json({
+          message: item.variant
+            ? `The selected option of ${product.name} is no longer available`
+            : `Choose an option for ${product.name}`,
+        });
+      }
+      const itemName = variant
+        ? `${product.name} (${variant.sku})`
+        : product.name;
+      const available = variant ? variant.stock : product.stock;
+      if (available < item.quantity) {
+        await restoreStock(reservedItems);
+        return res
+          .status(400)
+          .json({ message: `Insufficient stock for ${itemName}` });
+      }
 
       // 📦 IMMEDIATELY REDUCE STOCK (reserve for this order)
       logger.info(
-        `📦 BEFORE: Product "${product.name}" (ID: ${product._id}) has stock: ${product.stock}`,
+        `📦 BEFORE: Product "${itemName}" (ID: ${product._id}) has stock: ${available}`,
       );
       logger.info(
-        `📦 REDUCING: ${item.quantity} units from product "${product.name}"`,
+        `📦 REDUCING: ${item.quantity} units from product "${itemName}"`,
       );
 
-      const updateResult = await Product.updateOne(
-        { _id: item.product, stock: { $gte: item.quantity } },
-        { $inc: { stock: -item.quantity } },
-      );
+      const reserved = await takeStock({
+        product: product._id,
+        variant: variant?._id,
+        quantity: item.quantity,
+      });
 
-      if (updateResult.modifiedCount === 0) {
+      if (!reserved) {
         logger.error(
-          `❌ Stock update FAILED for ${product.name} - likely insufficient stock or concurrent purchase`,
+          `❌ Stock update FAILED for ${itemName} - likely insufficient stock or concurrent purchase`,
         );
+        await restoreStock(reservedItems);
         return res
           .status(400)
-          .json({ message: `Failed to reserve stock for ${product.name}` });
+          .json({ message: `Failed to reserve stock for ${itemName}` });
       }
 
       // Verify stock was updated
@@ -73,116 +140,219 @@ export const initiatePayment = async (req: Request, res: Response) => {
       );
       logger.info(`✅ Successfully reduced stock by ${item.quantity} units`);
 
-      subTotal += product.price * item.quantity;
-      orderItems.push({
+      const orderItem = {
         product: product._id,
+        variant: variant?._id ?? null,
+        sku: variant?.sku,
+        attributes: variant?.attributes,
         name: product.name,
-        price: product.price,
+        price: variant ? variant.price : product.price,
         quantity: item.quantity,
-        image: product.image,
-      });
-      if (!sellerId && (product as any).seller)
-        sellerId = (product as any).seller;
+        image: variant?.images[0] ?? product.image,
+      };
+      reservedItems.push(orderItem);
+
+      // Group items by seller - each seller gets their own order
+      const sellerKey = String(product.seller);
+      const sellerItems = itemsBySeller.get(sellerKey) ?? [];
+      sellerItems.push(orderItem);
+      itemsBySeller.set(sellerKey, sellerItems);
+      parcelsBySeller.set(sellerKey, [
+        ...(parcelsBySeller.get(sellerKey) ?? []),
+        {
+          price: orderItem.price,
+          quantity: item.quantity,
+          weightKg: product.weightKg,
+          shippingClass: product.shippingClass,
+        },
+      ]);
     }
 
-    logger.info(`✅ Stock reduced for all ${orderItems.length} items`);
-
-    // Get seller's location for shipping calculation
-    const seller = await User.findById(sellerId);
-    const sellerCity = seller?.location?.city || "Nairobi"; // Default to Nairobi if not set
-    const buyerCity = shippingInfo?.city || "Nairobi";
-
-    logger.info(`📍 Calculating shipping from seller (${sellerCity}) to buyer (${buyerCity})`);
-
-    // Calculate shipping based on distance
-    let shipping = 3000; // Default fallback shipping fee
-    const shippingResult = await getShippingInfo(
-      sellerCity,
-      buyerCity,
-      (seller?.location?.latitude) as number | undefined,
-      (seller?.location?.longitude) as number | undefined
+    logger.info(
+      `✅ Stock reduced for all ${reservedItems.length} items across ${itemsBySeller.size} seller(s)`,
     );
 
-    if (shippingResult) {
-      shipping = shippingResult.fee;
-      logger.info(
-        `📦 Shipping calculated: ${shippingResult.distance}km = Ksh ${shipping}`
+    const sellerOrders: {
+      sellerId: string;
+      items: any[];
+      subTotal: number;
+      shipping: number;
+      discount: number;
+      total: number;
+    }[] = [];
+
+    // Shipping is quoted per seller since each one ships from their own location
+    for (const [sellerId, sellerItems] of itemsBySeller) {
+      const sellerSubTotal = sellerItems.reduce(
+        (sum, it) => sum + it.price * it.quantity,
+        0,
       );
-    } else {
-      logger.warn(
-        `⚠️ Could not calculate distance-based shipping, using default: Ksh ${shipping}`
+      const { fee: sellerShipping } = await quoteSellerShipping(
+        sellerId,
+        {
+          city: shippingInfo?.city,
+          county: shippingInfo?.county,
+          latitude: shippingInfo?.latitude,
+          longitude: shippingInfo?.longitude,
+        },
+        parcelsBySeller.get(sellerId) ?? [],
+      );
+      sellerOrders.push({
+        sellerId,
+        items: sellerItems,
+        subTotal: sellerSubTotal,
+        shipping: sellerShipping,
+        discount: 0,
+        total: Math.round(sellerSubTotal + sellerShipping),
+      });
+    }
+
+    // The code (sent, or applied to the cart) is checked again here, so the
+    // STK push is always for the discounted total
+    const couponCode: string | null =
+      req.body.couponCode !== undefined
+        ? req.body.couponCode || null
+        : ((await Cart.findOne({ user: buyerId }).select("couponCode"))
+            ?.couponCode ?? null);
+    let couponId: unknown = null;
+    if (couponCode) {
+      const quote = await quoteCoupon(
+        couponCode,
+        buyerId,
+        sellerOrders.map((o) => ({
+          seller: o.sellerId,
+          subTotal: o.subTotal,
+          shipping: o.shipping,
+        })),
       );
+      if (quote.status !== "ok") {
+        await restoreStock(reservedItems);
+        return res.status(400).json({ message: quote.message });
+      }
+      couponId = quote.coupon._id;
+      sellerOrders.forEach((o, i) => {
+        o.discount = quote.discounts[i] ?? 0;
+        o.total -= o.discount;
+      });
     }
 
-    const total = Math.round(subTotal + shipping);
+    const subTotal = sellerOrders.reduce((sum, o) => sum + o.subTotal, 0);
+    const shipping = sellerOrders.reduce((sum, o) => sum + o.shipping, 0);
+    const discount = sellerOrders.reduce((sum, o) => sum + o.discount, 0);
+    const total = sellerOrders.reduce((sum, o) => sum + o.total, 0);
+
+    if (total < 1) {
+      await restoreStock(reservedItems);
+      return res
+        .status(400)
+        .json({ message: "The total after discounts must be at least Ksh 1" });
+    }
 
     logger.info(
-      `💳 INITIATING PAYMENT: Subtotal Ksh ${subTotal} + Shipping Ksh ${shipping} = Total Ksh ${total}`,
+      `💳 INITIATING PAYMENT: Subtotal Ksh ${subTotal} + Shipping Ksh ${shipping} - Discount Ksh ${discount} = Total Ksh ${total}`,
     );
 
-    // Generate order number
-    const generateOrderNumber = () => {
-      const prefix = "#";
-      const timestamp = Date.now().toString();
-      const random = Math.floor(Math.random() * 1000)
-        .toString()
-        .padStart(3, "0");
-      return `${prefix}-${timestamp.slice(-8)}-${random}`;
-    };
-
-    // CREATE ACTUAL ORDER IMMEDIATELY (with pending payment status)
-    const order = new Order({
+    // One reference for the whole checkout; split orders get a -1, -2... suffix
+    const checkoutNumber = generateOrderNumber();
+    const checkout = new Checkout({
       buyer: buyerId,
-      seller: sellerId,
-      items: orderItems,
+      checkoutNumber,
       subTotal,
       shipping,
+      discount,
+      coupon: couponId,
+      couponCode: couponId ? couponCode?.trim().toUpperCase() : null,
       total,
-      paymentMethod: "mpesa",
-      paymentStatus: "pending", // Will be updated to "paid" when callback arrives
-      status: "pending",
-      shippingInfo,
-      orderNumber: generateOrderNumber(),
-      phoneNumber: phoneNumber,
+      phoneNumber,
+      paymentStatus: "pending",
     });
-    await order.save();
 
-    logger.info(
-      `📝 ORDER CREATED: ${order.orderNumber} | ID: ${order._id} | Status: payment pending`,
-    );
+    // CREATE ACTUAL ORDERS IMMEDIATELY (with pending payment status)
+    const orders = [];
+    for (const [index, sellerOrder] of sellerOrders.entries()) {
+      const order = new Order({
+        buyer: buyerId,
+        seller: sellerOrder.sellerId,
+        checkout: checkout._id,
+        checkoutNumber,
+        items: sellerOrder.items,
+        subTotal: sellerOrder.subTotal,
+        shipping: sellerOrder.shipping,
+        discount: sellerOrder.discount,
+        couponCode: checkout.couponCode,
+        total: sellerOrder.total,
+        paymentMethod: "mpesa",
+        paymentStatus: "pending", // Will be updated to "paid" when callback arrives
+        status: "pending",
+        statusHistory: [initialStatusEvent(buyerId)],
+        shippingInfo,
+        orderNumber:
+          sellerOrders.length > 1
+            ? `${checkoutNumber}-${index + 1}`
+            : checkoutNumber,
+        phoneNumber: phoneNumber,
+      });
+      await order.save();
+      orders.push(order);
+
+      logger.info(
+        `📝 ORDER CREATED: ${order.orderNumber} | ID: ${order._id} | Seller: ${sellerOrder.sellerId} | Status: payment pending`,
+      );
+    }
 
-    // Create pending transaction and link it to the order
+    const orderIds = orders.map((o) => o._id);
+    created = { orderIds, checkoutId: checkout._id };
+    checkout.orders = orderIds;
+    await checkout.save();
+
+    // the first order is kept on `order` for clients that predate split checkouts
+    const order = orders[0]!;
+
+    // Create pending transaction and link it to the orders
     const tx = new MpesaTransaction({
       amount: total,
       phoneNumber: phoneNumber,
       status: "pending",
-      order: order._id, // Link to the order we just created
-      products: orderItems.map((it) => ({
+      order: order._id,
+      orders: orderIds,
+      checkout: checkout._id,
+      products: reservedItems.map((it) => ({
         product: it.product,
+        variant: it.variant,
         quantity: it.quantity,
         price: it.price,
       })),
       metadata: {
         buyerId,
-        sellerId,
+        sellerIds: sellerOrders.map((o) => o.sellerId),
         shippingInfo,
-        items: orderItems,
+        items: reservedItems,
         subTotal,
         shipping,
+        discount,
+        couponCode: checkout.couponCode,
         total,
         paymentMethod: "mpesa",
-        orderId: order._id.toString(), // Store order ID as string in metadata too
+        orderId: order._id.toString(),
+        orderIds: orderIds.map((id) => id.toString()),
+        checkoutId: checkout._id.toString(),
       },
     });
     await tx.save();
+    transactionId = tx._id;
 
     logger.info(
-      `📝 TRANSACTION CREATED: ID ${tx._id} | Linked to Order ${order._id}`,
-    );
-    logger.info(
-      `🔗 Transaction.order = ${tx.order} | Metadata.orderId = ${tx.metadata.orderId}`,
+      `📝 TRANSACTION CREATED: ID ${tx._id} | Checkout ${checkout.checkoutNumber} | ${orders.length} order(s)`,
     );
 
+    // Hold the stock until the callback arrives or the reservation expires
+    await createReservation({
+      transaction: tx._id,
+      checkout: checkout._id,
+      orders: orderIds,
+      items: reservedItems,
+    });
+
     // 🧪 TEST MODE: Skip M-Pesa and auto-complete payment
     const TEST_MODE = process.env.TEST_MODE === "true";
 
@@ -202,11 +372,18 @@ export const initiatePayment = async (req: Request, res: Response) => {
       logger.info(`🧪 TEST MODE: Mock checkout IDs created`);
       logger.info(`🧪 TEST MODE: Auto-completing payment WITHOUT M-Pesa...`);
 
-      // Update order to paid status
-      order.paymentStatus = "paid";
-      order.mpesaReceiptNumber = `TEST-${Date.now()}`;
-      order.mpesaCheckoutRequestID = checkoutRequestId ?? undefined;
-      await order.save();
+      // Update orders to paid status
+      const receipt = `TEST-${Date.now()}`;
+      for (const o of orders) {
+        o.paymentStatus = "paid";
+        o.mpesaReceiptNumber = receipt;
+        o.mpesaCheckoutRequestID = checkoutRequestId ?? undefined;
+        await o.save();
+      }
+      checkout.paymentStatus = "paid";
+      checkout.mpesaReceiptNumber = receipt;
+      checkout.mpesaCheckoutRequestID = checkoutRequestId ?? undefined;
+      await checkout.save();
 
       // Clear user's cart (same as callback does)
       await Cart.findOneAndDelete({ user: buyerId });
@@ -215,11 +392,12 @@ export const initiatePayment = async (req: Request, res: Response) => {
       tx.status = "success";
       tx.resultCode = 0;
       tx.resultDesc = "Test Mode - Auto Success";
-      tx.mpesaReceiptNumber = `TEST-${Date.now()}`;
+      tx.mpesaReceiptNumber = receipt;
       await tx.save();
+      await commitReservation(tx._id);
 
       logger.info(
-        `✅ TEST MODE: Payment auto-completed | Order ${order.orderNumber} marked as PAID`,
+        `✅ TEST MODE: Payment auto-completed | Checkout ${checkout.checkoutNumber} marked as PAID`,
       );
       logger.info(
         `✅ Stock remains REDUCED | Cart cleared | No callback needed`,
@@ -229,22 +407,9 @@ export const initiatePayment = async (req: Request, res: Response) => {
         success: true,
         message: "✅ TEST MODE: Payment completed automatically!",
         testMode: true,
-        order: {
-          id: order._id,
-          _id: order._id,
-          orderNumber: order.orderNumber,
-          buyer: order.buyer,
-          seller: order.seller,
-          items: order.items,
-          subTotal: order.subTotal,
-          shipping: order.shipping,
-          total: order.total,
-          paymentStatus: "paid", // Already paid in test mode
-          status: order.status,
-          shippingInfo: order.shippingInfo,
-          createdAt: order.createdAt,
-          mpesaReceiptNumber: order.mpesaReceiptNumber,
-        },
+        order: formatOrder(order),
+        orders: orders.map(formatOrder),
+        checkout: formatCheckout(checkout),
         transactionId: tx._id,
         checkoutRequestId,
       });
@@ -253,38 +418,25 @@ export const initiatePayment = async (req: Request, res: Response) => {
     // PRODUCTION MODE: Send actual STK push via M-Pesa
     logger.info(`📱 PRODUCTION MODE: Sending STK push to M-Pesa...`);
 
+    stkSent = true;
     const mpesaRes: any = await mpesaController.initiatePayment({
       amount: total,
-      products: orderItems,
+      products: reservedItems,
       phoneNumber,
-      accountReference: order.orderNumber ?? order._id.toString(),
-      transactionDesc: `Payment for ${order.orderNumber ?? order._id.toString()}`,
+      accountReference: checkout.checkoutNumber ?? checkout._id.toString(),
+      transactionDesc: `Payment for ${checkout.checkoutNumber ?? checkout._id.toString()}`,
     });
 
     if (mpesaRes?.error) {
-      // Payment initiation failed - RESTORE STOCK and DELETE ORDER
+      // Payment initiation failed - RESTORE STOCK and DELETE ORDERS
       logger.warn(
         `⚠️ ⚠️ ⚠️ PAYMENT INITIATION FAILED - RESTORING STOCK ⚠️ ⚠️ ⚠️`,
       );
       logger.warn(`⚠️ M-Pesa Error: ${JSON.stringify(mpesaRes.error)}`);
-      for (const item of orderItems) {
-        const beforeRestore = await Product.findById(item.product);
-        logger.warn(
-          `↩️ BEFORE RESTORE: Product "${item.name}" stock: ${beforeRestore?.stock}`,
-        );
-
-        await Product.updateOne(
-          { _id: item.product },
-          { $inc: { stock: item.quantity } },
-        );
+      await releaseReservation(tx._id, "stk_push_failed");
 
-        const afterRestore = await Product.findById(item.product);
-        logger.warn(
-          `↩️ AFTER RESTORE: Product "${item.name}" stock: ${afterRestore?.stock} (restored +${item.quantity})`,
-        );
-      }
-
-      await Order.findByIdAndDelete(order._id); // Delete the order
+      await Order.deleteMany({ _id: { $in: orderIds } }); // Delete the orders
+      await Checkout.findByIdAndDelete(checkout._id);
       await MpesaTransaction.findByIdAndDelete(tx._id); // Cleanup failed tx
       logger.error(`❌ PAYMENT INITIATION FAILED: ${mpesaRes.error}`);
       return res.status(400).json({
@@ -314,34 +466,101 @@ export const initiatePayment = async (req: Request, res: Response) => {
       `🔗 Transaction updated with checkout IDs - ready for callback`,
     );
 
-    // Return the actual order that was created (payment pending)
+    // Return the actual orders that were created (payment pending)
     return res.status(200).json({
       success: true,
       message: "Payment initiated. Complete on your phone.",
-      order: {
-        id: order._id,
-        _id: order._id,
-        orderNumber: order.orderNumber,
-        buyer: order.buyer,
-        seller: order.seller,
-        items: order.items,
-        subTotal: order.subTotal,
-        shipping: order.shipping,
-        total: order.total,
-        paymentStatus: order.paymentStatus,
-        status: order.status,
-        shippingInfo: order.shippingInfo,
-        createdAt: order.createdAt,
-      },
+      order: formatOrder(order),
+      orders: orders.map(formatOrder),
+      checkout: formatCheckout(checkout),
       transactionId: tx._id,
       checkoutRequestId,
     });
   } catch (err) {
     logger.error("initiatePayment failed", err);
+    await undoInitiatePayment({ reservedItems, transactionId, created, stkSent });
     return res.status(500).json({ message: "Server Error" });
   }
 };
 
+/**
+ * Give back what a failed initiatePayment took. Once the transaction exists
+ * its reservation owns the stock (releasing it is a no-op if it was never
+ * created or already settled); before that the taken lines are returned
+ * directly. The orders are only deleted if no STK push can have gone out,
+ * so a late callback still finds them.
+ */
+const undoInitiatePayment = async ({
+  reservedItems,
+  transactionId,
+  created,
+  stkSent,
+}: {
+  reservedItems: any[];
+  transactionId: unknown;
+  created: { orderIds: unknown[]; checkoutId: unknown } | null;
+  stkSent: boolean;
+}) => {
+  try {
+    const released = transactionId
+      ? await releaseReservation(transactionId, "initiation_error")
+      : "not_found";
+    if (released === "not_found") await restoreStock(reservedItems);
+    if (stkSent) return;
+    if (created) {
+      await Order.deleteMany({ _id: { $in: created.orderIds } });
+      await Checkout.findByIdAndDelete(created.checkoutId);
+    }
+    if (transactionId) await MpesaTransaction.findByIdAndDelete(transactionId);
+  } catch (err) {
+    logger.error("Failed to undo a failed payment initiation", err);
+  }
+};
+
+// Generate order number
+const generateOrderNumber = () => {
+  const prefix = "#";
+  const timestamp = Date.now().toString();
+  const random = Math.floor(Math.random() * 1000)
+    .toString()
+    .padStart(3, "0");
+  return `${prefix}-${timestamp.slice(-8)}-${random}`;
+};
+
+const formatOrder = (order: any) => ({
+  id: order._id,
+  _id: order._id,
+  orderNumber: order.orderNumber,
+  checkout: order.checkout,
+  checkoutNumber: order.checkoutNumber,
+  buyer: order.buyer,
+  seller: order.seller,
+  items: order.items,
+  subTotal: order.subTotal,
+  shipping: order.shipping,
+  discount: order.discount,
+  couponCode: order.couponCode,
+  total: order.total,
+  paymentStatus: order.paymentStatus,
+  status: order.status,
+  statusHistory: order.statusHistory,
+  shippingInfo: order.shippingInfo,
+  createdAt: order.createdAt,
+  mpesaReceiptNumber: order.mpesaReceiptNumber,
+});
+
+const formatCheckout = (checkout: any) => ({
+  id: checkout._id,
+  checkoutNumber: checkout.checkoutNumber,
+  orders: checkout.orders,
+  subTotal: checkout.subTotal,
+  shipping: checkout.shipping,
+  discount: checkout.discount,
+  couponCode: checkout.couponCode,
+  total: checkout.total,
+  paymentStatus: checkout.paymentStatus,
+});
+
 // OPTIONAL: prevent direct order creation via POST /order
 export const makeOrder = async (_req: Request, res: Response) => {
   return res.status(405).json({
@@ -360,6 +579,7 @@ export const getSellersOrders = async (req: Request, res: Response) => {
     const orders = await Order.find({ seller: sellerId })
       .populate("items.product", "name images")
       .populate("buyer", "_id fullName email") // include buyer details for seller UI
+      .populate("statusHistory.by", "_id fullName role")
       .sort({ createdAt: -1 });
 
     const out = orders.map((o) => {
@@ -402,16 +622,27 @@ export const getBuyersOrders = async (req: Request, res: Response) => {
   try {
     const orders = await Order.find({ buyer: buyerId })
       .populate("items.product", "name images")
-      .populate("seller", "_id") // populate seller so we can return seller id
+      .populate("seller", "_id fullName") // populate seller so we can return seller id
+      .populate("statusHistory.by", "_id fullName role")
       .sort({ createdAt: -1 });
 
     const out = orders.map((o) => {
       const obj = o.toObject();
+      const populatedSeller = obj.seller as
+        | { _id?: unknown; fullName?: string }
+        | string
+        | null
+        | undefined;
       const sellerId =
-        obj.seller && typeof obj.seller === "object"
-          ? (obj.seller._id ?? obj.seller)
-          : obj.seller;
-      return { ...obj, sellerId };
+        populatedSeller && typeof populatedSeller === "object"
+          ? (populatedSeller._id ?? populatedSeller)
+          : populatedSeller;
+      // split checkouts produce one order per seller, so name the seller
+      const sellerName =
+        populatedSeller && typeof populatedSeller === "object"
+          ? (populatedSeller.fullName ?? "")
+          : "";
+      return { ...obj, sellerId, sellerName };
     });
 
     return res.status(200).json({ success: true, orders: out });
@@ -421,28 +652,76 @@ export const getBuyersOrders = async (req: Request, res: Response) => {
   }
 };
 
+// Which side of the order the caller is on; admins can act on any order
+const orderActor = (
+  order: { buyer?: unknown; seller?: unknown },
+  user: Request["user"],
+): OrderActor | null => {
+  if (!user) return null;
+  if (user.role === "admin") return "admin";
+  if (order.seller && String(order.seller) === user.id) return "seller";
+  if (order.buyer && String(order.buyer) === user.id) return "buyer";
+  return null;
+};
+
+const transitionErrors = {
+  invalid_transition: (from: string, to: string) =>
+    `An order that is ${from} cannot be marked ${to}`,
+  forbidden: (_from: string, to: string) =>
+    `You are not allowed to mark this order ${to}`,
+  unpaid: () => "Order cannot be confirmed until payment is received",
+};
+
 export const updateStatus = async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { status } = req.body;
+  const { status, note } = req.body;
 
   try {
     const order = await Order.findById(id);
     if (!order) {
-      res.status(400).json({ message: "Order not found" });
+      res.status(404).json({ success: false, message: "Order not found" });
+      return;
+    }
+
+    const actor = orderActor(order, req.user);
+    if (!actor) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to update this order",
+      });
       return;
     }
-    const oldStatus = order.status;
-    order.status = status;
 
-    if (status === "delivered" && oldStatus !== "delivered") {
-      order.actualDelivery = new Date();
+    // cancelling gives stock back, so it has its own endpoint
+    if (status === "cancelled") {
+      res.status(400).json({
+        success: false,
+        message: "Use PUT /order/cancel/:id to cancel an order",
+      });
+      return;
+    }
+
+    const result = transitionOrder(order, status, {
+      actor,
+      by: req.user?.id,
+      note,
+    });
+    if (!result.ok) {
+      res.status(result.reason === "forbidden" ? 403 : 409).json({
+        success: false,
+        message: transitionErrors[result.reason](order.status, status),
+      });
+      return;
     }
 
     await order.save();
-    logger.info(`stsrus of ${order.orderNumber} updated`);
-    res.status(200).json({ seccess: true, order });
+    await notifyOrderStatus([order], actor, note);
+    logger.info(
+      `📦 Order ${order.orderNumber}: ${result.from} → ${status} (by ${actor} ${req.user?.id})`,
+    );
+    res.status(200).json({ success: true, order });
   } catch (err) {
-    logger.error("Failed to update status");
+    logger.error("Failed to update status", err);
     res.status(500).json({ message: "Server error" });
   }
 };
@@ -471,20 +750,9 @@ export const cancelOrder = async (req: Request, res: Response) => {
         .json({ success: false, message: "Order not found" });
     }
 
-    const status = (order.status ?? "").toString().toLowerCase();
-    if (["shipped", "delivered", "cancelled"].includes(status)) {
-      await session.abortTransaction();
-      session.endSession();
-      res
-        .status(400)
-        .json({ success: false, message: "Order cannot be cancelled" });
-      return;
-    }
-
-    // Authorization: allow buyer or seller to cancel
-    const orderBuyerId = String(order.buyer);
-    const orderSellerId = order.seller ? String(order.seller) : undefined;
-    if (userId !== orderBuyerId && userId !== orderSellerId) {
+    // Authorization: allow buyer, seller (or an admin) to cancel
+    const actor = orderActor(order, req.user);
+    if (!actor) {
       await session.abortTransaction();
       session.endSession();
       return res.status(403).json({
@@ -493,27 +761,59 @@ export const cancelOrder = async (req: Request, res: Response) => {
       });
     }
 
+    const result = transitionOrder(order, "cancelled", {
+      actor,
+      by: userId,
+      note: req.body?.note,
+    });
+    if (!result.ok) {
+      await session.abortTransaction();
+      session.endSession();
+      res
+        .status(400)
+        .json({ success: false, message: "Order cannot be cancelled" });
+      return;
+    }
+
     // Restore stock using atomic $inc updates (safer & faster than loading each product)
     for (const item of order.items ?? []) {
       const productId = (item.product as any)?._id ?? item.product;
       if (!productId) continue;
-      await Product.updateOne(
-        { _id: productId },
-        { $inc: { stock: item.quantity } },
-        { session },
+      await returnStock(
+        { product: productId, variant: item.variant, quantity: item.quantity },
+        session,
       );
     }
+    // a payment still in flight must not hand the same stock back later
+    await dropOrderFromReservation(order, session);
 
-    order.status = "cancelled";
     await order.save({ session });
 
+    // Paid orders owe the buyer their money; the seller or an admin cancelling
+    // approves the refund themselves
+    let refund = await openRefund(
+      order,
+      {
+        requestedBy: userId,
+        reason: req.body?.note || "Order cancelled",
+        approved: actor !== "buyer",
+      },
+      session,
+    );
+
     await session.commitTransaction();
     session.endSession();
+    await notifyOrderStatus([order], actor, req.body?.note);
+    if (refund?.status === "approved") {
+      refund = await payOutRefund(refund._id);
+    } else if (refund) {
+      await notifyRefundRequested(refund, order.orderNumber);
+    }
 
     // populate for response (outside transaction)
     await order.populate("items.product");
     logger.info("Order canceled");
-    return res.status(200).json({ success: true, order });
+    return res.status(200).json({ success: true, order, refund });
   } catch (err) {
     await session.abortTransaction();
     session.endSession();
@@ -523,54 +823,72 @@ export const cancelOrder = async (req: Request, res: Response) => {
 };
 
 /**
- * Calculate shipping cost for a specific product and buyer's delivery city
- * Used for cart preview before checkout
+ * Shipping preview for the cart: `items` (as for payment) or a single
+ * `productId`, quoted per seller through the same engine as payment.
  */
 export const calculateShippingCost = async (req: Request, res: Response) => {
-  try {
-    const { productId, buyerCity } = req.body;
-
-    if (!productId || !buyerCity) {
-      return res.status(400).json({
-        message: "Product ID and buyer city are required",
-      });
-    }
+  const { productId, buyerCity, buyerCounty, latitude, longitude } = req.body;
+  const lines: { product: string; variant?: string | null; quantity?: number }[] =
+    Array.isArray(req.body.items)
+      ? req.body.items
+      : productId
+        ? [{ product: productId, quantity: 1 }]
+        : [];
+
+  if (lines.length === 0 || !buyerCity) {
+    return res.status(400).json({
+      message: "Items (or a product ID) and buyer city are required",
+    });
+  }
 
+  try {
     logger.info(
-      `📍 Calculating shipping for product ${productId} to ${buyerCity}`
+      `📍 Calculating shipping for ${lines.length} item(s) to ${buyerCity}`,
     );
 
-    const product = await Product.findById(productId).populate("seller");
-    if (!product) {
-      return res.status(404).json({ message: "Product not found" });
-    }
+    const products = await Product.find({
+      _id: { $in: lines.map((l) => l.product) },
+    }).select("seller price variants weightKg shippingClass");
+    const byId = new Map(products.map((p) => [String(p._id), p]));
 
-    const seller = product.seller as any;
-    const sellerCity = seller?.location?.city || "Nairobi";
+    const parcels = new Map<string, ShipmentItem[]>();
+    for (const line of lines) {
+      const product = byId.get(String(line.product));
+      if (!product) {
+        return res
+          .status(404)
+          .json({ message: `Product ${line.product} not found` });
+      }
+      const variant = line.variant ? product.variants.id(line.variant) : null;
+      const sellerKey = String(product.seller);
+      parcels.set(sellerKey, [
+        ...(parcels.get(sellerKey) ?? []),
+        {
+          price: variant?.price ?? product.price,
+          quantity: Number(line.quantity) || 1,
+          weightKg: product.weightKg,
+          shippingClass: product.shippingClass,
+        },
+      ]);
+    }
 
-    const shippingResult = await getShippingInfo(
-      sellerCity,
-      buyerCity,
-      seller?.location?.latitude,
-      seller?.location?.longitude
+    const quotes = await Promise.all(
+      [...parcels].map(async ([seller, items]) => ({
+        seller,
+        ...(await quoteSellerShipping(
+          seller,
+          { city: buyerCity, county: buyerCounty, latitude, longitude },
+          items,
+        )),
+      })),
     );
 
-    if (!shippingResult) {
-      logger.warn(`⚠️ Could not calculate shipping, returning default fee`);
-      return res.status(200).json({
-        message: "Using default shipping fee",
-        distance: null,
-        fee: 3000,
-        sellerCity,
-        buyerCity,
-      });
-    }
-
     return res.status(200).json({
       success: true,
-      distance: shippingResult.distance,
-      fee: shippingResult.fee,
-      sellerCity,
+      fee: quotes.reduce((sum, q) => sum + q.fee, 0),
+      // kept for clients that quote one product at a time
+      distance: quotes.length === 1 ? quotes[0]!.distanceKm : null,
+      quotes,
       buyerCity,
     });
   } catch (error) {
@@ -1,15 +1,47 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 
-import cloudinary from "../config/cloudinary";
+import { uploadedImages } from "../middleware/multer";
 import Listing from "../models/listings.models";
-import Product from "../models/product.models";
+import ProductAlert from "../models/productAlert.models";
+import Product, {
+	MAX_PRODUCT_IMAGES,
+	summarizeVariants,
+} from "../models/product.models";
 import User from "../models/user.models";
+import { geocodePlace } from "../services/geocoding";
+import { removeImages, saveImages } from "../services/imageStorage";
 import { logger } from "../utils/logger";
-import { geocodeCity } from "../utils/distanceUtils";
+
+// Products created before the gallery only have a cover image
+const galleryOf = (product: { image?: string | null; images?: string[] | null }) =>
+	product.images?.length ? [...product.images] : product.image ? [product.image] : [];
+
+// E11000 on the catalogue-wide SKU index
+const isDuplicateSku = (err: any) =>
+	err?.code === 11000 && Boolean(err.keyPattern?.["variants.sku"]);
+
+// Only the seller who owns a product may change it; the routes admit
+// approved sellers only
+const loadOwnProduct = async (req: Request, res: Response) => {
+	const product = await Product.findById(req.params.id);
+	if (!product) {
+		res.status(404).json({ success: false, message: "Product not found" });
+		return null;
+	}
+	if (String(product.seller) !== req.user?.id) {
+		res
+			.status(403)
+			.json({ success: false, message: "Not allowed to edit this product" });
+		return null;
+	}
+	return product;
+};
 
 export const addProduct = async (req: Request, res: Response) => {
 	const seller = req.user?.id;
-	const { name, category, description, price, stock } = req.body;
+	const { name, category, description, price, stock, variants, weightKg, shippingClass } =
+		req.body;
 
 	if (!seller) {
 		res
@@ -25,49 +57,34 @@ export const addProduct = async (req: Request, res: Response) => {
 		return;
 	}
 
-	let imageUrl = "";
-	if (req.file) {
-		try {
-			const result = await new Promise<any>((resolve, reject) => {
-				cloudinary.uploader
-					.upload_stream(
-						{ resource_type: "image", folder: "products" },
-						(error, result) => {
-							if (error) {
-								logger.error(`Error uploading image: ${error.message}`);
-								reject(error);
-							} else {
-								resolve(result);
-							}
-						}
-					)
-					.end(req.file?.buffer);
-			});
-			imageUrl = result.secure_url;
-		} catch (error: unknown) {
-			logger.error(
-				`Error uploading image: ${
-					error instanceof Error ? error.message : "Unknown error"
-				}`
-			);
-			return res.status(500).json({
-				message: "Error uploading image",
-				error: error instanceof Error ? error.message : "Unknown error",
-			});
-		}
-	} else {
-		// allow skipping image requirement for testing:
-		if (process.env.SKIP_IMAGE_VALIDATION === "true") {
-			logger.info("Skipping image upload check (SKIP_IMAGE_VALIDATION=true)");
-			// imageUrl stays empty or set a placeholder url if you prefer
-			imageUrl = "";
-		} else {
-			logger.error("Failed to add image");
-			return res.status(400).json({
-				success: false,
-				message: "image required",
-			});
-		}
+	const files = uploadedImages(req);
+	if (files.length === 0 && process.env.SKIP_IMAGE_VALIDATION !== "true") {
+		logger.error("Failed to add image");
+		return res.status(400).json({
+			success: false,
+			message: "image required",
+		});
+	}
+	if (files.length > MAX_PRODUCT_IMAGES) {
+		return res.status(400).json({
+			success: false,
+			message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+		});
+	}
+
+	let imageUrls: string[] = [];
+	try {
+		imageUrls = await saveImages(files, "products");
+	} catch (error: unknown) {
+		logger.error(
+			`Error uploading image: ${
+				error instanceof Error ? error.message : "Unknown error"
+			}`
+		);
+		return res.status(500).json({
+			message: "Error uploading image",
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
 	}
 
 	try {
@@ -82,7 +99,7 @@ export const addProduct = async (req: Request, res: Response) => {
 
 			// If seller has city but no coordinates, geocode them
 			if (!sellerLocation.latitude || !sellerLocation.longitude) {
-				const coords = await geocodeCity(sellerUser.location.city);
+				const coords = await geocodePlace(sellerUser.location.city);
 				if (coords) {
 					sellerLocation.latitude = coords.latitude;
 					sellerLocation.longitude = coords.longitude;
@@ -94,10 +111,15 @@ export const addProduct = async (req: Request, res: Response) => {
 			seller: seller,
 			name,
 			category,
-			image: imageUrl,
+			image: imageUrls[0] ?? "",
+			images: imageUrls,
 			description,
 			price: Number(price),
 			stock: Number(stock),
+			variants: variants ?? [],
+			...summarizeVariants(variants ?? []),
+			weightKg: weightKg ?? null,
+			shippingClass: shippingClass ?? "standard",
 			sellerLocation: Object.keys(sellerLocation).length > 0 ? sellerLocation : undefined,
 		});
 
@@ -120,6 +142,12 @@ export const addProduct = async (req: Request, res: Response) => {
 		logger.info("Product saved succesfully", newProduct);
 		res.status(200).json({ newProduct });
 	} catch (error: any) {
+		await removeImages(imageUrls);
+		if (isDuplicateSku(error)) {
+			return res
+				.status(409)
+				.json({ success: false, message: "A variant SKU is already in use" });
+		}
 		logger.error(`Failed to add Product, ${error.message}`);
 		return res.status(500).json({ message: "Server Error" });
 	}
@@ -127,8 +155,8 @@ export const addProduct = async (req: Request, res: Response) => {
 
 export const updateProduct = async (req: Request, res: Response) => {
 	const seller = req.user?.id;
-	const productId = req.params.id;
-	const { name, category, description, price, stock, image } = req.body;
+	const { name, category, description, price, stock, image, variants, weightKg, shippingClass } =
+		req.body;
 
 	if (!seller) {
 		res
@@ -137,66 +165,94 @@ export const updateProduct = async (req: Request, res: Response) => {
 		return;
 	}
 
-	let imageUrl = "";
-	if (req.file) {
-		try {
-			const result = await new Promise<any>((resolve, reject) => {
-				cloudinary.uploader
-					.upload_stream(
-						{ resource_type: "image", folder: "products" },
-						(error, result) => {
-							if (error) {
-								logger.error(`Error uploading image: ${error.message}`);
-								reject(error);
-							} else {
-								resolve(result);
-							}
-						}
-					)
-					.end(req.file?.buffer);
-			});
-			imageUrl = result.secure_url;
-		} catch (error: unknown) {
-			logger.error(
-				`Error uploading image: ${
-					error instanceof Error ? error.message : "Unknown error"
-				}`
-			);
-			return res.status(500).json({
-				message: "Error uploading image",
-				error: error instanceof Error ? error.message : "Unknown error",
-			});
-		}
-	}
-	
-	const updateData: any = {};
-	if (name) updateData.name = name;
-	if (description) updateData.description = description;
-	if (price) updateData.price = price;
-	if (category) updateData.category = category;
-	if (stock !== undefined) updateData.stock = stock;
-	// Use uploaded image if available, otherwise use image from body (existing URL)
-	if (imageUrl) {
-		updateData.image = imageUrl;
-	} else if (image) {
-		updateData.image = image;
+	const current = await loadOwnProduct(req, res);
+	if (!current) return;
+
+	// An uploaded `image` replaces the cover, uploaded `images` are appended
+	const files = req.files as
+		| Record<string, Express.Multer.File[] | undefined>
+		| undefined;
+	const coverFile = files?.image?.[0];
+	const extraFiles = files?.images ?? [];
+	let gallery = galleryOf(current);
+	let replacedCover: string[] = [];
+	const plannedSize =
+		(coverFile ? Math.max(gallery.length, 1) : gallery.length) +
+		extraFiles.length;
+	if (plannedSize > MAX_PRODUCT_IMAGES) {
+		res.status(400).json({
+			success: false,
+			message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+		});
+		return;
 	}
 
+	let uploaded: string[] = [];
 	try {
-		const isExist = await Product.findByIdAndUpdate(productId, updateData, {
-			new: true,
+		uploaded = await saveImages(
+			[...(coverFile ? [coverFile] : []), ...extraFiles],
+			"products"
+		);
+	} catch (error: unknown) {
+		logger.error(
+			`Error uploading image: ${
+				error instanceof Error ? error.message : "Unknown error"
+			}`
+		);
+		return res.status(500).json({
+			message: "Error uploading image",
+			error: error instanceof Error ? error.message : "Unknown error",
 		});
+	}
+	if (coverFile) {
+		const [newCover, ...added] = uploaded;
+		replacedCover = gallery.slice(0, 1);
+		gallery = [newCover!, ...gallery.slice(1), ...added];
+	} else {
+		gallery = [...gallery, ...uploaded];
+	}
+	// an existing gallery URL in the body picks it as the cover
+	if (!coverFile && image && gallery.includes(image)) {
+		gallery = [image, ...gallery.filter((url) => url !== image)];
+	}
 
-		if (!isExist) {
-			res.status(404).json({ success: false, message: "Product notfound" });
-			return;
-		}
+	if (name) current.name = name;
+	if (description) current.description = description;
+	if (category) current.category = category;
+	if (weightKg !== undefined) current.weightKg = weightKg;
+	if (shippingClass) current.shippingClass = shippingClass;
+	// the variant list is replaced as a whole; existing variants keep their _id
+	if (Array.isArray(variants)) current.set("variants", variants);
+	// a product sold in variants derives its price and stock from them on save
+	if (current.variants.length === 0) {
+		if (price) current.price = price;
+		if (stock !== undefined) current.stock = stock;
+	}
+	current.set("images", gallery);
+	current.image = gallery[0] ?? "";
+
+	try {
+		await current.save();
 
+		await removeImages(replacedCover);
 		res
 			.status(200)
-			.json({ success: true, message: "Product updated succesfully" });
+			.json({
+				success: true,
+				message: "Product updated succesfully",
+				product: current,
+			});
 		return;
 	} catch (err) {
+		await removeImages(uploaded);
+		if (isDuplicateSku(err)) {
+			return res
+				.status(409)
+				.json({ success: false, message: "A variant SKU is already in use" });
+		}
+		if (err instanceof mongoose.Error.ValidationError) {
+			return res.status(400).json({ success: false, message: err.message });
+		}
 		logger.error("Failed to update product");
 		return res.status(500).json({ message: "Server error" });
 	}
@@ -204,7 +260,6 @@ export const updateProduct = async (req: Request, res: Response) => {
 
 export const deleteProduct = async (req: Request, res: Response) => {
 	const seller = req.user?.id;
-	const productId = req.params.id;
 
 	if (!seller) {
 		res
@@ -214,12 +269,20 @@ export const deleteProduct = async (req: Request, res: Response) => {
 	}
 
 	try {
-		const isExisting = await Product.findByIdAndDelete(productId);
+		const product = await loadOwnProduct(req, res);
+		if (!product) return;
+		const isExisting = await Product.findByIdAndDelete(product._id);
 		if (!isExisting) {
 			return res
 				.status(404)
 				.json({ success: false, message: "No such product found" });
 		}
+		const variantImages = isExisting.variants.flatMap((variant) => variant.images ?? []);
+		await removeImages([...new Set([...galleryOf(isExisting), ...variantImages])]);
+		await Promise.all([
+			Listing.deleteMany({ product: isExisting._id }),
+			ProductAlert.deleteMany({ product: isExisting._id }),
+		]);
 
 		res
 			.status(200)
@@ -230,14 +293,233 @@ export const deleteProduct = async (req: Request, res: Response) => {
 	}
 };
 
+const suspendedSellerIds = () =>
+	User.find({ role: "seller", isSuspended: true }).distinct("_id");
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Each sort ends with an _id tie-break so the cursor position is unambiguous
+const PRODUCT_SORTS = {
+	newest: { field: "createdAt", direction: -1 },
+	price_asc: { field: "price", direction: 1 },
+	price_desc: { field: "price", direction: -1 },
+	rating: { field: "averageRating", direction: -1 },
+} as const;
+
+type ProductSort = keyof typeof PRODUCT_SORTS;
+type ProductCursor = { v: string | number; id: string };
+
+const resolveSort = (sort: unknown): ProductSort => {
+	if (sort === "price") return "price_asc";
+	if (typeof sort === "string" && sort in PRODUCT_SORTS) {
+		return sort as ProductSort;
+	}
+	return "newest";
+};
+
+// Cursors are opaque to the client: base64url of the last item's sort key
+const encodeCursor = (cursor: ProductCursor) =>
+	Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (raw: unknown): ProductCursor | null => {
+	if (typeof raw !== "string" || !raw) return null;
+	try {
+		const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+		if (
+			parsed &&
+			(typeof parsed.v === "string" || typeof parsed.v === "number") &&
+			typeof parsed.id === "string" &&
+			mongoose.isValidObjectId(parsed.id)
+		) {
+			return parsed;
+		}
+	} catch {
+		// fall through
+	}
+	return null;
+};
+
+export const addProductImages = async (req: Request, res: Response) => {
+	try {
+		const product = await loadOwnProduct(req, res);
+		if (!product) return;
+
+		const files = uploadedImages(req);
+		const gallery = galleryOf(product);
+		if (gallery.length + files.length > MAX_PRODUCT_IMAGES) {
+			res.status(400).json({
+				success: false,
+				message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+			});
+			return;
+		}
+
+		const urls = await saveImages(files, "products");
+		product.set("images", [...gallery, ...urls]);
+		try {
+			await product.save();
+		} catch (err) {
+			await removeImages(urls);
+			throw err;
+		}
+		logger.info(`🖼️ ${urls.length} image(s) added to product ${product._id}`);
+		res.status(200).json({ success: true, product });
+	} catch (err: any) {
+		logger.error(`Failed to add product images: ${err.message}`);
+		res.status(500).json({ message: "Server error" });
+	}
+};
+
+/**
+ * Reorder the gallery. The body lists the product's current image URLs in
+ * the new order; the first one becomes the cover.
+ */
+export const arrangeProductImages = async (req: Request, res: Response) => {
+	const { images } = req.body as { images: string[] };
+	try {
+		const product = await loadOwnProduct(req, res);
+		if (!product) return;
+
+		const gallery = galleryOf(product);
+		const sameImages =
+			images.length === gallery.length &&
+			images.every((url) => gallery.includes(url));
+		if (!sameImages) {
+			res.status(400).json({
+				success: false,
+				message:
+					"images must list every current image exactly once; upload or delete images separately",
+			});
+			return;
+		}
+
+		product.set("images", images);
+		await product.save();
+		res.status(200).json({ success: true, product });
+	} catch (err: any) {
+		logger.error(`Failed to reorder product images: ${err.message}`);
+		res.status(500).json({ message: "Server error" });
+	}
+};
+
+export const deleteProductImage = async (req: Request, res: Response) => {
+	const url = String(req.query.url);
+	try {
+		const product = await loadOwnProduct(req, res);
+		if (!product) return;
+
+		const gallery = galleryOf(product);
+		if (!gallery.includes(url)) {
+			res
+				.status(404)
+				.json({ success: false, message: "Image not found on this product" });
+			return;
+		}
+
+		const remaining = gallery.filter((img) => img !== url);
+		product.set("images", remaining);
+		// the hook would otherwise restore the old cover into an emptied gallery
+		product.image = remaining[0] ?? "";
+		await product.save();
+		await removeImages([url]);
+		logger.info(`🗑️ Image removed from product ${product._id}`);
+		res.status(200).json({ success: true, product });
+	} catch (err: any) {
+		logger.error(`Failed to delete product image: ${err.message}`);
+		res.status(500).json({ message: "Server error" });
+	}
+};
+
+/**
+ * Public catalog: text search, filters, sorting and cursor pagination.
+ *
+ *   GET /products?q=oak&category=tables&minPrice=1000&maxPrice=20000
+ *     &inStock=true&sellerId=...&sort=price_asc&limit=20&cursor=...
+ */
 export const getProducts = async (req: Request, res: Response) => {
+	const { q, category, minPrice, maxPrice, inStock, sellerId, cursor } =
+		req.query;
+	const sortKey = resolveSort(req.query.sort);
+	const { field, direction } = PRODUCT_SORTS[sortKey];
+	const limit = Math.min(
+		Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1),
+		MAX_PAGE_SIZE
+	);
+
+	const filter: Record<string, any> = {};
+	if (typeof q === "string" && q.trim()) {
+		filter.$text = { $search: q.trim() };
+	}
+	if (typeof category === "string" && category) {
+		filter.category = category;
+	}
+	if (minPrice !== undefined || maxPrice !== undefined) {
+		filter.price = {};
+		if (minPrice !== undefined) filter.price.$gte = Number(minPrice);
+		if (maxPrice !== undefined) filter.price.$lte = Number(maxPrice);
+	}
+	if (inStock === "true") {
+		filter.stock = { $gt: 0 };
+	}
+	if (typeof sellerId === "string" && sellerId) {
+		filter.seller = { $eq: sellerId };
+	}
+
+	if (cursor !== undefined) {
+		const position = decodeCursor(cursor);
+		if (!position) {
+			res.status(400).json({ success: false, message: "Invalid cursor" });
+			return;
+		}
+		const value =
+			field === "createdAt" ? new Date(position.v) : Number(position.v);
+		const id = new mongoose.Types.ObjectId(position.id);
+		const beyond = direction === 1 ? "$gt" : "$lt";
+		filter.$and = [
+			{
+				$or: [
+					{ [field]: { [beyond]: value } },
+					{ [field]: value, _id: { [beyond]: id } },
+				],
+			},
+		];
+	}
+
 	try {
-		const products = await Product.find();
-		const mapped = products.map((p) => ({
+		// Suspended sellers' listings disappear from the catalog
+		filter.seller = {
+			...filter.seller,
+			$nin: await suspendedSellerIds(),
+		};
+
+		// fetch one extra row to know whether another page exists
+		const products = await Product.find(filter)
+			.sort({ [field]: direction, _id: direction })
+			.limit(limit + 1);
+
+		const hasMore = products.length > limit;
+		const page = hasMore ? products.slice(0, limit) : products;
+		const last = page[page.length - 1];
+		let nextCursor: string | null = null;
+		if (hasMore && last) {
+			const lastValue = last.get(field);
+			nextCursor = encodeCursor({
+				v: lastValue instanceof Date ? lastValue.toISOString() : lastValue ?? 0,
+				id: last._id.toString(),
+			});
+		}
+
+		const mapped = page.map((p) => ({
 			...p.toObject(),
 			id: p._id.toString(),
 		}));
-		res.status(200).json(mapped);
+		res.status(200).json({
+			success: true,
+			products: mapped,
+			nextCursor,
+			hasMore,
+		});
 	} catch (err) {
 		logger.error("Failed to get products");
 		res.status(500).json({ message: "Server Error" });
@@ -248,7 +530,9 @@ export const getProduct = async (req: Request, res: Response) => {
 	const productId = req.params.id;
 	try {
 		const product = await Product.findById(productId);
-		if (!product) {
+		const sellerSuspended =
+			product && (await User.exists({ _id: product.seller, isSuspended: true }));
+		if (!product || sellerSuspended) {
 			res.status(404).json({ success: false, message: "Product not found" });
 			return;
 		}
@@ -262,18 +546,24 @@ export const getProduct = async (req: Request, res: Response) => {
 };
 
 export const updateStock = async (req: Request, res: Response) => {
-	const productId = req.params.id;
-	const { stock } = req.body;
+	const { stock, variantId } = req.body;
 	try {
-		const product = await Product.findByIdAndUpdate(
-			productId,
-			{ stock },
-			{ new: true }
-		);
-		if (!product) {
-			res.status(404).json({ message: "Product not found" });
-			return;
+		const product = await loadOwnProduct(req, res);
+		if (!product) return;
+		// the product total of a variant product is derived on save
+		if (product.variants.length > 0) {
+			const variant = variantId ? product.variants.id(variantId) : null;
+			if (!variant) {
+				res
+					.status(400)
+					.json({ message: "variantId is required for products with variants" });
+				return;
+			}
+			variant.stock = Number(stock);
+		} else {
+			product.stock = Number(stock);
 		}
+		await product.save();
 		res.status(200).json({
 			success: true,
 			message: "Stock updated successfully",
@@ -290,12 +580,16 @@ export const updateStock = async (req: Request, res: Response) => {
 
 export const getListingsBySeller = async (req: Request, res: Response) => {
 	const sellerId = req.params.sellerId ?? req.user?.id;
-	if (!sellerId)
+	if (!sellerId || !mongoose.isValidObjectId(sellerId))
 		return res
 			.status(400)
 			.json({ success: false, message: "seller id required" });
 
 	try {
+		// as in the catalog, a suspended seller's listings are hidden
+		if (await User.exists({ _id: sellerId, isSuspended: true })) {
+			return res.status(200).json({ success: true, listings: [] });
+		}
 		const listings = await Listing.find({ seller: sellerId, isActive: true })
 			.populate("product")
 			.sort({ createdAt: -1 });
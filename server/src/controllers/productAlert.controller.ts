@@ -0,0 +1,85 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Product from "../models/product.models";
+import ProductAlert from "../models/productAlert.models";
+import { logger } from "../utils/logger";
+
+const PRODUCT_FIELDS = "name price stock image images variants";
+
+export const getProductAlerts = async (req: Request, res: Response) => {
+	try {
+		const alerts = await ProductAlert.find({ user: req.user?.id })
+			.sort({ createdAt: -1 })
+			.populate("product", PRODUCT_FIELDS);
+		res.status(200).json({ success: true, alerts, count: alerts.length });
+	} catch (err) {
+		logger.error("Failed to fetch product alerts", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// One alert per product; subscribing again replaces its settings
+export const subscribeToProduct = async (req: Request, res: Response) => {
+	const {
+		productId,
+		variantId = null,
+		onPriceDrop = true,
+		targetPrice = null,
+		onBackInStock = true,
+	} = req.body;
+	if (!onPriceDrop && !onBackInStock) {
+		return res.status(400).json({
+			success: false,
+			message: "Choose price drops, back in stock, or both",
+		});
+	}
+
+	try {
+		const product = await Product.findById(productId).select("variants");
+		if (!product) {
+			return res.status(404).json({ success: false, message: "Product not found" });
+		}
+		if (variantId && !product.variants.id(variantId)) {
+			return res
+				.status(400)
+				.json({ success: false, message: "Selected option not found" });
+		}
+
+		const existed = await ProductAlert.exists({
+			user: req.user?.id,
+			product: productId,
+		});
+		const alert = await ProductAlert.findOneAndUpdate(
+			{ user: req.user?.id, product: productId },
+			{ $set: { variant: variantId, onPriceDrop, targetPrice, onBackInStock } },
+			{ upsert: true, new: true, runValidators: true }
+		).populate("product", PRODUCT_FIELDS);
+		res.status(existed ? 200 : 201).json({ success: true, alert });
+	} catch (err) {
+		logger.error("Failed to save product alert", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const unsubscribeFromProduct = async (req: Request, res: Response) => {
+	const { productId } = req.params;
+	if (!mongoose.isValidObjectId(productId)) {
+		return res.status(400).json({ success: false, message: "Invalid product id" });
+	}
+	try {
+		const result = await ProductAlert.deleteOne({
+			user: req.user?.id,
+			product: productId,
+		});
+		if (result.deletedCount === 0) {
+			return res
+				.status(404)
+				.json({ success: false, message: "No alert for this product" });
+		}
+		res.status(200).json({ success: true, message: "Alert removed" });
+	} catch (err) {
+		logger.error("Failed to remove product alert", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
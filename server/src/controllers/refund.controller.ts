@@ -0,0 +1,217 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Order from "../models/orde.models";
+import Refund, { REFUND_STATUSES } from "../models/refund.models";
+import { parseB2CResult } from "../services/mpesaB2c";
+import { notifyRefundRequested } from "../services/notifications";
+import {
+	approveRefund as approve,
+	openRefund,
+	payOutRefund,
+	reviewRefund as review,
+	settleRefund,
+} from "../services/refunds";
+import { logger } from "../utils/logger";
+
+// Buyers see their refunds, sellers the ones they owe, admins all of them
+const scopeFor = (user: Request["user"]) => {
+	if (user?.role === "admin") return {};
+	return user?.role === "seller" ? { seller: user.id } : { buyer: user?.id };
+};
+
+const isParty = (
+	refund: { buyer?: unknown; seller?: unknown },
+	user: Request["user"]
+) =>
+	user?.role === "admin" ||
+	String(refund.buyer) === user?.id ||
+	String(refund.seller) === user?.id;
+
+export const getRefunds = async (req: Request, res: Response) => {
+	const { status } = req.query;
+	if (status !== undefined && !(REFUND_STATUSES as readonly unknown[]).includes(status)) {
+		res.status(400).json({ success: false, message: "Unknown refund status" });
+		return;
+	}
+	try {
+		const refunds = await Refund.find({
+			...scopeFor(req.user),
+			...(status ? { status } : {}),
+		})
+			.populate("order", "orderNumber total status paymentStatus")
+			.sort({ createdAt: -1 })
+			.limit(100);
+		res.status(200).json({ success: true, refunds });
+	} catch (err) {
+		logger.error("Failed to fetch refunds", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const getRefund = async (req: Request, res: Response) => {
+	if (!mongoose.isValidObjectId(req.params.id)) {
+		res.status(400).json({ success: false, message: "Invalid refund id" });
+		return;
+	}
+	try {
+		const refund = await Refund.findById(req.params.id).populate(
+			"order",
+			"orderNumber total status paymentStatus"
+		);
+		if (!refund || !isParty(refund, req.user)) {
+			res.status(404).json({ success: false, message: "Refund not found" });
+			return;
+		}
+		res.status(200).json({ success: true, refund });
+	} catch (err) {
+		logger.error("Failed to fetch refund", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+/**
+ * A buyer asks for the money back on a paid order that was cancelled
+ * without one, e.g. before refunds existed. The seller approves it.
+ */
+export const requestRefund = async (req: Request, res: Response) => {
+	const { orderId, reason } = req.body;
+	try {
+		const order = await Order.findById(orderId);
+		if (!order || String(order.buyer) !== req.user?.id) {
+			res.status(404).json({ success: false, message: "Order not found" });
+			return;
+		}
+		if (order.status !== "cancelled" || order.paymentStatus !== "paid") {
+			res.status(400).json({
+				success: false,
+				message: "Only paid orders that were cancelled can be refunded",
+			});
+			return;
+		}
+		if (await Refund.exists({ order: order._id })) {
+			res.status(409).json({
+				success: false,
+				message: "A refund already exists for this order",
+			});
+			return;
+		}
+
+		const refund = await openRefund(order, {
+			requestedBy: req.user.id,
+			reason,
+			approved: false,
+		});
+		if (!refund) {
+			res.status(400).json({ success: false, message: "Nothing to refund" });
+			return;
+		}
+		await notifyRefundRequested(refund, order.orderNumber);
+		res.status(201).json({ success: true, refund });
+	} catch (err) {
+		logger.error("Failed to request refund", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The seller (or an admin) approves, and the payout starts straight away
+export const approveRefund = async (req: Request, res: Response) => {
+	if (!mongoose.isValidObjectId(req.params.id)) {
+		res.status(400).json({ success: false, message: "Invalid refund id" });
+		return;
+	}
+	try {
+		const refund = await Refund.findById(req.params.id);
+		const mayApprove =
+			req.user?.role === "admin" || String(refund?.seller) === req.user?.id;
+		if (!refund || !mayApprove) {
+			res.status(404).json({ success: false, message: "Refund not found" });
+			return;
+		}
+		const approved = await approve(refund._id, req.user?.id);
+		if (!approved) {
+			res.status(400).json({
+				success: false,
+				message: `A refund that is ${refund.status} cannot be approved`,
+			});
+			return;
+		}
+		logger.info(`💸 Refund ${refund._id} approved by ${req.user?.email}`);
+		const result = await payOutRefund(approved._id);
+		res.status(200).json({ success: true, refund: result ?? approved });
+	} catch (err) {
+		logger.error("Failed to approve refund", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+/**
+ * An admin settles a payout that timed out in Daraja's queue, after
+ * checking on M-Pesa whether it reached the buyer. An unpaid one goes back
+ * to failed, for the seller to approve again.
+ */
+export const reviewRefund = async (req: Request, res: Response) => {
+	if (!mongoose.isValidObjectId(req.params.id)) {
+		res.status(400).json({ success: false, message: "Invalid refund id" });
+		return;
+	}
+	const { paid, receipt } = req.body as { paid: boolean; receipt?: string };
+	try {
+		const refund = await Refund.findById(req.params.id);
+		if (!refund) {
+			res.status(404).json({ success: false, message: "Refund not found" });
+			return;
+		}
+		const reviewed = await review(refund._id, req.user?.id, { paid, receipt });
+		if (!reviewed) {
+			res.status(400).json({
+				success: false,
+				message: `A refund that is ${refund.status} is not waiting for review`,
+			});
+			return;
+		}
+		logger.info(
+			`🔎 Refund ${refund._id} reviewed by ${req.user?.email}: ${reviewed.status}`
+		);
+		res.status(200).json({ success: true, refund: reviewed });
+	} catch (err) {
+		logger.error("Failed to review refund", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Daraja posts the outcome of a B2C payout here
+export const b2cResult = async (req: Request, res: Response) => {
+	const result = parseB2CResult(req.body);
+	if (!result) {
+		res.status(400).json({ error: "Invalid B2C result format" });
+		return;
+	}
+	try {
+		logger.info(
+			`🔔 B2C result for ${result.originatorConversationId}: ${result.resultCode} ${result.resultDesc}`
+		);
+		const outcome = await settleRefund(result);
+		res.status(200).json({ message: `B2C result ${outcome}` });
+	} catch (err) {
+		logger.error("Error processing B2C result:", err);
+		res.status(500).json({ error: "Failed to process B2C result" });
+	}
+};
+
+// ...and here when the request expired in Daraja's queue unprocessed
+export const b2cTimeout = async (req: Request, res: Response) => {
+	const result = parseB2CResult(req.body);
+	if (!result) {
+		res.status(400).json({ error: "Invalid B2C timeout format" });
+		return;
+	}
+	try {
+		logger.warn(`⏱️ B2C request ${result.originatorConversationId} timed out`);
+		const outcome = await settleRefund(result, { timedOut: true });
+		res.status(200).json({ message: `B2C timeout ${outcome}` });
+	} catch (err) {
+		logger.error("Error processing B2C timeout:", err);
+		res.status(500).json({ error: "Failed to process B2C timeout" });
+	}
+};
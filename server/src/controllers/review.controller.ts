@@ -1,47 +1,135 @@
 import { Request, Response } from "express";
 
 import Review from "../models/reviews.models";
+import Order from "../models/orde.models";
 import Product from "../models/product.models";
+import { recordAdminAction } from "../services/adminAudit";
+import { notifyNewReview } from "../services/notifications";
+import { refreshProductRating, summarizeHistograms } from "../services/rating";
 import { logger } from "../utils/logger";
 
+// E11000 on the one-review-per-buyer-per-product index
+const isDuplicateReview = (err: any) =>
+	err?.code === 11000 && Boolean(err.keyPattern?.user && err.keyPattern?.product);
+
+// Legacy reviews have no status and count as published
+const PUBLISHED = { status: { $ne: "hidden" } };
+
+// Keeps a review document well under MongoDB's size limit
+const MAX_REVIEW_REPLIES = 50;
+
 export const leaveReview = async (req: Request, res: Response) => {
 	const userId = req.user?.id;
 	const { product, content, stars } = req.body;
-    if(!userId) {
-        res.status(401).json({
-            success: false,
-            message: "Authentication required"
-        })
-    }
+	if (!userId) {
+		return res.status(401).json({
+			success: false,
+			message: "Authentication required",
+		});
+	}
 	try {
 		const prod = await Product.findById(product);
 		if (!prod) {
 			res.status(400).json({ success: false, message: "Product not found" });
 			return;
 		}
+
+		const existing = await Review.findOne({ user: userId, product });
+		if (existing) {
+			return res.status(409).json({
+				success: false,
+				message: "You have already reviewed this product. Edit your review instead.",
+				review: existing,
+			});
+		}
+
+		// only buyers who received the product may review it
+		const order = await Order.findOne({
+			buyer: userId,
+			status: "delivered",
+			"items.product": product,
+		}).select("_id");
+		if (!order) {
+			return res.status(403).json({
+				success: false,
+				message: "You can review a product once an order containing it has been delivered",
+			});
+		}
+
 		const review = new Review({
-            user: userId,
+			user: userId,
 			product,
 			content,
-			stars: typeof stars === "number" ? stars : undefined,
-			...(userId ? { user: userId } : {}),
+			stars,
+			verifiedPurchase: true,
+			order: order._id,
 		});
-
 		await review.save();
 
-		prod.reviewCount = (prod.reviewCount ?? 0) + 1;
-		logger.info("Review");
-		await prod.save();
-		return res.status(201).json({ success: true, review });
+		const rating = await refreshProductRating(prod._id);
+		await notifyNewReview(prod, review);
+		logger.info(`⭐ Review left on product ${prod._id}`);
+		return res.status(201).json({ success: true, review, rating });
 	} catch (err) {
+		if (isDuplicateReview(err)) {
+			return res.status(409).json({
+				success: false,
+				message: "You have already reviewed this product. Edit your review instead.",
+			});
+		}
 		logger.error("Falied to leave comment");
 		res.status(500).json({ message: "Server Error" });
 	}
 };
 
+export const updateReview = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	const { content, stars } = req.body;
+	try {
+		const review = await Review.findById(req.params.id);
+		if (!review) {
+			return res.status(404).json({ success: false, message: "Review not found" });
+		}
+		if (String(review.user) !== userId) {
+			return res.status(403).json({
+				success: false,
+				message: "You can only edit your own review",
+			});
+		}
+
+		if (content !== undefined) review.content = content;
+		if (stars !== undefined) review.stars = stars;
+		await review.save();
+
+		const rating = await refreshProductRating(review.product);
+		logger.info(`✏️ Review ${review._id} updated`);
+		return res.status(200).json({ success: true, review, rating });
+	} catch (err: any) {
+		if (err?.name === "ValidationError") {
+			return res.status(400).json({ success: false, message: err.message });
+		}
+		logger.error("Failed to update review", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The signed-in user's review of a product, so the app can offer to edit it
+export const getMyReview = async (req: Request, res: Response) => {
+	try {
+		const review = await Review.findOne({
+			user: req.user?.id,
+			product: req.params.product,
+		});
+		res.status(200).json({ success: true, review });
+	} catch (err) {
+		logger.error("Failed to fetch review");
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
 export const getReviews = async (req: Request, res: Response) => {
 	try {
-		const reviews = await Review.find();
+		const reviews = await Review.find(PUBLISHED);
 		res.status(200).json({ success: true, reviews });
 	} catch (err) {
 		logger.error("Failed to fetch reviews");
@@ -50,12 +138,24 @@ export const getReviews = async (req: Request, res: Response) => {
 };
 
 export const getReviewsByProduct = async (req: Request, res: Response) => {
-	const { product } = req.params;
+	const { id: product } = req.params;
 	try {
-		const reviews = await Review.find({ product })
-			.populate("user", "name")
-			.populate("product", "name");
-		res.status(200).json({ success: true, reviews });
+		const [reviews, prod] = await Promise.all([
+			Review.find({ product, ...PUBLISHED })
+				.populate("user", "fullName")
+				.populate("product", "name")
+				.populate("replies.author", "fullName")
+				.sort({ createdAt: -1 }),
+			Product.findById(product).select("reviewCount averageRating ratingHistogram"),
+		]);
+		const rating = prod
+			? {
+					reviewCount: prod.reviewCount,
+					averageRating: prod.averageRating,
+					ratingHistogram: prod.ratingHistogram,
+			  }
+			: null;
+		res.status(200).json({ success: true, reviews, rating });
 	} catch (err) {
 		logger.error("Failed to fetch reviews");
 		res.status(500).json({ message: "Server Error" });
@@ -75,12 +175,14 @@ export const getReviewsBySeller = async (req: Request, res: Response) => {
 	try {
 		// First, find all products belonging to this seller
 		const sellerProducts = await Product.find({ seller: sellerId })
-			.select("_id")
+			.select("_id ratingHistogram")
+			.lean();
 
 		if (!sellerProducts || sellerProducts.length === 0) {
 			return res.status(200).json({
 				success: true,
 				reviews: [],
+				rating: summarizeHistograms([]),
 				message: "No products found for this seller",
 			});
 		}
@@ -89,9 +191,13 @@ export const getReviewsBySeller = async (req: Request, res: Response) => {
 		const productIds = sellerProducts.map((p) => p._id);
 
 		// Find all reviews for these products
-		const reviews = await Review.find({ product: { $in: productIds } })
+		const reviews = await Review.find({
+			product: { $in: productIds },
+			...PUBLISHED,
+		})
 			.populate("user", "fullName email")
 			.populate("product", "name image price")
+			.populate("replies.author", "fullName")
 			.sort({ createdAt: -1 })
 			.lean();
 
@@ -102,6 +208,9 @@ export const getReviewsBySeller = async (req: Request, res: Response) => {
 			user: review.user,
 			content: review.content,
 			stars: review.stars,
+			verifiedPurchase: review.verifiedPurchase,
+			likesCount: review.likesCount,
+			replies: review.replies,
 			createdAt: review.createdAt,
 			updatedAt: review.updatedAt,
 		}));
@@ -110,6 +219,10 @@ export const getReviewsBySeller = async (req: Request, res: Response) => {
 			success: true,
 			count: formattedReviews.length,
 			reviews: formattedReviews,
+			// totals across the seller's products, kept on each product
+			rating: summarizeHistograms(
+				sellerProducts.map((p) => p.ratingHistogram ?? {})
+			),
 		});
 	} catch (err) {
 		logger.error("Failed to fetch reviews for seller", err);
@@ -119,3 +232,192 @@ export const getReviewsBySeller = async (req: Request, res: Response) => {
 		});
 	}
 };
+
+export const markReviewHelpful = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	try {
+		const review = await Review.findOne({ _id: req.params.id, ...PUBLISHED });
+		if (!review) {
+			return res.status(404).json({ success: false, message: "Review not found" });
+		}
+		if (String(review.user) === userId) {
+			return res.status(400).json({
+				success: false,
+				message: "You cannot vote on your own review",
+			});
+		}
+
+		// the $ne guard makes a repeated vote a no-op
+		await Review.updateOne(
+			{ _id: review._id, helpfulVotes: { $ne: userId } },
+			{ $push: { helpfulVotes: userId }, $inc: { likesCount: 1 } }
+		);
+		const updated = await Review.findById(review._id).select("likesCount");
+		return res
+			.status(200)
+			.json({ success: true, helpful: true, likesCount: updated?.likesCount ?? 0 });
+	} catch (err) {
+		logger.error("Failed to mark review helpful", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const unmarkReviewHelpful = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	try {
+		await Review.updateOne(
+			{ _id: req.params.id, helpfulVotes: userId },
+			{ $pull: { helpfulVotes: userId }, $inc: { likesCount: -1 } }
+		);
+		const updated = await Review.findById(req.params.id).select("likesCount");
+		if (!updated) {
+			return res.status(404).json({ success: false, message: "Review not found" });
+		}
+		return res
+			.status(200)
+			.json({ success: true, helpful: false, likesCount: updated.likesCount });
+	} catch (err) {
+		logger.error("Failed to remove helpful vote", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Public thread under a review: the product's seller answers, the reviewer
+// may follow up
+export const replyToReview = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	const { content } = req.body;
+	try {
+		const review = await Review.findOne({ _id: req.params.id, ...PUBLISHED });
+		if (!review) {
+			return res.status(404).json({ success: false, message: "Review not found" });
+		}
+		const prod = await Product.findById(review.product).select("seller");
+
+		const authorRole =
+			req.user?.role === "admin"
+				? "admin"
+				: prod && String(prod.seller) === userId
+				? "seller"
+				: String(review.user) === userId
+				? "buyer"
+				: null;
+		if (!authorRole) {
+			return res.status(403).json({
+				success: false,
+				message: "Only the seller of this product or the reviewer can reply",
+			});
+		}
+		if (review.replies.length >= MAX_REVIEW_REPLIES) {
+			return res.status(400).json({
+				success: false,
+				message: "This review has reached the reply limit",
+			});
+		}
+
+		review.replies.push({ author: userId, authorRole, content });
+		await review.save();
+		await review.populate("replies.author", "fullName");
+		logger.info(`💬 ${authorRole} replied to review ${review._id}`);
+		return res.status(201).json({ success: true, replies: review.replies });
+	} catch (err) {
+		logger.error("Failed to reply to review", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const reportReview = async (req: Request, res: Response) => {
+	const userId = req.user?.id;
+	const { reason, note } = req.body;
+	try {
+		const review = await Review.findOne({ _id: req.params.id, ...PUBLISHED });
+		if (!review) {
+			return res.status(404).json({ success: false, message: "Review not found" });
+		}
+		if (String(review.user) === userId) {
+			return res.status(400).json({
+				success: false,
+				message: "You cannot report your own review",
+			});
+		}
+
+		// one report per user; any new report puts the review in the queue
+		const result = await Review.updateOne(
+			{ _id: review._id, "reports.user": { $ne: userId } },
+			{
+				$push: { reports: { user: userId, reason, note } },
+				$set: { needsModeration: true },
+			}
+		);
+		if (result.modifiedCount === 0) {
+			return res.status(409).json({
+				success: false,
+				message: "You have already reported this review",
+			});
+		}
+		logger.warn(`🚩 Review ${review._id} reported as ${reason}`);
+		return res
+			.status(201)
+			.json({ success: true, message: "Thanks, a moderator will take a look" });
+	} catch (err) {
+		logger.error("Failed to report review", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Admin: Moderation queue. `reported` (default) lists reviews waiting for a
+// decision, `hidden` the ones taken down so they can be restored
+export const getModerationQueue = async (req: Request, res: Response) => {
+	const filter =
+		req.query.status === "hidden"
+			? { status: "hidden" }
+			: { needsModeration: true };
+	const limit = Math.min(Number(req.query.limit) || 50, 200);
+	try {
+		const reviews = await Review.find(filter)
+			.select("+reports")
+			.populate("user", "fullName email")
+			.populate("product", "name image")
+			.populate("reports.user", "fullName email")
+			.sort({ updatedAt: -1 })
+			.limit(limit);
+		res.json(reviews);
+	} catch (err) {
+		logger.error("Failed to fetch review moderation queue", err);
+		res.status(500).json({ message: "Server error" });
+	}
+};
+
+const moderateReview =
+	(status: "published" | "hidden") => async (req: Request, res: Response) => {
+		try {
+			const review = await Review.findById(req.params.id);
+			if (!review) return res.status(404).json({ message: "Review not found" });
+
+			review.status = status;
+			review.needsModeration = false;
+			review.set("moderation", {
+				by: req.user?.id,
+				at: new Date(),
+				note: req.body?.note,
+			});
+			await review.save();
+			await refreshProductRating(review.product);
+			await recordAdminAction(
+				req,
+				status === "hidden" ? "hide_review" : "restore_review",
+				{ user: review.user, review: review._id },
+				{ status, note: req.body?.note ?? null }
+			);
+			res.json(review);
+		} catch (err) {
+			logger.error(`Failed to set review ${req.params.id} to ${status}`, err);
+			res.status(500).json({ message: "Server error" });
+		}
+	};
+
+// Admin: Take a review down; it stops counting towards the product rating
+export const hideReview = moderateReview("hidden");
+
+// Admin: Put a hidden or reported review back
+export const restoreReview = moderateReview("published");
@@ -0,0 +1,95 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+
+import ShippingRate from "../models/shippingRate.models";
+import { DEFAULT_RATES, rateTableFor } from "../services/shipping";
+import { logger } from "../utils/logger";
+
+// `:sellerId` may be "me"; sellers can only touch their own table. Sends
+// the error response and returns null when the request may not proceed.
+const targetSeller = (req: Request, res: Response) => {
+	const sellerId = req.params.sellerId === "me" ? req.user?.id : req.params.sellerId;
+	if (!sellerId || !mongoose.isValidObjectId(sellerId)) {
+		res.status(400).json({ success: false, message: "Invalid seller id" });
+		return null;
+	}
+	if (req.user?.role !== "admin" && sellerId !== req.user?.id) {
+		res.status(403).json({ success: false, message: "Not allowed" });
+		return null;
+	}
+	return sellerId;
+};
+
+// The platform table, or the built-in defaults if none was saved yet
+export const getDefaultRates = async (_req: Request, res: Response) => {
+	try {
+		const table = await ShippingRate.findOne({ seller: null }).lean();
+		res.status(200).json({
+			success: true,
+			source: table ? "platform" : "default",
+			rates: table ?? DEFAULT_RATES,
+		});
+	} catch (err) {
+		logger.error("Failed to fetch shipping rates", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const updateDefaultRates = async (req: Request, res: Response) => {
+	try {
+		const rates = await ShippingRate.findOneAndUpdate(
+			{ seller: null },
+			{ ...req.body, seller: null, updatedBy: req.user?.id },
+			{ new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+		);
+		logger.info(`🚚 Platform shipping rates updated by ${req.user?.email}`);
+		res.status(200).json({ success: true, source: "platform", rates });
+	} catch (err) {
+		logger.error("Failed to update shipping rates", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// The table that applies to the seller's items, and where it comes from
+export const getSellerRates = async (req: Request, res: Response) => {
+	const sellerId = targetSeller(req, res);
+	if (!sellerId) return;
+	try {
+		const { table, source } = await rateTableFor(sellerId);
+		res.status(200).json({ success: true, source, rates: table });
+	} catch (err) {
+		logger.error("Failed to fetch shipping rates", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const updateSellerRates = async (req: Request, res: Response) => {
+	const sellerId = targetSeller(req, res);
+	if (!sellerId) return;
+	try {
+		const rates = await ShippingRate.findOneAndUpdate(
+			{ seller: sellerId },
+			{ ...req.body, seller: sellerId, updatedBy: req.user?.id },
+			{ new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+		);
+		logger.info(`🚚 Shipping rates for seller ${sellerId} updated by ${req.user?.email}`);
+		res.status(200).json({ success: true, source: "seller", rates });
+	} catch (err) {
+		logger.error("Failed to update shipping rates", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Back to the platform table
+export const deleteSellerRates = async (req: Request, res: Response) => {
+	const sellerId = targetSeller(req, res);
+	if (!sellerId) return;
+	try {
+		await ShippingRate.deleteOne({ seller: sellerId });
+		const { table, source } = await rateTableFor(sellerId);
+		res.status(200).json({ success: true, source, rates: table });
+	} catch (err) {
+		logger.error("Failed to reset shipping rates", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
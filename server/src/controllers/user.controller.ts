@@ -12,12 +12,23 @@ export const getAllUsers = async (req: Request, res: Response) => {
 // Admin: Approve user
 export const approveUser = async (req: Request, res: Response) => {
   try {
+    const wasApproved = await User.exists({
+      _id: req.params.id,
+      isApproved: true,
+    });
     const user = await User.findByIdAndUpdate(
       req.params.id,
       { isApproved: true },
       { new: true },
     ).select("-password");
     if (!user) return res.status(404).json({ message: "User not found" });
+    if (!wasApproved) await notifyAccountApproved(user);
+    await recordAdminAction(
+      req,
+      "approve_user",
+      { user: user._id, email: user.email },
+      { isApproved: true },
+    );
     res.json(user);
   } catch (err) {
     logger.error("Failed to approve user", err);
@@ -27,11 +38,25 @@ export const approveUser = async (req: Request, res: Response) => {
 
 // Admin: Suspend/Reactivate user
 export const toggleSuspendUser = async (req: Request, res: Response) => {
+  if (req.params.id === req.user?.id) {
+    return res
+      .status(400)
+      .json({ message: "You cannot suspend your own account" });
+  }
   try {
     const user = await User.findById(req.params.id);
     if (!user) return res.status(404).json({ message: "User not found" });
     user.isSuspended = !user.isSuspended;
     await user.save();
+    if (user.isSuspended) {
+      await revokeAllSessions(user._id, "suspended");
+    }
+    await recordAdminAction(
+      req,
+      user.isSuspended ? "suspend_user" : "reactivate_user",
+      { user: user._id, email: user.email },
+      { isSuspended: user.isSuspended },
+    );
     const userWithoutPassword = user.toObject();
     const { password, ...safeUser } = userWithoutPassword;
     res.json(safeUser);
@@ -43,20 +68,58 @@ export const toggleSuspendUser = async (req: Request, res: Response) => {
 
 // Admin: Delete user
 export const deleteUserById = async (req: Request, res: Response) => {
+  if (req.params.id === req.user?.id) {
+    return res
+      .status(400)
+      .json({ message: "You cannot delete your own account" });
+  }
   try {
     const user = await User.findByIdAndDelete(req.params.id);
     if (!user) return res.status(404).json({ message: "User not found" });
+    await RefreshToken.deleteMany({ user: user._id });
+    await recordAdminAction(
+      req,
+      "delete_user",
+      { user: user._id, email: user.email },
+      { deleted: true },
+    );
     res.json({ message: "User deleted" });
   } catch (err) {
     logger.error("Failed to delete user", err);
     res.status(500).json({ message: "Server error" });
   }
 };
+
+// Admin: Audit trail of admin actions, newest first
+export const getAdminAuditLog = async (req: Request, res: Response) => {
+  const limit = Math.min(Number(req.query.limit) || 50, 200);
+  try {
+    const entries = await AdminAudit.find()
+      .populate("admin", "fullName email")
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    res.json(entries);
+  } catch (err) {
+    logger.error("Failed to fetch admin audit log", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
 import bcrypt from "bcryptjs";
 import { Request, Response } from "express";
 
+import AdminAudit from "../models/adminAudit.models";
+import RefreshToken from "../models/refreshToken.models";
 import User from "../models/user.models";
-import { generateToken } from "../utils/jwt";
+import { recordAdminAction } from "../services/adminAudit";
+import { notifyAccountApproved } from "../services/notifications";
+import {
+  clientInfo,
+  issueSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../services/session";
 import { logger } from "../utils/logger";
 
 declare global {
@@ -65,7 +128,8 @@ declare global {
       user?: {
         id: string;
         email: string;
-        role: "seller" | "buyer";
+        role: "seller" | "buyer" | "admin";
+        isApproved?: boolean;
       };
     }
   }
@@ -102,12 +166,13 @@ export const register = async (req: Request, res: Response) => {
     });
 
     await newUser.save();
-    const token = generateToken({ id: newUser._id, email: newUser.email });
+    const { token, refreshToken } = await issueSession(newUser, clientInfo(req));
     logger.info("User created succesfully");
     res.status(201).json({
       success: true,
       user: { id: newUser._id, fullName, email, role },
       token,
+      refreshToken,
     });
   } catch (err) {
     logger.error("Error registering user", err);
@@ -131,16 +196,84 @@ export const login = async (req: Request, res: Response) => {
       res.status(401).json({ message: "Invalid password" });
       return;
     }
-    const token = generateToken({ id: user._id, email: user.email });
+    if (user.isSuspended) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Your account has been suspended. Please contact support for help.",
+      });
+      return;
+    }
+    const { token, refreshToken } = await issueSession(user, clientInfo(req));
     const safeUser = await User.findById(user._id).select("-password");
     logger.info("Login successful");
-    res.status(200).json({ success: true, user: safeUser, token });
+    res
+      .status(200)
+      .json({ success: true, user: safeUser, token, refreshToken });
   } catch (err) {
     logger.error("Error while loging in", err);
     res.status(500).json({ message: "Server error" });
   }
 };
 
+// Exchange a refresh token for a new access token (and a new refresh token)
+export const refreshSession = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
+  try {
+    const result = await rotateRefreshToken(refreshToken, clientInfo(req));
+    if (result.status !== "rotated") {
+      res.status(401).json({
+        success: false,
+        message:
+          result.status === "reused"
+            ? "Session has been revoked, please log in again"
+            : "Invalid or expired refresh token",
+      });
+      return;
+    }
+    res.status(200).json({
+      success: true,
+      token: result.token,
+      refreshToken: result.refreshToken,
+    });
+  } catch (err) {
+    logger.error("Error refreshing session", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+// Log out this device; works with an expired access token
+export const logout = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
+  try {
+    await revokeSession(refreshToken);
+    res.status(200).json({ success: true, message: "Logged out" });
+  } catch (err) {
+    logger.error("Error logging out", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+export const logoutAllDevices = async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    res
+      .status(401)
+      .json({ success: false, message: "Authentication required" });
+    return;
+  }
+  try {
+    const revoked = await revokeAllSessions(userId);
+    logger.info(`User ${userId} logged out of all devices (${revoked} sessions)`);
+    res
+      .status(200)
+      .json({ success: true, message: "Logged out of all devices" });
+  } catch (err) {
+    logger.error("Error logging out of all devices", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
 export const getUserProfile = async (req: Request, res: Response) => {
   const userId = req.user?.id;
   if (!userId) {
@@ -0,0 +1,180 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+
+import Product from "../models/product.models";
+import Wishlist, { MAX_WISHLIST_ITEMS } from "../models/wishlist.models";
+import { logger } from "../utils/logger";
+
+type SavedItem = {
+	product: unknown;
+	variant?: mongoose.Types.ObjectId | null;
+	priceWhenAdded?: number | null;
+	addedAt?: Date | null;
+};
+
+const PRODUCT_FIELDS =
+	"name price stock image images category variants averageRating reviewCount seller";
+
+/**
+ * Wishlist entries joined with the products as they are now: current
+ * price and stock (of the saved variant, if any) next to the price when
+ * saved. Products deleted since are left out.
+ */
+const withLiveDetails = async (items: SavedItem[]) => {
+	const products = await Product.find({
+		_id: { $in: items.map((item) => item.product) },
+	}).select(PRODUCT_FIELDS);
+	const byId = new Map(products.map((p) => [String(p._id), p]));
+
+	return items.flatMap((item) => {
+		const product = byId.get(String(item.product));
+		if (!product) return [];
+		const variant = item.variant ? product.variants.id(item.variant) : null;
+		const price = variant?.price ?? product.price ?? 0;
+		const stock = variant?.stock ?? product.stock ?? 0;
+		const priceWhenAdded = item.priceWhenAdded ?? price;
+		return [
+			{
+				product,
+				variant,
+				price,
+				stock,
+				inStock: stock > 0,
+				priceWhenAdded,
+				// negative when it got cheaper since it was saved
+				priceChange: price - priceWhenAdded,
+				addedAt: item.addedAt,
+			},
+		];
+	});
+};
+
+export const getWishlist = async (req: Request, res: Response) => {
+	try {
+		const wishlist = await Wishlist.findOne({ user: req.user?.id }).lean();
+		const items = await withLiveDetails(wishlist?.items ?? []);
+		res.status(200).json({ success: true, items, count: items.length });
+	} catch (err) {
+		logger.error("Failed to fetch wishlist", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+// Saving a product again just updates the chosen option
+export const addToWishlist = async (req: Request, res: Response) => {
+	const { productId, variantId } = req.body;
+	try {
+		const product = await Product.findById(productId).select("price variants");
+		if (!product) {
+			return res.status(404).json({ success: false, message: "Product not found" });
+		}
+		const variant = variantId ? product.variants.id(variantId) : null;
+		if (variantId && !variant) {
+			return res
+				.status(400)
+				.json({ success: false, message: "Selected option not found" });
+		}
+
+		const wishlist =
+			(await Wishlist.findOne({ user: req.user?.id })) ??
+			new Wishlist({ user: req.user?.id, items: [] });
+
+		const existing = wishlist.items.find(
+			(item) => String(item.product) === String(product._id)
+		);
+		if (existing) {
+			if (variant) existing.variant = variant._id;
+		} else {
+			if (wishlist.items.length >= MAX_WISHLIST_ITEMS) {
+				return res.status(400).json({
+					success: false,
+					message: `A wishlist holds at most ${MAX_WISHLIST_ITEMS} products`,
+				});
+			}
+			wishlist.items.unshift({
+				product: product._id,
+				variant: variant?._id ?? null,
+				priceWhenAdded: variant?.price ?? product.price,
+				addedAt: new Date(),
+			});
+		}
+		await wishlist.save();
+
+		const items = await withLiveDetails(wishlist.items);
+		res.status(existing ? 200 : 201).json({
+			success: true,
+			message: existing ? "Already in your wishlist" : "Saved to your wishlist",
+			items,
+			count: items.length,
+		});
+	} catch (err) {
+		logger.error("Failed to add to wishlist", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+export const removeFromWishlist = async (req: Request, res: Response) => {
+	const { productId } = req.params;
+	if (!mongoose.isValidObjectId(productId)) {
+		return res.status(400).json({ success: false, message: "Invalid product id" });
+	}
+	try {
+		const wishlist = await Wishlist.findOneAndUpdate(
+			{ user: req.user?.id },
+			{ $pull: { items: { product: productId } } },
+			{ new: true }
+		).lean();
+		const items = await withLiveDetails(wishlist?.items ?? []);
+		res.status(200).json({ success: true, items, count: items.length });
+	} catch (err) {
+		logger.error("Failed to remove from wishlist", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
+
+/**
+ * First half of "move to cart": turns the wishlist entry into an
+ * `addToCart` request (the route runs that controller next) and drops the
+ * entry once the cart has accepted it.
+ */
+export const prepareMoveToCart = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	const { productId } = req.params;
+	if (!mongoose.isValidObjectId(productId)) {
+		return res.status(400).json({ success: false, message: "Invalid product id" });
+	}
+	try {
+		const wishlist = await Wishlist.findOne({
+			user: req.user?.id,
+			"items.product": productId,
+		}).lean();
+		const item = wishlist?.items.find((i) => String(i.product) === productId);
+		if (!item) {
+			return res
+				.status(404)
+				.json({ success: false, message: "Product is not in your wishlist" });
+		}
+
+		req.body = {
+			productId,
+			// an option picked now wins over the one saved earlier
+			variantId: req.body?.variantId ?? (item.variant ? String(item.variant) : undefined),
+			quantity: req.body?.quantity ?? 1,
+		};
+
+		res.on("finish", () => {
+			if (res.statusCode >= 300) return;
+			Wishlist.updateOne(
+				{ user: req.user?.id },
+				{ $pull: { items: { product: productId } } }
+			).catch((err) => logger.error("Failed to clear moved wishlist item", err));
+		});
+		next();
+	} catch (err) {
+		logger.error("Failed to move wishlist item to cart", err);
+		res.status(500).json({ message: "Server Error" });
+	}
+};
@@ -3,6 +3,54 @@ import { Request, Response, NextFunction } from "express";
 import User from "../models/user.models";
 import { verifyToken, JwtPayload } from "../utils/jwt";
 
+export type AccessTokenResult =
+	| { status: "ok"; user: NonNullable<Request["user"]> }
+	| { status: "invalid" | "not_found" | "revoked" | "suspended" };
+
+/**
+ * Check an access token against the database: the user must still exist,
+ * not be suspended, and not have logged out of all devices since. Shared
+ * by `authenticate` and the WebSocket handshake.
+ */
+export const resolveAccessToken = async (
+	token: string
+): Promise<AccessTokenResult> => {
+	let decoded: JwtPayload;
+	try {
+		decoded = verifyToken(token);
+	} catch {
+		return { status: "invalid" };
+	}
+
+	// find the user from DB to ensure it still exists
+	const user = await User.findById(decoded.id).select("-password");
+	if (!user) return { status: "not_found" };
+
+	// "Log out all devices" bumps the version and kills older tokens
+	if (decoded.tokenVersion !== (user.tokenVersion ?? 0)) {
+		return { status: "revoked" };
+	}
+
+	if (user.isSuspended) return { status: "suspended" };
+
+	return {
+		status: "ok",
+		user: {
+			id: user._id.toString(),
+			email: user.email,
+			role: (user as any).role,
+			isApproved: user.isApproved,
+		},
+	};
+};
+
+const TOKEN_ERRORS = {
+	invalid: { status: 401, message: "Invalid or expired token" },
+	not_found: { status: 401, message: "User not found" },
+	revoked: { status: 401, message: "Session has been revoked" },
+	suspended: { status: 403, message: "Your account has been suspended" },
+} as const;
+
 export const authenticate = async (
 	req: Request,
 	res: Response,
@@ -20,35 +68,18 @@ export const authenticate = async (
 		}
 
 		const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+		const result = await resolveAccessToken(token);
 
-		try {
-			// verifyToken now returns decoded payload
-			const decoded: JwtPayload = verifyToken(token);
-
-			// find the user from DB to ensure it still exists
-			const user = await User.findById(decoded.id).select("-password");
-			if (!user) {
-			 res.status(401).json({
-					success: false,
-					message: "User not found",
-				});
-                return
-			}
-
-			// Add user to request object (use fetched user values)
-			req.user = {
-				id: user._id.toString(),
-				email: user.email,
-				role: (user as any).role,
-			};
-
-			next();
-		} catch (tokenError) {
-			res.status(401).json({
-				success: false,
-				message: "Invalid or expired token",
-			});
+		if (result.status !== "ok") {
+			const { status, message } = TOKEN_ERRORS[result.status];
+			res.status(status).json({ success: false, message });
+			return;
 		}
+
+		// Add user to request object (use fetched user values)
+		req.user = result.user;
+
+		next();
 	} catch (error) {
 		console.error("Authentication error:", error);
 		res.status(500).json({
@@ -57,3 +88,66 @@ export const authenticate = async (
 		});
 	}
 };
+
+/**
+ * Only sellers an admin has approved may create or change listings. Must run
+ * after `authenticate`.
+ */
+export const requireApprovedSeller = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+): void => {
+	if (!req.user) {
+		res.status(401).json({
+			success: false,
+			message: "Authentication required",
+		});
+		return;
+	}
+
+	if (req.user.role !== "seller") {
+		res.status(403).json({
+			success: false,
+			message: "Only sellers can manage products",
+		});
+		return;
+	}
+
+	if (!req.user.isApproved) {
+		res.status(403).json({
+			success: false,
+			code: "SELLER_PENDING_APPROVAL",
+			message: "Your seller account is pending approval",
+		});
+		return;
+	}
+
+	next();
+};
+
+/**
+ * Restrict a route to the given roles. Must run after `authenticate`,
+ * which loads the role from the database rather than trusting the token.
+ */
+export const requireRole = (...roles: Array<"buyer" | "seller" | "admin">) => {
+	return (req: Request, res: Response, next: NextFunction): void => {
+		if (!req.user) {
+			res.status(401).json({
+				success: false,
+				message: "Authentication required",
+			});
+			return;
+		}
+
+		if (!req.user.role || !roles.includes(req.user.role)) {
+			res.status(403).json({
+				success: false,
+				message: "You do not have permission to perform this action",
+			});
+			return;
+		}
+
+		next();
+	};
+};
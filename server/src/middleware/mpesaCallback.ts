@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+
+import { logger } from "../utils/logger";
+
+// Comma-separated Safaricom callback IPs; empty disables the IP check
+const allowedIps = () =>
+	(process.env.MPESA_CALLBACK_IP_ALLOWLIST || "")
+		.split(",")
+		.map((ip: string) => ip.trim())
+		.filter(Boolean);
+
+// Shared secret appended to the callback URL as a path segment
+export const getCallbackToken = () =>
+	process.env.MPESA_CALLBACK_TOKEN?.trim() || "";
+
+// IPv4 clients show up as ::ffff:1.2.3.4 on dual-stack sockets
+const normalizeIp = (ip: string | undefined) =>
+	(ip || "").replace(/^::ffff:/, "");
+
+const tokenMatches = (received: string, expected: string) => {
+	const a = Buffer.from(received);
+	const b = Buffer.from(expected);
+	return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Reject callbacks that do not come from Daraja. Either check can be enabled
+ * on its own; when both are configured both must pass. Behind a load
+ * balancer set TRUST_PROXY so req.ip is the real caller.
+ */
+export const verifyMpesaCallback = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	const sourceIp = normalizeIp(req.ip);
+
+	const expectedToken = getCallbackToken();
+	if (expectedToken) {
+		const token = req.params.token;
+		if (typeof token !== "string" || !tokenMatches(token, expectedToken)) {
+			logger.warn(`🚫 M-Pesa callback rejected: bad path token (from ${sourceIp})`);
+			res.status(403).json({ error: "Forbidden" });
+			return;
+		}
+	}
+
+	const allowlist = allowedIps();
+	if (allowlist.length > 0 && !allowlist.includes(sourceIp)) {
+		logger.warn(`🚫 M-Pesa callback rejected: ${sourceIp} is not allowlisted`);
+		res.status(403).json({ error: "Forbidden" });
+		return;
+	}
+
+	next();
+};
+
+export const isCallbackVerificationEnabled = () =>
+	Boolean(getCallbackToken()) || allowedIps().length > 0;
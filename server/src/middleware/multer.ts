@@ -1,8 +1,56 @@
+import { NextFunction, Request, Response } from "express";
 import multer from "multer";
-import cloudinary from "../config/cloudinary";
+
+import { MAX_CLAIM_PHOTOS } from "../models/claim.models";
+import { MAX_PRODUCT_IMAGES } from "../models/product.models";
 
 //configure multer for file storage
 const storage = multer.memoryStorage();
 const upload = multer({ storage });
 
-export { upload as multerUpload, cloudinary };
+// `image` is the cover (older clients send only this), `images` the gallery
+const productImageFields = upload.fields([
+	{ name: "image", maxCount: 1 },
+	{ name: "images", maxCount: MAX_PRODUCT_IMAGES },
+]);
+
+// Turn multer's errors (too many files, ...) into 400s
+const handleUploadErrors =
+	(
+		middleware: (req: Request, res: Response, next: (err?: unknown) => void) => void,
+		tooMany: string
+	) =>
+	(req: Request, res: Response, next: NextFunction) => {
+		middleware(req, res, (err: unknown) => {
+			if (err instanceof multer.MulterError) {
+				return res.status(400).json({
+					success: false,
+					message: err.code === "LIMIT_UNEXPECTED_FILE" ? tooMany : err.message,
+				});
+			}
+			if (err) return next(err);
+			next();
+		});
+	};
+
+export const productImagesUpload = handleUploadErrors(
+	productImageFields,
+	`Upload at most ${MAX_PRODUCT_IMAGES} images`
+);
+
+// Evidence photos sent with a return or damage claim
+export const claimPhotosUpload = handleUploadErrors(
+	upload.array("photos", MAX_CLAIM_PHOTOS),
+	`Upload at most ${MAX_CLAIM_PHOTOS} photos`
+);
+
+// Files from productImagesUpload (cover first) or claimPhotosUpload
+export const uploadedImages = (req: Request): Express.Multer.File[] => {
+	if (req.file) return [req.file];
+	const files = req.files;
+	if (!files) return [];
+	if (Array.isArray(files)) return files;
+	return [...(files.image ?? []), ...(files.images ?? [])];
+};
+
+export { upload as multerUpload };
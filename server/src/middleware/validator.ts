@@ -1,7 +1,14 @@
 import { NextFunction, Request, Response } from "express";
 import Joi from "joi";
 
+import { CLAIM_DECISIONS, CLAIM_REASONS, CLAIM_TYPES } from "../models/claim.models";
+import { COUPON_TYPES } from "../models/coupon.models";
+import { MAX_MESSAGE_LENGTH } from "../models/message.models";
+import { MAX_PRODUCT_IMAGES } from "../models/product.models";
+import { SHIPPING_CLASSES } from "../models/shippingRate.models";
+import { ANALYTICS_INTERVALS } from "../services/analytics";
 import { logger } from "../utils/logger";
+import { uploadedImages } from "./multer";
 
 export const validate = (schema: Joi.ObjectSchema) => {
 	return (req: Request, res: Response, next: NextFunction) => {
@@ -21,11 +28,43 @@ export const validate = (schema: Joi.ObjectSchema) => {
 	};
 };
 
+// Query strings are validated but not rewritten (req.query is read-only in Express 5)
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const { error } = schema.validate(req.query);
+		if (error) {
+			const message = error.details?.[0]?.message ?? "Validation error";
+			logger.error(`Validation error: ${message}`);
+			return res.status(400).json({
+				success: false,
+				message,
+			});
+		}
+		next();
+	};
+};
+
+// Structured fields that multipart clients send as JSON strings
+const MULTIPART_JSON_FIELDS = ["variants"];
+
 export const validateWithFile = (
 	schema: Joi.ObjectSchema,
 	fileRequired: boolean = true
 ) => {
 	return (req: Request, res: Response, next: NextFunction) => {
+		for (const field of MULTIPART_JSON_FIELDS) {
+			if (typeof req.body?.[field] !== "string") continue;
+			try {
+				req.body[field] = JSON.parse(req.body[field]);
+			} catch {
+				logger.error(`Validation error: ${field} is not valid JSON`);
+				return res.status(400).json({
+					success: false,
+					message: `"${field}" must be valid JSON`,
+				});
+			}
+		}
+
 		const bodyToValidate = { ...req.body };
 		delete bodyToValidate.image;
 		const { error } = schema.validate(bodyToValidate);
@@ -42,8 +81,10 @@ export const validateWithFile = (
 			});
 		}
 
+		const files = uploadedImages(req);
+
 		// Check if file is required and present
-		if (fileRequired && !req.file) {
+		if (fileRequired && files.length === 0) {
 			logger.error("Validation error: Image file is required");
 			return res.status(400).json({
 				success: false,
@@ -52,7 +93,7 @@ export const validateWithFile = (
 		}
 
 		// Validate file type if file is present
-		if (req.file && !req.file.mimetype.startsWith("image/")) {
+		if (files.some((file) => !file.mimetype.startsWith("image/"))) {
 			logger.error("Validation error: Only image files are allowed");
 			return res.status(400).json({
 				success: false,
@@ -60,7 +101,7 @@ export const validateWithFile = (
 			});
 		}
 		// Validate file size (5MB limit)
-		if (req.file && req.file.size > 5 * 1024 * 1024) {
+		if (files.some((file) => file.size > 5 * 1024 * 1024)) {
 			logger.error("Validation error: Image size must be less than 5MB");
 			return res.status(400).json({
 				success: false,
@@ -88,6 +129,60 @@ export const validationError = (
 	next(err);
 };
 
+const productVariant = Joi.object({
+	_id: Joi.string().hex().length(24),
+	sku: Joi.string().trim().max(64).required(),
+	attributes: Joi.object({
+		color: Joi.string().trim().max(40).allow(""),
+		material: Joi.string().trim().max(40).allow(""),
+		size: Joi.string().trim().max(40).allow(""),
+	}).default({}),
+	price: Joi.number().min(0).required(),
+	stock: Joi.number().integer().min(0).required(),
+	images: Joi.array().items(Joi.string().uri()).max(10),
+});
+
+// price and stock come from the variants when there are any
+const unlessVariants = (schema: Joi.Schema) =>
+	Joi.when("variants", {
+		is: Joi.array().min(1),
+		then: schema.optional(),
+		otherwise: schema.required(),
+	});
+
+// Coupon settings a seller or admin may change after creating the code
+const couponSettings = {
+	description: Joi.string().trim().max(200).allow(""),
+	maxDiscount: Joi.number().min(0).allow(null),
+	minSpend: Joi.number().min(0),
+	perUserLimit: Joi.number().integer().min(1),
+	usageLimit: Joi.number().integer().min(1).allow(null),
+	startsAt: Joi.date(),
+	expiresAt: Joi.date().allow(null),
+	isActive: Joi.boolean(),
+};
+
+const COUPON_CODE = Joi.string().trim().max(40);
+
+const shippingFee = Joi.number().min(0);
+
+const KENYAN_PHONE = /^(?:\+?254|0)[17]\d{8}$/;
+
+// Delivery address fields; a pin needs both coordinates
+const addressFields = {
+	label: Joi.string().trim().max(40),
+	recipientName: Joi.string().trim().min(2).max(100),
+	phone: Joi.string().trim().pattern(KENYAN_PHONE).messages({
+		"string.pattern.base": "Enter a Kenyan phone number, e.g. 0712345678",
+	}),
+	county: Joi.string().trim().max(60).allow(null, ""),
+	town: Joi.string().trim().min(2).max(60),
+	addressLine: Joi.string().trim().max(200).allow(""),
+	landmark: Joi.string().trim().max(300).allow(""),
+	latitude: Joi.number().min(-90).max(90).allow(null),
+	longitude: Joi.number().min(-180).max(180).allow(null),
+};
+
 export const schemas = {
 	register: Joi.object({
 		fullName: Joi.string().min(4).required(),
@@ -106,6 +201,9 @@ export const schemas = {
 		email: Joi.string().email().required(),
 		password: Joi.string().required(),
 	}),
+	refreshToken: Joi.object({
+		refreshToken: Joi.string().required(),
+	}),
 	addProduct: Joi.object({
 		seller: Joi.string().required(),
 		name: Joi.string().min(2).required(),
@@ -113,9 +211,12 @@ export const schemas = {
 		image: Joi.string().optional(),
 		images: Joi.array().optional(),
 		description: Joi.string().min(5).max(100).required(),
-		price: Joi.number().min(0).required(),
-		stock: Joi.number().min(0).required(),
+		price: unlessVariants(Joi.number().min(0)),
+		stock: unlessVariants(Joi.number().min(0)),
+		variants: Joi.array().items(productVariant).unique("sku").max(50),
 		reviewCount: Joi.number().min(0),
+		weightKg: Joi.number().min(0).allow(null),
+		shippingClass: Joi.string().valid(...SHIPPING_CLASSES),
 	}),
 	updateProduct: Joi.object({
 		name: Joi.string().min(2).optional(),
@@ -125,6 +226,9 @@ export const schemas = {
 		description: Joi.string().min(5).max(100).optional(),
 		stock: Joi.number().min(0).optional(),
 		price: Joi.number().optional(),
+		variants: Joi.array().items(productVariant).unique("sku").max(50),
+		weightKg: Joi.number().min(0).allow(null),
+		shippingClass: Joi.string().valid(...SHIPPING_CLASSES),
 	}),
 	makeOrder: Joi.object({
 		buyer: Joi.string().optional(),
@@ -133,6 +237,7 @@ export const schemas = {
 			.items(
 				Joi.object({
 					product: Joi.string().required(),
+					variant: Joi.string().hex().length(24).allow(null),
 					quantity: Joi.number().required(),
 				})
 			)
@@ -143,11 +248,21 @@ export const schemas = {
 		total: Joi.number().min(0),
 		paymentMethod: Joi.string().valid("mpesa").required(),
 		phoneNumber: Joi.string().min(10).required(),
-		shippingInfo: 
-			Joi.object({
-				city: Joi.string(),
-				address: Joi.string(),
-			}),
+		// defaults to the code applied to the cart; null or "" pays without one
+		couponCode: COUPON_CODE.allow(null, ""),
+		// a saved address, copied onto the orders; the default one when
+		// neither this nor shippingInfo is sent
+		addressId: Joi.string().hex().length(24),
+		shippingInfo: Joi.object({
+			city: Joi.string(),
+			address: Joi.string().allow(""),
+			recipientName: addressFields.recipientName,
+			phone: addressFields.phone,
+			county: addressFields.county,
+			landmark: addressFields.landmark,
+			latitude: addressFields.latitude,
+			longitude: addressFields.longitude,
+		}).and("latitude", "longitude"),
 		status: Joi.string()
 			.valid("Pending", "Shipped", "Cancelled", "Delivered")
 			.default("Pending"),
@@ -155,15 +270,207 @@ export const schemas = {
 	addToCart: Joi.object({
 		//user: Joi.string().required(),
 		productId: Joi.string().required(),
+		variantId: Joi.string().hex().length(24),
 		quantity: Joi.number(),
 		price: Joi.number(),
 		subtotal: Joi.number(),
 		shipping: Joi.number(),
 		total: Joi.number(),
 	}),
+	updateOrderStatus: Joi.object({
+		status: Joi.string()
+			.valid("confirmed", "shipped", "out_for_delivery", "delivered", "cancelled", "returned")
+			.required(),
+		note: Joi.string().trim().max(500).allow(""),
+	}),
+	// from/to are ISO dates or plain YYYY-MM-DD days; seller is for admins
+	analyticsQuery: Joi.object({
+		from: Joi.date().iso(),
+		to: Joi.date().iso(),
+		interval: Joi.string().valid(...ANALYTICS_INTERVALS),
+		limit: Joi.number().integer().min(1).max(50),
+		threshold: Joi.number().integer().min(0),
+		seller: Joi.string().hex().length(24),
+	}),
+	productQuery: Joi.object({
+		q: Joi.string().trim().max(100).allow(""),
+		category: Joi.string().valid("tables", "chairs", "desks", "sofas", "cabinets"),
+		minPrice: Joi.number().min(0),
+		maxPrice: Joi.number().min(0),
+		inStock: Joi.boolean(),
+		sellerId: Joi.string().hex().length(24),
+		sort: Joi.string().valid("newest", "price", "price_asc", "price_desc", "rating"),
+		cursor: Joi.string(),
+		limit: Joi.number().integer().min(1).max(50),
+	}),
+	// uploads carry no body fields besides the files
+	uploadProductImages: Joi.object({}),
+	// the new gallery order; the first image becomes the cover
+	arrangeProductImages: Joi.object({
+		images: Joi.array()
+			.items(Joi.string().uri())
+			.unique()
+			.min(1)
+			.max(MAX_PRODUCT_IMAGES)
+			.required(),
+	}),
+	productImageQuery: Joi.object({
+		url: Joi.string().uri().required(),
+	}),
+	updateStock: Joi.object({
+		stock: Joi.number().integer().min(0).required(),
+		variantId: Joi.string().hex().length(24),
+	}),
 	leaveReview: Joi.object({
 		product: Joi.string().required(),
+		content: Joi.string().min(2).max(100).required(),
+		stars: Joi.number().integer().min(1).max(5).required(),
+	}),
+	updateReview: Joi.object({
 		content: Joi.string().min(2).max(100),
-		stars: Joi.number()
+		stars: Joi.number().integer().min(1).max(5),
+	}).or("content", "stars"),
+	reviewReply: Joi.object({
+		content: Joi.string().trim().min(1).max(500).required(),
+	}),
+	reportReview: Joi.object({
+		reason: Joi.string().valid("abusive", "spam", "off_topic", "other").required(),
+		note: Joi.string().max(300).allow(""),
+	}),
+	pushToken: Joi.object({
+		token: Joi.string()
+			.pattern(/^Expo(nent)?PushToken\[.+\]$/)
+			.required()
+			.messages({ "string.pattern.base": "token must be an Expo push token" }),
+	}),
+	moderateReview: Joi.object({
+		note: Joi.string().max(300).allow(""),
+	}),
+	// a thread is about exactly one product or one order
+	openConversation: Joi.object({
+		productId: Joi.string().hex().length(24),
+		orderId: Joi.string().hex().length(24),
+	}).xor("productId", "orderId"),
+	createAddress: Joi.object({
+		...addressFields,
+		recipientName: addressFields.recipientName.required(),
+		phone: addressFields.phone.required(),
+		town: addressFields.town.required(),
+		isDefault: Joi.boolean(),
+	}).and("latitude", "longitude"),
+	updateAddress: Joi.object({
+		...addressFields,
+		isDefault: Joi.boolean(),
 	})
+		.and("latitude", "longitude")
+		.min(1),
+	requestRefund: Joi.object({
+		orderId: Joi.string().hex().length(24).required(),
+		reason: Joi.string().trim().max(500).allow(""),
+	}),
+	// `receipt` is the M-Pesa transaction id of a payout that went through
+	reviewRefund: Joi.object({
+		paid: Joi.boolean().required(),
+		receipt: Joi.when("paid", {
+			is: true,
+			then: Joi.string().trim().max(30).required(),
+			otherwise: Joi.forbidden(),
+		}),
+	}),
+	// multipart: the photos travel as `photos` files
+	openClaim: Joi.object({
+		orderId: Joi.string().hex().length(24).required(),
+		type: Joi.string()
+			.valid(...CLAIM_TYPES)
+			.required(),
+		reason: Joi.string()
+			.valid(...CLAIM_REASONS)
+			.required(),
+		description: Joi.string().trim().max(2000).allow(""),
+	}),
+	claimDecision: Joi.object({
+		decision: Joi.string()
+			.valid(...CLAIM_DECISIONS)
+			.required(),
+		amount: Joi.when("decision", {
+			is: "partial_refund",
+			then: Joi.number().integer().min(1).required(),
+			otherwise: Joi.forbidden(),
+		}),
+		note: Joi.string().trim().max(500).allow(""),
+	}),
+	claimNote: Joi.object({
+		note: Joi.string().trim().max(500).allow(""),
+	}),
+	addToWishlist: Joi.object({
+		productId: Joi.string().hex().length(24).required(),
+		variantId: Joi.string().hex().length(24).allow(null),
+	}),
+	moveToCart: Joi.object({
+		variantId: Joi.string().hex().length(24),
+		quantity: Joi.number().integer().min(1),
+	}),
+	productAlert: Joi.object({
+		productId: Joi.string().hex().length(24).required(),
+		variantId: Joi.string().hex().length(24).allow(null),
+		onPriceDrop: Joi.boolean(),
+		targetPrice: Joi.number().min(0).allow(null),
+		onBackInStock: Joi.boolean(),
+	}),
+	applyCoupon: Joi.object({
+		code: COUPON_CODE.required(),
+	}),
+	createCoupon: Joi.object({
+		code: Joi.string().trim().alphanum().min(3).max(20).required(),
+		type: Joi.string()
+			.valid(...COUPON_TYPES)
+			.required(),
+		value: Joi.when("type", {
+			switch: [
+				{ is: "percent", then: Joi.number().greater(0).max(100).required() },
+				{ is: "fixed", then: Joi.number().greater(0).required() },
+			],
+			otherwise: Joi.forbidden(),
+		}),
+		// admins only; sellers' codes always belong to them
+		sellerId: Joi.string().hex().length(24).allow(null),
+		...couponSettings,
+	}),
+	updateCoupon: Joi.object({
+		value: Joi.number().greater(0),
+		...couponSettings,
+	}).min(1),
+	// fields left out keep their saved value (the model default on a new table)
+	shippingRates: Joi.object({
+		distanceBands: Joi.array()
+			.items(
+				Joi.object({
+					upToKm: Joi.number().greater(0).allow(null),
+					fee: shippingFee.required(),
+				})
+			)
+			.unique("upToKm")
+			.max(20),
+		zones: Joi.array()
+			.items(
+				Joi.object({
+					name: Joi.string().trim().max(60).required(),
+					areas: Joi.array().items(Joi.string().trim().max(60)).min(1).required(),
+					fee: shippingFee.required(),
+				})
+			)
+			.unique("name")
+			.max(50),
+		fallbackFee: shippingFee,
+		includedKg: Joi.number().min(0),
+		perKgFee: shippingFee,
+		surcharges: Joi.object({
+			bulky: shippingFee,
+			oversized: shippingFee,
+		}),
+		freeShippingThreshold: Joi.number().min(0).allow(null),
+	}),
+	chatMessage: Joi.object({
+		body: Joi.string().trim().min(1).max(MAX_MESSAGE_LENGTH).required(),
+	}),
 };
@@ -0,0 +1,34 @@
+import mongoose, { Schema } from "mongoose";
+
+// Saved delivery addresses per buyer
+export const MAX_ADDRESSES = 20;
+
+const addressSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		// "Home", "Office", ...
+		label: { type: String, trim: true, default: "Home" },
+		recipientName: { type: String, trim: true, required: true },
+		phone: { type: String, trim: true, required: true },
+		county: { type: String, trim: true, default: null },
+		town: { type: String, trim: true, required: true },
+		// street, building, house number
+		addressLine: { type: String, trim: true, default: "" },
+		// directions for the rider: "blue gate opposite the church"
+		landmark: { type: String, trim: true, default: "" },
+		// pinned on the phone; distance-based shipping uses it over the town
+		latitude: { type: Number, min: -90, max: 90, default: null },
+		longitude: { type: Number, min: -180, max: 180, default: null },
+		isDefault: { type: Boolean, default: false },
+	},
+	{ timestamps: true }
+);
+
+addressSchema.index({ user: 1, isDefault: -1, updatedAt: -1 });
+
+const Address = mongoose.model("Address", addressSchema);
+export default Address;
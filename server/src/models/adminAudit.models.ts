@@ -0,0 +1,41 @@
+import mongoose, { Schema } from "mongoose";
+
+const adminAuditSchema = new Schema(
+	{
+		admin: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		action: {
+			type: String,
+			enum: [
+				"approve_user",
+				"suspend_user",
+				"reactivate_user",
+				"delete_user",
+				"hide_review",
+				"restore_review",
+			],
+			required: true,
+		},
+		targetUser: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+		},
+		// snapshot of the target so the entry stays readable after a delete
+		targetEmail: { type: String },
+		targetReview: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Review",
+		},
+		changes: { type: Schema.Types.Mixed, default: null },
+		ip: { type: String },
+	},
+	{ timestamps: { createdAt: true, updatedAt: false } }
+);
+
+adminAuditSchema.index({ createdAt: -1 });
+
+const AdminAudit = mongoose.model("AdminAudit", adminAuditSchema);
+export default AdminAudit;
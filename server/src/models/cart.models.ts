@@ -6,6 +6,11 @@ const cartItemSchema = new Schema({
 		ref: "Product",
 		required: [true, "Product is required"],
 	},
+	// required when the product is sold in variants
+	variant: {
+		type: mongoose.Schema.Types.ObjectId,
+		default: null,
+	},
 	quantity: { 
 		type: Number, 
 		required: [true, "Quantity is required"],
@@ -39,6 +44,16 @@ const cartSchema = new Schema({
 		default: 0,
 		min: [0, "Shipping cannot be negative"]
 	},
+	// applied code; re-checked whenever the totals change and at payment
+	couponCode: {
+		type: String,
+		default: null,
+	},
+	discount: {
+		type: Number,
+		default: 0,
+		min: [0, "Discount cannot be negative"]
+	},
 	total: {
 		type: Number,
 		default: 0,
@@ -0,0 +1,40 @@
+import mongoose, { Schema } from "mongoose";
+
+// A checkout groups the per-seller orders created from one cart and is
+// paid for with a single M-Pesa STK push.
+const checkoutSchema = new Schema(
+	{
+		buyer: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		orders: [{ type: mongoose.Schema.Types.ObjectId, ref: "Order" }],
+		checkoutNumber: {
+			type: String,
+			unique: true,
+		},
+		subTotal: { type: Number, default: 0 },
+		shipping: { type: Number, default: 0 },
+		// coupon discount over all the orders; `total` already has it taken off
+		discount: { type: Number, default: 0 },
+		coupon: { type: mongoose.Schema.Types.ObjectId, ref: "Coupon", default: null },
+		couponCode: { type: String, default: null },
+		total: { type: Number, default: 0 },
+		phoneNumber: { type: String },
+		paymentStatus: {
+			type: String,
+			enum: ["pending", "paid", "failed", "cancelled", "timeout"],
+			default: "pending",
+		},
+		mpesaCheckoutRequestID: { type: String },
+		mpesaReceiptNumber: { type: String },
+	},
+	{ timestamps: true }
+);
+
+// per-buyer and total coupon usage
+checkoutSchema.index({ coupon: 1, buyer: 1 });
+
+const Checkout = mongoose.model("Checkout", checkoutSchema);
+export default Checkout;
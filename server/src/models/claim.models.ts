@@ -0,0 +1,85 @@
+import mongoose, { Schema } from "mongoose";
+
+export const CLAIM_TYPES = ["return", "damage"] as const;
+
+export const CLAIM_REASONS = [
+	"damaged_in_transit",
+	"defective",
+	"not_as_described",
+	"wrong_item",
+	"missing_parts",
+	"changed_mind",
+] as const;
+
+// open -> accepted | partial_refund | rejected, decided by the seller;
+// open, partial_refund and rejected can escalate to an admin, whose
+// decision is final. The buyer can withdraw an open claim.
+export const CLAIM_STATUSES = [
+	"open",
+	"accepted",
+	"partial_refund",
+	"rejected",
+	"escalated",
+	"withdrawn",
+] as const;
+
+export const CLAIM_DECISIONS = ["accept", "partial_refund", "reject"] as const;
+
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+export type ClaimDecision = (typeof CLAIM_DECISIONS)[number];
+
+// Photos of the damage, uploaded with the claim
+export const MAX_CLAIM_PHOTOS = 6;
+
+// One entry per status change; `by` is empty when the sweeper escalated
+const claimEventSchema = new Schema(
+	{
+		status: { type: String, enum: CLAIM_STATUSES, required: true },
+		at: { type: Date, default: Date.now },
+		by: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		note: { type: String },
+	},
+	{ _id: false }
+);
+
+const claimSchema = new Schema(
+	{
+		order: { type: mongoose.Schema.Types.ObjectId, ref: "Order", required: true },
+		buyer: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		seller: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		type: { type: String, enum: CLAIM_TYPES, required: true },
+		reason: { type: String, enum: CLAIM_REASONS, required: true },
+		description: { type: String, trim: true, maxlength: 2000, default: "" },
+		photos: {
+			type: [String],
+			validate: {
+				validator: (photos: string[]) => photos.length <= MAX_CLAIM_PHOTOS,
+				message: `A claim can have at most ${MAX_CLAIM_PHOTOS} photos`,
+			},
+		},
+		status: { type: String, enum: CLAIM_STATUSES, default: "open" },
+		timeline: [claimEventSchema],
+		// the seller must answer by then or the claim goes to an admin
+		respondBy: { type: Date, required: true },
+		decision: {
+			outcome: { type: String, enum: CLAIM_DECISIONS },
+			// what the buyer gets back; the order total when accepted
+			amount: { type: Number, min: 0 },
+			note: { type: String },
+			by: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+			role: { type: String, enum: ["seller", "admin"] },
+			at: { type: Date },
+		},
+		refund: { type: mongoose.Schema.Types.ObjectId, ref: "Refund", default: null },
+		escalatedAt: { type: Date, default: null },
+	},
+	{ timestamps: true }
+);
+
+claimSchema.index({ order: 1, status: 1 });
+claimSchema.index({ status: 1, respondBy: 1 });
+claimSchema.index({ seller: 1, createdAt: -1 });
+claimSchema.index({ buyer: 1, createdAt: -1 });
+
+const Claim = mongoose.model("Claim", claimSchema);
+export default Claim;
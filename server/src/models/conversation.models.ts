@@ -0,0 +1,67 @@
+import mongoose, { Schema } from "mongoose";
+
+// A thread is about a product (questions before buying) or an order
+export const CONVERSATION_SUBJECTS = ["product", "order"] as const;
+
+export type ConversationSubject = (typeof CONVERSATION_SUBJECTS)[number];
+
+const lastMessageSchema = new Schema(
+	{
+		body: { type: String },
+		sender: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+		at: { type: Date },
+	},
+	{ _id: false }
+);
+
+const conversationSchema = new Schema(
+	{
+		buyer: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		seller: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		subject: {
+			type: String,
+			enum: CONVERSATION_SUBJECTS,
+			required: true,
+		},
+		product: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Product",
+			default: null,
+		},
+		order: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Order",
+			default: null,
+		},
+		// shown in the inbox without loading the thread
+		lastMessage: { type: lastMessageSchema, default: null },
+		// messages each side has not read yet
+		buyerUnread: { type: Number, default: 0, min: 0 },
+		sellerUnread: { type: Number, default: 0, min: 0 },
+	},
+	{ timestamps: true }
+);
+
+// one thread per buyer and product, and one per order
+conversationSchema.index(
+	{ buyer: 1, product: 1 },
+	{ unique: true, partialFilterExpression: { subject: "product" } }
+);
+conversationSchema.index(
+	{ order: 1 },
+	{ unique: true, partialFilterExpression: { subject: "order" } }
+);
+// inbox, most recently active first
+conversationSchema.index({ buyer: 1, updatedAt: -1 });
+conversationSchema.index({ seller: 1, updatedAt: -1 });
+
+const Conversation = mongoose.model("Conversation", conversationSchema);
+export default Conversation;
@@ -0,0 +1,84 @@
+import mongoose, { Schema } from "mongoose";
+
+export const COUPON_TYPES = ["percent", "fixed", "free_shipping"] as const;
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+// A discount code. Sellers' codes only discount their own items; codes
+// without a seller are platform-wide and created by admins.
+const couponSchema = new Schema(
+	{
+		code: {
+			type: String,
+			required: true,
+			unique: true,
+			uppercase: true,
+			trim: true,
+		},
+		description: {
+			type: String,
+			trim: true,
+		},
+		type: {
+			type: String,
+			enum: COUPON_TYPES,
+			required: true,
+		},
+		// percent off (1-100) or Ksh off; unused for free shipping
+		value: {
+			type: Number,
+			min: 0,
+			default: 0,
+		},
+		// upper bound for a percent discount, in Ksh; null: none
+		maxDiscount: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		// on the items the code applies to, before shipping
+		minSpend: {
+			type: Number,
+			min: 0,
+			default: 0,
+		},
+		seller: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			default: null,
+		},
+		createdBy: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		// checkouts per buyer, and across all buyers (null: unlimited)
+		perUserLimit: {
+			type: Number,
+			min: 1,
+			default: 1,
+		},
+		usageLimit: {
+			type: Number,
+			min: 1,
+			default: null,
+		},
+		startsAt: {
+			type: Date,
+			default: Date.now,
+		},
+		expiresAt: {
+			type: Date,
+			default: null,
+		},
+		isActive: {
+			type: Boolean,
+			default: true,
+		},
+	},
+	{ timestamps: true }
+);
+
+couponSchema.index({ seller: 1, createdAt: -1 });
+
+const Coupon = mongoose.model("Coupon", couponSchema);
+export default Coupon;
@@ -0,0 +1,24 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * Places the external geocoder has answered for, keyed by the normalized
+ * query. Misses are kept too, briefly, so a typo does not hit the provider
+ * on every cart refresh; `expiresAt` lets Mongo's TTL monitor drop them.
+ */
+const geocodeCacheSchema = new Schema(
+	{
+		query: { type: String, required: true, unique: true },
+		found: { type: Boolean, required: true },
+		latitude: { type: Number },
+		longitude: { type: Number },
+		// provider that answered, e.g. "nominatim"
+		source: { type: String, required: true },
+		expiresAt: { type: Date },
+	},
+	{ timestamps: true }
+);
+
+geocodeCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const GeocodeCache = mongoose.model("GeocodeCache", geocodeCacheSchema);
+export default GeocodeCache;
@@ -0,0 +1,36 @@
+import mongoose, { Schema } from "mongoose";
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+const messageSchema = new Schema(
+	{
+		conversation: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Conversation",
+			required: true,
+		},
+		sender: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		body: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: MAX_MESSAGE_LENGTH,
+		},
+		// read receipt: when the other participant opened the thread
+		readAt: {
+			type: Date,
+			default: null,
+		},
+	},
+	{ timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// newest first per thread; ids double as the pagination cursor
+messageSchema.index({ conversation: 1, _id: -1 });
+
+const Message = mongoose.model("Message", messageSchema);
+export default Message;
@@ -7,7 +7,8 @@ const mpesaTransactionSchema = new Schema(
 		name: { type: String, default: null },
 		status: {
 			type: String,
-			enum: ["pending", "success", "failed"],
+			// flagged: callback did not match the transaction, needs manual review
+			enum: ["pending", "success", "failed", "flagged"],
 			default: "pending",
 		},
 		mpesaReceiptNumber: { type: String, default: null }, // ensure null default
@@ -22,15 +23,22 @@ const mpesaTransactionSchema = new Schema(
 					type: mongoose.Schema.Types.ObjectId,
 					ref: "Product",
 				},
+				variant: { type: mongoose.Schema.Types.ObjectId, default: null },
 				quantity: { type: Number },
 				price: { type: Number },
 			},
 		],
 		order: { type: mongoose.Schema.Types.ObjectId, ref: "Order", default: null },
+		// every per-seller order paid for by this STK push
+		orders: [{ type: mongoose.Schema.Types.ObjectId, ref: "Order" }],
+		checkout: { type: mongoose.Schema.Types.ObjectId, ref: "Checkout", default: null },
 		// store all data needed to build order after payment
 		metadata: { type: Schema.Types.Mixed, default: null },
 	},
 	{ timestamps: true }
 );
 
+// finds the payment behind an order (services/analytics.ts)
+mpesaTransactionSchema.index({ orders: 1 });
+
 export default mongoose.model("MpesaTransaction", mpesaTransactionSchema);
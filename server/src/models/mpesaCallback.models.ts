@@ -0,0 +1,38 @@
+import mongoose, { Schema } from "mongoose";
+
+// Inbox of STK callbacks, one entry per CheckoutRequestID. The payload of the
+// first delivery is kept as received; later deliveries only bump the counter.
+// An entry is processed once: whoever moves it from "received" to
+// "processing" owns it.
+const mpesaCallbackSchema = new Schema(
+	{
+		checkoutRequestId: { type: String, required: true, unique: true },
+		merchantRequestId: { type: String, default: null },
+		transaction: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "MpesaTransaction",
+			default: null,
+		},
+		resultCode: { type: Number, default: null },
+		resultDesc: { type: String, default: null },
+		payload: { type: Schema.Types.Mixed, required: true },
+		sourceIp: { type: String, default: null },
+		status: {
+			type: String,
+			enum: ["received", "processing", "processed", "ignored", "rejected"],
+			default: "received",
+		},
+		// what processing did, e.g. "paid", "payment_failed", "amount_mismatch"
+		outcome: { type: String, default: null },
+		lastError: { type: String, default: null },
+		deliveries: { type: Number, default: 1 },
+		lastDeliveryAt: { type: Date, default: Date.now },
+		processedAt: { type: Date, default: null },
+	},
+	{ timestamps: true }
+);
+
+mpesaCallbackSchema.index({ status: 1, createdAt: -1 });
+
+const MpesaCallback = mongoose.model("MpesaCallback", mpesaCallbackSchema);
+export default MpesaCallback;
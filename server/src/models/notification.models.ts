@@ -0,0 +1,56 @@
+import mongoose, { Schema } from "mongoose";
+
+export const NOTIFICATION_TYPES = [
+	"payment_received",
+	"new_order",
+	"order_status",
+	"new_review",
+	"account_approved",
+	"price_drop",
+	"back_in_stock",
+	"refund_requested",
+	"refund_completed",
+	"claim_update",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+const notificationSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		type: {
+			type: String,
+			enum: NOTIFICATION_TYPES,
+			required: true,
+		},
+		title: {
+			type: String,
+			required: true,
+		},
+		body: {
+			type: String,
+			required: true,
+		},
+		// ids the app needs to open the right screen, e.g. { orderId }
+		data: {
+			type: Schema.Types.Mixed,
+			default: {},
+		},
+		readAt: {
+			type: Date,
+			default: null,
+		},
+	},
+	{ timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// newest first per user; ids double as the pagination cursor
+notificationSchema.index({ user: 1, _id: -1 });
+notificationSchema.index({ user: 1, readAt: 1 });
+
+const Notification = mongoose.model("Notification", notificationSchema);
+export default Notification;
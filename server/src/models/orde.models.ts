@@ -8,6 +8,14 @@ const orderItemSchema = new Schema(
 			ref: "Product",
 			required: true,
 		},
+		// the variant bought, with its SKU and attributes as they were at checkout
+		variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+		sku: { type: String },
+		attributes: {
+			color: { type: String },
+			material: { type: String },
+			size: { type: String },
+		},
 		name: { type: String },
 		image: { type: String },
 		quantity: {
@@ -23,10 +31,24 @@ const orderItemSchema = new Schema(
 	{ _id: false }
 );
 
+// One entry per status change; `by` is empty for automatic changes
+const statusEventSchema = new Schema(
+	{
+		status: { type: String, required: true },
+		at: { type: Date, default: Date.now },
+		by: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		note: { type: String },
+	},
+	{ _id: false }
+);
+
 const orderSchema = new Schema(
 	{
 		buyer: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
 		seller: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+		// parent checkout when the cart was split across several sellers
+		checkout: { type: mongoose.Schema.Types.ObjectId, ref: "Checkout" },
+		checkoutNumber: { type: String },
 		items: [orderItemSchema],
 		orderNumber: {
 			type: String,
@@ -38,6 +60,16 @@ const orderSchema = new Schema(
 		shipping: {
 			type: Number,
 		},
+		// this order's share of the checkout's coupon discount
+		discount: {
+			type: Number,
+			default: 0,
+		},
+		couponCode: {
+			type: String,
+			default: null,
+		},
+		// subTotal + shipping - discount: what the buyer pays for this order
 		total: {
 			type: Number,
 		},
@@ -48,22 +80,55 @@ const orderSchema = new Schema(
 		phoneNumber: {
 			type: String,
 		},
+		// copied from the buyer's address book at checkout, so later edits to
+		// the saved address do not change where this order goes
 		shippingInfo: {
+			addressId: {
+				type: mongoose.Schema.Types.ObjectId,
+				ref: "Address",
+			},
+			label: { type: String },
+			recipientName: { type: String },
+			phone: { type: String },
+			county: { type: String },
+			// the town
 			city: {
 				type: String,
 			},
 			address: {
 				type: String,
 			},
+			landmark: { type: String },
+			latitude: { type: Number },
+			longitude: { type: Number },
 		},
+		// transitions are enforced in services/orderStatus.ts
 		status: {
 			type: String,
-			enum: ["pending", "shipped", "cancelled", "delivered"],
+			enum: [
+				"pending",
+				"confirmed",
+				"shipped",
+				"out_for_delivery",
+				"delivered",
+				"cancelled",
+				"returned",
+			],
 			default: "pending",
 		},
+		statusHistory: [statusEventSchema],
 		paymentStatus: {
 			type: String,
-			enum: ["pending", "paid", "failed", "cancelled", "timeout"],
+			// refunded / partially_refunded: money went back to the buyer
+			enum: [
+				"pending",
+				"paid",
+				"failed",
+				"cancelled",
+				"timeout",
+				"refunded",
+				"partially_refunded",
+			],
 			default: "pending",
 		},
 		mpesaCheckoutRequestID: {
@@ -82,5 +147,8 @@ const orderSchema = new Schema(
 	{ timestamps: true }
 );
 
+// seller order lists and sales analytics
+orderSchema.index({ seller: 1, createdAt: -1 });
+
 const Order = mongoose.model("Order", orderSchema);
 export default Order;
@@ -1,6 +1,78 @@
 import { number, required } from "joi";
 import mongoose, { Schema, Types } from "mongoose";
 
+import {
+	alertOnProductChange,
+	ProductSnapshot,
+	productSnapshot,
+	SNAPSHOT_FIELDS,
+} from "../services/productAlerts";
+import { SHIPPING_CLASSES } from "./shippingRate.models";
+
+// One purchasable version of a product, e.g. a sofa in grey linen
+const variantSchema = new Schema(
+	{
+		sku: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+		attributes: {
+			color: { type: String, trim: true },
+			material: { type: String, trim: true },
+			size: { type: String, trim: true },
+		},
+		price: {
+			type: Number,
+			required: true,
+			min: 0,
+		},
+		stock: {
+			type: Number,
+			required: true,
+			default: 0,
+			min: 0,
+		},
+		images: {
+			type: [String],
+			default: [],
+		},
+	},
+	{ _id: true }
+);
+
+// Number of reviews at each star rating
+const ratingHistogramSchema = new Schema(
+	{
+		1: { type: Number, default: 0 },
+		2: { type: Number, default: 0 },
+		3: { type: Number, default: 0 },
+		4: { type: Number, default: 0 },
+		5: { type: Number, default: 0 },
+	},
+	{ _id: false }
+);
+
+// Gallery size per product; the first image is the cover
+export const MAX_PRODUCT_IMAGES = Number(process.env.MAX_PRODUCT_IMAGES || 8);
+
+type VariantTotals = { price: number; stock: number };
+
+/**
+ * Product-level price and stock for a product sold in variants: the
+ * cheapest variant's price ("from KES ...") and the stock across all of
+ * them, so catalogue filters and sorting keep working on the product.
+ */
+export const summarizeVariants = (
+	variants: { price: number; stock: number }[]
+): VariantTotals | null => {
+	if (variants.length === 0) return null;
+	return {
+		price: Math.min(...variants.map((v) => v.price)),
+		stock: variants.reduce((sum, v) => sum + v.stock, 0),
+	};
+};
+
 const productSchema = new Schema(
 	{
 		seller: {
@@ -16,6 +88,7 @@ const productSchema = new Schema(
 			type: String,
 			required: true,
 		},
+		// cover image, kept equal to images[0] for clients that only read `image`
 		image: {
 			type: String,
 			required: false,
@@ -23,6 +96,10 @@ const productSchema = new Schema(
 		images: {
 			type: [String],
 			required: false,
+			validate: {
+				validator: (images: string[]) => images.length <= MAX_PRODUCT_IMAGES,
+				message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+			},
 		},
 		description: {
 			type: String,
@@ -37,10 +114,34 @@ const productSchema = new Schema(
 			required: true,
 			default: 0,
 		},
+		variants: {
+			type: [variantSchema],
+			default: [],
+		},
+		// per unit; both feed the shipping quote (services/shipping.ts)
+		weightKg: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		shippingClass: {
+			type: String,
+			enum: SHIPPING_CLASSES,
+			default: "standard",
+		},
 		reviewCount: {
 			type: Number,
 			default: 0,
 		},
+		averageRating: {
+			type: Number,
+			default: 0,
+		},
+		// reviewCount, averageRating and this are maintained by services/rating.ts
+		ratingHistogram: {
+			type: ratingHistogramSchema,
+			default: () => ({}),
+		},
 		// Store seller location at time of product creation for historical accuracy
 		sellerLocation: {
 			city: {
@@ -60,5 +161,97 @@ const productSchema = new Schema(
 	{ timestamps: true }
 );
 
+productSchema.pre("validate", function (next) {
+	const skus = this.variants.map((v) => v.sku);
+	if (new Set(skus).size !== skus.length) {
+		this.invalidate("variants", "Variant SKUs must be unique");
+	}
+	// products created before the gallery only have a cover image
+	if (this.images?.length === 0 && this.image) this.images.push(this.image);
+	this.image = this.images?.[0] ?? "";
+
+	const totals = summarizeVariants(this.variants);
+	if (totals) {
+		this.price = totals.price;
+		this.stock = totals.stock;
+	}
+	next();
+});
+
+/**
+ * Price-drop and back-in-stock alerts. Every write path is covered: the
+ * document loaded for a save remembers how it looked, and updates that can
+ * lower a price or raise stock read the product before and after. Stock
+ * taken by orders (`$inc` below zero) is skipped without a read.
+ */
+productSchema.post("init", function () {
+	this.$locals.alertSnapshot = productSnapshot(this);
+});
+
+productSchema.post("save", function (doc) {
+	const before = doc.$locals.alertSnapshot as ProductSnapshot | undefined;
+	const after = productSnapshot(doc);
+	doc.$locals.alertSnapshot = after;
+	if (before) void alertOnProductChange(before, after);
+});
+
+const WATCHED_PATH = /^(price|stock|variants)(\.|$)/;
+
+// Whether an update could make a product cheaper or restock it
+const mayTriggerAlerts = (update: unknown) => {
+	if (!update) return false;
+	// aggregation pipelines are not inspected
+	if (Array.isArray(update)) return true;
+	return Object.entries(update as Record<string, unknown>).some(([key, value]) => {
+		if (!key.startsWith("$")) return WATCHED_PATH.test(key);
+		if (!value || typeof value !== "object") return false;
+		return Object.entries(value).some(
+			([path, amount]) =>
+				WATCHED_PATH.test(path) && (key !== "$inc" || Number(amount) > 0)
+		);
+	});
+};
+
+const snapshotsBefore = new WeakMap<object, ProductSnapshot>();
+
+productSchema.pre(["updateOne", "findOneAndUpdate"], async function () {
+	if (!mayTriggerAlerts(this.getUpdate())) return;
+	const product = await this.model
+		.findOne(this.getFilter())
+		.select(SNAPSHOT_FIELDS)
+		.session(this.getOptions().session ?? null)
+		.lean<ProductSnapshot>();
+	if (product) snapshotsBefore.set(this, productSnapshot(product));
+});
+
+productSchema.post(["updateOne", "findOneAndUpdate"], async function () {
+	const before = snapshotsBefore.get(this);
+	if (!before) return;
+	snapshotsBefore.delete(this);
+	const product = await this.model
+		.findById(before._id)
+		.select(SNAPSHOT_FIELDS)
+		.session(this.getOptions().session ?? null)
+		.lean<ProductSnapshot>();
+	if (product) void alertOnProductChange(before, productSnapshot(product));
+});
+
+// Catalog search: text over name/description, plus the sort orders used
+// by cursor pagination (each ends in _id so the cursor is unique)
+productSchema.index(
+	{ name: "text", description: "text", category: "text" },
+	{ weights: { name: 10, category: 5, description: 1 }, name: "product_text" }
+);
+productSchema.index({ category: 1, price: 1, _id: 1 });
+productSchema.index({ price: 1, _id: 1 });
+productSchema.index({ createdAt: -1, _id: -1 });
+productSchema.index({ averageRating: -1, _id: -1 });
+productSchema.index({ seller: 1, createdAt: -1 });
+// SKUs are unique across the catalogue; products without variants are skipped
+productSchema.index(
+	{ "variants.sku": 1 },
+	{ unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } }
+);
+
 const Product = mongoose.model("Product", productSchema);
 export default Product;
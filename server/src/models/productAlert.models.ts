@@ -0,0 +1,48 @@
+import mongoose, { Schema } from "mongoose";
+
+// A buyer watching a product for a lower price or a restock. Products in
+// the buyer's wishlist are watched without one (services/productAlerts.ts).
+const productAlertSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		product: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Product",
+			required: true,
+		},
+		// watch one option of a product sold in variants; null: the product
+		variant: {
+			type: mongoose.Schema.Types.ObjectId,
+			default: null,
+		},
+		onPriceDrop: {
+			type: Boolean,
+			default: true,
+		},
+		// only tell the buyer once the price is at or below this; null: any drop
+		targetPrice: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		onBackInStock: {
+			type: Boolean,
+			default: true,
+		},
+		lastNotifiedAt: {
+			type: Date,
+			default: null,
+		},
+	},
+	{ timestamps: true }
+);
+
+productAlertSchema.index({ user: 1, product: 1 }, { unique: true });
+productAlertSchema.index({ product: 1 });
+
+const ProductAlert = mongoose.model("ProductAlert", productAlertSchema);
+export default ProductAlert;
@@ -0,0 +1,32 @@
+import mongoose, { Schema } from "mongoose";
+
+// One row per issued refresh token. Only the SHA-256 hash is stored; the raw
+// token lives on the device. Tokens rotate on every use, and all tokens
+// descended from the same login share a `family` so a replayed (already
+// rotated) token can revoke the whole chain.
+const refreshTokenSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		tokenHash: { type: String, required: true, unique: true },
+		family: { type: String, required: true },
+		expiresAt: { type: Date, required: true },
+		revokedAt: { type: Date, default: null },
+		revokedReason: { type: String, default: null },
+		replacedBy: { type: String, default: null },
+		userAgent: { type: String, default: null },
+		ip: { type: String, default: null },
+	},
+	{ timestamps: true }
+);
+
+refreshTokenSchema.index({ user: 1, revokedAt: 1 });
+refreshTokenSchema.index({ family: 1 });
+// Mongo drops expired tokens on its own
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model("RefreshToken", refreshTokenSchema);
+export default RefreshToken;
@@ -0,0 +1,64 @@
+import mongoose, { Schema } from "mongoose";
+
+// requested -> approved -> processing -> completed | failed; a failed
+// payout can be approved again and retried. One that timed out in Daraja's
+// queue may still have been paid, so it waits in needs_review until a late
+// result or an admin settles it
+export const REFUND_STATUSES = [
+	"requested",
+	"approved",
+	"processing",
+	"completed",
+	"failed",
+	"needs_review",
+] as const;
+
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+// Money paid back to the number that paid for an order: all of it when a
+// paid order is cancelled, all or part of it when a claim is upheld
+const refundSchema = new Schema(
+	{
+		order: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Order",
+			required: true,
+		},
+		// the return or damage claim that led to it
+		claim: { type: mongoose.Schema.Types.ObjectId, ref: "Claim", default: null },
+		buyer: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		seller: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		// whole shillings, as B2C only pays those
+		amount: { type: Number, required: true, min: 1 },
+		phoneNumber: { type: String, required: true },
+		reason: { type: String, trim: true, default: "" },
+		status: {
+			type: String,
+			enum: REFUND_STATUSES,
+			default: "requested",
+		},
+		requestedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		approvedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		approvedAt: { type: Date, default: null },
+		// B2C payout attempts; the ids identify the latest one in the result callback
+		attempts: { type: Number, default: 0 },
+		originatorConversationId: { type: String, default: null },
+		conversationId: { type: String, default: null },
+		mpesaReceiptNumber: { type: String, default: null },
+		resultCode: { type: Number, default: null },
+		resultDesc: { type: String, default: null },
+		completedAt: { type: Date, default: null },
+		// the admin who checked a timed-out payout against M-Pesa
+		reviewedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		reviewedAt: { type: Date, default: null },
+	},
+	{ timestamps: true }
+);
+
+refundSchema.index({ order: 1 });
+refundSchema.index({ conversationId: 1 });
+refundSchema.index({ seller: 1, status: 1, createdAt: -1 });
+refundSchema.index({ buyer: 1, createdAt: -1 });
+
+const Refund = mongoose.model("Refund", refundSchema);
+export default Refund;
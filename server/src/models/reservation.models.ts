@@ -0,0 +1,46 @@
+import mongoose, { Schema } from "mongoose";
+
+// Stock held for an M-Pesa payment that has not been confirmed yet.
+// `expiresAt` is when the sweeper starts checking on it; `purgeAt` is only set
+// once the reservation is settled and lets Mongo's TTL monitor clean it up.
+const reservationSchema = new Schema(
+	{
+		transaction: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "MpesaTransaction",
+			required: true,
+			unique: true,
+		},
+		checkout: { type: mongoose.Schema.Types.ObjectId, ref: "Checkout" },
+		orders: [{ type: mongoose.Schema.Types.ObjectId, ref: "Order" }],
+		items: [
+			{
+				_id: false,
+				product: {
+					type: mongoose.Schema.Types.ObjectId,
+					ref: "Product",
+					required: true,
+				},
+				variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+				quantity: { type: Number, required: true, min: 1 },
+			},
+		],
+		status: {
+			type: String,
+			enum: ["active", "committed", "released"],
+			default: "active",
+		},
+		expiresAt: { type: Date, required: true },
+		releaseReason: { type: String },
+		settledAt: { type: Date },
+		purgeAt: { type: Date },
+	},
+	{ timestamps: true }
+);
+
+reservationSchema.index({ status: 1, expiresAt: 1 });
+reservationSchema.index({ orders: 1, status: 1 });
+reservationSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+const Reservation = mongoose.model("Reservation", reservationSchema);
+export default Reservation;
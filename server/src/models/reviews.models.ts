@@ -2,6 +2,45 @@
 import mongoose, { Schema } from "mongoose";
 import { ref } from "process";
 
+// A public reply under a review, from the product's seller or the reviewer
+const reviewReplySchema = new Schema(
+	{
+		author: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		authorRole: {
+			type: String,
+			enum: ["seller", "buyer", "admin"],
+			required: true,
+		},
+		content: {
+			type: String,
+			required: true,
+			trim: true,
+		},
+	},
+	{ timestamps: { createdAt: true, updatedAt: false } }
+);
+
+const reviewReportSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		reason: {
+			type: String,
+			enum: ["abusive", "spam", "off_topic", "other"],
+			required: true,
+		},
+		note: { type: String, trim: true },
+	},
+	{ _id: false, timestamps: { createdAt: true, updatedAt: false } }
+);
+
 const reviewSchema = new Schema({
 	user: {
 		type: mongoose.Schema.Types.ObjectId,
@@ -19,14 +58,63 @@ const reviewSchema = new Schema({
 	},
 	stars: {
 		type: Number,
-		required: false,
+		required: true,
+		min: 1,
+		max: 5,
 	},
+	// set when the review was left against a delivered order; reviews from
+	// before purchase gating stay unverified
+	verifiedPurchase: {
+		type: Boolean,
+		default: false,
+	},
+	order: {
+		type: mongoose.Schema.Types.ObjectId,
+		ref: "Order",
+	},
+	// number of users who marked the review helpful, one vote each
 	likesCount: {
 		type: Number,
 		default: 0,
-	}
+	},
+	helpfulVotes: {
+		type: [mongoose.Schema.Types.ObjectId],
+		ref: "User",
+		default: [],
+		select: false,
+	},
+	replies: {
+		type: [reviewReplySchema],
+		default: [],
+	},
+	reports: {
+		type: [reviewReportSchema],
+		default: [],
+		select: false,
+	},
+	// hidden reviews are left out of listings and ratings
+	status: {
+		type: String,
+		enum: ["published", "hidden"],
+		default: "published",
+	},
+	// set by a new report, cleared when an admin hides or restores the review
+	needsModeration: {
+		type: Boolean,
+		default: false,
+	},
+	moderation: {
+		by: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+		at: { type: Date },
+		note: { type: String },
+	},
 }, {timestamps: true});
 
+// One review per buyer per product; buyers edit it instead of posting again.
+// Databases with older duplicates need `npm run dedupe-reviews` first
+reviewSchema.index({ user: 1, product: 1 }, { unique: true });
+reviewSchema.index({ needsModeration: 1, updatedAt: -1 });
+
 const Review = mongoose.model("Review", reviewSchema)
 
 export default Review
@@ -0,0 +1,84 @@
+import mongoose, { Schema } from "mongoose";
+
+export const SHIPPING_CLASSES = ["standard", "bulky", "oversized"] as const;
+export type ShippingClass = (typeof SHIPPING_CLASSES)[number];
+
+const distanceBandSchema = new Schema(
+	{
+		// the band covers distances up to this; null: everything further
+		upToKm: { type: Number, min: 0, default: null },
+		fee: { type: Number, min: 0, required: true },
+	},
+	{ _id: false }
+);
+
+// A flat fee for deliveries to the listed towns or counties
+const zoneSchema = new Schema(
+	{
+		name: { type: String, required: true, trim: true },
+		areas: { type: [String], default: [] },
+		fee: { type: Number, min: 0, required: true },
+	},
+	{ _id: false }
+);
+
+/**
+ * Shipping rates used by services/shipping.ts. A seller's own table wins;
+ * otherwise the platform table (no seller) that admins maintain applies.
+ */
+const shippingRateSchema = new Schema(
+	{
+		seller: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			default: null,
+		},
+		distanceBands: {
+			type: [distanceBandSchema],
+			default: [],
+		},
+		zones: {
+			type: [zoneSchema],
+			default: [],
+		},
+		// when neither a zone nor the distance is known
+		fallbackFee: {
+			type: Number,
+			min: 0,
+			default: 3000,
+		},
+		// weight above `includedKg` per shipment costs `perKgFee` a kilo
+		includedKg: {
+			type: Number,
+			min: 0,
+			default: 0,
+		},
+		perKgFee: {
+			type: Number,
+			min: 0,
+			default: 0,
+		},
+		// per unit of a bulky or oversized product
+		surcharges: {
+			bulky: { type: Number, min: 0, default: 0 },
+			oversized: { type: Number, min: 0, default: 0 },
+		},
+		// seller subtotal at which delivery is free; null: never
+		freeShippingThreshold: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		updatedBy: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+		},
+	},
+	{ timestamps: true }
+);
+
+// one table per seller, and a single platform table
+shippingRateSchema.index({ seller: 1 }, { unique: true });
+
+const ShippingRate = mongoose.model("ShippingRate", shippingRateSchema);
+export default ShippingRate;
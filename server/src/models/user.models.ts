@@ -17,7 +17,7 @@ const userSchema = new Schema(
     },
     role: {
       type: String,
-      enum: ["buyer", "seller"],
+      enum: ["buyer", "seller", "admin"],
       default: "buyer",
     },
     profilePic: {
@@ -34,6 +34,17 @@ const userSchema = new Schema(
       type: Boolean,
       default: false,
     },
+    // Expo push tokens of the devices the user is signed in on
+    pushTokens: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Bumped by "log out all devices" to invalidate outstanding access tokens
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
     // Location fields for sellers
     location: {
       city: {
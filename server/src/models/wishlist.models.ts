@@ -0,0 +1,52 @@
+import mongoose, { Schema } from "mongoose";
+
+// Saved products per buyer; more than this and they should buy something
+export const MAX_WISHLIST_ITEMS = 200;
+
+const wishlistItemSchema = new Schema(
+	{
+		product: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "Product",
+			required: true,
+		},
+		// the option the buyer had chosen, if the product comes in variants
+		variant: {
+			type: mongoose.Schema.Types.ObjectId,
+			default: null,
+		},
+		// what it cost when saved, so the list can show price changes
+		priceWhenAdded: {
+			type: Number,
+			min: 0,
+		},
+		addedAt: {
+			type: Date,
+			default: Date.now,
+		},
+	},
+	{ _id: false }
+);
+
+const wishlistSchema = new Schema(
+	{
+		user: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+			unique: true,
+		},
+		// one entry per product, newest first
+		items: {
+			type: [wishlistItemSchema],
+			default: [],
+		},
+	},
+	{ timestamps: true }
+);
+
+// who to tell when a product gets cheaper or comes back in stock
+wishlistSchema.index({ "items.product": 1 });
+
+const Wishlist = mongoose.model("Wishlist", wishlistSchema);
+export default Wishlist;
@@ -0,0 +1,21 @@
+import { Router } from "express";
+
+import {
+	createAddress,
+	deleteAddress,
+	getAddresses,
+	updateAddress,
+} from "../controllers/address.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate, requireRole("buyer"));
+
+router.get("/", getAddresses);
+router.post("/", validate(schemas.createAddress), createAddress);
+router.patch("/:id", validate(schemas.updateAddress), updateAddress);
+router.delete("/:id", deleteAddress);
+
+export default router;
@@ -2,17 +2,29 @@ import express from "express";
 import {
     approveUser,
     deleteUserById,
+    getAdminAuditLog,
     getAllUsers,
     toggleSuspendUser,
 } from "../controllers/user.controller";
+import {
+    getModerationQueue,
+    hideReview,
+    restoreReview,
+} from "../controllers/review.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
 
 const router = express.Router();
 
-// TODO: Add admin authentication middleware
+router.use(authenticate, requireRole("admin"));
 
 router.get("/users", getAllUsers);
 router.patch("/users/:id/approve", approveUser);
 router.patch("/users/:id/suspend", toggleSuspendUser);
 router.delete("/users/:id", deleteUserById);
+router.get("/audit-log", getAdminAuditLog);
+router.get("/reviews", getModerationQueue);
+router.patch("/reviews/:id/hide", validate(schemas.moderateReview), hideReview);
+router.patch("/reviews/:id/restore", validate(schemas.moderateReview), restoreReview);
 
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+
+import {
+	getDashboard,
+	getLowStock,
+	getProductSales,
+	getRevenue,
+	getSummary,
+	getTopCities,
+} from "../controllers/analytics.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validateQuery } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate, requireRole("seller", "admin"), validateQuery(schemas.analyticsQuery));
+
+router.get("/", getDashboard);
+router.get("/summary", getSummary);
+router.get("/revenue", getRevenue);
+router.get("/products", getProductSales);
+router.get("/cities", getTopCities);
+router.get("/low-stock", getLowStock);
+
+export default router;
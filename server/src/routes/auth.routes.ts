@@ -1,5 +1,12 @@
 import { Router } from "express";
-import { register, login, getUserProfile } from "../controllers/user.controller";
+import {
+	register,
+	login,
+	getUserProfile,
+	refreshSession,
+	logout,
+	logoutAllDevices,
+} from "../controllers/user.controller";
 import {schemas, validate} from "../middleware/validator"
 import { authenticate } from "../middleware/auth";
 
@@ -9,6 +16,9 @@ const router = Router()
 
 router.post("/register", validate(schemas.register), register)
 router.post("/login", validate(schemas.login), login)
+router.post("/refresh", validate(schemas.refreshToken), refreshSession)
+router.post("/logout", validate(schemas.refreshToken), logout)
+router.post("/logout-all", authenticate, logoutAllDevices)
 
 router.get("/profile/:id", authenticate, getUserProfile)
 
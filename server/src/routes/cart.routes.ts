@@ -1,6 +1,13 @@
 import { Router } from "express";
 
-import { addToCart, getItems, removeItem, updateCart } from "../controllers/cart.controller";
+import {
+  addToCart,
+  applyCoupon,
+  getItems,
+  removeCoupon,
+  removeItem,
+  updateCart,
+} from "../controllers/cart.controller";
 import { authenticate } from "../middleware/auth";
 import { schemas, validate } from "../middleware/validator";
 
@@ -9,6 +16,9 @@ const router = Router()
 
 router.get("/", authenticate,  getItems)
 router.post("/", authenticate, validate(schemas.addToCart), addToCart)
+// before /:id so "coupon" is not taken for a product id
+router.post("/coupon", authenticate, validate(schemas.applyCoupon), applyCoupon)
+router.delete("/coupon", authenticate, removeCoupon)
 router.put("/:id", authenticate,  updateCart)
 router.delete("/:id", authenticate, removeItem)
 
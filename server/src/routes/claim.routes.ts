@@ -0,0 +1,44 @@
+import { Router } from "express";
+
+import {
+	escalateClaim,
+	getClaim,
+	getClaims,
+	openClaim,
+	resolveClaim,
+	respondToClaim,
+	withdrawClaim,
+} from "../controllers/claim.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { claimPhotosUpload } from "../middleware/multer";
+import { schemas, validate, validateWithFile } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getClaims);
+router.get("/:id", getClaim);
+router.post(
+	"/",
+	requireRole("buyer"),
+	claimPhotosUpload,
+	validateWithFile(schemas.openClaim, false),
+	openClaim
+);
+router.patch(
+	"/:id/respond",
+	requireRole("seller"),
+	validate(schemas.claimDecision),
+	respondToClaim
+);
+router.patch("/:id/escalate", requireRole("buyer"), validate(schemas.claimNote), escalateClaim);
+router.patch("/:id/withdraw", requireRole("buyer"), validate(schemas.claimNote), withdrawClaim);
+router.patch(
+	"/:id/resolve",
+	requireRole("admin"),
+	validate(schemas.claimDecision),
+	resolveClaim
+);
+
+export default router;
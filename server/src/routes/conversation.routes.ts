@@ -0,0 +1,25 @@
+import { Router } from "express";
+
+import {
+	getConversation,
+	getConversations,
+	getMessages,
+	markConversationAsRead,
+	openConversation,
+	sendMessage,
+} from "../controllers/conversation.controller";
+import { authenticate } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getConversations);
+router.post("/", validate(schemas.openConversation), openConversation);
+router.get("/:id", getConversation);
+router.get("/:id/messages", getMessages);
+router.post("/:id/messages", validate(schemas.chatMessage), sendMessage);
+router.patch("/:id/read", markConversationAsRead);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+
+import {
+	createCoupon,
+	getCoupons,
+	updateCoupon,
+} from "../controllers/coupon.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate, requireRole("seller", "admin"));
+
+router.get("/", getCoupons);
+router.post("/", validate(schemas.createCoupon), createCoupon);
+router.patch("/:id", validate(schemas.updateCoupon), updateCoupon);
+
+export default router;
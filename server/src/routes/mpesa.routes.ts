@@ -1,5 +1,7 @@
 import { Router } from "express";
+import { b2cResult, b2cTimeout } from "../controllers/refund.controller";
 import { authenticate } from "../middleware/auth";
+import { verifyMpesaCallback } from "../middleware/mpesaCallback";
 import { callBack } from "../services/callback";
 import { mpesaController } from "../services/mpesa.controller";
 
@@ -8,5 +10,12 @@ const router = Router();
 // poll transaction + order (if created)
 router.get("/transaction/:id", authenticate, mpesaController.getTransaction);
 router.get("/transactions", mpesaController.getTransactions);
-router.post("/callback", callBack);
+// With MPESA_CALLBACK_TOKEN set only the tokenised path is accepted
+router.post("/callback", verifyMpesaCallback, callBack);
+router.post("/callback/:token", verifyMpesaCallback, callBack);
+// B2C refund payouts report back next to the STK callback
+router.post("/b2c/result", verifyMpesaCallback, b2cResult);
+router.post("/b2c/result/:token", verifyMpesaCallback, b2cResult);
+router.post("/b2c/timeout", verifyMpesaCallback, b2cTimeout);
+router.post("/b2c/timeout/:token", verifyMpesaCallback, b2cTimeout);
 export default router;
@@ -0,0 +1,23 @@
+import { Router } from "express";
+
+import {
+	getNotifications,
+	markAllNotificationsRead,
+	markNotificationRead,
+	registerPushToken,
+	unregisterPushToken,
+} from "../controllers/notification.controller";
+import { authenticate } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getNotifications);
+router.patch("/read-all", markAllNotificationsRead);
+router.patch("/:id/read", markNotificationRead);
+router.post("/push-token", validate(schemas.pushToken), registerPushToken);
+router.delete("/push-token", validate(schemas.pushToken), unregisterPushToken);
+
+export default router;
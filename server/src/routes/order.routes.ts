@@ -39,7 +39,12 @@ router.post(
 // keep but disabled (returns 405)
 router.post("/", authenticate, validate(schemas.makeOrder), makeOrder);
 
-router.put("/:id", authenticate, updateStatus);
+router.put(
+  "/:id",
+  authenticate,
+  validate(schemas.updateOrderStatus),
+  updateStatus,
+);
 router.put("/cancel/:id", authenticate, cancelOrder);
 
 export default router;
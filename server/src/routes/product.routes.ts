@@ -2,29 +2,38 @@ import { Router } from "express";
 
 import {
 	addProduct,
+	addProductImages,
+	arrangeProductImages,
 	deleteProduct,
+	deleteProductImage,
 	getListingsBySeller,
 	getProduct,
 	getProducts,
 	updateProduct,
 	updateStock
 } from "../controllers/product.controller";
-import { authenticate } from "../middleware/auth";
-import { multerUpload } from "../middleware/multer";
-import { schemas, validateWithFile } from "../middleware/validator";
+import { authenticate, requireApprovedSeller } from "../middleware/auth";
+import { productImagesUpload } from "../middleware/multer";
+import {
+	schemas,
+	validate,
+	validateQuery,
+	validateWithFile,
+} from "../middleware/validator";
 
 const router = Router();
 
 router.get("/listing/:sellerId", getListingsBySeller)
 
-router.get("/",  getProducts);
+router.get("/", validateQuery(schemas.productQuery), getProducts);
 router.get("/:id", getProduct);
 
 
 router.post(
 	"/",
 	authenticate,
-	multerUpload.single("image"),
+	requireApprovedSeller,
+	productImagesUpload,
 	validateWithFile(schemas.addProduct, false),
 	addProduct
 );
@@ -32,12 +41,43 @@ router.post(
 router.put(
 	"/:id",
 	authenticate,
-	multerUpload.single("image"),
+	requireApprovedSeller,
+	productImagesUpload,
 	validateWithFile(schemas.updateProduct, false),
 	updateProduct
 );
 
-router.put("/:id/stock", updateStock)
-router.delete("/:id", authenticate, deleteProduct)
+// Gallery: upload more, reorder / pick the cover, delete one
+router.post(
+	"/:id/images",
+	authenticate,
+	requireApprovedSeller,
+	productImagesUpload,
+	validateWithFile(schemas.uploadProductImages),
+	addProductImages
+);
+router.put(
+	"/:id/images",
+	authenticate,
+	requireApprovedSeller,
+	validate(schemas.arrangeProductImages),
+	arrangeProductImages
+);
+router.delete(
+	"/:id/images",
+	authenticate,
+	requireApprovedSeller,
+	validateQuery(schemas.productImageQuery),
+	deleteProductImage
+);
+
+router.put(
+	"/:id/stock",
+	authenticate,
+	requireApprovedSeller,
+	validate(schemas.updateStock),
+	updateStock
+);
+router.delete("/:id", authenticate, requireApprovedSeller, deleteProduct)
 
 export default router
\ No newline at end of file
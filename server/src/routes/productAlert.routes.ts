@@ -0,0 +1,19 @@
+import { Router } from "express";
+
+import {
+	getProductAlerts,
+	subscribeToProduct,
+	unsubscribeFromProduct,
+} from "../controllers/productAlert.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate, requireRole("buyer"));
+
+router.get("/", getProductAlerts);
+router.post("/", validate(schemas.productAlert), subscribeToProduct);
+router.delete("/:productId", unsubscribeFromProduct);
+
+export default router;
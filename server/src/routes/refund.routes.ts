@@ -0,0 +1,28 @@
+import { Router } from "express";
+
+import {
+	approveRefund,
+	getRefund,
+	getRefunds,
+	requestRefund,
+	reviewRefund,
+} from "../controllers/refund.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getRefunds);
+router.get("/:id", getRefund);
+router.post("/", requireRole("buyer"), validate(schemas.requestRefund), requestRefund);
+router.patch("/:id/approve", requireRole("seller", "admin"), approveRefund);
+router.patch(
+	"/:id/review",
+	requireRole("admin"),
+	validate(schemas.reviewRefund),
+	reviewRefund
+);
+
+export default router;
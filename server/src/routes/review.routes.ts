@@ -1,9 +1,15 @@
 import { Router } from "express";
 import {
 	leaveReview,
+	updateReview,
+	getMyReview,
 	getReviews,
 	getReviewsByProduct,
 	getReviewsBySeller,
+	markReviewHelpful,
+	unmarkReviewHelpful,
+	replyToReview,
+	reportReview,
 } from "../controllers/review.controller";
 import { authenticate } from "../middleware/auth";
 import { validate, schemas } from "../middleware/validator";
@@ -14,6 +20,12 @@ const router = Router();
 router.get("/seller/:sellerId", getReviewsBySeller);
 
 router.post("/", authenticate, validate(schemas.leaveReview), leaveReview);
+router.put("/:id", authenticate, validate(schemas.updateReview), updateReview);
+router.get("/mine/:product", authenticate, getMyReview);
+router.post("/:id/helpful", authenticate, markReviewHelpful);
+router.delete("/:id/helpful", authenticate, unmarkReviewHelpful);
+router.post("/:id/replies", authenticate, validate(schemas.reviewReply), replyToReview);
+router.post("/:id/report", authenticate, validate(schemas.reportReview), reportReview);
 router.get("/:id", getReviewsByProduct);
 
 export default router;
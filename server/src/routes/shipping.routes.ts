@@ -0,0 +1,38 @@
+import { Router } from "express";
+
+import {
+	deleteSellerRates,
+	getDefaultRates,
+	getSellerRates,
+	updateDefaultRates,
+	updateSellerRates,
+} from "../controllers/shipping.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/rates/default", getDefaultRates);
+router.put(
+	"/rates/default",
+	requireRole("admin"),
+	validate(schemas.shippingRates),
+	updateDefaultRates
+);
+
+router.get("/rates/sellers/:sellerId", requireRole("seller", "admin"), getSellerRates);
+router.put(
+	"/rates/sellers/:sellerId",
+	requireRole("seller", "admin"),
+	validate(schemas.shippingRates),
+	updateSellerRates
+);
+router.delete(
+	"/rates/sellers/:sellerId",
+	requireRole("seller", "admin"),
+	deleteSellerRates
+);
+
+export default router;
@@ -1,12 +1,19 @@
 import { Router } from "express";
+import { authenticate, requireRole } from "../middleware/auth";
 import Cart from "../models/cart.models";
+import Checkout from "../models/checkout.models";
 import MpesaTransaction from "../models/mpesa.models";
 import Order from "../models/orde.models";
 import Product from "../models/product.models";
+import { getTransactionOrderIds } from "../services/callback";
+import { commitReservation } from "../services/reservation";
 import { logger } from "../utils/logger";
 
 const router = Router();
 
+// Marks payments complete without M-Pesa, so admins only even in test mode
+router.use(authenticate, requireRole("admin"));
+
 const resolveCallbackUrl = () => {
   const explicit = process.env.MPESA_CALLBACK_URL?.trim();
   if (explicit) return explicit;
@@ -49,26 +56,37 @@ router.post("/manual-callback/:transactionId", async (req, res) => {
       `✅ Stock was already reduced when payment was initiated - updating existing order`,
     );
 
-    // Find the order that was created during payment initiation
-    const orderId = tx.order || meta.orderId;
-    if (!orderId) {
+    // Find the orders that were created during payment initiation
+    const orderIds = getTransactionOrderIds(tx);
+    if (orderIds.length === 0) {
       logger.error("❌ No order ID found in transaction");
       return res
         .status(400)
         .json({ message: "Order ID not found in transaction" });
     }
 
-    const order = await Order.findById(orderId);
-    if (!order) {
-      logger.error(`❌ Order ${orderId} not found`);
+    const orders = await Order.find({ _id: { $in: orderIds } });
+    if (orders.length === 0) {
+      logger.error(`❌ Orders ${orderIds.join(", ")} not found`);
       return res.status(404).json({ message: "Order not found" });
     }
 
+    await commitReservation(tx._id);
+
     // Update order payment status to paid
-    order.paymentStatus = "paid";
-    order.mpesaReceiptNumber = `TEST-${Date.now()}`;
-    order.mpesaCheckoutRequestID = tx.checkoutRequestId || null;
-    await order.save();
+    const receipt = `TEST-${Date.now()}`;
+    for (const order of orders) {
+      order.paymentStatus = "paid";
+      order.mpesaReceiptNumber = receipt;
+      order.mpesaCheckoutRequestID = tx.checkoutRequestId || null;
+      await order.save();
+    }
+    if (tx.checkout) {
+      await Checkout.findByIdAndUpdate(tx.checkout, {
+        paymentStatus: "paid",
+        mpesaReceiptNumber: receipt,
+      });
+    }
 
     // Clear user's cart after successful payment
     await Cart.findOneAndDelete({ user: meta.buyerId });
@@ -77,17 +95,18 @@ router.post("/manual-callback/:transactionId", async (req, res) => {
     tx.status = "success";
     tx.resultCode = 0;
     tx.resultDesc = "Manual callback - payment successful";
-    tx.mpesaReceiptNumber = `TEST-${Date.now()}`;
+    tx.mpesaReceiptNumber = receipt;
     await tx.save();
 
     logger.info(
-      `✅ ORDER UPDATED (MANUAL): ${order.orderNumber} | Status: paid`,
+      `✅ ORDER UPDATED (MANUAL): ${orders.map((o) => o.orderNumber).join(", ")} | Status: paid`,
     );
 
     return res.status(200).json({
       success: true,
       message: "Manual callback processed successfully",
-      order,
+      order: orders[0],
+      orders,
       transaction: tx,
     });
   } catch (error: any) {
@@ -108,6 +127,8 @@ router.get("/callback-info", (req, res) => {
     baseUrl,
     mpesaCallbackEnv: process.env.MPESA_CALLBACK_URL || null,
     callbackUrl,
+    // the token itself is never echoed back
+    callbackTokenRequired: Boolean(process.env.MPESA_CALLBACK_TOKEN?.trim()),
     message: "This is the callback URL that M-Pesa will call",
     note: "Make sure this URL is accessible from the internet (use ngrok for local testing)",
   });
@@ -6,16 +6,16 @@ import {
     toggleSuspendUser,
     updateSellerLocation,
 } from "../controllers/user.controller";
-import { authenticate } from "../middleware/auth";
+import { authenticate, requireRole } from "../middleware/auth";
 
 const router = express.Router();
 
-// TODO: Add admin authentication middleware
+const adminOnly = [authenticate, requireRole("admin")];
 
-router.get("/users", getAllUsers);
-router.patch("/users/:id/approve", approveUser);
-router.patch("/users/:id/suspend", toggleSuspendUser);
-router.delete("/users/:id", deleteUserById);
+router.get("/users", adminOnly, getAllUsers);
+router.patch("/users/:id/approve", adminOnly, approveUser);
+router.patch("/users/:id/suspend", adminOnly, toggleSuspendUser);
+router.delete("/users/:id", adminOnly, deleteUserById);
 
 // Seller: Update location
 router.patch("/location", authenticate, updateSellerLocation);
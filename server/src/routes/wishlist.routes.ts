@@ -0,0 +1,28 @@
+import { Router } from "express";
+
+import { addToCart } from "../controllers/cart.controller";
+import {
+	addToWishlist,
+	getWishlist,
+	prepareMoveToCart,
+	removeFromWishlist,
+} from "../controllers/wishlist.controller";
+import { authenticate, requireRole } from "../middleware/auth";
+import { schemas, validate } from "../middleware/validator";
+
+const router = Router();
+
+router.use(authenticate, requireRole("buyer"));
+
+router.get("/", getWishlist);
+router.post("/", validate(schemas.addToWishlist), addToWishlist);
+router.delete("/:productId", removeFromWishlist);
+// the cart controller does the adding; the entry is dropped once it succeeds
+router.post(
+	"/:productId/move-to-cart",
+	validate(schemas.moveToCart),
+	prepareMoveToCart,
+	addToCart
+);
+
+export default router;
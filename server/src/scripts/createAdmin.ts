@@ -0,0 +1,51 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import bcrypt from "bcryptjs";
+import mongoose from "mongoose";
+
+import { connectDB } from "../config/db";
+import User from "../models/user.models";
+import { logger } from "../utils/logger";
+
+/**
+ * Create (or promote) an admin account. Admins cannot self-register, so the
+ * first one has to be bootstrapped from the command line:
+ *
+ *   npm run create-admin -- admin@example.com "s3cret-pass" "Jane Admin"
+ */
+const run = async () => {
+	const [email, password, fullName = "Administrator"] = process.argv.slice(2);
+	if (!email || !password) {
+		logger.error("Usage: npm run create-admin -- <email> <password> [fullName]");
+		process.exit(1);
+	}
+
+	await connectDB();
+
+	const hashedPassword = await bcrypt.hash(password, 10);
+	const existing = await User.findOne({ email });
+	if (existing) {
+		existing.role = "admin";
+		existing.isApproved = true;
+		existing.password = hashedPassword;
+		await existing.save();
+		logger.info(`✅ Promoted ${email} to admin`);
+	} else {
+		await User.create({
+			fullName,
+			email,
+			password: hashedPassword,
+			role: "admin",
+			isApproved: true,
+		});
+		logger.info(`✅ Created admin ${email}`);
+	}
+
+	await mongoose.disconnect();
+};
+
+run().catch((err) => {
+	logger.error("Failed to create admin", err);
+	process.exit(1);
+});
@@ -0,0 +1,38 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { startDarajaEmulator } from "../services/darajaEmulator";
+import { logger } from "../utils/logger";
+
+/**
+ * Run the Daraja emulator on its own for local development:
+ *
+ *   npm run daraja                 # then MPESA_BASE_URL=http://127.0.0.1:4010
+ *
+ * Outcomes are scripted over HTTP, for example the next STK push cancelled:
+ *
+ *   curl -X POST localhost:4010/emulator/script -H "Content-Type: application/json" \
+ *     -d '{"api":"stk","steps":[{"outcome":"fail","resultCode":1032}]}'
+ */
+const run = async () => {
+	const emulator = await startDarajaEmulator({
+		port: Number(process.env.DARAJA_EMULATOR_PORT || 4010),
+		consumerKey: process.env.CONSUMER_KEY,
+		consumerSecret: process.env.CONSUMER_SECRET,
+		passKey: process.env.PASS_KEY,
+		callbackDelayMs: Number(process.env.DARAJA_EMULATOR_DELAY_MS || 2000),
+	});
+	logger.info(`🧪 Daraja emulator listening on ${emulator.url}`);
+	logger.info(`🧪 Set MPESA_BASE_URL=${emulator.url} for the API server`);
+
+	const stop = () => {
+		emulator.close().finally(() => process.exit(0));
+	};
+	process.on("SIGINT", stop);
+	process.on("SIGTERM", stop);
+};
+
+run().catch((err) => {
+	logger.error("Daraja emulator failed to start", err);
+	process.exit(1);
+});
@@ -0,0 +1,58 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+
+import { connectDB } from "../config/db";
+import Review from "../models/reviews.models";
+import { refreshProductRating } from "../services/rating";
+import { logger } from "../utils/logger";
+
+/**
+ * Reviews allow one per buyer per product, but older databases can hold
+ * several, and the unique index cannot be built over them. Keep each
+ * buyer's latest review of a product, delete the rest, recount the ratings
+ * of the products involved and build the index:
+ *
+ *   npm run dedupe-reviews
+ */
+const run = async () => {
+	await connectDB();
+
+	const duplicates = await Review.aggregate<{
+		product: mongoose.Types.ObjectId;
+		ids: mongoose.Types.ObjectId[];
+	}>([
+		{ $sort: { updatedAt: -1, _id: -1 } },
+		{
+			$group: {
+				_id: { user: "$user", product: "$product" },
+				ids: { $push: "$_id" },
+				count: { $sum: 1 },
+			},
+		},
+		{ $match: { count: { $gt: 1 } } },
+		{ $project: { _id: 0, product: "$_id.product", ids: 1 } },
+	]).allowDiskUse(true);
+
+	let removed = 0;
+	for (const { product, ids } of duplicates) {
+		// the first id is the latest review, which is kept
+		const { deletedCount } = await Review.deleteMany({ _id: { $in: ids.slice(1) } });
+		removed += deletedCount;
+		await refreshProductRating(product);
+	}
+	logger.info(
+		`✅ Removed ${removed} older review(s) across ${duplicates.length} buyer/product pair(s)`
+	);
+
+	await Review.syncIndexes();
+	logger.info("✅ Review indexes are in place");
+
+	await mongoose.disconnect();
+};
+
+run().catch((err) => {
+	logger.error("Failed to dedupe reviews", err);
+	process.exit(1);
+});
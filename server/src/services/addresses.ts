@@ -0,0 +1,35 @@
+import Address from "../models/address.models";
+
+type SavedAddress = {
+	_id: unknown;
+	label?: string | null;
+	recipientName: string;
+	phone: string;
+	county?: string | null;
+	town: string;
+	addressLine?: string | null;
+	landmark?: string | null;
+	latitude?: number | null;
+	longitude?: number | null;
+};
+
+/** The buyer's default address, else the one they touched last. */
+export const defaultAddressOf = (userId: unknown) =>
+	Address.findOne({ user: userId }).sort({ isDefault: -1, updatedAt: -1 });
+
+/**
+ * A saved address as copied onto an order. `city` and `address` keep the
+ * old free-text fields filled for sellers' screens that read them.
+ */
+export const toShippingInfo = (address: SavedAddress) => ({
+	addressId: address._id,
+	label: address.label ?? null,
+	recipientName: address.recipientName,
+	phone: address.phone,
+	county: address.county ?? null,
+	city: address.town,
+	address: address.addressLine ?? "",
+	landmark: address.landmark ?? "",
+	latitude: address.latitude ?? null,
+	longitude: address.longitude ?? null,
+});
@@ -0,0 +1,46 @@
+import { Request } from "express";
+
+import AdminAudit from "../models/adminAudit.models";
+import { logger } from "../utils/logger";
+
+export type AdminAction =
+	| "approve_user"
+	| "suspend_user"
+	| "reactivate_user"
+	| "delete_user"
+	| "hide_review"
+	| "restore_review";
+
+// What an action was taken on; `email` is a readable snapshot of the user
+export type AuditTarget = {
+	user?: unknown;
+	email?: string | null;
+	review?: unknown;
+};
+
+// Audit failures are logged but never block the admin action itself
+export const recordAdminAction = async (
+	req: Request,
+	action: AdminAction,
+	target: AuditTarget,
+	changes: Record<string, unknown>
+) => {
+	try {
+		await AdminAudit.create({
+			admin: req.user?.id,
+			action,
+			targetUser: target.user,
+			targetEmail: target.email ?? undefined,
+			targetReview: target.review,
+			changes,
+			ip: req.ip,
+		});
+		logger.info(
+			`🛡️ Admin ${req.user?.email} performed ${action} on ${
+				target.email ?? target.review
+			}`
+		);
+	} catch (err) {
+		logger.error("Failed to record admin action", err);
+	}
+};
@@ -0,0 +1,327 @@
+import { PipelineStage, Types } from "mongoose";
+
+import MpesaTransaction from "../models/mpesa.models";
+import Order from "../models/orde.models";
+import Product from "../models/product.models";
+import Refund from "../models/refund.models";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Kenya keeps East Africa Time all year, so sales are bucketed by local
+// day with a fixed offset
+const TIMEZONE = "+03:00";
+const TIMEZONE_OFFSET = 3 * HOUR;
+
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+export const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+// Products at or below this many units (or with a variant that is) need restocking
+export const lowStockThreshold = () => Number(process.env.LOW_STOCK_THRESHOLD || 5);
+
+// Orders the buyer paid for; money sent back is reported as `refunded`
+const PAID = ["paid", "partially_refunded", "refunded"];
+// Paid orders whose goods did not stay with the buyer
+const NOT_SOLD = ["cancelled", "returned"];
+
+// An STK prompt is answered within minutes of the order being placed, so
+// orders paid inside a range were placed at most this long before it
+const PAYMENT_LAG = DAY;
+
+export type DateRange = { from: Date; to: Date };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The range a request asks for, from `from` up to but not including `to`.
+ * Plain dates are Kenyan days and a plain `to` includes its whole day.
+ * Defaults to the 30 days before `to`, and `to` to now.
+ * @returns null when a bound is not a date, or the range is empty or too long
+ */
+export const parseRange = (
+	from: unknown,
+	to: unknown,
+	now: Date = new Date()
+): DateRange | null => {
+	const bound = (value: unknown, endOfDay: boolean) => {
+		if (typeof value !== "string") return null;
+		if (!DATE_ONLY.test(value)) return new Date(value);
+		const start = new Date(`${value}T00:00:00${TIMEZONE}`);
+		return endOfDay ? new Date(start.getTime() + DAY) : start;
+	};
+
+	const end = to === undefined ? now : bound(to, true);
+	const start =
+		from === undefined
+			? end && new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY)
+			: bound(from, false);
+	if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+	const length = end.getTime() - start.getTime();
+	if (length <= 0 || length > MAX_RANGE_DAYS * DAY) return null;
+	return { from: start, to: end };
+};
+
+// Start of the Kenyan day, Monday-based week or month containing `date`
+const bucketStart = (date: Date, interval: AnalyticsInterval) => {
+	const local = new Date(date.getTime() + TIMEZONE_OFFSET);
+	local.setUTCHours(0, 0, 0, 0);
+	if (interval === "week") local.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7));
+	if (interval === "month") local.setUTCDate(1);
+	return new Date(local.getTime() - TIMEZONE_OFFSET);
+};
+
+const nextBucket = (start: Date, interval: AnalyticsInterval) => {
+	const local = new Date(start.getTime() + TIMEZONE_OFFSET);
+	if (interval === "month") local.setUTCMonth(local.getUTCMonth() + 1);
+	else local.setUTCDate(local.getUTCDate() + (interval === "week" ? 7 : 1));
+	return new Date(local.getTime() - TIMEZONE_OFFSET);
+};
+
+// Shillings to the cent; coupon shares can leave order totals fractional
+const money = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The seller's paid orders with `paidAt`, when M-Pesa confirmed the
+ * payment, inside the range. Orders paid before transactions listed their
+ * orders fall back to when they were placed.
+ */
+const paidOrders = (seller: Types.ObjectId, { from, to }: DateRange): PipelineStage[] => [
+	{
+		$match: {
+			seller,
+			paymentStatus: { $in: PAID },
+			createdAt: { $gte: new Date(from.getTime() - PAYMENT_LAG), $lt: to },
+		},
+	},
+	{
+		$lookup: {
+			from: MpesaTransaction.collection.name,
+			localField: "_id",
+			foreignField: "orders",
+			pipeline: [{ $match: { status: "success" } }, { $project: { updatedAt: 1 } }],
+			as: "payment",
+		},
+	},
+	{ $set: { paidAt: { $ifNull: [{ $first: "$payment.updatedAt" }, "$createdAt"] } } },
+	{ $match: { paidAt: { $gte: from, $lt: to } } },
+];
+
+export type SalesSummary = {
+	revenue: number;
+	refunded: number;
+	netRevenue: number;
+	paidOrders: number;
+	averageOrderValue: number;
+	unitsSold: number;
+	cancelledOrders: number;
+	// share of the paid orders that were cancelled, 0 to 1
+	cancellationRate: number;
+};
+
+/**
+ * Money in and out over the range. Revenue counts every order paid in it,
+ * including ones later cancelled or returned; what went back to buyers is
+ * `refunded`, by when the payout completed.
+ */
+export const salesSummary = async (
+	seller: Types.ObjectId,
+	range: DateRange
+): Promise<SalesSummary> => {
+	const [[paid], [refunds]] = await Promise.all([
+		Order.aggregate<{ revenue: number; orders: number; units: number; cancelled: number }>([
+			...paidOrders(seller, range),
+			{
+				$group: {
+					_id: null,
+					revenue: { $sum: "$total" },
+					orders: { $sum: 1 },
+					units: {
+						$sum: { $cond: [{ $in: ["$status", NOT_SOLD] }, 0, { $sum: "$items.quantity" }] },
+					},
+					cancelled: { $sum: { $cond: [{ $eq: ["$status", "cancelled"] }, 1, 0] } },
+				},
+			},
+		]),
+		Refund.aggregate<{ amount: number }>([
+			{
+				$match: {
+					seller,
+					status: "completed",
+					completedAt: { $gte: range.from, $lt: range.to },
+				},
+			},
+			{ $group: { _id: null, amount: { $sum: "$amount" } } },
+		]),
+	]);
+
+	const revenue = money(paid?.revenue ?? 0);
+	const refunded = money(refunds?.amount ?? 0);
+	const orders = paid?.orders ?? 0;
+	const cancelled = paid?.cancelled ?? 0;
+	return {
+		revenue,
+		refunded,
+		netRevenue: money(revenue - refunded),
+		paidOrders: orders,
+		averageOrderValue: orders ? money(revenue / orders) : 0,
+		unitsSold: paid?.units ?? 0,
+		cancelledOrders: cancelled,
+		cancellationRate: orders ? Math.round((cancelled / orders) * 1000) / 1000 : 0,
+	};
+};
+
+export type RevenuePoint = { start: Date; revenue: number; orders: number };
+
+// Revenue and paid orders per day, week or month, with empty buckets as zeros
+export const revenueSeries = async (
+	seller: Types.ObjectId,
+	range: DateRange,
+	interval: AnalyticsInterval
+): Promise<RevenuePoint[]> => {
+	const rows = await Order.aggregate<{ _id: Date; revenue: number; orders: number }>([
+		...paidOrders(seller, range),
+		{
+			$group: {
+				_id: {
+					$dateTrunc: {
+						date: "$paidAt",
+						unit: interval,
+						timezone: TIMEZONE,
+						startOfWeek: "monday",
+					},
+				},
+				revenue: { $sum: "$total" },
+				orders: { $sum: 1 },
+			},
+		},
+	]);
+	const byStart = new Map(rows.map((row) => [row._id.getTime(), row]));
+
+	const series: RevenuePoint[] = [];
+	for (
+		let start = bucketStart(range.from, interval);
+		start < range.to;
+		start = nextBucket(start, interval)
+	) {
+		const row = byStart.get(start.getTime());
+		series.push({ start, revenue: money(row?.revenue ?? 0), orders: row?.orders ?? 0 });
+	}
+	return series;
+};
+
+export type ProductSales = {
+	product: Types.ObjectId;
+	name: string | null;
+	image: string | null;
+	units: number;
+	revenue: number;
+};
+
+// Best sellers by units, from paid orders the buyer kept
+export const productSales = async (
+	seller: Types.ObjectId,
+	range: DateRange,
+	limit: number
+): Promise<ProductSales[]> => {
+	const rows = await Order.aggregate<ProductSales>([
+		...paidOrders(seller, range),
+		{ $match: { status: { $nin: NOT_SOLD } } },
+		{ $unwind: "$items" },
+		{
+			$group: {
+				_id: "$items.product",
+				name: { $last: "$items.name" },
+				units: { $sum: "$items.quantity" },
+				revenue: { $sum: { $multiply: ["$items.price", "$items.quantity"] } },
+			},
+		},
+		{ $sort: { units: -1, revenue: -1 } },
+		{ $limit: limit },
+		{
+			$lookup: {
+				from: Product.collection.name,
+				localField: "_id",
+				foreignField: "_id",
+				pipeline: [{ $project: { name: 1, image: 1 } }],
+				as: "current",
+			},
+		},
+		{
+			$project: {
+				_id: 0,
+				product: "$_id",
+				// the current name, or the one on the order if the product is gone
+				name: { $ifNull: [{ $first: "$current.name" }, "$name", null] },
+				image: { $ifNull: [{ $first: "$current.image" }, null] },
+				units: 1,
+				revenue: 1,
+			},
+		},
+	]);
+	return rows.map((row) => ({ ...row, revenue: money(row.revenue) }));
+};
+
+export type CitySales = { city: string; orders: number; revenue: number };
+
+// Where paying buyers had their orders delivered, busiest town first
+export const topCities = async (
+	seller: Types.ObjectId,
+	range: DateRange,
+	limit: number
+): Promise<CitySales[]> => {
+	const rows = await Order.aggregate<CitySales>([
+		...paidOrders(seller, range),
+		{ $set: { city: { $trim: { input: { $ifNull: ["$shippingInfo.city", ""] } } } } },
+		{ $match: { city: { $ne: "" } } },
+		{
+			// "nairobi" and "Nairobi " are the same town
+			$group: {
+				_id: { $toLower: "$city" },
+				city: { $first: "$city" },
+				orders: { $sum: 1 },
+				revenue: { $sum: "$total" },
+			},
+		},
+		{ $sort: { orders: -1, revenue: -1 } },
+		{ $limit: limit },
+		{ $project: { _id: 0, city: 1, orders: 1, revenue: 1 } },
+	]);
+	return rows.map((row) => ({ ...row, revenue: money(row.revenue) }));
+};
+
+export type LowStockProduct = {
+	_id: Types.ObjectId;
+	name: string;
+	image: string | null;
+	stock: number;
+	// only the variants that are low
+	variants: { _id: Types.ObjectId; sku: string; stock: number }[];
+};
+
+// The seller's products that are running out, emptiest first
+export const lowStockProducts = async (
+	seller: Types.ObjectId,
+	threshold: number
+): Promise<LowStockProduct[]> => {
+	const products = await Product.find({
+		seller,
+		$or: [{ stock: { $lte: threshold } }, { "variants.stock": { $lte: threshold } }],
+	})
+		.select("name image stock variants._id variants.sku variants.stock")
+		.sort({ stock: 1 })
+		.limit(100)
+		.lean();
+
+	return products.map((product) => ({
+		_id: product._id,
+		name: product.name,
+		image: product.image ?? null,
+		stock: product.stock,
+		variants: product.variants
+			.filter((variant) => variant.stock <= threshold)
+			.map(({ _id, sku, stock }) => ({ _id, sku, stock })),
+	}));
+};
@@ -1,10 +1,58 @@
 import { Request, Response } from "express";
 
 import Cart from "../models/cart.models";
+import Checkout from "../models/checkout.models";
+import MpesaCallback from "../models/mpesaCallback.models";
 import MpesaTransaction from "../models/mpesa.models";
 import Order from "../models/orde.models";
-import Product from "../models/product.models";
 import { logger } from "../utils/logger";
+import { toStkAmount } from "./mpesa.controller";
+import { notifyPaymentReceived } from "./notifications";
+import { refundPaidAfterCancel } from "./refunds";
+import {
+  commitReservation,
+  releaseReservation,
+  restoreStock,
+} from "./reservation";
+
+type CallbackResult = {
+  status: "processed" | "ignored" | "rejected";
+  outcome: string;
+  message: string;
+  reason?: string;
+  transaction?: unknown;
+};
+
+/**
+ * Store the delivery in the inbox and claim it for processing. Returns null
+ * when this CheckoutRequestID has already been (or is being) processed.
+ */
+const recordCallback = async (stk: any, body: unknown, sourceIp: string) => {
+  const checkoutRequestId = String(stk.CheckoutRequestID);
+  try {
+    await MpesaCallback.create({
+      checkoutRequestId,
+      merchantRequestId: stk.MerchantRequestID ?? null,
+      resultCode: stk.ResultCode ?? null,
+      resultDesc: stk.ResultDesc ?? null,
+      payload: body,
+      sourceIp,
+    });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    // Redelivery: keep the original payload, just count it
+    await MpesaCallback.updateOne(
+      { checkoutRequestId },
+      { $inc: { deliveries: 1 }, $set: { lastDeliveryAt: new Date() } },
+    );
+  }
+
+  return MpesaCallback.findOneAndUpdate(
+    { checkoutRequestId, status: "received" },
+    { $set: { status: "processing" } },
+    { new: true },
+  );
+};
 
 export const callBack = async (req: Request, res: Response) => {
   try {
@@ -17,208 +65,339 @@ export const callBack = async (req: Request, res: Response) => {
     logger.info("Body keys:", Object.keys(req.body || {}));
     logger.info("=== END DEBUG INFO ===");
 
-    const body = req.body;
-    const stk = body?.Body?.stkCallback;
+    const stk = req.body?.Body?.stkCallback;
     if (!stk?.CheckoutRequestID) {
       return res.status(400).json({ error: "Invalid callback format" });
     }
 
-    const resultCode = stk.ResultCode;
-    const resultDesc = stk.ResultDesc;
-    const checkoutRequestId = stk.CheckoutRequestID;
-    const merchantRequestId = stk.MerchantRequestID;
-
-    let amount = 0;
-    let phoneNumber = "Unknown";
-    let mpesaReceiptNumber = "";
-    let transactionDate = "";
-
-    if (resultCode === 0 && stk.CallbackMetadata?.Item) {
-      for (const item of stk.CallbackMetadata.Item) {
-        switch (item.Name) {
-          case "Amount":
-            amount = parseFloat(item.Value);
-            break;
-          case "PhoneNumber":
-            phoneNumber = String(item.Value);
-            break;
-          case "MpesaReceiptNumber":
-            mpesaReceiptNumber = String(item.Value);
-            break;
-          case "TransactionDate":
-            transactionDate = String(item.Value);
-            break;
-        }
-      }
-    }
-
-    // Find existing transaction created during initiate-payment
-    let tx = await MpesaTransaction.findOne({ checkoutRequestId });
-    if (!tx && merchantRequestId) {
-      tx = await MpesaTransaction.findOne({ merchantRequestId });
-    }
-    if (!tx) {
+    const entry = await recordCallback(
+      stk,
+      req.body,
+      (req.ip || "").replace(/^::ffff:/, ""),
+    );
+    if (!entry) {
       logger.warn(
-        `⚠️ Transaction not found for CheckoutRequestID: ${checkoutRequestId}`,
-      );
-      // Log all recent transactions for debugging
-      const recentTx = await MpesaTransaction.find({})
-        .sort({ createdAt: -1 })
-        .limit(5);
-      logger.info(
-        `Recent transactions:`,
-        recentTx.map((t) => ({
-          id: t._id,
-          checkoutRequestId: t.checkoutRequestId,
-          merchantRequestId: t.merchantRequestId,
-          status: t.status,
-        })),
+        `🔁 Duplicate callback for CheckoutRequestID ${stk.CheckoutRequestID} - already handled, ignoring`,
       );
-      return res
-        .status(200)
-        .json({ message: "Transaction not found, ignored" });
+      return res.status(200).json({ message: "Duplicate callback ignored" });
     }
 
-    logger.info(`🔍 Found transaction: ${tx._id} | Order: ${tx.order}`);
+    let result: CallbackResult;
+    try {
+      // Always work from the stored payload, not the redelivered one
+      result = await processCallback((entry.payload as any).Body.stkCallback);
+    } catch (error) {
+      // Hand the entry back so a redelivery can try again
+      entry.status = "received";
+      entry.lastError = error instanceof Error ? error.message : String(error);
+      await entry.save();
+      throw error;
+    }
 
-    // Update tx basics (guarantee null fallback, not undefined)
-    tx.resultCode = resultCode;
-    tx.resultDesc = resultDesc;
-    tx.merchantRequestId = tx.merchantRequestId || merchantRequestId || null;
+    entry.status = result.status;
+    entry.outcome = result.outcome;
+    entry.transaction = (result.transaction as any) ?? null;
+    entry.processedAt = new Date();
+    entry.lastError = null;
+    await entry.save();
 
-    const newReceipt =
-      mpesaReceiptNumber && mpesaReceiptNumber.trim() !== ""
-        ? mpesaReceiptNumber
-        : (tx.mpesaReceiptNumber ?? null);
-    tx.mpesaReceiptNumber = newReceipt; // <- string | null only
+    return res.status(200).json({
+      message: result.message,
+      ...(result.reason ? { reason: result.reason } : {}),
+    });
+  } catch (error) {
+    logger.error("Error processing M-Pesa callback:", error);
+    return res.status(500).json({ error: "Failed to process callback" });
+  }
+};
 
-    const newTxDate =
-      transactionDate && transactionDate.trim() !== ""
-        ? transactionDate
-        : (tx.transactionDate ?? null);
-    tx.transactionDate = newTxDate; // <- string | null only
+const processCallback = async (stk: any): Promise<CallbackResult> => {
+  const resultCode = stk.ResultCode;
+  const resultDesc = stk.ResultDesc;
+  const checkoutRequestId = stk.CheckoutRequestID;
+  const merchantRequestId = stk.MerchantRequestID;
 
-    tx.phoneNumber = phoneNumber || tx.phoneNumber || "Unknown";
+  let amount = 0;
+  let phoneNumber = "Unknown";
+  let mpesaReceiptNumber = "";
+  let transactionDate = "";
 
-    if (resultCode !== 0) {
-      tx.status = "failed";
+  if (resultCode === 0 && stk.CallbackMetadata?.Item) {
+    for (const item of stk.CallbackMetadata.Item) {
+      switch (item.Name) {
+        case "Amount":
+          amount = parseFloat(item.Value);
+          break;
+        case "PhoneNumber":
+          phoneNumber = String(item.Value);
+          break;
+        case "MpesaReceiptNumber":
+          mpesaReceiptNumber = String(item.Value);
+          break;
+        case "TransactionDate":
+          transactionDate = String(item.Value);
+          break;
+      }
+    }
+  }
+
+  // Find existing transaction created during initiate-payment
+  let tx = await MpesaTransaction.findOne({ checkoutRequestId });
+  if (!tx && merchantRequestId) {
+    tx = await MpesaTransaction.findOne({ merchantRequestId });
+  }
+  if (!tx) {
+    logger.warn(
+      `⚠️ Transaction not found for CheckoutRequestID: ${checkoutRequestId}`,
+    );
+    // Log all recent transactions for debugging
+    const recentTx = await MpesaTransaction.find({})
+      .sort({ createdAt: -1 })
+      .limit(5);
+    logger.info(
+      `Recent transactions:`,
+      recentTx.map((t) => ({
+        id: t._id,
+        checkoutRequestId: t.checkoutRequestId,
+        merchantRequestId: t.merchantRequestId,
+        status: t.status,
+      })),
+    );
+    return {
+      status: "ignored",
+      outcome: "transaction_not_found",
+      message: "Transaction not found, ignored",
+    };
+  }
 
-      // RESTORE STOCK and DELETE ORDER - payment failed
-      const meta: any = tx.metadata || {};
+  logger.info(`🔍 Found transaction: ${tx._id} | Order: ${tx.order}`);
 
-      // Delete the order that was created during payment initiation
-      if (tx.order || meta.orderId) {
-        const orderId = tx.order || meta.orderId;
-        await Order.findByIdAndDelete(orderId);
-        logger.warn(`🗑️ Order ${orderId} deleted due to payment failure`);
-      }
+  // Update tx basics (guarantee null fallback, not undefined)
+  tx.resultCode = resultCode;
+  tx.resultDesc = resultDesc;
+  tx.merchantRequestId = tx.merchantRequestId || merchantRequestId || null;
 
-      // Restore stock
-      if (meta.items && meta.items.length > 0) {
+  const newReceipt =
+    mpesaReceiptNumber && mpesaReceiptNumber.trim() !== ""
+      ? mpesaReceiptNumber
+      : (tx.mpesaReceiptNumber ?? null);
+  tx.mpesaReceiptNumber = newReceipt; // <- string | null only
+
+  const newTxDate =
+    transactionDate && transactionDate.trim() !== ""
+      ? transactionDate
+      : (tx.transactionDate ?? null);
+  tx.transactionDate = newTxDate; // <- string | null only
+
+  tx.phoneNumber = phoneNumber || tx.phoneNumber || "Unknown";
+
+  if (resultCode !== 0) {
+    // RESTORE STOCK and DELETE ORDER - payment failed
+    const meta: any = tx.metadata || {};
+
+    // Restore stock first - unless the reservation sweeper already settled
+    // it, in which case it also settled the orders
+    const release = await releaseReservation(tx._id, "payment_failed");
+    if (release === "already_settled") {
+      logger.warn(
+        `⚠️ Reservation for transaction ${tx._id} already settled - stock and orders left as they are`,
+      );
+    } else {
+      tx.status = "failed";
+      if (release === "not_found" && meta.items && meta.items.length > 0) {
+        // transactions created before reservations existed
         logger.warn(
           `⚠️ ⚠️ ⚠️ PAYMENT CALLBACK FAILED (Code: ${resultCode}) - RESTORING STOCK ⚠️ ⚠️ ⚠️`,
         );
         logger.warn(`Result Description: ${resultDesc}`);
-        for (const item of meta.items) {
-          const beforeRestore = await Product.findById(item.product);
-          logger.warn(
-            `↩️ BEFORE RESTORE: Product ${item.product} stock: ${beforeRestore?.stock}`,
-          );
-
-          await Product.updateOne(
-            { _id: item.product },
-            { $inc: { stock: item.quantity } },
-          );
-
-          const afterRestore = await Product.findById(item.product);
-          logger.warn(
-            `↩️ AFTER RESTORE: Product ${item.product} stock: ${afterRestore?.stock} (restored +${item.quantity})`,
-          );
-        }
+        await restoreStock(meta.items);
         logger.warn(`✅ Stock restored for all ${meta.items.length} items`);
       }
 
-      await tx.save();
-      // resultCode meanings:
-      // 1 - User cancelled payment
-      // 2 - Payment timed out
-      // Other codes - Payment failed/error
-      const cancelReasons: Record<number, string> = {
-        1: "Payment cancelled by user",
-        2: "Payment request timed out",
-      };
-      const reason =
-        cancelReasons[resultCode] || resultDesc || "Payment failed";
-      logger.warn(
-        `Payment not successful (${reason}). Order deleted, stock restored.`,
-      );
-      return res.status(200).json({
-        message: "Callback processed - payment not successful",
-        reason,
-      });
+      // Delete the orders that were created during payment initiation;
+      // ones cancelled or paid in the meantime are kept
+      const failedOrderIds = getTransactionOrderIds(tx);
+      if (failedOrderIds.length > 0) {
+        await Order.deleteMany({
+          _id: { $in: failedOrderIds },
+          status: "pending",
+          paymentStatus: "pending",
+        });
+        logger.warn(
+          `🗑️ Pending order(s) of ${failedOrderIds.join(", ")} deleted due to payment failure`,
+        );
+      }
+      const ordersLeft =
+        failedOrderIds.length > 0 &&
+        (await Order.exists({ _id: { $in: failedOrderIds } }));
+      if (tx.checkout && !ordersLeft) {
+        await Checkout.findByIdAndDelete(tx.checkout);
+      }
     }
 
-    // SUCCESS: Update existing order to "paid" status
-    // NOTE: Order was already created during payment initiation, stock already reduced
-    const meta: any = tx.metadata || {};
+    await tx.save();
+    // resultCode meanings:
+    // 1 - User cancelled payment
+    // 2 - Payment timed out
+    // Other codes - Payment failed/error
+    const cancelReasons: Record<number, string> = {
+      1: "Payment cancelled by user",
+      2: "Payment request timed out",
+    };
+    const reason =
+      cancelReasons[resultCode] || resultDesc || "Payment failed";
+    logger.warn(
+      `Payment not successful (${reason}). Order deleted, stock restored.`,
+    );
+    return {
+      status: "processed",
+      outcome: "payment_failed",
+      message: "Callback processed - payment not successful",
+      reason,
+      transaction: tx._id,
+    };
+  }
 
-    logger.info("📋 Transaction metadata:", JSON.stringify(meta, null, 2));
-    logger.info(`✅ ✅ ✅ PAYMENT SUCCESSFUL (Code: ${resultCode}) ✅ ✅ ✅`);
-    logger.info(
-      `✅ Stock was ALREADY REDUCED during payment initiation - NOT restoring`,
+  // SUCCESS: Update existing order to "paid" status
+  // NOTE: Order was already created during payment initiation, stock already reduced
+  const meta: any = tx.metadata || {};
+
+  // Never mark an order paid for less (or more) than we asked for
+  const expectedAmount = toStkAmount(tx.amount);
+  if (amount !== expectedAmount) {
+    logger.error(
+      `❌ AMOUNT MISMATCH for transaction ${tx._id}: expected Ksh ${expectedAmount}, callback reports Ksh ${amount} - orders NOT marked paid, flagged for review`,
     );
-    logger.info(`✅ Updating order to PAID status...`);
-
-    // Find the order that was created during payment initiation
-    const orderId = tx.order || meta.orderId;
-    if (!orderId) {
-      logger.error("❌ No order ID found in transaction");
-      logger.error(`Transaction details:`, {
-        txId: tx._id,
-        hasOrder: !!tx.order,
-        hasMetadata: !!tx.metadata,
-        metadataKeys: meta ? Object.keys(meta) : [],
-      });
-      return res.status(200).json({ message: "Order ID not found" });
-    }
+    tx.status = "flagged";
+    tx.resultDesc = `Amount mismatch: expected ${expectedAmount}, received ${amount}`;
+    await tx.save();
+    return {
+      status: "rejected",
+      outcome: "amount_mismatch",
+      message: "Callback amount does not match the transaction",
+      transaction: tx._id,
+    };
+  }
 
-    logger.info(`🔍 Looking for order: ${orderId}`);
-    const order = await Order.findById(orderId);
-    if (!order) {
-      logger.error(`❌ Order ${orderId} not found in database`);
-      // Check if order exists at all
-      const orderCount = await Order.countDocuments({});
-      logger.info(`Total orders in database: ${orderCount}`);
-      return res.status(200).json({ message: "Order not found" });
-    }
+  logger.info("📋 Transaction metadata:", JSON.stringify(meta, null, 2));
+  logger.info(`✅ ✅ ✅ PAYMENT SUCCESSFUL (Code: ${resultCode}) ✅ ✅ ✅`);
+  logger.info(
+    `✅ Stock was ALREADY REDUCED during payment initiation - NOT restoring`,
+  );
+  logger.info(`✅ Updating order to PAID status...`);
+
+  // Find the orders that were created during payment initiation
+  const orderIds = getTransactionOrderIds(tx);
+  if (orderIds.length === 0) {
+    logger.error("❌ No order ID found in transaction");
+    logger.error(`Transaction details:`, {
+      txId: tx._id,
+      hasOrder: !!tx.order,
+      hasMetadata: !!tx.metadata,
+      metadataKeys: meta ? Object.keys(meta) : [],
+    });
+    return {
+      status: "ignored",
+      outcome: "order_not_found",
+      message: "Order ID not found",
+      transaction: tx._id,
+    };
+  }
+
+  logger.info(`🔍 Looking for order(s): ${orderIds.join(", ")}`);
+  const orders = await Order.find({ _id: { $in: orderIds } });
+  if (orders.length === 0) {
+    logger.error(`❌ Orders ${orderIds.join(", ")} not found in database`);
+    // Check if order exists at all
+    const orderCount = await Order.countDocuments({});
+    logger.info(`Total orders in database: ${orderCount}`);
+    return {
+      status: "ignored",
+      outcome: "order_not_found",
+      message: "Order not found",
+      transaction: tx._id,
+    };
+  }
 
+  // Payment may land after the sweeper gave up - take the stock back first
+  await commitReservation(tx._id);
+
+  // Update every order in the checkout to paid
+  const cancelledWhilePending: unknown[] = [];
+  const paidOrders = [];
+  for (const order of orders) {
     logger.info(
       `✅ Found order: ${order.orderNumber} | Current status: ${order.paymentStatus}`,
     );
-
-    // Update order payment status to paid
+    // cancelled by the buyer or seller before the money landed: refund it
+    if (order.status === "cancelled" && order.paymentStatus === "pending") {
+      cancelledWhilePending.push(order._id);
+      continue;
+    }
+    // the sweeper cancelled it, but the money arrived: reopen the order
+    if (order.paymentStatus === "timeout" && order.status === "cancelled") {
+      order.status = "pending";
+      order.statusHistory.push({
+        status: "pending",
+        at: new Date(),
+        by: null,
+        note: "Payment confirmed after timeout",
+      });
+    }
     order.paymentStatus = "paid";
     order.mpesaReceiptNumber = mpesaReceiptNumber;
     order.mpesaCheckoutRequestID = checkoutRequestId;
     await order.save();
+    paidOrders.push(order);
+  }
 
-    // Clear user's cart after successful payment
-    await Cart.findOneAndDelete({ user: meta.buyerId });
-
-    // Update transaction status to success
-    tx.status = "success";
-    await tx.save();
+  await notifyPaymentReceived(paidOrders);
+  await refundPaidAfterCancel(cancelledWhilePending, {
+    mpesaReceiptNumber,
+    mpesaCheckoutRequestID: checkoutRequestId,
+  });
 
-    logger.info(
-      `✅ ORDER UPDATED: ${order.orderNumber} | Payment successful | Receipt: ${mpesaReceiptNumber}`,
-    );
-    logger.info(
-      `   Buyer: ${tx.metadata.buyerId} | Amount: Ksh ${amount} | Status: paid`,
-    );
-    logger.info(`✅ Stock remains REDUCED - payment confirmed | Cart cleared`);
-    return res.status(200).json({ message: "Callback processed successfully" });
-  } catch (error) {
-    logger.error("Error processing M-Pesa callback:", error);
-    return res.status(500).json({ error: "Failed to process callback" });
+  if (tx.checkout) {
+    await Checkout.findByIdAndUpdate(tx.checkout, {
+      paymentStatus: "paid",
+      mpesaReceiptNumber,
+      mpesaCheckoutRequestID: checkoutRequestId,
+    });
   }
+
+  // Clear user's cart after successful payment
+  await Cart.findOneAndDelete({ user: meta.buyerId });
+
+  // Update transaction status to success
+  tx.status = "success";
+  await tx.save();
+
+  logger.info(
+    `✅ ORDERS UPDATED: ${orders.map((o) => o.orderNumber).join(", ")} | Payment successful | Receipt: ${mpesaReceiptNumber}`,
+  );
+  logger.info(
+    `   Buyer: ${tx.metadata.buyerId} | Amount: Ksh ${amount} | Status: paid`,
+  );
+  logger.info(`✅ Stock remains REDUCED - payment confirmed | Cart cleared`);
+  return {
+    status: "processed",
+    outcome: "paid",
+    message: "Callback processed successfully",
+    transaction: tx._id,
+  };
+};
+
+/**
+ * All order ids paid for by a transaction. Older transactions only carry the
+ * single `order` ref (or `metadata.orderId`), split checkouts carry `orders`.
+ */
+export const getTransactionOrderIds = (tx: {
+  order?: unknown;
+  orders?: unknown[];
+  metadata?: any;
+}): string[] => {
+  if (tx.orders && tx.orders.length > 0) return tx.orders.map(String);
+  if (tx.metadata?.orderIds?.length) return tx.metadata.orderIds.map(String);
+  const single = tx.order || tx.metadata?.orderId;
+  return single ? [String(single)] : [];
 };
@@ -0,0 +1,212 @@
+import { HydratedDocument, InferSchemaType } from "mongoose";
+
+import Claim, { ClaimDecision, ClaimStatus } from "../models/claim.models";
+import Order from "../models/orde.models";
+import User from "../models/user.models";
+import { logger } from "../utils/logger";
+import { toStkAmount } from "./mpesa.controller";
+import { notifyClaimUpdate, notifyOrderStatus } from "./notifications";
+import { transitionOrder } from "./orderStatus";
+import { openRefund, payOutRefund, refundedAmount, RefundDocument } from "./refunds";
+
+export type ClaimDocument = HydratedDocument<InferSchemaType<typeof Claim.schema>>;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// How long after delivery a buyer may open a claim
+export const claimWindowDays = () => Number(process.env.CLAIM_WINDOW_DAYS || 7);
+
+// How long the seller has to answer before an admin takes over
+const responseHours = () => Number(process.env.CLAIM_RESPONSE_HOURS || 72);
+
+export const respondByFrom = (now: Date = new Date()) =>
+	new Date(now.getTime() + responseHours() * HOUR);
+
+type DeliveredOrder = {
+	actualDelivery?: Date | null;
+	statusHistory?: { status: string; at?: Date | null }[];
+};
+
+/**
+ * Last day a claim can be opened on the order, counted from delivery.
+ * @returns null when the order was never delivered
+ */
+export const claimDeadline = (order: DeliveredOrder) => {
+	const delivered =
+		order.actualDelivery ??
+		order.statusHistory?.findLast((event) => event.status === "delivered")?.at;
+	return delivered ? new Date(delivered.getTime() + claimWindowDays() * DAY) : null;
+};
+
+const DECISION_STATUS: Record<ClaimDecision, ClaimStatus> = {
+	accept: "accepted",
+	partial_refund: "partial_refund",
+	reject: "rejected",
+};
+
+/**
+ * Move a claim from one of `from` to `to` and add the timeline entry, in one
+ * atomic update so two people acting at once cannot both succeed.
+ * @returns the updated claim, or null if it was no longer in `from`
+ */
+export const moveClaim = (
+	claimId: unknown,
+	from: ClaimStatus[],
+	to: ClaimStatus,
+	{ by, note, set = {} }: { by: unknown; note?: string | undefined; set?: Record<string, unknown> },
+	now: Date = new Date()
+) =>
+	Claim.findOneAndUpdate(
+		{ _id: claimId, status: { $in: from } },
+		{
+			$set: { ...set, status: to },
+			$push: { timeline: { status: to, at: now, by, ...(note ? { note } : {}) } },
+		},
+		{ new: true }
+	);
+
+export type DecisionInput = {
+	decision: ClaimDecision;
+	// shillings back to the buyer, for partial refunds
+	amount?: number | undefined;
+	note?: string | undefined;
+	by: unknown;
+	role: "seller" | "admin";
+};
+
+export type DecisionResult =
+	| { ok: true; claim: ClaimDocument; refund: RefundDocument | null }
+	| { ok: false; reason: "order_not_found" | "invalid_amount" | "invalid_state" };
+
+/**
+ * Settle a claim. Accepting refunds the order total and, for a return,
+ * marks the order returned; a partial refund pays `amount`; rejecting pays
+ * nothing. `amount` is what the buyer gets back in total, so an admin
+ * overruling a partial refund only sends the difference.
+ */
+export const decideClaim = async (
+	claimId: unknown,
+	from: ClaimStatus[],
+	{ decision, amount, note, by, role }: DecisionInput
+): Promise<DecisionResult> => {
+	const claim = await Claim.findById(claimId);
+	const order = claim && (await Order.findById(claim.order));
+	if (!claim || !order) return { ok: false, reason: "order_not_found" };
+
+	const total = toStkAmount(order.total ?? 0);
+	if (decision === "partial_refund" && (!amount || amount < 1 || amount >= total)) {
+		return { ok: false, reason: "invalid_amount" };
+	}
+	const award =
+		decision === "accept" ? total : decision === "partial_refund" ? toStkAmount(amount ?? 0) : 0;
+
+	const decided = await moveClaim(claim._id, from, DECISION_STATUS[decision], {
+		by,
+		note,
+		set: {
+			decision: { outcome: decision, amount: award, note, by, role, at: new Date() },
+		},
+	});
+	if (!decided) return { ok: false, reason: "invalid_state" };
+
+	if (decision === "accept" && decided.type === "return") {
+		const moved = transitionOrder(order, "returned", {
+			actor: role,
+			by,
+			note: "Return accepted",
+		});
+		if (moved.ok) {
+			await order.save();
+			await notifyOrderStatus([order], role);
+		}
+	}
+
+	let refund: RefundDocument | null = null;
+	const owed = award - (await refundedAmount(order._id));
+	if (owed > 0) {
+		refund = await openRefund(order, {
+			requestedBy: by,
+			reason: `${decided.type === "return" ? "Return" : "Damage claim"}: ${decided.reason}`,
+			approved: true,
+			amount: owed,
+			claim: decided._id,
+		});
+		if (refund) {
+			decided.refund = refund._id;
+			await decided.save();
+			refund = await payOutRefund(refund._id);
+		}
+	}
+
+	logger.info(
+		`🧾 Claim ${decided._id} on order ${order.orderNumber}: ${decision} by ${role} (Ksh ${award})`
+	);
+	await notifyClaimUpdate(
+		decided,
+		role === "admin" ? [decided.buyer, decided.seller] : [decided.buyer],
+		order.orderNumber,
+		note
+	);
+	return { ok: true, claim: decided, refund };
+};
+
+// Admins hear about every escalation
+export const notifyEscalation = async (claim: ClaimDocument, orderNumber?: string | null) => {
+	const admins = await User.find({ role: "admin" }).select("_id").lean();
+	await notifyClaimUpdate(
+		claim,
+		[claim.buyer, claim.seller, ...admins.map((admin) => admin._id)],
+		orderNumber
+	);
+};
+
+/**
+ * Hand claims the seller never answered to an admin.
+ * @returns how many claims were escalated
+ */
+export const escalateOverdueClaims = async (now: Date = new Date()) => {
+	const overdue = await Claim.find({ status: "open", respondBy: { $lte: now } })
+		.select("_id")
+		.limit(100)
+		.lean();
+	let escalated = 0;
+	for (const { _id } of overdue) {
+		const claim = await moveClaim(
+			_id,
+			["open"],
+			"escalated",
+			{ by: null, note: "Seller did not respond in time", set: { escalatedAt: now } },
+			now
+		);
+		if (!claim) continue;
+		escalated += 1;
+		const order = await Order.findById(claim.order).select("orderNumber").lean();
+		await notifyEscalation(claim, order?.orderNumber);
+	}
+	if (escalated > 0) logger.warn(`⏫ Escalated ${escalated} unanswered claim(s) to admin`);
+	return escalated;
+};
+
+/**
+ * Run the escalation check on an interval. Returns a function that stops it.
+ */
+export const startClaimEscalation = ({
+	intervalMs = Number(process.env.CLAIM_SWEEP_INTERVAL_MS || 15 * 60 * 1000),
+}: { intervalMs?: number } = {}) => {
+	let running = false;
+	const timer = setInterval(async () => {
+		if (running) return;
+		running = true;
+		try {
+			await escalateOverdueClaims();
+		} catch (err) {
+			logger.error("Claim escalation failed", err);
+		} finally {
+			running = false;
+		}
+	}, intervalMs);
+	timer.unref();
+
+	return () => clearInterval(timer);
+};
@@ -0,0 +1,133 @@
+import { HydratedDocument, InferSchemaType } from "mongoose";
+
+import Checkout from "../models/checkout.models";
+import Coupon from "../models/coupon.models";
+
+type CouponDoc = HydratedDocument<InferSchemaType<typeof Coupon.schema>>;
+
+// One seller's share of a cart or checkout
+export type CouponGroup = {
+	seller: string;
+	subTotal: number;
+	shipping: number;
+};
+
+export type CouponQuote =
+	| {
+			status: "ok";
+			coupon: CouponDoc;
+			// per group, in the order given
+			discounts: number[];
+			discount: number;
+	  }
+	| { status: "invalid"; message: string };
+
+// A code is used by a paid checkout. One still waiting on M-Pesa also holds
+// a place under the overall limit, unless it is the buyer's own: their
+// abandoned prompt must not stop them checking out again
+const usingCheckouts = (buyerId: unknown) => ({
+	$or: [{ paymentStatus: "paid" }, { paymentStatus: "pending", buyer: { $ne: buyerId } }],
+});
+
+/**
+ * Split `amount` over the weights in whole shillings. No share exceeds its
+ * weight; rounding leftovers go to the last group with any weight.
+ */
+const spread = (amount: number, weights: number[]) => {
+	const total = weights.reduce((sum, w) => sum + w, 0);
+	if (total <= 0) return weights.map(() => 0);
+	let last = weights.length - 1;
+	while (last > 0 && weights[last]! <= 0) last--;
+
+	let left = Math.min(amount, total);
+	return weights.map((weight, i) => {
+		const share =
+			i === last ? left : Math.min(weight, Math.round((amount * weight) / total), left);
+		left -= share;
+		return share;
+	});
+};
+
+// Discount per group; groups the coupon does not cover get nothing
+const priceCoupon = (coupon: CouponDoc, groups: CouponGroup[], covered: boolean[]) => {
+	if (coupon.type === "free_shipping") {
+		return groups.map((group, i) => (covered[i] ? group.shipping : 0));
+	}
+	const subTotals = groups.map((group, i) => (covered[i] ? group.subTotal : 0));
+	const eligible = subTotals.reduce((sum, s) => sum + s, 0);
+	let amount =
+		coupon.type === "percent"
+			? Math.round((eligible * (coupon.value ?? 0)) / 100)
+			: Math.min(coupon.value ?? 0, eligible);
+	if (coupon.maxDiscount != null) amount = Math.min(amount, coupon.maxDiscount);
+	return spread(amount, subTotals);
+};
+
+/**
+ * Check a code for this buyer and price it against their items, grouped by
+ * seller. Used for the cart preview and again when payment starts, so an
+ * expired or used-up code never reaches M-Pesa.
+ */
+export const quoteCoupon = async (
+	code: string,
+	buyerId: unknown,
+	groups: CouponGroup[],
+	now = new Date()
+): Promise<CouponQuote> => {
+	const invalid = (message: string): CouponQuote => ({ status: "invalid", message });
+
+	const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+	if (!coupon || !coupon.isActive) return invalid("This code is not valid");
+	if (coupon.startsAt && coupon.startsAt > now) {
+		return invalid("This code is not active yet");
+	}
+	if (coupon.expiresAt && coupon.expiresAt <= now) {
+		return invalid("This code has expired");
+	}
+
+	const [usedByBuyer, usedByAll] = await Promise.all([
+		Checkout.countDocuments({
+			coupon: coupon._id,
+			buyer: buyerId,
+			paymentStatus: "paid",
+		}),
+		coupon.usageLimit != null
+			? Checkout.countDocuments({
+					coupon: coupon._id,
+					...usingCheckouts(buyerId),
+			  })
+			: Promise.resolve(0),
+	]);
+	if (usedByBuyer >= (coupon.perUserLimit ?? 1)) {
+		return invalid("You have already used this code");
+	}
+	if (coupon.usageLimit != null && usedByAll >= coupon.usageLimit) {
+		return invalid("This code has been fully redeemed");
+	}
+
+	const covered = groups.map(
+		(group) => !coupon.seller || group.seller === String(coupon.seller)
+	);
+	const eligibleSubTotal = groups.reduce(
+		(sum, group, i) => (covered[i] ? sum + group.subTotal : sum),
+		0
+	);
+	if (eligibleSubTotal <= 0) {
+		return invalid("This code does not apply to the items in your cart");
+	}
+	if (eligibleSubTotal < (coupon.minSpend ?? 0)) {
+		return invalid(
+			`Spend at least Ksh ${coupon.minSpend?.toLocaleString()}${
+				coupon.seller ? " on this seller's items" : ""
+			} to use this code`
+		);
+	}
+
+	const discounts = priceCoupon(coupon, groups, covered);
+	return {
+		status: "ok",
+		coupon,
+		discounts,
+		discount: discounts.reduce((sum, d) => sum + d, 0),
+	};
+};
@@ -0,0 +1,515 @@
+import axios from "axios";
+import crypto from "crypto";
+import express, { NextFunction, Request, Response } from "express";
+import { AddressInfo } from "net";
+
+import { logger } from "../utils/logger";
+
+/**
+ * A local stand-in for Safaricom's Daraja API: OAuth, STK push, STK query and
+ * B2C. It answers the way the sandbox does and posts real-shaped callbacks to
+ * the CallBackURL / ResultURL it was given, so our request building and
+ * callback parsing run end to end without the internet.
+ *
+ * Each API takes a queue of scripted outcomes, used one per request; when the
+ * queue is empty the default (success) applies. Point MPESA_BASE_URL at the
+ * emulator's `url` to use it.
+ */
+
+// Delivery options for scripted callbacks
+type Delivery = {
+	// wait before posting the callback (defaults to the emulator's callbackDelayMs)
+	delayMs?: number;
+	// post the same callback this many extra times
+	duplicates?: number;
+};
+
+// The request itself is refused, as Daraja does with bad input or an outage
+type Refusal = {
+	outcome: "reject";
+	status?: number;
+	errorCode?: string;
+	errorMessage?: string;
+};
+
+export type StkScript =
+	| ({ outcome: "success"; amount?: number; receipt?: string } & Delivery)
+	| ({ outcome: "fail"; resultCode: number; resultDesc?: string } & Delivery)
+	// the customer never answers: no callback, and queries say "still processing"
+	| { outcome: "timeout" }
+	| Refusal;
+
+export type B2CScript =
+	| ({ outcome: "success"; receipt?: string } & Delivery)
+	| ({ outcome: "fail"; resultCode: number; resultDesc?: string } & Delivery)
+	// the request expired in Daraja's queue: posted to the QueueTimeOutURL
+	| ({ outcome: "timeout" } & Delivery)
+	| Refusal;
+
+export type OAuthScript = { outcome: "success" } | Refusal;
+
+type Scripts = { oauth: OAuthScript; stk: StkScript; b2c: B2CScript };
+export type DarajaApi = keyof Scripts;
+
+export type EmulatorRequest = {
+	api: DarajaApi | "stk_query";
+	body: unknown;
+	at: Date;
+};
+
+export type EmulatorCallback = {
+	api: "stk" | "b2c";
+	url: string;
+	body: unknown;
+	// our server's HTTP status, or null when it could not be reached
+	status: number | null;
+	error?: string;
+};
+
+export type DarajaEmulatorOptions = {
+	// 0 picks a free port
+	port?: number;
+	host?: string;
+	// when set, OAuth only accepts these credentials
+	consumerKey?: string | undefined;
+	consumerSecret?: string | undefined;
+	// when set, STK pushes must carry the matching Password
+	passKey?: string | undefined;
+	callbackDelayMs?: number;
+};
+
+export type DarajaEmulator = {
+	url: string;
+	// queue outcomes for the next requests to an API
+	script<A extends DarajaApi>(api: A, ...steps: Scripts[A][]): void;
+	requests: EmulatorRequest[];
+	callbacks: EmulatorCallback[];
+	// resolves once every callback scheduled so far has been posted
+	settled(): Promise<void>;
+	reset(): void;
+	close(): Promise<void>;
+};
+
+// ResultDesc Daraja sends for the codes people usually test with
+const RESULT_DESCRIPTIONS: Record<number, string> = {
+	0: "The service request is processed successfully.",
+	1: "The balance is insufficient for the transaction.",
+	1001: "Unable to lock subscriber, a transaction is already in process for the current subscriber",
+	1019: "Transaction has expired",
+	1032: "Request cancelled by user",
+	1037: "DS timeout user cannot be reached",
+	2001: "The initiator information is invalid.",
+};
+
+const describe = (code: number, desc?: string) =>
+	desc ?? RESULT_DESCRIPTIONS[code] ?? "The transaction failed.";
+
+const STK_FIELDS = [
+	"BusinessShortCode",
+	"Password",
+	"Timestamp",
+	"TransactionType",
+	"Amount",
+	"PartyA",
+	"PartyB",
+	"PhoneNumber",
+	"CallBackURL",
+	"AccountReference",
+	"TransactionDesc",
+];
+
+const B2C_FIELDS = [
+	"OriginatorConversationID",
+	"InitiatorName",
+	"SecurityCredential",
+	"CommandID",
+	"Amount",
+	"PartyA",
+	"PartyB",
+	"QueueTimeOutURL",
+	"ResultURL",
+];
+
+const B2C_COMMANDS = ["BusinessPayment", "SalaryPayment", "PromotionPayment"];
+
+const randomId = (bytes = 6) => crypto.randomBytes(bytes).toString("hex").toUpperCase();
+
+// M-Pesa receipts look like "SGL31HA2UV"
+const receiptNumber = () => randomId(5).slice(0, 10);
+
+// 20251018143005, the format STK callbacks use
+const stkTimestamp = (date: Date) => Number(date.toISOString().replace(/[-:.TZ]/g, "").slice(0, 14));
+
+// 18.10.2025 14:30:05, the format B2C results use
+const b2cTimestamp = (date: Date) => {
+	const [day, time] = date.toISOString().split("T");
+	const [year, month, dayOfMonth] = (day ?? "").split("-");
+	return `${dayOfMonth}.${month}.${year} ${(time ?? "").slice(0, 8)}`;
+};
+
+const badRequest = (res: Response, errorMessage: string, errorCode = "400.002.02") =>
+	res.status(400).json({ requestId: randomId(), errorCode, errorMessage });
+
+const refuse = (res: Response, { status = 500, errorCode, errorMessage }: Refusal) =>
+	res.status(status).json({
+		requestId: randomId(),
+		errorCode: errorCode ?? `${status}.003.02`,
+		errorMessage: errorMessage ?? "System is busy, please try again later",
+	});
+
+type StkState = {
+	merchantRequestId: string;
+	// null until the callback has gone out
+	resultCode: number | null;
+	resultDesc: string;
+};
+
+export const startDarajaEmulator = async ({
+	port = 0,
+	host = "127.0.0.1",
+	consumerKey,
+	consumerSecret,
+	passKey,
+	callbackDelayMs = 50,
+}: DarajaEmulatorOptions = {}): Promise<DarajaEmulator> => {
+	const queues: { [A in DarajaApi]: Scripts[A][] } = { oauth: [], stk: [], b2c: [] };
+	const next = <A extends DarajaApi>(api: A): Scripts[A] =>
+		queues[api].shift() ?? ({ outcome: "success" } as Scripts[A]);
+
+	const tokens = new Set<string>();
+	const stkPushes = new Map<string, StkState>();
+	const requests: EmulatorRequest[] = [];
+	const callbacks: EmulatorCallback[] = [];
+	const timers = new Set<NodeJS.Timeout>();
+	const pending = new Set<Promise<void>>();
+
+	const post = async (api: EmulatorCallback["api"], url: string, body: unknown) => {
+		try {
+			const response = await axios.post(url, body, {
+				timeout: 10000,
+				validateStatus: () => true,
+			});
+			callbacks.push({ api, url, body, status: response.status });
+		} catch (err: any) {
+			logger.warn(`🧪 Daraja emulator could not reach ${url}: ${err.message}`);
+			callbacks.push({ api, url, body, status: null, error: err.message });
+		}
+	};
+
+	// Post the callback (and any duplicates) after the delay, one at a time
+	const deliver = (
+		api: EmulatorCallback["api"],
+		url: string,
+		body: unknown,
+		{ delayMs = callbackDelayMs, duplicates = 0 }: Delivery,
+		onSent?: () => void
+	) => {
+		const delivery = new Promise<void>((resolve) => {
+			const timer = setTimeout(async () => {
+				timers.delete(timer);
+				onSent?.();
+				for (let i = 0; i <= duplicates; i += 1) {
+					await post(api, url, body);
+				}
+				resolve();
+			}, delayMs);
+			timers.add(timer);
+		});
+		pending.add(delivery);
+		delivery.finally(() => pending.delete(delivery));
+	};
+
+	const app = express();
+	app.use(express.json());
+
+	const requireToken = (req: Request, res: Response, nextHandler: NextFunction) => {
+		const token = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+		if (!token || !tokens.has(token)) {
+			res.status(401).json({
+				requestId: randomId(),
+				errorCode: "404.001.03",
+				errorMessage: "Invalid Access Token",
+			});
+			return;
+		}
+		nextHandler();
+	};
+
+	app.get("/oauth/v1/generate", (req, res) => {
+		requests.push({ api: "oauth", body: req.query, at: new Date() });
+		if (req.query.grant_type !== "client_credentials") {
+			badRequest(res, "Invalid grant type passed", "400.008.02");
+			return;
+		}
+		const basic = req.headers.authorization?.match(/^Basic\s+(.+)$/i)?.[1];
+		const [key, secret] = Buffer.from(basic ?? "", "base64").toString().split(":");
+		const wrongCredentials =
+			(consumerKey !== undefined && key !== consumerKey) ||
+			(consumerSecret !== undefined && secret !== consumerSecret);
+		if (!basic || wrongCredentials) {
+			badRequest(res, "Invalid Authentication passed", "400.008.01");
+			return;
+		}
+		const script = next("oauth");
+		if (script.outcome === "reject") {
+			refuse(res, script);
+			return;
+		}
+		const token = randomId(14);
+		tokens.add(token);
+		res.status(200).json({ access_token: token, expires_in: "3599" });
+	});
+
+	app.post("/mpesa/stkpush/v1/processrequest", requireToken, (req, res) => {
+		const body = req.body ?? {};
+		requests.push({ api: "stk", body, at: new Date() });
+
+		const missing = STK_FIELDS.find((field) => body[field] === undefined || body[field] === "");
+		if (missing) {
+			badRequest(res, `Bad Request - Invalid ${missing}`);
+			return;
+		}
+		if (
+			passKey !== undefined &&
+			body.Password !==
+				Buffer.from(`${body.BusinessShortCode}${passKey}${body.Timestamp}`).toString("base64")
+		) {
+			badRequest(res, "Bad Request - Invalid Password");
+			return;
+		}
+		if (!Number.isInteger(Number(body.Amount)) || Number(body.Amount) < 1) {
+			badRequest(res, "Bad Request - Invalid Amount");
+			return;
+		}
+		if (!/^254\d{9}$/.test(String(body.PhoneNumber))) {
+			badRequest(res, "Bad Request - Invalid PhoneNumber");
+			return;
+		}
+
+		const script = next("stk");
+		if (script.outcome === "reject") {
+			refuse(res, script);
+			return;
+		}
+
+		const merchantRequestId = `${randomId(3)}-${randomId(4)}-1`;
+		const checkoutRequestId = `ws_CO_${stkTimestamp(new Date())}${randomId(4)}`;
+		const state: StkState = { merchantRequestId, resultCode: null, resultDesc: "" };
+		stkPushes.set(checkoutRequestId, state);
+
+		if (script.outcome !== "timeout") {
+			const resultCode = script.outcome === "success" ? 0 : script.resultCode;
+			const resultDesc = describe(
+				resultCode,
+				script.outcome === "fail" ? script.resultDesc : undefined
+			);
+			const stkCallback = {
+				MerchantRequestID: merchantRequestId,
+				CheckoutRequestID: checkoutRequestId,
+				ResultCode: resultCode,
+				ResultDesc: resultDesc,
+				...(script.outcome === "success"
+					? {
+							CallbackMetadata: {
+								Item: [
+									{ Name: "Amount", Value: script.amount ?? Number(body.Amount) },
+									{ Name: "MpesaReceiptNumber", Value: script.receipt ?? receiptNumber() },
+									{ Name: "TransactionDate", Value: stkTimestamp(new Date()) },
+									{ Name: "PhoneNumber", Value: Number(body.PhoneNumber) },
+								],
+							},
+					  }
+					: {}),
+			};
+			deliver("stk", body.CallBackURL, { Body: { stkCallback } }, script, () => {
+				state.resultCode = resultCode;
+				state.resultDesc = resultDesc;
+			});
+		}
+
+		res.status(200).json({
+			MerchantRequestID: merchantRequestId,
+			CheckoutRequestID: checkoutRequestId,
+			ResponseCode: "0",
+			ResponseDescription: "Success. Request accepted for processing",
+			CustomerMessage: "Success. Request accepted for processing",
+		});
+	});
+
+	app.post("/mpesa/stkpushquery/v1/query", requireToken, (req, res) => {
+		const body = req.body ?? {};
+		requests.push({ api: "stk_query", body, at: new Date() });
+		const state = stkPushes.get(String(body.CheckoutRequestID));
+		if (!state) {
+			badRequest(res, "Bad Request - Invalid CheckoutRequestID");
+			return;
+		}
+		if (state.resultCode === null) {
+			res.status(500).json({
+				requestId: randomId(),
+				errorCode: "500.001.1001",
+				errorMessage: "The transaction is being processed",
+			});
+			return;
+		}
+		res.status(200).json({
+			ResponseCode: "0",
+			ResponseDescription: "The service request has been accepted successsfully",
+			MerchantRequestID: state.merchantRequestId,
+			CheckoutRequestID: body.CheckoutRequestID,
+			ResultCode: String(state.resultCode),
+			ResultDesc: state.resultDesc,
+		});
+	});
+
+	const b2cHandler = (req: Request, res: Response) => {
+		const body = req.body ?? {};
+		requests.push({ api: "b2c", body, at: new Date() });
+
+		const missing = B2C_FIELDS.find((field) => body[field] === undefined || body[field] === "");
+		if (missing) {
+			badRequest(res, `Bad Request - Invalid ${missing}`);
+			return;
+		}
+		if (!B2C_COMMANDS.includes(body.CommandID)) {
+			badRequest(res, "Bad Request - Invalid CommandID");
+			return;
+		}
+		if (!Number.isInteger(Number(body.Amount)) || Number(body.Amount) < 1) {
+			badRequest(res, "Bad Request - Invalid Amount");
+			return;
+		}
+
+		const script = next("b2c");
+		if (script.outcome === "reject") {
+			refuse(res, script);
+			return;
+		}
+
+		const conversationId = `AG_${stkTimestamp(new Date())}_${randomId(8)}`;
+		const common = {
+			OriginatorConversationID: body.OriginatorConversationID,
+			ConversationID: conversationId,
+			ReferenceData: {
+				ReferenceItem: { Key: "QueueTimeoutURL", Value: body.QueueTimeOutURL },
+			},
+		};
+
+		if (script.outcome === "timeout") {
+			deliver(
+				"b2c",
+				body.QueueTimeOutURL,
+				{
+					Result: {
+						ResultType: 1,
+						ResultCode: 1,
+						ResultDesc: "The service request timed out in the queue.",
+						...common,
+						TransactionID: "",
+					},
+				},
+				script
+			);
+		} else {
+			const resultCode = script.outcome === "success" ? 0 : script.resultCode;
+			const receipt = script.outcome === "success" ? (script.receipt ?? receiptNumber()) : "";
+			deliver(
+				"b2c",
+				body.ResultURL,
+				{
+					Result: {
+						ResultType: 0,
+						ResultCode: resultCode,
+						ResultDesc: describe(
+							resultCode,
+							script.outcome === "fail" ? script.resultDesc : undefined
+						),
+						...common,
+						TransactionID: receipt,
+						...(script.outcome === "success"
+							? {
+									ResultParameters: {
+										ResultParameter: [
+											{ Key: "TransactionAmount", Value: Number(body.Amount) },
+											{ Key: "TransactionReceipt", Value: receipt },
+											{ Key: "B2CRecipientIsRegisteredCustomer", Value: "Y" },
+											{ Key: "B2CChargesPaidAccountAvailableFunds", Value: 0 },
+											{ Key: "ReceiverPartyPublicName", Value: `${body.PartyB} - Emulator Customer` },
+											{ Key: "TransactionCompletedDateTime", Value: b2cTimestamp(new Date()) },
+											{ Key: "B2CUtilityAccountAvailableFunds", Value: 100000 },
+											{ Key: "B2CWorkingAccountAvailableFunds", Value: 100000 },
+										],
+									},
+							  }
+							: {}),
+					},
+				},
+				script
+			);
+		}
+
+		res.status(200).json({
+			ConversationID: conversationId,
+			OriginatorConversationID: body.OriginatorConversationID,
+			ResponseCode: "0",
+			ResponseDescription: "Accept the service request successfully.",
+		});
+	};
+	app.post("/mpesa/b2c/v1/paymentrequest", requireToken, b2cHandler);
+	app.post("/mpesa/b2c/v3/paymentrequest", requireToken, b2cHandler);
+
+	const emulator: DarajaEmulator = {
+		url: "",
+		script(api, ...steps) {
+			queues[api].push(...steps);
+		},
+		requests,
+		callbacks,
+		async settled() {
+			while (pending.size > 0) {
+				await Promise.all([...pending]);
+			}
+		},
+		reset() {
+			for (const timer of timers) clearTimeout(timer);
+			timers.clear();
+			queues.oauth.length = 0;
+			queues.stk.length = 0;
+			queues.b2c.length = 0;
+			stkPushes.clear();
+			requests.length = 0;
+			callbacks.length = 0;
+		},
+		close() {
+			emulator.reset();
+			return new Promise((resolve, reject) =>
+				server.close((err) => (err ? reject(err) : resolve()))
+			);
+		},
+	};
+
+	// Scripting over HTTP, for when the emulator runs as its own process
+	app.post("/emulator/script", (req, res) => {
+		const { api, steps } = req.body ?? {};
+		if (!(api in queues) || !Array.isArray(steps)) {
+			res.status(400).json({ error: 'Send { "api": "oauth" | "stk" | "b2c", "steps": [...] }' });
+			return;
+		}
+		emulator.script(api, ...steps);
+		res.status(200).json({ queued: queues[api as DarajaApi].length });
+	});
+	app.get("/emulator/requests", (req, res) => {
+		res.status(200).json({ requests, callbacks });
+	});
+	app.post("/emulator/reset", (req, res) => {
+		emulator.reset();
+		res.status(200).json({ message: "Emulator reset" });
+	});
+
+	const server = await new Promise<ReturnType<typeof app.listen>>((resolve, reject) => {
+		const listening = app.listen(port, host, (err?: Error) => (err ? reject(err) : resolve(listening)));
+	});
+	const address = server.address() as AddressInfo;
+	emulator.url = `http://${host}:${address.port}`;
+	return emulator;
+};
@@ -0,0 +1,136 @@
+import axios from "axios";
+
+import GeocodeCache from "../models/geocodeCache.models";
+import { findPlace, normalizePlace } from "../utils/kenyaGazetteer";
+import { logger } from "../utils/logger";
+
+export type Coordinates = {
+	latitude: number;
+	longitude: number;
+};
+
+export type GeocodeResult = Coordinates & {
+	// known for gazetteer places only
+	county: string | null;
+	source: string;
+};
+
+/**
+ * Looks up places the bundled gazetteer does not know. Returns null when
+ * the place does not exist; throws when the lookup itself failed, so that
+ * an outage is not remembered as a miss.
+ */
+export interface GeocodingProvider {
+	name: string;
+	geocode(place: string): Promise<Coordinates | null>;
+}
+
+// Free OpenStreetMap search; no key, but a User-Agent is required
+export const nominatimProvider = (): GeocodingProvider => ({
+	name: "nominatim",
+	async geocode(place) {
+		const { data } = await axios.get<{ lat: string; lon: string }[]>(
+			"https://nominatim.openstreetmap.org/search",
+			{
+				params: { q: place, countrycodes: "ke", format: "json", limit: 1 },
+				timeout: 5000,
+				headers: { "User-Agent": "FurnitureApp/1.0" },
+			}
+		);
+		const [hit] = data;
+		return hit ? { latitude: parseFloat(hit.lat), longitude: parseFloat(hit.lon) } : null;
+	},
+});
+
+let provider: GeocodingProvider | null | undefined;
+
+// GEOCODER=nominatim puts Nominatim behind the gazetteer; offline otherwise
+export const getGeocodingProvider = (): GeocodingProvider | null => {
+	provider ??= process.env.GEOCODER === "nominatim" ? nominatimProvider() : null;
+	return provider;
+};
+
+// Tests swap in a fake provider, or null to stay offline
+export const setGeocodingProvider = (next: GeocodingProvider | null | undefined) => {
+	provider = next;
+};
+
+// A miss is retried after a day in case the provider learns the place
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Provider answers already seen by this process
+const memo = new Map<string, GeocodeResult>();
+
+/**
+ * Coordinates for a Kenyan town or county as a buyer or seller typed it.
+ * The gazetteer answers offline; anything else goes to the optional
+ * provider, with answers (and, for a day, misses) cached in Mongo.
+ * @returns null when the place cannot be located
+ */
+export const geocodePlace = async (raw: string): Promise<GeocodeResult | null> => {
+	const place = findPlace(raw);
+	if (place) {
+		return {
+			latitude: place.latitude,
+			longitude: place.longitude,
+			county: place.county,
+			source: "gazetteer",
+		};
+	}
+
+	const query = normalizePlace(raw);
+	const external = getGeocodingProvider();
+	if (!query || !external) {
+		logger.warn(`⚠️ Place not in gazetteer: "${raw}"`);
+		return null;
+	}
+	const seen = memo.get(query);
+	if (seen) return seen;
+
+	try {
+		const cached = await GeocodeCache.findOne({
+			query,
+			$or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+		}).lean();
+		if (cached) {
+			if (!cached.found || cached.latitude == null || cached.longitude == null) {
+				return null;
+			}
+			const result = {
+				latitude: cached.latitude,
+				longitude: cached.longitude,
+				county: null,
+				source: cached.source,
+			};
+			memo.set(query, result);
+			return result;
+		}
+
+		const coords = await external.geocode(raw);
+		await GeocodeCache.updateOne(
+			{ query },
+			{
+				$set: {
+					found: Boolean(coords),
+					latitude: coords?.latitude ?? null,
+					longitude: coords?.longitude ?? null,
+					source: external.name,
+					expiresAt: coords ? null : new Date(Date.now() + MISS_TTL_MS),
+				},
+			},
+			{ upsert: true }
+		);
+		if (!coords) {
+			logger.warn(`⚠️ Place not found by ${external.name}: "${raw}"`);
+			return null;
+		}
+		const result = { ...coords, county: null, source: external.name };
+		memo.set(query, result);
+		return result;
+	} catch (error) {
+		logger.error(
+			`❌ Geocoding error for "${raw}": ${error instanceof Error ? error.message : "Unknown error"}`
+		);
+		return null;
+	}
+};
@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { logger } from "../utils/logger";
+
+export type UploadedImage = {
+	buffer: Buffer;
+	originalname: string;
+	mimetype: string;
+};
+
+/**
+ * Where product images live. Controllers only ever see public URLs; each
+ * backend knows how to map a URL it handed out back to the stored asset.
+ */
+export interface ImageStorage {
+	save(file: UploadedImage, folder: string): Promise<string>;
+	// URLs this backend did not issue are ignored
+	remove(url: string): Promise<void>;
+}
+
+// https://res.cloudinary.com/<cloud>/image/upload/v1712345678/products/abc.jpg
+const cloudinaryPublicId = (url: string) => {
+	if (!url.includes("res.cloudinary.com")) return null;
+	const match = /\/image\/upload\/(?:v\d+\/)?(.+)\.[^./]+$/.exec(url);
+	return match?.[1] ?? null;
+};
+
+export const cloudinaryStorage = (): ImageStorage => {
+	// loaded lazily: the config module throws without Cloudinary credentials
+	const client = async () => (await import("../config/cloudinary")).default;
+
+	return {
+		async save(file, folder) {
+			const cloudinary = await client();
+			const result = await new Promise<{ secure_url: string }>(
+				(resolve, reject) => {
+					cloudinary.uploader
+						.upload_stream({ resource_type: "image", folder }, (error, result) => {
+							if (error || !result) {
+								reject(error ?? new Error("Empty Cloudinary response"));
+							} else {
+								resolve(result);
+							}
+						})
+						.end(file.buffer);
+				}
+			);
+			return result.secure_url;
+		},
+
+		async remove(url) {
+			const publicId = cloudinaryPublicId(url);
+			if (!publicId) return;
+			const cloudinary = await client();
+			await cloudinary.uploader.destroy(publicId, { resource_type: "image" });
+		},
+	};
+};
+
+export const localUploadsDir = () =>
+	path.resolve(process.env.UPLOADS_DIR || "uploads");
+
+/**
+ * Files on local disk, served by express.static under /uploads. Meant for
+ * development and tests; nothing is shared between server instances.
+ */
+export const localDiskStorage = ({
+	dir = localUploadsDir(),
+	baseUrl = `${(
+		process.env.BASE_URL || `http://localhost:${process.env.PORT || 3000}`
+	).replace(/\/+$/, "")}/uploads`,
+}: { dir?: string; baseUrl?: string } = {}): ImageStorage => ({
+	async save(file, folder) {
+		const ext = path.extname(file.originalname).toLowerCase() || ".jpg";
+		const name = `${crypto.randomUUID()}${ext}`;
+		await fs.mkdir(path.join(dir, folder), { recursive: true });
+		await fs.writeFile(path.join(dir, folder, name), file.buffer);
+		return `${baseUrl}/${folder}/${name}`;
+	},
+
+	async remove(url) {
+		if (!url.startsWith(`${baseUrl}/`)) return;
+		const target = path.resolve(dir, url.slice(baseUrl.length + 1));
+		// never follow a crafted URL out of the uploads directory
+		if (!target.startsWith(`${path.resolve(dir)}${path.sep}`)) return;
+		await fs.rm(target, { force: true });
+	},
+});
+
+let storage: ImageStorage | null = null;
+
+// IMAGE_STORAGE=local switches to disk; Cloudinary otherwise
+export const getImageStorage = (): ImageStorage => {
+	storage ??=
+		process.env.IMAGE_STORAGE === "local"
+			? localDiskStorage()
+			: cloudinaryStorage();
+	return storage;
+};
+
+// Tests swap in a local or in-memory backend
+export const setImageStorage = (next: ImageStorage | null) => {
+	storage = next;
+};
+
+/**
+ * Store several uploads; if one fails, the ones already stored are removed
+ * again so a half-finished request leaves nothing behind.
+ */
+export const saveImages = async (files: UploadedImage[], folder: string) => {
+	const urls: string[] = [];
+	try {
+		for (const file of files) {
+			urls.push(await getImageStorage().save(file, folder));
+		}
+		return urls;
+	} catch (err) {
+		await removeImages(urls);
+		throw err;
+	}
+};
+
+// Best effort: a missing asset must not fail the request that removed it
+export const removeImages = async (urls: string[]) => {
+	for (const url of urls) {
+		try {
+			await getImageStorage().remove(url);
+		} catch (err) {
+			logger.warn(
+				`⚠️ Could not delete image ${url}: ${err instanceof Error ? err.message : err}`
+			);
+		}
+	}
+};
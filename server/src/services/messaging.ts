@@ -0,0 +1,203 @@
+import mongoose from "mongoose";
+
+import Conversation from "../models/conversation.models";
+import Message from "../models/message.models";
+import Order from "../models/orde.models";
+import Product from "../models/product.models";
+import { schemas } from "../middleware/validator";
+import { ClientEventHandler, publish } from "./realtime";
+
+export type ChatRole = "buyer" | "seller";
+
+type ConversationDoc = InstanceType<typeof Conversation>;
+
+type Participants = { _id: unknown; buyer: unknown; seller: unknown };
+
+export type OpenConversationResult =
+	| { status: "ok"; conversation: ConversationDoc; created: boolean }
+	| { status: "not_found" | "forbidden" };
+
+const UNREAD_FIELD = {
+	buyer: "buyerUnread",
+	seller: "sellerUnread",
+} as const;
+
+const isDuplicateKey = (err: unknown) =>
+	typeof err === "object" && err !== null && (err as { code?: number }).code === 11000;
+
+// Which side of the thread a user is on, or null for outsiders
+export const chatRoleOf = (
+	conversation: { buyer?: unknown; seller?: unknown },
+	userId: unknown
+): ChatRole | null => {
+	if (String(conversation.buyer) === String(userId)) return "buyer";
+	if (String(conversation.seller) === String(userId)) return "seller";
+	return null;
+};
+
+const otherSide = (conversation: Participants, role: ChatRole) =>
+	role === "buyer" ? conversation.seller : conversation.buyer;
+
+// Find the thread or create it; two requests racing to create it meet at
+// the unique index and the loser reads the winner's
+const findOrCreate = async (
+	filter: Record<string, unknown>,
+	fields: Record<string, unknown>
+): Promise<OpenConversationResult> => {
+	const existing = await Conversation.findOne(filter);
+	if (existing) return { status: "ok", conversation: existing, created: false };
+	try {
+		const conversation = await Conversation.create({ ...filter, ...fields });
+		return { status: "ok", conversation, created: true };
+	} catch (err) {
+		if (!isDuplicateKey(err)) throw err;
+		const conversation = await Conversation.findOne(filter);
+		if (!conversation) throw err;
+		return { status: "ok", conversation, created: false };
+	}
+};
+
+/**
+ * A buyer's thread with the seller about one of their listings.
+ */
+export const openProductConversation = async (
+	buyerId: string,
+	productId: string
+): Promise<OpenConversationResult> => {
+	const product = await Product.findById(productId).select("seller");
+	if (!product?.seller) return { status: "not_found" };
+	// sellers cannot start a thread with themselves
+	if (String(product.seller) === buyerId) return { status: "forbidden" };
+	return findOrCreate(
+		{ subject: "product", buyer: buyerId, product: product._id },
+		{ seller: product.seller }
+	);
+};
+
+/**
+ * The thread attached to an order; either party to the order may open it.
+ */
+export const openOrderConversation = async (
+	userId: string,
+	orderId: string
+): Promise<OpenConversationResult> => {
+	const order = await Order.findById(orderId).select("buyer seller");
+	if (!order?.buyer || !order.seller) return { status: "not_found" };
+	if (!chatRoleOf(order, userId)) return { status: "forbidden" };
+	return findOrCreate(
+		{ subject: "order", order: order._id },
+		{ buyer: order.buyer, seller: order.seller }
+	);
+};
+
+/**
+ * Store a message, bump the recipient's unread count and deliver it live
+ * to both participants (the sender's other devices stay in sync too).
+ */
+export const postMessage = async (
+	conversation: Participants,
+	senderId: string,
+	role: ChatRole,
+	body: string
+) => {
+	const message = await Message.create({
+		conversation: conversation._id,
+		sender: senderId,
+		body,
+	});
+	const recipient: ChatRole = role === "buyer" ? "seller" : "buyer";
+	const updated = await Conversation.findByIdAndUpdate(
+		conversation._id,
+		{
+			$set: {
+				lastMessage: { body: message.body, sender: senderId, at: message.createdAt },
+			},
+			$inc: { [UNREAD_FIELD[recipient]]: 1 },
+		},
+		{ new: true }
+	);
+	publish([conversation.buyer, conversation.seller], {
+		type: "message",
+		conversationId: String(conversation._id),
+		message: message.toObject(),
+		buyerUnread: updated?.buyerUnread ?? 0,
+		sellerUnread: updated?.sellerUnread ?? 0,
+	});
+	return message;
+};
+
+/**
+ * Mark everything the other side sent as read and tell them, so their
+ * messages show as seen.
+ */
+export const markConversationRead = async (
+	conversation: Participants,
+	role: ChatRole,
+	userId: string,
+	now: Date = new Date()
+) => {
+	const result = await Message.updateMany(
+		{ conversation: conversation._id, sender: { $ne: userId }, readAt: null },
+		{ $set: { readAt: now } }
+	);
+	// reading is not activity: keep the thread's place in the inbox
+	await Conversation.updateOne(
+		{ _id: conversation._id },
+		{ $set: { [UNREAD_FIELD[role]]: 0 } },
+		{ timestamps: false }
+	);
+	if (result.modifiedCount > 0) {
+		publish([otherSide(conversation, role)], {
+			type: "read",
+			conversationId: String(conversation._id),
+			readBy: userId,
+			readAt: now.toISOString(),
+		});
+	}
+	return result.modifiedCount;
+};
+
+// Looks up a thread the user takes part in
+const loadForUser = async (conversationId: unknown, userId: string) => {
+	if (!mongoose.isValidObjectId(conversationId)) return null;
+	const conversation = await Conversation.findById(conversationId);
+	if (!conversation) return null;
+	const role = chatRoleOf(conversation, userId);
+	return role ? { conversation, role } : null;
+};
+
+/**
+ * Frames a chat client may send over the socket instead of calling REST:
+ * `message` ({ conversationId, body, clientId? }), `read` and `typing`.
+ */
+export const handleChatEvent: ClientEventHandler = async (user, event) => {
+	const { type, conversationId, clientId } = event;
+	const thread = await loadForUser(conversationId, user.id);
+	if (!thread) {
+		return { type: "error", clientId, message: "Conversation not found" };
+	}
+	const { conversation, role } = thread;
+
+	switch (type) {
+		case "message": {
+			const { error, value } = schemas.chatMessage.validate({ body: event.body });
+			if (error) {
+				return { type: "error", clientId, message: error.details[0]?.message };
+			}
+			const message = await postMessage(conversation, user.id, role, value.body);
+			return { type: "ack", clientId, messageId: String(message._id) };
+		}
+		case "read":
+			await markConversationRead(conversation, role, user.id);
+			return null;
+		case "typing":
+			publish([otherSide(conversation, role)], {
+				type: "typing",
+				conversationId: String(conversation._id),
+				userId: user.id,
+			});
+			return null;
+		default:
+			return { type: "error", clientId, message: `Unknown event type: ${type}` };
+	}
+};
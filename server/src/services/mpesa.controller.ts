@@ -1,9 +1,10 @@
 import axios from "axios";
 import { Buffer } from "buffer";
 import { Request, Response } from "express";
+import { getCallbackToken } from "../middleware/mpesaCallback";
 import MpesaTransaction from "../models/mpesa.models";
 import { logger } from "../utils/logger";
-import { getAccessToken } from "./token";
+import { darajaBaseUrl, getAccessToken } from "./token";
 
 const generateTimestamp = () => {
   return new Date()
@@ -12,11 +13,22 @@ const generateTimestamp = () => {
     .slice(0, 14);
 };
 
-const shortCode = process.env.BUSINESS_SHORT_CODE || "174379";
-const PASS_KEY = process.env.PASS_KEY;
+// Read per request, like the base URL, so the emulator can check them
+const shortCode = () => process.env.BUSINESS_SHORT_CODE || "174379";
+
+const stkPassword = (timestamp: string) =>
+  Buffer.from(`${shortCode()}${process.env.PASS_KEY}${timestamp}`).toString(
+    "base64",
+  );
+
+// Daraja only calls back over https; a local emulator may use plain http
+const isAllowedCallbackUrl = (url: URL) =>
+  url.protocol === "https:" ||
+  (url.protocol === "http:" &&
+    ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname));
 
 // ✅ Helper to format phone number for M-Pesa
-const formatPhoneNumber = (phone: string): string => {
+export const formatPhoneNumber = (phone: string): string => {
   // Remove any spaces, dashes, or special characters
   let cleaned = phone.replace(/[\s\-\(\)]/g, "");
 
@@ -50,15 +62,28 @@ const normalizeTransactionDesc = (value?: string): string => {
   return (cleaned || "Furniture").slice(0, 13);
 };
 
-const getCallbackUrl = (): string => {
+// With MPESA_CALLBACK_TOKEN set, Daraja calls back on /callback/<token>
+const appendCallbackToken = (url: URL): string => {
+  const token = getCallbackToken();
+  if (token) {
+    url.pathname = `${url.pathname.replace(/\/+$/, "")}/${encodeURIComponent(token)}`;
+  }
+  return url.toString();
+};
+
+// STK callback URL, or with `path` a sibling of it such as "b2c/result"
+export const getCallbackUrl = (path = "callback"): string => {
+  const withPath = (stkUrl: URL) =>
+    appendCallbackToken(path === "callback" ? stkUrl : new URL(path, stkUrl));
+
   const explicit = process.env.MPESA_CALLBACK_URL?.trim();
   if (explicit) {
     try {
       const parsed = new URL(explicit);
-      if (parsed.protocol !== "https:") {
+      if (!isAllowedCallbackUrl(parsed)) {
         throw new Error("MPESA_CALLBACK_URL must use https");
       }
-      return parsed.toString();
+      return withPath(parsed);
     } catch {
       throw new Error(
         `Invalid MPESA_CALLBACK_URL: "${process.env.MPESA_CALLBACK_URL}"`,
@@ -75,7 +100,7 @@ const getCallbackUrl = (): string => {
 
   try {
     const parsedBase = new URL(base);
-    if (parsedBase.protocol !== "https:") {
+    if (!isAllowedCallbackUrl(parsedBase)) {
       throw new Error("BASE_URL must use https");
     }
 
@@ -83,12 +108,16 @@ const getCallbackUrl = (): string => {
     parsedBase.pathname = `${basePath}/api/v1/mpesa/callback`;
     parsedBase.search = "";
     parsedBase.hash = "";
-    return parsedBase.toString();
+    return withPath(parsedBase);
   } catch {
     throw new Error(`Invalid BASE_URL: "${process.env.BASE_URL}"`);
   }
 };
 
+// Daraja only takes whole shillings, minimum 1
+export const toStkAmount = (amount: number) =>
+  Math.round(Math.max(1, amount));
+
 async function initiatePayment({
   amount,
   products,
@@ -123,13 +152,11 @@ async function initiatePayment({
     }
 
     // ✅ Validate amount (minimum 1 KES)
-    const roundedAmount = Math.round(Math.max(1, amount));
+    const roundedAmount = toStkAmount(amount);
     logger.info(`💰 Amount: ${amount} -> ${roundedAmount} KES`);
 
     const timestamp = generateTimestamp();
-    const password = Buffer.from(
-      `${shortCode}${PASS_KEY}${timestamp}`,
-    ).toString("base64");
+    const password = stkPassword(timestamp);
 
     const headers = {
       Authorization: `Bearer ${accessToken}`,
@@ -137,13 +164,13 @@ async function initiatePayment({
     };
 
     const payload = {
-      BusinessShortCode: shortCode,
+      BusinessShortCode: shortCode(),
       Password: password,
       Timestamp: timestamp,
       TransactionType: "CustomerPayBillOnline",
       Amount: roundedAmount, // ✅ Use rounded amount
       PartyA: formattedPhone, // ✅ Formatted phone
-      PartyB: shortCode,
+      PartyB: shortCode(),
       PhoneNumber: formattedPhone, // ✅ Formatted phone
       CallBackURL: getCallbackUrl(),
       AccountReference: normalizeAccountReference(accountReference),
@@ -157,7 +184,7 @@ async function initiatePayment({
     logger.info(`🔔 IMPORTANT: Callback URL is ${payload.CallBackURL}`);
 
     const response = await axios.post(
-      "https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest",
+      `${darajaBaseUrl()}/mpesa/stkpush/v1/processrequest`,
       payload,
       { headers },
     );
@@ -179,20 +206,73 @@ async function initiatePayment({
   }
 }
 
+export type StkQueryResult =
+  | { state: "paid"; resultCode: number; resultDesc: string }
+  | { state: "failed"; resultCode: number; resultDesc: string }
+  | { state: "pending"; resultDesc: string };
+
+/**
+ * Ask Daraja what happened to an STK push whose callback never arrived.
+ * While the customer still has the prompt open Daraja answers with an error
+ * ("The transaction is being processed"), which we report as pending.
+ */
+async function queryStkPush(checkoutRequestId: string): Promise<StkQueryResult> {
+  try {
+    const accessToken = await getAccessToken();
+    const timestamp = generateTimestamp();
+    const password = stkPassword(timestamp);
+
+    const response = await axios.post(
+      `${darajaBaseUrl()}/mpesa/stkpushquery/v1/query`,
+      {
+        BusinessShortCode: shortCode(),
+        Password: password,
+        Timestamp: timestamp,
+        CheckoutRequestID: checkoutRequestId,
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+
+    logger.info(`🔎 STK Query Response for ${checkoutRequestId}:`, response.data);
+
+    const resultCode = Number(response.data?.ResultCode);
+    const resultDesc = String(response.data?.ResultDesc ?? "");
+    if (Number.isNaN(resultCode)) {
+      return { state: "pending", resultDesc: resultDesc || "No result yet" };
+    }
+    return resultCode === 0
+      ? { state: "paid", resultCode, resultDesc }
+      : { state: "failed", resultCode, resultDesc };
+  } catch (error: any) {
+    const detail =
+      error.response?.data?.errorMessage ?? error.message ?? "Unknown error";
+    logger.warn(`⚠️ STK Query for ${checkoutRequestId} inconclusive: ${detail}`);
+    return { state: "pending", resultDesc: String(detail) };
+  }
+}
+
 export const mpesaController = {
   initiatePayment,
+  queryStkPush,
   async getTransaction(req: Request, res: Response) {
     try {
       const tx = await MpesaTransaction.findById(req.params.id);
       if (!tx)
         return res.status(404).json({ message: "Transaction not found" });
       let order = null;
-      if (tx.order) {
-        order = await (
-          await import("../models/orde.models")
-        ).default.findById(tx.order);
+      let orders: unknown[] = [];
+      if (tx.order || tx.orders?.length) {
+        const Order = (await import("../models/orde.models")).default;
+        const orderIds = tx.orders?.length ? tx.orders : [tx.order];
+        orders = await Order.find({ _id: { $in: orderIds } });
+        order = orders[0] ?? null;
       }
-      return res.status(200).json({ transaction: tx, order });
+      return res.status(200).json({ transaction: tx, order, orders });
     } catch (error) {
       logger.error("Error fetching transaction", error);
       return res.status(500).json({ error: "Failed to fetch transaction" });
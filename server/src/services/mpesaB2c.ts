@@ -0,0 +1,142 @@
+import axios from "axios";
+
+import { logger } from "../utils/logger";
+import { formatPhoneNumber, getCallbackUrl, toStkAmount } from "./mpesa.controller";
+import { darajaBaseUrl, getAccessToken } from "./token";
+
+export type B2CPayment = {
+	// our id for the attempt; Daraja echoes it in the result
+	originatorConversationId: string;
+	amount: number;
+	phoneNumber: string;
+	remarks: string;
+	occasion?: string;
+};
+
+// Daraja queued the payment; the outcome arrives on the result URL
+export type B2CAccepted = {
+	conversationId: string;
+	description: string;
+};
+
+// A result (or queue timeout) delivered to the B2C callback URLs
+export type B2CResult = {
+	originatorConversationId: string;
+	conversationId: string;
+	resultCode: number;
+	resultDesc: string;
+	transactionId: string | null;
+	amount: number | null;
+};
+
+// Daraja answered and refused the payment, so no money moved
+export class B2CRejectedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "B2CRejectedError";
+	}
+}
+
+/**
+ * Sends money from the business short code to a customer's phone. Throws
+ * B2CRejectedError when Daraja refuses the request; any other error (a
+ * timeout, a dropped connection) leaves it unknown whether the payment was
+ * queued. An accepted request can still fail later, which is reported to
+ * the result URL.
+ */
+export interface B2CClient {
+	name: string;
+	sendPayment(payment: B2CPayment): Promise<B2CAccepted>;
+}
+
+export const darajaB2CClient = (): B2CClient => ({
+	name: "daraja",
+	async sendPayment({ originatorConversationId, amount, phoneNumber, remarks, occasion }) {
+		let accessToken: string;
+		try {
+			accessToken = await getAccessToken();
+		} catch (error: any) {
+			// nothing was sent without a token
+			throw new B2CRejectedError(`No Daraja access token: ${error.message}`);
+		}
+		let data: any;
+		try {
+			({ data } = await axios.post(
+				`${darajaBaseUrl()}/mpesa/b2c/v3/paymentrequest`,
+				{
+					OriginatorConversationID: originatorConversationId,
+					InitiatorName: process.env.B2C_INITIATOR_NAME || "testapi",
+					SecurityCredential: process.env.B2C_SECURITY_CREDENTIAL || "",
+					CommandID: "BusinessPayment",
+					Amount: toStkAmount(amount),
+					PartyA: process.env.B2C_SHORT_CODE || process.env.BUSINESS_SHORT_CODE || "600000",
+					PartyB: formatPhoneNumber(phoneNumber),
+					Remarks: remarks.slice(0, 100) || "Refund",
+					QueueTimeOutURL: getCallbackUrl("b2c/timeout"),
+					ResultURL: getCallbackUrl("b2c/result"),
+					Occassion: (occasion ?? "").slice(0, 100),
+				},
+				{
+					headers: {
+						Authorization: `Bearer ${accessToken}`,
+						"Content-Type": "application/json",
+					},
+					timeout: 15000,
+				}
+			));
+		} catch (error: any) {
+			// without a response Daraja may still have queued the payment
+			if (!error.response) throw error;
+			throw new B2CRejectedError(
+				String(error.response.data?.errorMessage ?? error.message)
+			);
+		}
+		if (String(data?.ResponseCode) !== "0") {
+			throw new B2CRejectedError(data?.ResponseDescription || "B2C request rejected");
+		}
+		logger.info(`💸 B2C payment queued: ${data.ConversationID}`);
+		return {
+			conversationId: data.ConversationID,
+			description: data.ResponseDescription ?? "",
+		};
+	},
+});
+
+let client: B2CClient | null = null;
+
+export const getB2CClient = (): B2CClient => {
+	client ??= darajaB2CClient();
+	return client;
+};
+
+// Tests swap in a fake client; null goes back to Daraja
+export const setB2CClient = (next: B2CClient | null) => {
+	client = next;
+};
+
+/**
+ * Pull the fields we need out of a B2C result or timeout body. Returns
+ * null when the body is not one.
+ */
+export const parseB2CResult = (body: unknown): B2CResult | null => {
+	const result = (body as any)?.Result;
+	if (!result?.ConversationID && !result?.OriginatorConversationID) return null;
+
+	const params: { Key: string; Value: unknown }[] = Array.isArray(
+		result.ResultParameters?.ResultParameter
+	)
+		? result.ResultParameters.ResultParameter
+		: [];
+	const param = (key: string) => params.find((p) => p.Key === key)?.Value;
+	const receipt = result.TransactionID || param("TransactionReceipt");
+	const amount = param("TransactionAmount");
+
+	return {
+		originatorConversationId: String(result.OriginatorConversationID ?? ""),
+		conversationId: String(result.ConversationID ?? ""),
+		resultCode: Number(result.ResultCode),
+		resultDesc: String(result.ResultDesc ?? ""),
+		transactionId: receipt ? String(receipt) : null,
+		amount: amount == null ? null : Number(amount),
+	};
+};
@@ -0,0 +1,264 @@
+import Notification, { NotificationType } from "../models/notification.models";
+import User from "../models/user.models";
+import { logger } from "../utils/logger";
+import { ClaimStatus } from "../models/claim.models";
+import { isOrderStatus, OrderActor, OrderStatus } from "./orderStatus";
+import { getPushSender, PushMessage } from "./push";
+
+export type NewNotification = {
+	user: unknown;
+	type: NotificationType;
+	title: string;
+	body: string;
+	data?: Record<string, unknown>;
+};
+
+/**
+ * Store notifications and push them to the recipients' devices. Never
+ * throws: a lost notification must not undo the payment, status change or
+ * review that triggered it.
+ */
+export const notify = async (notifications: NewNotification[]) => {
+	if (notifications.length === 0) return;
+	try {
+		await Notification.insertMany(
+			notifications.map((n) => ({ ...n, data: n.data ?? {} }))
+		);
+	} catch (err) {
+		logger.error("Failed to store notifications", err);
+		return;
+	}
+
+	try {
+		const userIds = [...new Set(notifications.map((n) => String(n.user)))];
+		const users = await User.find({ _id: { $in: userIds } }).select("+pushTokens");
+		const tokensByUser = new Map(users.map((u) => [String(u._id), u.pushTokens]));
+
+		const messages: PushMessage[] = notifications.flatMap((n) =>
+			(tokensByUser.get(String(n.user)) ?? []).map((to) => ({
+				to,
+				title: n.title,
+				body: n.body,
+				data: { ...n.data, type: n.type },
+			}))
+		);
+		if (messages.length === 0) return;
+
+		const { invalidTokens } = await getPushSender().send(messages);
+		if (invalidTokens.length > 0) {
+			await User.updateMany(
+				{ pushTokens: { $in: invalidTokens } },
+				{ $pull: { pushTokens: { $in: invalidTokens } } }
+			);
+			logger.info(`🔕 Removed ${invalidTokens.length} unregistered push token(s)`);
+		}
+	} catch (err) {
+		logger.warn(
+			`⚠️ Push delivery failed: ${err instanceof Error ? err.message : err}`
+		);
+	}
+};
+
+type NotifiableOrder = {
+	_id: unknown;
+	buyer?: unknown;
+	seller?: unknown;
+	orderNumber?: string | null;
+	status?: string | null;
+	paymentStatus?: string | null;
+	total?: number | null;
+};
+
+const STATUS_TEXT: Record<OrderStatus, string> = {
+	pending: "is waiting for payment",
+	confirmed: "has been confirmed by the seller",
+	shipped: "has shipped",
+	out_for_delivery: "is out for delivery",
+	delivered: "has been delivered",
+	cancelled: "has been cancelled",
+	returned: "has been marked as returned",
+};
+
+const STATUS_TITLES: Record<OrderStatus, string> = {
+	pending: "Order pending",
+	confirmed: "Order confirmed",
+	shipped: "Order shipped",
+	out_for_delivery: "Out for delivery",
+	delivered: "Order delivered",
+	cancelled: "Order cancelled",
+	returned: "Order returned",
+};
+
+/**
+ * Tell the other side of an order that its status changed. Buyers hear
+ * about every change they did not make; sellers only about paid orders,
+ * so unpaid checkouts timing out do not reach them.
+ */
+export const notifyOrderStatus = (
+	orders: NotifiableOrder[],
+	actor: OrderActor,
+	note?: string
+) =>
+	notify(
+		orders.flatMap((order) => {
+			if (!isOrderStatus(order.status)) return [];
+			const status = order.status;
+			const body = `Order ${order.orderNumber} ${STATUS_TEXT[status]}${
+				note ? `: ${note}` : "."
+			}`;
+			const data = { orderId: String(order._id), status };
+			const recipients: unknown[] = [];
+			if (actor !== "buyer" && order.buyer) recipients.push(order.buyer);
+			if (actor !== "seller" && order.seller && order.paymentStatus === "paid") {
+				recipients.push(order.seller);
+			}
+			return recipients.map((user) => ({
+				user,
+				type: "order_status" as const,
+				title: STATUS_TITLES[status],
+				body,
+				data,
+			}));
+		})
+	);
+
+// Payment confirmed: reassure the buyer, and tell the seller to get going
+export const notifyPaymentReceived = (orders: NotifiableOrder[]) =>
+	notify(
+		orders.flatMap((order) => {
+			const data = { orderId: String(order._id) };
+			const amount = `Ksh ${Number(order.total ?? 0).toLocaleString()}`;
+			return [
+				...(order.buyer
+					? [
+							{
+								user: order.buyer,
+								type: "payment_received" as const,
+								title: "Payment received",
+								body: `We received ${amount} for order ${order.orderNumber}. The seller will confirm it shortly.`,
+								data,
+							},
+					  ]
+					: []),
+				...(order.seller
+					? [
+							{
+								user: order.seller,
+								type: "new_order" as const,
+								title: "New order",
+								body: `Order ${order.orderNumber} (${amount}) has been paid. Confirm it to start fulfilment.`,
+								data,
+							},
+					  ]
+					: []),
+			];
+		})
+	);
+
+type NotifiableRefund = {
+	_id: unknown;
+	order: unknown;
+	buyer: unknown;
+	seller: unknown;
+	amount: number;
+};
+
+// A buyer asked for money back: the seller has to approve it
+export const notifyRefundRequested = (
+	refund: NotifiableRefund,
+	orderNumber?: string | null
+) =>
+	notify([
+		{
+			user: refund.seller,
+			type: "refund_requested",
+			title: "Refund requested",
+			body: `Order ${orderNumber} was cancelled after payment. Approve the Ksh ${refund.amount.toLocaleString()} refund to pay the buyer back.`,
+			data: { orderId: String(refund.order), refundId: String(refund._id) },
+		},
+	]);
+
+export const notifyRefundCompleted = (
+	refund: NotifiableRefund,
+	orderNumber?: string | null
+) =>
+	notify([
+		{
+			user: refund.buyer,
+			type: "refund_completed",
+			title: "Refund sent",
+			body: `Ksh ${refund.amount.toLocaleString()} for order ${orderNumber} has been sent to your M-Pesa.`,
+			data: { orderId: String(refund.order), refundId: String(refund._id) },
+		},
+	]);
+
+type NotifiableClaim = {
+	_id: unknown;
+	order: unknown;
+	type: string;
+	status: ClaimStatus;
+};
+
+const CLAIM_TEXT: Record<ClaimStatus, string> = {
+	open: "was opened and is waiting for the seller",
+	accepted: "was accepted",
+	partial_refund: "was settled with a partial refund",
+	rejected: "was rejected",
+	escalated: "was passed to our support team",
+	withdrawn: "was withdrawn by the buyer",
+};
+
+// A claim moved on; `recipients` are whoever did not make the change
+export const notifyClaimUpdate = (
+	claim: NotifiableClaim,
+	recipients: unknown[],
+	orderNumber?: string | null,
+	note?: string
+) => {
+	const kind = claim.type === "return" ? "Return request" : "Damage claim";
+	return notify(
+		recipients.map((user) => ({
+			user,
+			type: "claim_update" as const,
+			title: kind,
+			body: `${kind} on order ${orderNumber} ${CLAIM_TEXT[claim.status]}${
+				note ? `: ${note}` : "."
+			}`,
+			data: { orderId: String(claim.order), claimId: String(claim._id) },
+		}))
+	);
+};
+
+export const notifyNewReview = (
+	product: { _id: unknown; seller?: unknown; name?: string | null },
+	review: { _id: unknown; stars?: number | null }
+) =>
+	notify(
+		product.seller
+			? [
+					{
+						user: product.seller,
+						type: "new_review",
+						title: "New review",
+						body: `${product.name} received a ${review.stars}-star review.`,
+						data: { productId: String(product._id), reviewId: String(review._id) },
+					},
+			  ]
+			: []
+	);
+
+export const notifyAccountApproved = (user: {
+	_id: unknown;
+	role?: string | null;
+}) =>
+	notify([
+		{
+			user: user._id,
+			type: "account_approved",
+			title: "Account approved",
+			body:
+				user.role === "seller"
+					? "Your seller account has been approved. You can now list products."
+					: "Your account has been approved.",
+		},
+	]);
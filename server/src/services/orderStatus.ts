@@ -0,0 +1,117 @@
+export const ORDER_STATUSES = [
+	"pending",
+	"confirmed",
+	"shipped",
+	"out_for_delivery",
+	"delivered",
+	"cancelled",
+	"returned",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// "system" is the payment callback / reservation sweeper
+export type OrderActor = "buyer" | "seller" | "admin" | "system";
+
+/**
+ * Allowed moves and who may make them. Anything not listed is rejected,
+ * so cancelled and returned orders are final.
+ */
+export const ORDER_TRANSITIONS: Record<
+	OrderStatus,
+	Partial<Record<OrderStatus, OrderActor[]>>
+> = {
+	pending: {
+		confirmed: ["seller", "admin"],
+		cancelled: ["buyer", "seller", "admin", "system"],
+	},
+	confirmed: {
+		shipped: ["seller", "admin"],
+		cancelled: ["buyer", "seller", "admin"],
+	},
+	shipped: {
+		out_for_delivery: ["seller", "admin"],
+	},
+	out_for_delivery: {
+		delivered: ["seller", "admin"],
+	},
+	delivered: {
+		returned: ["seller", "admin"],
+	},
+	cancelled: {},
+	returned: {},
+};
+
+export type StatusEvent = {
+	status: OrderStatus;
+	at: Date;
+	by: unknown;
+	note?: string;
+};
+
+type TransitionableOrder = {
+	status?: string | null;
+	paymentStatus?: string | null;
+	actualDelivery?: Date | null;
+	statusHistory: { push: (event: StatusEvent) => unknown };
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+	typeof value === "string" &&
+	(ORDER_STATUSES as readonly string[]).includes(value);
+
+export const allowedTransitions = (
+	from: OrderStatus,
+	actor: OrderActor
+): OrderStatus[] =>
+	(Object.entries(ORDER_TRANSITIONS[from]) as [OrderStatus, OrderActor[]][])
+		.filter(([, actors]) => actors.includes(actor))
+		.map(([to]) => to);
+
+/**
+ * First history entry for a freshly created order.
+ */
+export const initialStatusEvent = (
+	by: unknown,
+	now: Date = new Date()
+): StatusEvent => ({
+	status: "pending",
+	at: now,
+	by,
+	note: "Order placed",
+});
+
+/**
+ * Move an order to `to` if the state machine allows it for this actor, and
+ * record the change in `statusHistory`. Does not save the order.
+ */
+export const transitionOrder = (
+	order: TransitionableOrder,
+	to: OrderStatus,
+	{ actor, by, note }: { actor: OrderActor; by: unknown; note?: string },
+	now: Date = new Date()
+):
+	| { ok: true; from: OrderStatus }
+	| { ok: false; reason: "invalid_transition" | "forbidden" | "unpaid" } => {
+	const from: OrderStatus = isOrderStatus(order.status)
+		? order.status
+		: "pending";
+	const actors = ORDER_TRANSITIONS[from][to];
+
+	if (!actors) return { ok: false, reason: "invalid_transition" };
+	if (!actors.includes(actor)) return { ok: false, reason: "forbidden" };
+	// sellers only start fulfilling once the money is in
+	if (to === "confirmed" && order.paymentStatus !== "paid") {
+		return { ok: false, reason: "unpaid" };
+	}
+
+	order.status = to;
+	if (to === "delivered") order.actualDelivery = now;
+	order.statusHistory.push({
+		status: to,
+		at: now,
+		by,
+		...(note ? { note } : {}),
+	});
+	return { ok: true, from };
+};
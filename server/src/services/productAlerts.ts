@@ -0,0 +1,201 @@
+import Notification from "../models/notification.models";
+import ProductAlert from "../models/productAlert.models";
+import Wishlist from "../models/wishlist.models";
+import { logger } from "../utils/logger";
+import { NewNotification, notify } from "./notifications";
+
+// The fields the alerts compare before and after a write
+export const SNAPSHOT_FIELDS =
+	"name price stock variants._id variants.price variants.stock variants.attributes";
+
+type VariantSnapshot = {
+	_id: unknown;
+	price: number;
+	stock: number;
+	attributes?: { color?: string | null; material?: string | null; size?: string | null } | null;
+};
+
+export type ProductSnapshot = {
+	_id: unknown;
+	name: string;
+	price: number;
+	stock: number;
+	variants: VariantSnapshot[];
+};
+
+type SnapshotSource = {
+	_id: unknown;
+	name?: string | null;
+	price?: number | null;
+	stock?: number | null;
+	variants?: VariantSnapshot[] | null;
+};
+
+export const productSnapshot = (product: SnapshotSource): ProductSnapshot => ({
+	_id: product._id,
+	name: product.name ?? "",
+	price: product.price ?? 0,
+	stock: product.stock ?? 0,
+	variants: (product.variants ?? []).map((v) => ({
+		_id: v._id,
+		price: v.price,
+		stock: v.stock,
+		attributes: v.attributes
+			? {
+					color: v.attributes.color ?? null,
+					material: v.attributes.material ?? null,
+					size: v.attributes.size ?? null,
+			  }
+			: null,
+	})),
+});
+
+// Price and stock of one option, or of the product when none is watched
+const levelOf = (snapshot: ProductSnapshot, variant: unknown) => {
+	const v = variant
+		? snapshot.variants.find((x) => String(x._id) === String(variant))
+		: null;
+	return v ? { price: v.price, stock: v.stock } : { price: snapshot.price, stock: snapshot.stock };
+};
+
+const nameOf = (snapshot: ProductSnapshot, variant: unknown) => {
+	const v = variant
+		? snapshot.variants.find((x) => String(x._id) === String(variant))
+		: null;
+	const options = v?.attributes
+		? [v.attributes.color, v.attributes.material, v.attributes.size].filter(Boolean)
+		: [];
+	return options.length ? `${snapshot.name} (${options.join(", ")})` : snapshot.name;
+};
+
+// Whether anything got cheaper or came back from sold out
+const worthChecking = (before: ProductSnapshot, after: ProductSnapshot) =>
+	[null, ...after.variants.map((v) => v._id)].some((variant) => {
+		const was = levelOf(before, variant);
+		const now = levelOf(after, variant);
+		return now.price < was.price || (was.stock <= 0 && now.stock > 0);
+	});
+
+type Watcher = {
+	user: unknown;
+	variant: unknown;
+	onPriceDrop: boolean;
+	// a dropped price must be at or below this
+	atOrBelow: number | null;
+	// a dropped price must be below this (the price when wishlisted)
+	below: number | null;
+	onBackInStock: boolean;
+};
+
+// Leaves this long between two alerts of a kind about the same product, so
+// a seller fiddling with a price does not flood the buyers watching it
+const COOLDOWN_MS =
+	Number(process.env.PRODUCT_ALERT_COOLDOWN_HOURS || 12) * 60 * 60 * 1000;
+
+const watchersOf = async (productId: unknown): Promise<Watcher[]> => {
+	const [alerts, wishlists] = await Promise.all([
+		ProductAlert.find({ product: productId }).lean(),
+		Wishlist.find({ "items.product": productId })
+			.select({ user: 1, "items.$": 1 })
+			.lean(),
+	]);
+
+	// an explicit alert decides for its buyer over their wishlist entry
+	const watchers = new Map<string, Watcher>();
+	for (const wishlist of wishlists) {
+		const item = wishlist.items[0];
+		if (!item) continue;
+		watchers.set(String(wishlist.user), {
+			user: wishlist.user,
+			variant: item.variant,
+			onPriceDrop: true,
+			atOrBelow: null,
+			below: item.priceWhenAdded ?? null,
+			onBackInStock: true,
+		});
+	}
+	for (const alert of alerts) {
+		watchers.set(String(alert.user), {
+			user: alert.user,
+			variant: alert.variant,
+			onPriceDrop: alert.onPriceDrop,
+			atOrBelow: alert.targetPrice ?? null,
+			below: null,
+			onBackInStock: alert.onBackInStock,
+		});
+	}
+	return [...watchers.values()];
+};
+
+/**
+ * Tell buyers watching a product (by alert or wishlist) that it got cheaper
+ * or is back in stock. Called by the Product model hooks after every write,
+ * so never throws.
+ */
+export const alertOnProductChange = async (
+	before: ProductSnapshot,
+	after: ProductSnapshot
+) => {
+	try {
+		if (!worthChecking(before, after)) return;
+		const productId = String(after._id);
+
+		const notifications: NewNotification[] = [];
+		for (const watcher of await watchersOf(after._id)) {
+			const was = levelOf(before, watcher.variant);
+			const now = levelOf(after, watcher.variant);
+			const name = nameOf(after, watcher.variant);
+			const data = {
+				productId,
+				...(watcher.variant ? { variantId: String(watcher.variant) } : {}),
+			};
+
+			const cheaper =
+				watcher.onPriceDrop &&
+				now.price < was.price &&
+				(watcher.atOrBelow === null || now.price <= watcher.atOrBelow) &&
+				(watcher.below === null || now.price < watcher.below);
+			if (cheaper && now.stock > 0) {
+				notifications.push({
+					user: watcher.user,
+					type: "price_drop",
+					title: "Price drop",
+					body: `${name} is now Ksh ${now.price.toLocaleString()} (was Ksh ${was.price.toLocaleString()}).`,
+					data,
+				});
+			} else if (watcher.onBackInStock && was.stock <= 0 && now.stock > 0) {
+				notifications.push({
+					user: watcher.user,
+					type: "back_in_stock",
+					title: "Back in stock",
+					body: `${name} is available again at Ksh ${now.price.toLocaleString()}.`,
+					data,
+				});
+			}
+		}
+		if (notifications.length === 0) return;
+
+		const recent = await Notification.find({
+			user: { $in: notifications.map((n) => n.user) },
+			type: { $in: ["price_drop", "back_in_stock"] },
+			"data.productId": productId,
+			createdAt: { $gte: new Date(Date.now() - COOLDOWN_MS) },
+		})
+			.select("user type")
+			.lean();
+		const alreadyTold = new Set(recent.map((n) => `${n.user}:${n.type}`));
+		const fresh = notifications.filter(
+			(n) => !alreadyTold.has(`${n.user}:${n.type}`)
+		);
+		if (fresh.length === 0) return;
+
+		await notify(fresh);
+		await ProductAlert.updateMany(
+			{ product: after._id, user: { $in: fresh.map((n) => n.user) } },
+			{ $set: { lastNotifiedAt: new Date() } }
+		);
+		logger.info(`🔔 ${fresh.length} product alert(s) sent for ${productId}`);
+	} catch (err) {
+		logger.error("Failed to send product alerts", err);
+	}
+};
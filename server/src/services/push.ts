@@ -0,0 +1,90 @@
+import axios from "axios";
+
+import { logger } from "../utils/logger";
+
+export type PushMessage = {
+	to: string;
+	title: string;
+	body: string;
+	data?: Record<string, unknown>;
+};
+
+/**
+ * Delivers push messages to devices. Reports tokens the provider says are
+ * no longer registered so callers can forget them.
+ */
+export interface PushSender {
+	send(messages: PushMessage[]): Promise<{ invalidTokens: string[] }>;
+}
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100;
+
+type ExpoTicket = {
+	status: "ok" | "error";
+	message?: string;
+	details?: { error?: string };
+};
+
+export const expoPushSender = (
+	accessToken = process.env.EXPO_ACCESS_TOKEN
+): PushSender => ({
+	async send(messages) {
+		const invalidTokens: string[] = [];
+		for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+			const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+			const { data } = await axios.post<{ data: ExpoTicket[] }>(
+				EXPO_PUSH_URL,
+				batch.map((m) => ({ ...m, sound: "default" })),
+				{
+					headers: {
+						"Content-Type": "application/json",
+						...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+					},
+					timeout: 10000,
+				}
+			);
+			// tickets come back in the same order as the messages
+			data.data.forEach((ticket, index) => {
+				if (ticket.status === "ok") return;
+				const token = batch[index]?.to;
+				if (ticket.details?.error === "DeviceNotRegistered" && token) {
+					invalidTokens.push(token);
+				} else {
+					logger.warn(`⚠️ Expo push to ${token} failed: ${ticket.message}`);
+				}
+			});
+		}
+		return { invalidTokens };
+	},
+});
+
+/**
+ * Keeps messages in memory instead of sending them. For tests and local
+ * runs without network access.
+ */
+export const memoryPushSender = (): PushSender & { sent: PushMessage[] } => {
+	const sent: PushMessage[] = [];
+	return {
+		sent,
+		async send(messages) {
+			sent.push(...messages);
+			return { invalidTokens: [] };
+		},
+	};
+};
+
+let sender: PushSender | null = null;
+
+// PUSH_SENDER=memory keeps messages local; Expo otherwise
+export const getPushSender = (): PushSender => {
+	sender ??=
+		process.env.PUSH_SENDER === "memory" ? memoryPushSender() : expoPushSender();
+	return sender;
+};
+
+// Tests swap in a memoryPushSender to inspect what would have been sent
+export const setPushSender = (next: PushSender | null) => {
+	sender = next;
+};
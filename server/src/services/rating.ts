@@ -0,0 +1,71 @@
+import mongoose from "mongoose";
+
+import Product from "../models/product.models";
+import Review from "../models/reviews.models";
+
+export const STAR_VALUES = [1, 2, 3, 4, 5] as const;
+
+export type RatingHistogram = Record<(typeof STAR_VALUES)[number], number>;
+
+export type RatingSummary = {
+	reviewCount: number;
+	averageRating: number;
+	ratingHistogram: RatingHistogram;
+};
+
+const emptyHistogram = (): RatingHistogram => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+
+// One decimal place, as shown next to the stars
+const roundRating = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Count, average and per-star totals from a histogram. Used for a single
+ * product and for a seller's catalogue, whose histograms simply add up.
+ */
+export const summarizeHistograms = (
+	histograms: Partial<Record<string, number | null | undefined>>[]
+): RatingSummary => {
+	const ratingHistogram = emptyHistogram();
+	for (const histogram of histograms) {
+		for (const star of STAR_VALUES) {
+			ratingHistogram[star] += Number(histogram[star] ?? 0);
+		}
+	}
+	const reviewCount = STAR_VALUES.reduce((n, star) => n + ratingHistogram[star], 0);
+	const total = STAR_VALUES.reduce(
+		(sum, star) => sum + star * ratingHistogram[star],
+		0
+	);
+	return {
+		reviewCount,
+		averageRating: reviewCount ? roundRating(total / reviewCount) : 0,
+		ratingHistogram,
+	};
+};
+
+/**
+ * Recount a product's reviews and store the result on the product.
+ * Recounting (rather than incrementing) keeps the numbers right after
+ * edits and deletions, and repairs any drift from older data.
+ */
+export const refreshProductRating = async (productId: unknown) => {
+	const id = new mongoose.Types.ObjectId(String(productId));
+	const counts = await Review.aggregate<{ _id: number; count: number }>([
+		{
+			$match: {
+				product: id,
+				stars: { $in: [...STAR_VALUES] },
+				// reviews hidden by moderation do not count
+				status: { $ne: "hidden" },
+			},
+		},
+		{ $group: { _id: "$stars", count: { $sum: 1 } } },
+	]);
+
+	const histogram: Record<string, number> = {};
+	for (const { _id, count } of counts) histogram[_id] = count;
+	const summary = summarizeHistograms([histogram]);
+
+	await Product.updateOne({ _id: id }, { $set: summary });
+	return summary;
+};
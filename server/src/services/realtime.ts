@@ -0,0 +1,129 @@
+import { IncomingMessage, Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+
+import { resolveAccessToken } from "../middleware/auth";
+import { logger } from "../utils/logger";
+
+export type RealtimeUser = { id: string; role?: string | undefined };
+
+/** Event pushed to a signed-in user's open sockets. */
+export type RealtimeEvent = { type: string } & Record<string, unknown>;
+
+// Handles a JSON frame a client sent; the reply goes back to that socket only
+export type ClientEventHandler = (
+	user: RealtimeUser,
+	event: Record<string, unknown>
+) => Promise<RealtimeEvent | null>;
+
+// Sockets that miss a ping for this long are dropped
+const HEARTBEAT_MS = 30 * 1000;
+
+// user id -> every socket that user has open (one per device or tab)
+const socketsByUser = new Map<string, Set<WebSocket>>();
+
+const track = (userId: string, socket: WebSocket) => {
+	const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+	sockets.add(socket);
+	socketsByUser.set(userId, sockets);
+};
+
+const untrack = (userId: string, socket: WebSocket) => {
+	const sockets = socketsByUser.get(userId);
+	if (!sockets) return;
+	sockets.delete(socket);
+	if (sockets.size === 0) socketsByUser.delete(userId);
+};
+
+const sendTo = (socket: WebSocket, event: RealtimeEvent) => {
+	if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+};
+
+/**
+ * Send an event to every open socket of the given users. Users without a
+ * connection simply miss it and catch up over REST.
+ */
+export const publish = (userIds: unknown[], event: RealtimeEvent) => {
+	for (const userId of new Set(userIds.map(String))) {
+		socketsByUser.get(userId)?.forEach((socket) => sendTo(socket, event));
+	}
+};
+
+export const isOnline = (userId: unknown) => socketsByUser.has(String(userId));
+
+// Close a user's sockets, e.g. after "log out of all devices"
+export const disconnectUser = (userId: unknown, reason = "Session revoked") => {
+	socketsByUser.get(String(userId))?.forEach((socket) => socket.close(4001, reason));
+};
+
+// Browsers and React Native cannot set headers on a WebSocket, so the
+// access token travels as ?token=
+const tokenFrom = (req: IncomingMessage) =>
+	new URL(req.url ?? "", "http://localhost").searchParams.get("token");
+
+/**
+ * Accept WebSocket upgrades on `path`. Clients authenticate with the same
+ * access token as the REST API and receive the events published for them.
+ */
+export const attachRealtime = (
+	server: Server,
+	options: { path: string; onClientEvent?: ClientEventHandler }
+) => {
+	const wss = new WebSocketServer({ noServer: true });
+	const alive = new WeakMap<WebSocket, boolean>();
+
+	server.on("upgrade", async (req, socket, head) => {
+		const { pathname } = new URL(req.url ?? "", "http://localhost");
+		if (pathname !== options.path) {
+			socket.destroy();
+			return;
+		}
+
+		const token = tokenFrom(req);
+		const result = token ? await resolveAccessToken(token).catch(() => null) : null;
+		if (!result || result.status !== "ok") {
+			socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+			socket.destroy();
+			return;
+		}
+
+		wss.handleUpgrade(req, socket, head, (ws) => {
+			const user: RealtimeUser = { id: result.user.id, role: result.user.role };
+			track(user.id, ws);
+			alive.set(ws, true);
+			logger.info(`🔌 Realtime connected: user ${user.id}`);
+
+			ws.on("pong", () => alive.set(ws, true));
+			ws.on("close", () => untrack(user.id, ws));
+			ws.on("message", async (raw) => {
+				let event: Record<string, unknown>;
+				try {
+					event = JSON.parse(raw.toString());
+				} catch {
+					return sendTo(ws, { type: "error", message: "Invalid JSON" });
+				}
+				if (!options.onClientEvent) return;
+				try {
+					const reply = await options.onClientEvent(user, event);
+					if (reply) sendTo(ws, reply);
+				} catch (err) {
+					logger.error("Realtime event failed", err);
+					sendTo(ws, { type: "error", message: "Server Error" });
+				}
+			});
+
+			sendTo(ws, { type: "ready", userId: user.id });
+		});
+	});
+
+	const heartbeat = setInterval(() => {
+		wss.clients.forEach((ws) => {
+			if (!alive.get(ws)) return ws.terminate();
+			alive.set(ws, false);
+			ws.ping();
+		});
+	}, HEARTBEAT_MS);
+	heartbeat.unref();
+	wss.on("close", () => clearInterval(heartbeat));
+
+	return wss;
+};
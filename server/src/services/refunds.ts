@@ -0,0 +1,295 @@
+import crypto from "crypto";
+import { ClientSession, HydratedDocument, InferSchemaType } from "mongoose";
+
+import Order from "../models/orde.models";
+import Refund from "../models/refund.models";
+import { logger } from "../utils/logger";
+import { toStkAmount } from "./mpesa.controller";
+import { B2CRejectedError, B2CResult, getB2CClient } from "./mpesaB2c";
+import { notifyRefundCompleted } from "./notifications";
+
+export type RefundDocument = HydratedDocument<InferSchemaType<typeof Refund.schema>>;
+
+type RefundableOrder = {
+	_id: unknown;
+	buyer?: unknown;
+	seller?: unknown;
+	total?: number | null;
+	phoneNumber?: string | null;
+	paymentStatus?: string | null;
+};
+
+/**
+ * Open a refund for a paid order, of the whole total unless `amount` is
+ * given. A seller or admin cancelling the sale (or upholding a claim)
+ * approves it on the spot; a buyer's request waits for one of them.
+ * @returns null when the order was not paid for, or there is nothing to pay
+ */
+export const openRefund = async (
+	order: RefundableOrder,
+	{
+		requestedBy,
+		reason,
+		approved,
+		amount = order.total ?? 0,
+		claim = null,
+	}: {
+		requestedBy: unknown;
+		reason?: string | undefined;
+		approved: boolean;
+		amount?: number;
+		claim?: unknown;
+	},
+	session?: ClientSession
+): Promise<RefundDocument | null> => {
+	const paid = order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded";
+	if (!paid || amount <= 0) return null;
+
+	const [refund] = await Refund.create(
+		[
+			{
+				order: order._id,
+				claim,
+				buyer: order.buyer,
+				seller: order.seller,
+				amount: toStkAmount(amount),
+				phoneNumber: order.phoneNumber,
+				reason: reason ?? "",
+				status: approved ? "approved" : "requested",
+				requestedBy,
+				approvedBy: approved ? requestedBy : null,
+				approvedAt: approved ? new Date() : null,
+			},
+		],
+		session ? { session } : {}
+	);
+	return refund ?? null;
+};
+
+/**
+ * Money arrived for orders the buyer or seller cancelled while the STK
+ * prompt was still open. Their stock is already back, so they stay
+ * cancelled and the payment is refunded straight away.
+ * @returns how many orders were refunded
+ */
+export const refundPaidAfterCancel = async (
+	orderIds: unknown[],
+	payment: { mpesaReceiptNumber?: unknown; mpesaCheckoutRequestID?: unknown } = {}
+) => {
+	const cancelled = await Order.find({
+		_id: { $in: orderIds },
+		status: "cancelled",
+		paymentStatus: "pending",
+	}).select("_id");
+
+	let refunded = 0;
+	for (const { _id } of cancelled) {
+		// only one of the callback and the sweeper gets to mark it paid
+		const order = await Order.findOneAndUpdate(
+			{ _id, paymentStatus: "pending" },
+			{ $set: { paymentStatus: "paid", ...payment } },
+			{ new: true }
+		);
+		if (!order) continue;
+		logger.warn(`⚠️ Order ${order.orderNumber} was paid after it was cancelled - refunding`);
+		const refund = await openRefund(order, {
+			requestedBy: null,
+			reason: "Paid after the order was cancelled",
+			approved: true,
+		});
+		if (refund) await payOutRefund(refund._id);
+		refunded += 1;
+	}
+	return refunded;
+};
+
+// Shillings on their way back to the buyer for an order, or already there
+export const refundedAmount = async (
+	orderId: unknown,
+	{ completedOnly = false }: { completedOnly?: boolean } = {}
+) => {
+	const refunds = await Refund.find({
+		order: orderId,
+		status: completedOnly ? "completed" : { $ne: "failed" },
+	})
+		.select("amount")
+		.lean();
+	return refunds.reduce((sum, refund) => sum + refund.amount, 0);
+};
+
+// Sign a refund off for payout; a failed payout can be approved again, but
+// one awaiting review cannot until it is settled
+export const approveRefund = (refundId: unknown, by: unknown) =>
+	Refund.findOneAndUpdate(
+		{ _id: refundId, status: { $in: ["requested", "failed"] } },
+		{ $set: { status: "approved", approvedBy: by, approvedAt: new Date() } },
+		{ new: true }
+	);
+
+/**
+ * Send an approved refund to the buyer's phone through B2C. Never throws:
+ * when Daraja refuses the request the refund is marked failed, so it can
+ * be approved and sent again. When the request got no answer the payment
+ * may still have been queued, so the refund is held for review instead.
+ * @returns the refund as it stands afterwards, or null if it was not approved
+ */
+export const payOutRefund = async (refundId: unknown): Promise<RefundDocument | null> => {
+	const originatorConversationId = crypto.randomUUID();
+	// claimed before sending, so the result callback can always find it
+	const refund = await Refund.findOneAndUpdate(
+		{ _id: refundId, status: "approved" },
+		{
+			$set: {
+				status: "processing",
+				originatorConversationId,
+				conversationId: null,
+				resultCode: null,
+				resultDesc: null,
+			},
+			$inc: { attempts: 1 },
+		},
+		{ new: true }
+	);
+	if (!refund) return null;
+
+	try {
+		const order = await Order.findById(refund.order).select("orderNumber").lean();
+		const accepted = await getB2CClient().sendPayment({
+			originatorConversationId,
+			amount: refund.amount,
+			phoneNumber: refund.phoneNumber,
+			remarks: `Refund for order ${order?.orderNumber ?? refund.order}`,
+			occasion: "Refund",
+		});
+		await Refund.updateOne(
+			{ _id: refund._id, originatorConversationId },
+			{ $set: { conversationId: accepted.conversationId } }
+		);
+		logger.info(
+			`💸 Refund ${refund._id}: Ksh ${refund.amount} queued to ${refund.phoneNumber}`
+		);
+	} catch (error: any) {
+		const rejected = error instanceof B2CRejectedError;
+		const detail = String(error.message ?? "Unknown error");
+		await Refund.updateOne(
+			{ _id: refund._id, status: "processing", originatorConversationId },
+			{
+				$set: rejected
+					? { status: "failed", resultDesc: detail }
+					: { status: "needs_review", resultDesc: `No response: ${detail}` },
+			}
+		);
+		if (rejected) logger.error(`❌ Refund ${refund._id} payout rejected: ${detail}`);
+		else logger.warn(`⚠️ Refund ${refund._id} needs review, no answer from Daraja: ${detail}`);
+	}
+	return Refund.findById(refund._id);
+};
+
+export type RefundSettlement = "completed" | "failed" | "needs_review" | "ignored";
+
+// Mark the order refunded once what went back covers it, and tell the buyer
+const finishRefund = async (refund: RefundDocument) => {
+	const order = await Order.findById(refund.order);
+	if (order) {
+		const paidBack = await refundedAmount(order._id, { completedOnly: true });
+		order.paymentStatus =
+			paidBack >= toStkAmount(order.total ?? 0) ? "refunded" : "partially_refunded";
+		await order.save();
+	}
+	logger.info(
+		`✅ Refund ${refund._id} completed | Receipt: ${refund.mpesaReceiptNumber}`
+	);
+	await notifyRefundCompleted(refund, order?.orderNumber);
+};
+
+/**
+ * Apply a B2C result, or a queue timeout, to the refund it belongs to.
+ * Only a processing refund is settled, so redelivered results are ignored.
+ * A timed-out payout may still have gone through, so it is held for review
+ * rather than failed; a result arriving later settles it.
+ */
+export const settleRefund = async (
+	result: B2CResult,
+	{ timedOut = false }: { timedOut?: boolean } = {}
+): Promise<RefundSettlement> => {
+	const paid = !timedOut && result.resultCode === 0;
+	const refund = await Refund.findOneAndUpdate(
+		{
+			...(result.originatorConversationId
+				? { originatorConversationId: result.originatorConversationId }
+				: { conversationId: result.conversationId }),
+			status: timedOut ? "processing" : { $in: ["processing", "needs_review"] },
+		},
+		{
+			$set: paid
+				? {
+						status: "completed",
+						conversationId: result.conversationId,
+						mpesaReceiptNumber: result.transactionId,
+						resultCode: result.resultCode,
+						resultDesc: result.resultDesc,
+						completedAt: new Date(),
+				  }
+				: {
+						status: timedOut ? "needs_review" : "failed",
+						resultCode: Number.isNaN(result.resultCode) ? null : result.resultCode,
+						resultDesc: timedOut
+							? `Queue timeout: ${result.resultDesc}`
+							: result.resultDesc,
+				  },
+		},
+		{ new: true }
+	);
+	if (!refund) {
+		logger.warn(
+			`⚠️ B2C result for ${result.originatorConversationId || result.conversationId} matches no pending refund, ignoring`
+		);
+		return "ignored";
+	}
+	if (timedOut) {
+		logger.warn(`⚠️ Refund ${refund._id} needs review: ${refund.resultDesc}`);
+		return "needs_review";
+	}
+	if (!paid) {
+		logger.warn(`⚠️ Refund ${refund._id} failed: ${refund.resultDesc}`);
+		return "failed";
+	}
+
+	if (result.amount != null && result.amount !== refund.amount) {
+		logger.error(
+			`❌ Refund ${refund._id} paid Ksh ${result.amount}, expected Ksh ${refund.amount}`
+		);
+	}
+	await finishRefund(refund);
+	return "completed";
+};
+
+/**
+ * Settle a timed-out payout once an admin has looked the attempt up on
+ * M-Pesa: completed with its receipt if the money went out, otherwise
+ * failed so that it can be approved and sent again.
+ * @returns the settled refund, or null if it was not waiting for review
+ */
+export const reviewRefund = async (
+	refundId: unknown,
+	by: unknown,
+	{ paid, receipt }: { paid: boolean; receipt?: string | undefined }
+): Promise<RefundDocument | null> => {
+	const reviewed = { reviewedBy: by, reviewedAt: new Date() };
+	const refund = await Refund.findOneAndUpdate(
+		{ _id: refundId, status: "needs_review" },
+		{
+			$set: paid
+				? {
+						...reviewed,
+						status: "completed",
+						mpesaReceiptNumber: receipt,
+						completedAt: new Date(),
+				  }
+				: { ...reviewed, status: "failed" },
+		},
+		{ new: true }
+	);
+	if (refund?.status === "completed") await finishRefund(refund);
+	return refund;
+};
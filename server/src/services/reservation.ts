@@ -0,0 +1,401 @@
+import { ClientSession } from "mongoose";
+
+import Cart from "../models/cart.models";
+import Checkout from "../models/checkout.models";
+import MpesaTransaction from "../models/mpesa.models";
+import Order from "../models/orde.models";
+import Reservation from "../models/reservation.models";
+import { logger } from "../utils/logger";
+import { mpesaController, StkQueryResult } from "./mpesa.controller";
+import { notifyOrderStatus, notifyPaymentReceived } from "./notifications";
+import { refundPaidAfterCancel } from "./refunds";
+import { returnStock, StockLine, takeStock } from "./stock";
+
+const MINUTE = 60 * 1000;
+
+// How long stock is held before the sweeper starts asking Daraja about it
+const RESERVATION_TTL_MS =
+	Number(process.env.RESERVATION_TTL_MINUTES || 15) * MINUTE;
+// Extra time allowed while the STK query still reports "being processed"
+const RESERVATION_GRACE_MS =
+	Number(process.env.RESERVATION_GRACE_MINUTES || 5) * MINUTE;
+// Settled reservations are kept this long for debugging, then TTL-deleted
+const SETTLED_RETENTION_MS = 7 * 24 * 60 * MINUTE;
+
+type ReservedItem = StockLine & { name?: string };
+
+export interface SweeperOptions {
+	// injectable so tests can drive expiry with a fake clock
+	now?: () => Date;
+	// injectable so tests can answer STK queries from a local stub
+	queryStkStatus?: (checkoutRequestId: string) => Promise<StkQueryResult>;
+}
+
+export interface SweepSummary {
+	checked: number;
+	paid: number;
+	failed: number;
+	timedOut: number;
+	pending: number;
+}
+
+// Put reserved stock back, e.g. when payment initiation fails part-way
+export const restoreStock = async (items: ReservedItem[]) => {
+	for (const item of items) {
+		await returnStock(item);
+		logger.warn(
+			`↩️ RESTORED: Product "${item.name ?? item.product}" stock +${item.quantity}`
+		);
+	}
+};
+
+export const createReservation = async (
+	{
+		transaction,
+		checkout,
+		orders,
+		items,
+	}: {
+		transaction: unknown;
+		checkout?: unknown;
+		orders: unknown[];
+		items: ReservedItem[];
+	},
+	now: Date = new Date()
+) => {
+	const reservation = await Reservation.create({
+		transaction,
+		checkout,
+		orders,
+		items: items.map((it) => ({
+			product: it.product,
+			variant: it.variant ?? null,
+			quantity: it.quantity,
+		})),
+		expiresAt: new Date(now.getTime() + RESERVATION_TTL_MS),
+	});
+	logger.info(
+		`⏳ RESERVATION CREATED: ${reservation._id} | Expires ${reservation.expiresAt.toISOString()}`
+	);
+	return reservation;
+};
+
+const settledFields = (now: Date) => ({
+	settledAt: now,
+	purgeAt: new Date(now.getTime() + SETTLED_RETENTION_MS),
+});
+
+/**
+ * Payment confirmed: the reserved stock is sold. If the sweeper already gave
+ * up on this payment, try to take the stock again; if it has been sold to
+ * someone else in the meantime the order needs manual attention.
+ */
+export const commitReservation = async (
+	transactionId: unknown,
+	now: Date = new Date()
+): Promise<"committed" | "recommitted" | "already_settled" | "not_found"> => {
+	const committed = await Reservation.findOneAndUpdate(
+		{ transaction: transactionId, status: "active" },
+		{ $set: { status: "committed", ...settledFields(now) } },
+		{ new: true }
+	);
+	if (committed) return "committed";
+
+	const existing = await Reservation.findOne({ transaction: transactionId });
+	if (!existing) return "not_found";
+	if (existing.status !== "released") return "already_settled";
+
+	logger.warn(
+		`⚠️ Payment confirmed for transaction ${transactionId} after its reservation was released - re-reserving stock`
+	);
+	for (const item of existing.items) {
+		if (!(await takeStock(item))) {
+			logger.error(
+				`❌ Could not re-reserve ${item.quantity} of product ${item.product} - order is oversold and needs manual attention`
+			);
+		}
+	}
+	existing.status = "committed";
+	existing.set(settledFields(now));
+	await existing.save();
+	return "recommitted";
+};
+
+/**
+ * Payment failed or abandoned: give the stock back. Only the caller that
+ * flips the reservation from active wins, so a late callback and the
+ * sweeper can never both restore the same stock.
+ */
+export const releaseReservation = async (
+	transactionId: unknown,
+	reason: string,
+	now: Date = new Date()
+): Promise<"released" | "already_settled" | "not_found"> => {
+	const released = await Reservation.findOneAndUpdate(
+		{ transaction: transactionId, status: "active" },
+		{ $set: { status: "released", releaseReason: reason, ...settledFields(now) } },
+		{ new: true }
+	);
+	if (released) {
+		await restoreStock(released.items);
+		logger.warn(
+			`↩️ RESERVATION RELEASED: ${released._id} (${reason}) - stock restored`
+		);
+		return "released";
+	}
+
+	const existing = await Reservation.exists({ transaction: transactionId });
+	return existing ? "already_settled" : "not_found";
+};
+
+/**
+ * Take a cancelled order out of its checkout's active reservation, since
+ * cancelling returns the order's stock itself. The reservation is released
+ * once none of its orders are left, so the sweeper and a failure callback
+ * cannot return the same stock again.
+ * @returns false when no active reservation held the order
+ */
+export const dropOrderFromReservation = async (
+	order: { _id: unknown; items: { product: unknown; variant?: unknown; quantity: number }[] },
+	session: ClientSession | null = null,
+	now: Date = new Date()
+) => {
+	const reservation = await Reservation.findOne({
+		orders: order._id,
+		status: "active",
+	}).session(session);
+	if (!reservation) return false;
+
+	const productOf = (product: any) => String(product?._id ?? product);
+	for (const line of order.items) {
+		const held = reservation.items.find(
+			(item) =>
+				String(item.product) === productOf(line.product) &&
+				String(item.variant ?? null) === String(line.variant ?? null)
+		);
+		if (!held) continue;
+		held.quantity -= line.quantity;
+		if (held.quantity <= 0) reservation.items.pull(held);
+	}
+	reservation.orders = reservation.orders.filter((id) => String(id) !== String(order._id));
+	if (reservation.orders.length === 0) {
+		reservation.status = "released";
+		reservation.releaseReason = "order_cancelled";
+		reservation.set(settledFields(now));
+	}
+	await reservation.save({ session });
+	logger.info(
+		`↩️ Order ${order._id} dropped from reservation ${reservation._id} (${reservation.status})`
+	);
+	return true;
+};
+
+// Mark every order in the transaction with the given payment outcome
+const settleOrders = async (
+	orderIds: unknown[],
+	paymentStatus: "paid" | "failed" | "cancelled" | "timeout",
+	resultDesc: string
+) => {
+	const update: Record<string, unknown> = { paymentStatus, resultDesc };
+	if (paymentStatus === "paid") {
+		await Order.updateMany({ _id: { $in: orderIds } }, { $set: update });
+		await notifyPaymentReceived(await Order.find({ _id: { $in: orderIds } }));
+		return;
+	}
+	// unpaid orders can never ship, their stock is already back on the shelf
+	update.status = "cancelled";
+	await Order.updateMany(
+		{ _id: { $in: orderIds } },
+		{
+			$set: update,
+			$push: {
+				statusHistory: {
+					status: "cancelled",
+					at: new Date(),
+					by: null,
+					note: resultDesc,
+				},
+			},
+		}
+	);
+	await notifyOrderStatus(
+		await Order.find({ _id: { $in: orderIds } }),
+		"system",
+		resultDesc
+	);
+};
+
+/**
+ * Find reservations whose TTL has passed and settle them. Before giving up
+ * on a payment we ask Daraja (STK Push Query) in case only the callback
+ * was lost.
+ */
+export const sweepExpiredReservations = async (
+	options: SweeperOptions = {}
+): Promise<SweepSummary> => {
+	const now = options.now ?? (() => new Date());
+	const queryStkStatus =
+		options.queryStkStatus ?? mpesaController.queryStkPush;
+	const summary: SweepSummary = {
+		checked: 0,
+		paid: 0,
+		failed: 0,
+		timedOut: 0,
+		pending: 0,
+	};
+
+	const expired = await Reservation.find({
+		status: "active",
+		expiresAt: { $lte: now() },
+	});
+
+	for (const reservation of expired) {
+		summary.checked += 1;
+		const tx = await MpesaTransaction.findById(reservation.transaction);
+		const orderIds = reservation.orders;
+
+		// The callback may have landed without settling the reservation
+		if (tx?.status === "success") {
+			await commitReservation(reservation.transaction, now());
+			summary.paid += 1;
+			continue;
+		}
+
+		// Paid the wrong amount: keep the stock held until someone reviews it
+		if (tx?.status === "flagged") {
+			summary.pending += 1;
+			continue;
+		}
+
+		let outcome: StkQueryResult = {
+			state: "pending",
+			resultDesc: "STK push was never sent",
+		};
+		if (tx?.status === "failed") {
+			outcome = {
+				state: "failed",
+				resultCode: tx.resultCode ?? 1,
+				resultDesc: tx.resultDesc ?? "Payment failed",
+			};
+		} else if (tx?.checkoutRequestId) {
+			outcome = await queryStkStatus(tx.checkoutRequestId);
+		}
+
+		if (outcome.state === "paid") {
+			logger.info(
+				`✅ SWEEPER: STK query confirms payment for transaction ${tx?._id}`
+			);
+			await settleOrders(orderIds, "paid", outcome.resultDesc);
+			await Order.updateMany(
+				{ _id: { $in: orderIds } },
+				{ $set: { mpesaCheckoutRequestID: tx?.checkoutRequestId } }
+			);
+			if (reservation.checkout) {
+				await Checkout.findByIdAndUpdate(reservation.checkout, {
+					paymentStatus: "paid",
+					mpesaCheckoutRequestID: tx?.checkoutRequestId,
+				});
+			}
+			if (tx) {
+				tx.status = "success";
+				tx.resultCode = outcome.resultCode;
+				tx.resultDesc = outcome.resultDesc;
+				await tx.save();
+				await Cart.findOneAndDelete({ user: (tx.metadata as any)?.buyerId });
+			}
+			await commitReservation(reservation.transaction, now());
+			// orders cancelled while the prompt was open are not in the reservation
+			await refundPaidAfterCancel(tx?.orders ?? [], {
+				mpesaCheckoutRequestID: tx?.checkoutRequestId,
+			});
+			summary.paid += 1;
+			continue;
+		}
+
+		if (outcome.state === "failed") {
+			const released = await releaseReservation(
+				reservation.transaction,
+				"payment_failed",
+				now()
+			);
+			if (released !== "released") continue;
+			// 1032 is Daraja's "Request cancelled by user"
+			const paymentStatus = outcome.resultCode === 1032 ? "cancelled" : "failed";
+			await settleOrders(orderIds, paymentStatus, outcome.resultDesc);
+			if (reservation.checkout) {
+				await Checkout.findByIdAndUpdate(reservation.checkout, { paymentStatus });
+			}
+			if (tx && tx.status !== "failed") {
+				tx.status = "failed";
+				tx.resultCode = outcome.resultCode;
+				tx.resultDesc = outcome.resultDesc;
+				await tx.save();
+			}
+			summary.failed += 1;
+			continue;
+		}
+
+		// Still pending: keep waiting through the grace window, then give up
+		const giveUpAt = reservation.expiresAt.getTime() + RESERVATION_GRACE_MS;
+		if (tx?.checkoutRequestId && now().getTime() < giveUpAt) {
+			summary.pending += 1;
+			continue;
+		}
+
+		const released = await releaseReservation(
+			reservation.transaction,
+			"timeout",
+			now()
+		);
+		if (released !== "released") continue;
+		const resultDesc = "Payment confirmation timed out";
+		await settleOrders(orderIds, "timeout", resultDesc);
+		if (reservation.checkout) {
+			await Checkout.findByIdAndUpdate(reservation.checkout, {
+				paymentStatus: "timeout",
+			});
+		}
+		if (tx) {
+			tx.status = "failed";
+			tx.resultDesc = resultDesc;
+			await tx.save();
+		}
+		logger.warn(
+			`⌛ SWEEPER: Payment for transaction ${reservation.transaction} timed out - orders marked timeout, stock restored`
+		);
+		summary.timedOut += 1;
+	}
+
+	if (summary.checked > 0) {
+		logger.info(`🧹 RESERVATION SWEEP: ${JSON.stringify(summary)}`);
+	}
+	return summary;
+};
+
+/**
+ * Run the sweeper on an interval. Returns a function that stops it.
+ */
+export const startReservationSweeper = (
+	options: SweeperOptions & { intervalMs?: number } = {}
+) => {
+	const intervalMs =
+		options.intervalMs ??
+		Number(process.env.RESERVATION_SWEEP_INTERVAL_MS || MINUTE);
+	let running = false;
+
+	const timer = setInterval(async () => {
+		// skip a tick rather than overlap a slow sweep
+		if (running) return;
+		running = true;
+		try {
+			await sweepExpiredReservations(options);
+		} catch (err) {
+			logger.error("Reservation sweep failed", err);
+		} finally {
+			running = false;
+		}
+	}, intervalMs);
+	timer.unref();
+
+	return () => clearInterval(timer);
+};
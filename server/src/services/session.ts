@@ -0,0 +1,174 @@
+import crypto from "crypto";
+import { Request } from "express";
+
+import RefreshToken from "../models/refreshToken.models";
+import User from "../models/user.models";
+import { generateRefreshToken, generateToken, hashToken } from "../utils/jwt";
+import { logger } from "../utils/logger";
+import { disconnectUser } from "./realtime";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Sliding window: every refresh issues a token valid for this long again
+const REFRESH_TOKEN_TTL_MS =
+	Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * DAY;
+
+type SessionUser = {
+	_id: unknown;
+	email: string;
+	tokenVersion?: number | null;
+};
+
+type ClientInfo = { userAgent: string | null; ip: string | null };
+
+export type RotateResult =
+	| {
+			status: "rotated";
+			user: InstanceType<typeof User>;
+			token: string;
+			refreshToken: string;
+	  }
+	| { status: "invalid" | "reused" };
+
+export const clientInfo = (req: Request): ClientInfo => ({
+	userAgent: req.get("user-agent") ?? null,
+	ip: req.ip ?? null,
+});
+
+const issueAccessToken = (user: SessionUser) =>
+	generateToken({
+		id: user._id,
+		email: user.email,
+		tokenVersion: user.tokenVersion ?? 0,
+	});
+
+const storeRefreshToken = async (
+	user: SessionUser,
+	family: string,
+	client: ClientInfo,
+	now: Date
+) => {
+	const refreshToken = generateRefreshToken();
+	await RefreshToken.create({
+		user: user._id,
+		tokenHash: hashToken(refreshToken),
+		family,
+		expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+		userAgent: client.userAgent,
+		ip: client.ip,
+	});
+	return refreshToken;
+};
+
+const revokeFamily = (family: string, reason: string, now: Date) =>
+	RefreshToken.updateMany(
+		{ family, revokedAt: null },
+		{ $set: { revokedAt: now, revokedReason: reason } }
+	);
+
+/**
+ * Start a new session (login / register): an access token plus the first
+ * refresh token of a new family.
+ */
+export const issueSession = async (
+	user: SessionUser,
+	client: ClientInfo,
+	now: Date = new Date()
+) => {
+	const refreshToken = await storeRefreshToken(
+		user,
+		crypto.randomUUID(),
+		client,
+		now
+	);
+	return { token: issueAccessToken(user), refreshToken };
+};
+
+/**
+ * Trade a refresh token for a new access/refresh pair. The presented token
+ * is revoked in the same atomic update that claims it, so it can only be
+ * used once. Presenting an already-rotated token means it was copied
+ * somewhere: the whole family is revoked and that device must log in again.
+ */
+export const rotateRefreshToken = async (
+	rawToken: string,
+	client: ClientInfo,
+	now: Date = new Date()
+): Promise<RotateResult> => {
+	const tokenHash = hashToken(rawToken);
+	const current = await RefreshToken.findOneAndUpdate(
+		{ tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+		{ $set: { revokedAt: now, revokedReason: "rotated" } },
+		{ new: true }
+	);
+
+	if (!current) {
+		const existing = await RefreshToken.findOne({ tokenHash });
+		if (existing?.revokedReason === "rotated") {
+			await revokeFamily(existing.family, "reuse_detected", now);
+			logger.warn(
+				`🚨 Refresh token reuse detected for user ${existing.user} - session family revoked`
+			);
+			return { status: "reused" };
+		}
+		return { status: "invalid" };
+	}
+
+	const user = await User.findById(current.user).select("-password");
+	if (!user || user.isSuspended) {
+		await revokeFamily(current.family, "user_inactive", now);
+		return { status: "invalid" };
+	}
+
+	const refreshToken = await storeRefreshToken(
+		user,
+		current.family,
+		client,
+		now
+	);
+	current.replacedBy = hashToken(refreshToken);
+	await current.save();
+
+	return {
+		status: "rotated",
+		user,
+		token: issueAccessToken(user),
+		refreshToken,
+	};
+};
+
+/**
+ * Log out one device: revoke every token in the presented token's family.
+ */
+export const revokeSession = async (
+	rawToken: string,
+	now: Date = new Date()
+) => {
+	const existing = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) });
+	if (!existing) return false;
+	await revokeFamily(existing.family, "logout", now);
+	return true;
+};
+
+/**
+ * Log out everywhere: revoke all refresh tokens and bump the user's token
+ * version so access tokens already handed out stop working too. Push
+ * tokens and open chat sockets go as well; devices register and reconnect
+ * after the next login.
+ */
+export const revokeAllSessions = async (
+	userId: unknown,
+	reason: string = "logout_all",
+	now: Date = new Date()
+) => {
+	const result = await RefreshToken.updateMany(
+		{ user: userId, revokedAt: null },
+		{ $set: { revokedAt: now, revokedReason: reason } }
+	);
+	await User.updateOne(
+		{ _id: userId },
+		{ $inc: { tokenVersion: 1 }, $set: { pushTokens: [] } }
+	);
+	disconnectUser(userId);
+	return result.modifiedCount;
+};
@@ -0,0 +1,210 @@
+import ShippingRate, { ShippingClass } from "../models/shippingRate.models";
+import User from "../models/user.models";
+import { getDistanceKm } from "../utils/distanceUtils";
+import { countyOf, normalizePlace } from "../utils/kenyaGazetteer";
+import { logger } from "../utils/logger";
+
+export type RateTable = {
+	distanceBands: { upToKm?: number | null; fee: number }[];
+	zones: { name: string; areas: string[]; fee: number }[];
+	fallbackFee: number;
+	includedKg: number;
+	perKgFee: number;
+	surcharges: { bulky: number; oversized: number };
+	freeShippingThreshold?: number | null;
+};
+
+// Used until an admin saves a platform table
+export const DEFAULT_RATES: RateTable = {
+	distanceBands: [
+		{ upToKm: 10, fee: 100 },
+		{ upToKm: 30, fee: 500 },
+		{ upToKm: 50, fee: 800 },
+		{ upToKm: 70, fee: 1200 },
+		{ upToKm: 100, fee: 1800 },
+		{ upToKm: 200, fee: 2500 },
+		{ upToKm: null, fee: 3000 },
+	],
+	zones: [],
+	fallbackFee: 3000,
+	includedKg: 0,
+	perKgFee: 0,
+	surcharges: { bulky: 0, oversized: 0 },
+	freeShippingThreshold: null,
+};
+
+// Where sellers and buyers without a location are assumed to be
+export const DEFAULT_CITY = "Nairobi";
+
+export type RateSource = "seller" | "platform" | "default";
+
+// One unit price and quantity of a product going in the same parcel
+export type ShipmentItem = {
+	price: number;
+	quantity: number;
+	weightKg?: number | null | undefined;
+	shippingClass?: ShippingClass | string | null | undefined;
+};
+
+export type ShippingQuote = {
+	fee: number;
+	free: boolean;
+	distanceKm: number | null;
+	zone: string | null;
+	breakdown: { base: number; weight: number; handling: number };
+	source: RateSource;
+};
+
+/** The seller's own table, else the platform table, else the defaults. */
+export const rateTableFor = async (
+	sellerId: unknown
+): Promise<{ table: RateTable; source: RateSource }> => {
+	const tables = await ShippingRate.find({
+		seller: { $in: [sellerId, null] },
+	}).lean<(RateTable & { seller?: unknown })[]>();
+	const own = tables.find((t) => t.seller && String(t.seller) === String(sellerId));
+	if (own) return { table: own, source: "seller" };
+	const platform = tables.find((t) => !t.seller);
+	if (platform) return { table: platform, source: "platform" };
+	return { table: DEFAULT_RATES, source: "default" };
+};
+
+const bandFee = (bands: RateTable["distanceBands"], distanceKm: number) => {
+	const sorted = [...bands].sort(
+		(a, b) => (a.upToKm ?? Infinity) - (b.upToKm ?? Infinity)
+	);
+	const band =
+		sorted.find((b) => b.upToKm == null || distanceKm <= b.upToKm) ??
+		sorted[sorted.length - 1];
+	return band?.fee ?? null;
+};
+
+/**
+ * Price one seller's parcel to a buyer. Free above the table's threshold;
+ * otherwise a zone fee (matched on the buyer's town or county) or a
+ * distance band fee, plus weight above the included kilos and a handling
+ * surcharge per bulky or oversized unit.
+ */
+export const priceShipment = async (
+	table: RateTable,
+	source: RateSource,
+	route: {
+		sellerCity: string;
+		sellerLat?: number | null | undefined;
+		sellerLon?: number | null | undefined;
+		buyerCity: string;
+		buyerCounty?: string | null | undefined;
+		buyerLat?: number | null | undefined;
+		buyerLon?: number | null | undefined;
+	},
+	items: ShipmentItem[]
+): Promise<ShippingQuote> => {
+	const subTotal = items.reduce((sum, it) => sum + it.price * it.quantity, 0);
+	const none = { base: 0, weight: 0, handling: 0 };
+	if (items.length === 0) {
+		return { fee: 0, free: false, distanceKm: null, zone: null, breakdown: none, source };
+	}
+	if (table.freeShippingThreshold != null && subTotal >= table.freeShippingThreshold) {
+		return { fee: 0, free: true, distanceKm: null, zone: null, breakdown: none, source };
+	}
+
+	const places = [route.buyerCity, route.buyerCounty ?? ""]
+		.filter(Boolean)
+		.map(normalizePlace);
+	const zone = table.zones.find((z) =>
+		z.areas.some((area) => places.includes(normalizePlace(area)))
+	);
+
+	let distanceKm: number | null = null;
+	let base: number;
+	if (zone) {
+		base = zone.fee;
+	} else {
+		distanceKm = await getDistanceKm(
+			route.sellerCity,
+			route.buyerCity,
+			route.sellerLat ?? undefined,
+			route.sellerLon ?? undefined,
+			route.buyerLat ?? undefined,
+			route.buyerLon ?? undefined
+		);
+		base =
+			(distanceKm !== null ? bandFee(table.distanceBands, distanceKm) : null) ??
+			table.fallbackFee;
+	}
+
+	const totalKg = items.reduce(
+		(sum, it) => sum + (it.weightKg ?? 0) * it.quantity,
+		0
+	);
+	const weight = Math.max(totalKg - table.includedKg, 0) * table.perKgFee;
+	const handling = items.reduce((sum, it) => {
+		const surcharge =
+			it.shippingClass === "bulky" || it.shippingClass === "oversized"
+				? table.surcharges[it.shippingClass]
+				: 0;
+		return sum + surcharge * it.quantity;
+	}, 0);
+
+	const breakdown = {
+		base: Math.round(base),
+		weight: Math.round(weight),
+		handling: Math.round(handling),
+	};
+	return {
+		fee: breakdown.base + breakdown.weight + breakdown.handling,
+		free: false,
+		distanceKm,
+		zone: zone?.name ?? null,
+		breakdown,
+		source,
+	};
+};
+
+/**
+ * Quote one seller's items to the buyer's town (or pinned location): the
+ * single entry point for the cart preview, `POST /order/calculate-shipping`
+ * and payment.
+ */
+export const quoteSellerShipping = async (
+	sellerId: unknown,
+	buyer: {
+		city?: string | null | undefined;
+		county?: string | null | undefined;
+		latitude?: number | null | undefined;
+		longitude?: number | null | undefined;
+	},
+	items: ShipmentItem[]
+): Promise<ShippingQuote> => {
+	const [seller, { table, source }] = await Promise.all([
+		User.findById(sellerId).select("location"),
+		rateTableFor(sellerId),
+	]);
+	const quote = await priceShipment(
+		table,
+		source,
+		{
+			sellerCity: seller?.location?.city || DEFAULT_CITY,
+			sellerLat: seller?.location?.latitude,
+			sellerLon: seller?.location?.longitude,
+			buyerCity: buyer.city?.trim() || DEFAULT_CITY,
+			// a zone listing only counties still matches a buyer who gave a town
+			buyerCounty: buyer.county || (buyer.city ? countyOf(buyer.city) : null),
+			buyerLat: buyer.latitude,
+			buyerLon: buyer.longitude,
+		},
+		items
+	);
+	logger.info(
+		`📦 Shipping for seller ${sellerId}: Ksh ${quote.fee} (${
+			quote.free
+				? "free"
+				: quote.zone
+					? `zone ${quote.zone}`
+					: quote.distanceKm !== null
+						? `${quote.distanceKm} km`
+						: "fallback"
+		}, ${source} rates)`
+	);
+	return quote;
+};
@@ -0,0 +1,61 @@
+import { ClientSession } from "mongoose";
+
+import Product from "../models/product.models";
+
+// One line of an order or reservation. `variant` is set for products sold in
+// several colours/materials/sizes; the product's own stock is the total.
+export type StockLine = {
+	product: unknown;
+	variant?: unknown;
+	quantity: number;
+};
+
+/**
+ * Take `quantity` units off the shelf if that many are left. Variant stock
+ * and the product total move together in one atomic update.
+ */
+export const takeStock = async (
+	{ product, variant, quantity }: StockLine,
+	session?: ClientSession
+): Promise<boolean> => {
+	const options = session ? { session } : {};
+	const result = variant
+		? await Product.updateOne(
+				{
+					_id: product,
+					variants: { $elemMatch: { _id: variant, stock: { $gte: quantity } } },
+				},
+				{ $inc: { "variants.$.stock": -quantity, stock: -quantity } },
+				options
+		  )
+		: await Product.updateOne(
+				{ _id: product, stock: { $gte: quantity } },
+				{ $inc: { stock: -quantity } },
+				options
+		  );
+	return result.modifiedCount > 0;
+};
+
+/**
+ * Put units back on the shelf. If the variant has since been removed from
+ * the product, only the product total is restored.
+ */
+export const returnStock = async (
+	{ product, variant, quantity }: StockLine,
+	session?: ClientSession
+): Promise<void> => {
+	const options = session ? { session } : {};
+	if (variant) {
+		const result = await Product.updateOne(
+			{ _id: product, "variants._id": variant },
+			{ $inc: { "variants.$.stock": quantity, stock: quantity } },
+			options
+		);
+		if (result.matchedCount > 0) return;
+	}
+	await Product.updateOne(
+		{ _id: product },
+		{ $inc: { stock: quantity } },
+		options
+	);
+};
@@ -6,26 +6,32 @@ import {logger} from "../utils/logger";
 interface TokenCache {
     token: string;
     expiry: number;
+    // a token from one Daraja (say, the local emulator) is no good on another
+    baseUrl: string;
 }
 
 let tokenCache: TokenCache = {
     token: '',
-    expiry: 0
+    expiry: 0,
+    baseUrl: ''
 };
 
-const consumerKey = process.env.CONSUMER_KEY;
-const consumerSecret = process.env.CONSUMER_SECRET;
-
-const credentials = Buffer.from(`${consumerKey}:${consumerSecret}`).toString("base64");
+// Read on every call so development and tests can point at the local emulator
+export const darajaBaseUrl = () =>
+    (process.env.MPESA_BASE_URL || "https://sandbox.safaricom.co.ke").replace(/\/+$/, "");
 
 export const getAccessToken = async () => {
     try{
-        if (tokenCache.token && tokenCache.expiry > Date.now()) {
+        const baseUrl = darajaBaseUrl();
+        if (tokenCache.token && tokenCache.expiry > Date.now() && tokenCache.baseUrl === baseUrl) {
             logger.info("Using cached access token");
             return tokenCache.token;
         }
         logger.info("Fetching new access token");
-        const response = await axios.get("https://sandbox.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials", {
+        const credentials = Buffer.from(
+            `${process.env.CONSUMER_KEY}:${process.env.CONSUMER_SECRET}`
+        ).toString("base64");
+        const response = await axios.get(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
             headers: {
                 Authorization: `Basic ${credentials}`,
             },
@@ -37,7 +43,8 @@ export const getAccessToken = async () => {
 
         tokenCache = {
             token: response.data.access_token,
-            expiry: Date.now() + response.data.expires_in * 1000 
+            expiry: Date.now() + response.data.expires_in * 1000,
+            baseUrl
 
         }
 
@@ -4,7 +4,8 @@ declare namespace Express {
 	interface User {
 		id: string;
 		email?: string;
-		role?: "seller" | "buyer";
+		role?: "seller" | "buyer" | "admin";
+		isApproved?: boolean;
 	}
 	interface Request {
 		user?: User;
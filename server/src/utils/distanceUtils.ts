@@ -1,54 +1,6 @@
-import axios from "axios";
+import { Coordinates, geocodePlace } from "../services/geocoding";
 import { logger } from "./logger";
 
-interface Coordinates {
-  latitude: number;
-  longitude: number;
-}
-
-interface GeocodeResult {
-  lat: string;
-  lon: string;
-}
-
-/**
- * Use Nominatim (free OpenStreetMap API) to geocode a city name to coordinates
- * Nominatim is free and doesn't require an API key
- * @param city - City name (e.g., "Nairobi", "Kisumu")
- * @returns { latitude, longitude } or null if not found
- */
-export const geocodeCity = async (city: string): Promise<Coordinates | null> => {
-  try {
-    const response = await axios.get("https://nominatim.openstreetmap.org/search", {
-      params: {
-        q: city,
-        format: "json",
-        limit: 1,
-      },
-      timeout: 5000,
-      headers: {
-        "User-Agent": "FurnitureApp/1.0", // Nominatim requires a User-Agent
-      },
-    });
-
-    if (!response.data || response.data.length === 0) {
-      logger.warn(`⚠️ City not found: "${city}"`);
-      return null;
-    }
-
-    const result: GeocodeResult = response.data[0];
-    return {
-      latitude: parseFloat(result.lat),
-      longitude: parseFloat(result.lon),
-    };
-  } catch (error) {
-    logger.error(
-      `❌ Geocoding error for city "${city}": ${error instanceof Error ? error.message : "Unknown error"}`
-    );
-    return null;
-  }
-};
-
 /**
  * Calculate distance between two coordinates using Haversine formula
  * Returns distance in kilometers
@@ -82,48 +34,22 @@ const toRad = (degrees: number): number => {
 };
 
 /**
- * Calculate shipping fee based on distance
- * @param distanceKm - Distance in kilometers
- * @returns Shipping fee in the local currency (KES)
- *
- * Pricing breakdown:
- * - 0-10 km: 100 KES
- * - 11-30 km: 500 KES
- * - 31-50 km: 800 KES
- * - 51-70 km: 1200 KES
- * - 71-100 km: 1800 KES
- * - 101-200 km: 2500 KES
- * - 200+ km: 3000 KES
+ * Road-agnostic distance from a seller to a buyer's city, in kilometres.
+ * Shipping fees are worked out from it by services/shipping.ts. Saved
+ * coordinates (a seller's shop, a buyer's pinned address) win over the
+ * town names.
+ * @returns null when either end cannot be located
  */
-export const calculateShippingByDistance = (distanceKm: number): number => {
-  if (distanceKm <= 10) {
-    return 100;
-  } else if (distanceKm <= 30) {
-    return 500;
-  } else if (distanceKm <= 50) {
-    return 800;
-  } else if (distanceKm <= 70) {
-    return 1200;
-  } else if (distanceKm <= 100) {
-    return 1800;
-  } else if (distanceKm <= 200) {
-    return 2500;
-  } else {
-    return 3000;
-  }
-};
-
-/**
- * Get shipping info: distance, fee, and log details
- */
-export const getShippingInfo = async (
+export const getDistanceKm = async (
   sellerCity: string,
   buyerCity: string,
   sellerLat?: number,
-  sellerLon?: number
-): Promise<{ distance: number; fee: number } | null> => {
+  sellerLon?: number,
+  buyerLat?: number,
+  buyerLon?: number
+): Promise<number | null> => {
   try {
-    logger.info(`📍 Calculating shipping from "${sellerCity}" to "${buyerCity}"`);
+    logger.info(`📍 Calculating distance from "${sellerCity}" to "${buyerCity}"`);
 
     // If seller has saved coordinates, use them; otherwise geocode
     let sellerCoords: Coordinates | null;
@@ -131,7 +57,7 @@ export const getShippingInfo = async (
       sellerCoords = { latitude: sellerLat, longitude: sellerLon };
       logger.info(`📌 Using saved seller coordinates: (${sellerLat}, ${sellerLon})`);
     } else {
-      sellerCoords = await geocodeCity(sellerCity);
+      sellerCoords = await geocodePlace(sellerCity);
     }
 
     if (!sellerCoords) {
@@ -139,24 +65,21 @@ export const getShippingInfo = async (
       return null;
     }
 
-    const buyerCoords = await geocodeCity(buyerCity);
+    const buyerCoords: Coordinates | null =
+      buyerLat && buyerLon
+        ? { latitude: buyerLat, longitude: buyerLon }
+        : await geocodePlace(buyerCity);
     if (!buyerCoords) {
       logger.error(`❌ Could not find coordinates for buyer city: "${buyerCity}"`);
       return null;
     }
 
     const distance = calculateDistance(sellerCoords, buyerCoords);
-    const shippingFee = calculateShippingByDistance(distance);
-
-    logger.info(`✅ Distance: ${distance} km | Shipping Fee: ${shippingFee} KES`);
-
-    return {
-      distance,
-      fee: shippingFee,
-    };
+    logger.info(`✅ Distance: ${distance} km`);
+    return distance;
   } catch (error) {
     logger.error(
-      `❌ Error calculating shipping: ${error instanceof Error ? error.message : "Unknown error"}`
+      `❌ Error calculating distance: ${error instanceof Error ? error.message : "Unknown error"}`
     );
     return null;
   }
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import jwt, { SignOptions } from "jsonwebtoken";
 import { sign, verify } from "jsonwebtoken";
 
@@ -6,6 +7,7 @@ export interface JwtPayload {
 	email: string;
 	role: string;
 	fullName: string;
+	tokenVersion: number;
 }
 
 interface ExtendedJwtPayload extends jwt.JwtPayload {
@@ -13,15 +15,27 @@ interface ExtendedJwtPayload extends jwt.JwtPayload {
 	email: string;
 	role: string;
 	fullName: string;
+	tokenVersion?: number;
 }
 
+// Access tokens stay short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL = (process.env.JWT_EXPIRES_IN ||
+	"1h") as NonNullable<SignOptions["expiresIn"]>;
+
 export const generateToken = (payload: object): string => {
 	const token = sign(payload, process.env.JWT_SECRET as string, {
-		expiresIn: "1h",
+		expiresIn: ACCESS_TOKEN_TTL,
 	});
 	return token;
 };
 
+// Refresh tokens are opaque random strings, not JWTs
+export const generateRefreshToken = (): string =>
+	crypto.randomBytes(48).toString("base64url");
+
+export const hashToken = (token: string): string =>
+	crypto.createHash("sha256").update(token).digest("hex");
+
 function assertString(value: any, name: string): asserts value is string {
 	if (!value || typeof value !== "string") {
 		throw new Error(`${name} is not defined in environment variables`);
@@ -43,6 +57,7 @@ export const verifyToken = (token: string): JwtPayload => {
 			email: decoded.email,
 			role: decoded.role,
 			fullName: decoded.fullName,
+			tokenVersion: decoded.tokenVersion ?? 0,
 		};
 	} catch (error) {
 		throw new Error("Invalid or expired token");
@@ -0,0 +1,392 @@
+/**
+ * Kenyan counties and the towns shoppers type most, with approximate
+ * coordinates (town centres; county entries use the county seat). Enough to
+ * price shipping by distance without calling out to a geocoder.
+ */
+
+export type GazetteerPlace = {
+	name: string;
+	county: string;
+	latitude: number;
+	longitude: number;
+	kind: "county" | "town";
+	// other spellings and abbreviations people use
+	aliases?: string[];
+};
+
+type Row = [name: string, latitude: number, longitude: number, aliases?: string[]];
+
+// county -> [seat, ...towns]; the seat's coordinates stand in for the county
+const PLACES: Record<string, Row[]> = {
+	Mombasa: [
+		["Mombasa", -4.0435, 39.6682, ["msa", "mombasa island"]],
+		["Nyali", -4.0333, 39.7],
+		["Likoni", -4.0833, 39.6667],
+		["Changamwe", -4.0167, 39.6333],
+		["Bamburi", -3.9986, 39.7197],
+	],
+	Kwale: [
+		["Kwale", -4.1737, 39.4521],
+		["Ukunda", -4.2875, 39.5661],
+		["Diani", -4.3167, 39.5667, ["diani beach"]],
+		["Msambweni", -4.4667, 39.4833],
+		["Lunga Lunga", -4.55, 39.1167],
+	],
+	Kilifi: [
+		["Kilifi", -3.6305, 39.8499],
+		["Malindi", -3.2192, 40.1169],
+		["Watamu", -3.3543, 40.0243],
+		["Mtwapa", -3.9503, 39.7449],
+		["Mariakani", -3.8667, 39.4667],
+	],
+	"Tana River": [
+		["Hola", -1.4989, 40.03],
+		["Garsen", -2.2667, 40.1167],
+		["Bura", -1.1, 39.95],
+	],
+	Lamu: [
+		["Lamu", -2.2717, 40.902],
+		["Mpeketoni", -2.3833, 40.7],
+	],
+	"Taita Taveta": [
+		["Mwatate", -3.505, 38.378],
+		["Voi", -3.3961, 38.5561],
+		["Taveta", -3.3978, 37.6839],
+		["Wundanyi", -3.4, 38.3667],
+	],
+	Garissa: [
+		["Garissa", -0.4532, 39.6461],
+		["Dadaab", 0.0553, 40.3086],
+	],
+	Wajir: [["Wajir", 1.7471, 40.0573]],
+	Mandera: [["Mandera", 3.9366, 41.867]],
+	Marsabit: [
+		["Marsabit", 2.3284, 37.9899],
+		["Moyale", 3.5167, 39.05],
+	],
+	Isiolo: [["Isiolo", 0.3546, 37.5822]],
+	Meru: [
+		["Meru", 0.047, 37.6498],
+		["Maua", 0.2333, 37.9333],
+		["Timau", 0.0833, 37.25],
+	],
+	"Tharaka Nithi": [
+		["Kathwana", -0.2167, 37.9333],
+		["Chuka", -0.3333, 37.65],
+		["Marimanti", -0.15, 37.9833],
+	],
+	Embu: [
+		["Embu", -0.5388, 37.4596],
+		["Runyenjes", -0.4167, 37.5667],
+		["Siakago", -0.5833, 37.6333],
+	],
+	Kitui: [
+		["Kitui", -1.3667, 38.0106],
+		["Mwingi", -0.9333, 38.0667],
+		["Mutomo", -1.85, 38.2167],
+	],
+	Machakos: [
+		["Machakos", -1.5177, 37.2634, ["machakos town"]],
+		["Athi River", -1.4563, 36.978, ["mavoko"]],
+		["Mlolongo", -1.3906, 36.9425],
+		["Syokimau", -1.363, 36.937],
+		["Kangundo", -1.3, 37.35],
+		["Tala", -1.2667, 37.3167],
+	],
+	Makueni: [
+		["Wote", -1.7833, 37.6333],
+		["Emali", -2.0833, 37.4667],
+		["Mtito Andei", -2.6833, 38.1667],
+		["Makindu", -2.2833, 37.8333],
+	],
+	Nyandarua: [
+		["Ol Kalou", -0.2667, 36.3833, ["olkalou"]],
+		["Engineer", -0.6167, 36.5833],
+		["Njabini", -0.7167, 36.6333],
+	],
+	Nyeri: [
+		["Nyeri", -0.4201, 36.9476],
+		["Karatina", -0.4833, 37.1333],
+		["Othaya", -0.55, 36.9333],
+		["Naro Moru", -0.1667, 37.0167],
+	],
+	Kirinyaga: [
+		["Kerugoya", -0.4989, 37.2803],
+		["Kutus", -0.5667, 37.3167],
+		["Sagana", -0.6667, 37.2],
+		["Wang'uru", -0.6833, 37.3667, ["mwea"]],
+	],
+	"Murang'a": [
+		["Murang'a", -0.721, 37.1526],
+		["Kenol", -0.9, 37.1333, ["makuyu"]],
+		["Kangema", -0.6833, 36.9667],
+		["Kiriaini", -0.6, 36.9167],
+	],
+	Kiambu: [
+		["Kiambu", -1.1714, 36.8356],
+		["Thika", -1.0333, 37.0693],
+		["Ruiru", -1.1466, 36.9609],
+		["Juja", -1.1027, 37.0144],
+		["Kikuyu", -1.2463, 36.6629],
+		["Limuru", -1.1136, 36.6422],
+		["Githunguri", -1.0583, 36.7775],
+		["Kiambaa", -1.1667, 36.75],
+		["Githurai", -1.2042, 36.9139],
+	],
+	Turkana: [
+		["Lodwar", 3.1191, 35.5973],
+		["Kakuma", 3.7167, 34.8667],
+		["Lokichoggio", 4.2, 34.35, ["lokichogio", "loki"]],
+	],
+	"West Pokot": [
+		["Kapenguria", 1.2389, 35.1119],
+		["Makutano", 1.2667, 35.1],
+	],
+	Samburu: [
+		["Maralal", 1.0968, 36.698],
+		["Baragoi", 1.7833, 36.7833],
+	],
+	"Trans Nzoia": [
+		["Kitale", 1.0157, 35.0062],
+		["Endebess", 1.0667, 34.85],
+	],
+	"Uasin Gishu": [
+		["Eldoret", 0.5143, 35.2698, ["eld"]],
+		["Burnt Forest", 0.2167, 35.4333],
+		["Turbo", 0.6333, 35.05],
+	],
+	"Elgeyo Marakwet": [
+		["Iten", 0.6703, 35.5081],
+		["Kapsowar", 0.9833, 35.5667],
+	],
+	Nandi: [
+		["Kapsabet", 0.2039, 35.105],
+		["Nandi Hills", 0.1, 35.1833],
+	],
+	Baringo: [
+		["Kabarnet", 0.4919, 35.743],
+		["Eldama Ravine", 0.05, 35.7167, ["ravine"]],
+		["Marigat", 0.4667, 35.9833],
+	],
+	Laikipia: [
+		["Rumuruti", 0.2725, 36.5381],
+		["Nanyuki", 0.0167, 37.0667],
+		["Nyahururu", 0.0333, 36.3667, ["thomson's falls"]],
+	],
+	Nakuru: [
+		["Nakuru", -0.3031, 36.08, ["nku"]],
+		["Naivasha", -0.7167, 36.4333],
+		["Gilgil", -0.4989, 36.3167],
+		["Molo", -0.2486, 35.7323],
+		["Njoro", -0.3333, 35.9333],
+		["Subukia", -0.0167, 36.2333],
+	],
+	Narok: [
+		["Narok", -1.0833, 35.8667],
+		["Kilgoris", -1.0, 34.8833],
+	],
+	Kajiado: [
+		["Kajiado", -1.8524, 36.7768],
+		["Kitengela", -1.4761, 36.9587],
+		["Ongata Rongai", -1.3964, 36.7517, ["rongai"]],
+		["Ngong", -1.3527, 36.6699],
+		["Kiserian", -1.4333, 36.6833],
+		["Namanga", -2.5431, 36.7867],
+		["Loitokitok", -2.9333, 37.5167],
+	],
+	Kericho: [
+		["Kericho", -0.3677, 35.2831],
+		["Litein", -0.5833, 35.1833],
+		["Londiani", -0.1667, 35.6],
+	],
+	Bomet: [
+		["Bomet", -0.7813, 35.3416],
+		["Sotik", -0.6833, 35.1167],
+	],
+	Kakamega: [
+		["Kakamega", 0.2827, 34.7519],
+		["Mumias", 0.3356, 34.4878],
+		["Malava", 0.45, 34.85],
+		["Butere", 0.2167, 34.4833],
+	],
+	Vihiga: [
+		["Mbale", 0.0833, 34.7167],
+		["Chavakali", 0.05, 34.7333],
+	],
+	Bungoma: [
+		["Bungoma", 0.5635, 34.5606],
+		["Webuye", 0.6073, 34.7708],
+		["Kimilili", 0.7881, 34.7187],
+		["Chwele", 0.7333, 34.6167],
+	],
+	Busia: [
+		["Busia", 0.4608, 34.1115],
+		["Malaba", 0.6345, 34.2807],
+		["Port Victoria", 0.1, 33.9667],
+	],
+	Siaya: [
+		["Siaya", 0.0607, 34.2881],
+		["Bondo", -0.1, 34.2667],
+		["Ugunja", 0.1833, 34.2833],
+	],
+	Kisumu: [
+		["Kisumu", -0.0917, 34.768, ["ksm"]],
+		["Ahero", -0.1667, 34.9167],
+		["Maseno", -0.0044, 34.6],
+		["Muhoroni", -0.15, 35.2],
+	],
+	"Homa Bay": [
+		["Homa Bay", -0.5273, 34.4571, ["homabay"]],
+		["Mbita", -0.4333, 34.2],
+		["Oyugis", -0.5, 34.7333],
+		["Kendu Bay", -0.3667, 34.65],
+	],
+	Migori: [
+		["Migori", -1.0634, 34.4731],
+		["Rongo", -0.7667, 34.6],
+		["Awendo", -0.9, 34.5333],
+		["Kehancha", -1.1833, 34.6167],
+		["Isebania", -1.2333, 34.4833],
+	],
+	Kisii: [
+		["Kisii", -0.6817, 34.7667],
+		["Ogembo", -0.8, 34.7167],
+		["Suneka", -0.65, 34.7],
+	],
+	Nyamira: [
+		["Nyamira", -0.5633, 34.9358],
+		["Keroka", -0.7667, 34.95],
+	],
+	Nairobi: [
+		["Nairobi", -1.2864, 36.8172, ["nbi", "nrb", "nai", "nairobi cbd"]],
+		["Westlands", -1.2676, 36.8108],
+		["Karen", -1.319, 36.7073],
+		["Kasarani", -1.2197, 36.898],
+		["Embakasi", -1.3196, 36.8961],
+		["Eastleigh", -1.2756, 36.8497],
+		["Kilimani", -1.29, 36.785],
+		["Lang'ata", -1.35, 36.75],
+		["Kahawa", -1.1833, 36.9167],
+		["Kawangware", -1.2833, 36.75],
+	],
+};
+
+export const GAZETTEER: GazetteerPlace[] = Object.entries(PLACES).flatMap(
+	([county, rows]) => {
+		const [seat] = rows;
+		const countyEntry: GazetteerPlace[] = seat
+			? [{ name: county, county, latitude: seat[1], longitude: seat[2], kind: "county" }]
+			: [];
+		return [
+			...countyEntry,
+			...rows.map(([name, latitude, longitude, aliases]) => ({
+				name,
+				county,
+				latitude,
+				longitude,
+				kind: "town" as const,
+				...(aliases ? { aliases } : {}),
+			})),
+		];
+	}
+);
+
+// Words people add that do not change the place
+const NOISE = new Set(["city", "town", "county", "municipality", "cbd", "centre", "center", "kenya"]);
+
+/**
+ * Lower-case, no accents or punctuation, no filler words:
+ * "Murang'a Town" and "muranga" both become "muranga".
+ */
+export const normalizePlace = (raw: string) => {
+	const words = raw
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/['’`.]/g, "")
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim()
+		.split(" ")
+		.filter(Boolean);
+	const kept = words.filter((w) => !NOISE.has(w));
+	return (kept.length > 0 ? kept : words).join(" ");
+};
+
+const editDistance = (a: string, b: string) => {
+	let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const next = [i];
+		for (let j = 1; j <= b.length; j++) {
+			next[j] = Math.min(
+				(prev[j] ?? 0) + 1,
+				(next[j - 1] ?? 0) + 1,
+				(prev[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+		}
+		prev = next;
+	}
+	return prev[b.length] ?? 0;
+};
+
+// Every name a place answers to, normalized; towns before counties so that
+// "Nakuru" means the town rather than the county seat stand-in
+const INDEX: { key: string; place: GazetteerPlace }[] = [...GAZETTEER]
+	.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === "town" ? -1 : 1))
+	.flatMap((place) =>
+		[place.name, ...(place.aliases ?? [])].map((name) => ({
+			key: normalizePlace(name),
+			place,
+		}))
+	);
+
+const matchOne = (query: string): GazetteerPlace | null => {
+	if (!query) return null;
+	const exact = INDEX.find((entry) => entry.key === query);
+	if (exact) return exact.place;
+
+	// "kisum", "eldo": a prefix that points at one place only
+	if (query.length >= 4) {
+		const prefixed = new Set(
+			INDEX.filter((entry) => entry.key.startsWith(query)).map((entry) => entry.place.name)
+		);
+		if (prefixed.size === 1) {
+			return INDEX.find((entry) => entry.key.startsWith(query))?.place ?? null;
+		}
+	}
+
+	// typos: one edit for short names, two for longer ones
+	const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+	let best: { place: GazetteerPlace; distance: number } | null = null;
+	let tied = false;
+	for (const entry of INDEX) {
+		if (Math.abs(entry.key.length - query.length) > allowed) continue;
+		const distance = editDistance(query, entry.key);
+		if (distance > allowed) continue;
+		if (!best || distance < best.distance) {
+			best = { place: entry.place, distance };
+			tied = false;
+		} else if (distance === best.distance && entry.place.name !== best.place.name) {
+			tied = true;
+		}
+	}
+	return best && !tied ? best.place : null;
+};
+
+/**
+ * Find a town or county by what a buyer typed: exact names and aliases
+ * ("Nbi"), filler words dropped ("Kisumu City"), unique prefixes and small
+ * typos. "Westlands, Nairobi" tries each part, most specific first.
+ * @returns null when nothing matches unambiguously
+ */
+export const findPlace = (raw: string): GazetteerPlace | null => {
+	const whole = normalizePlace(raw);
+	const parts = raw.split(",").map(normalizePlace).filter(Boolean);
+	for (const query of [whole, ...(parts.length > 1 ? parts : [])]) {
+		const place = matchOne(query);
+		if (place) return place;
+	}
+	return null;
+};
+
+/** The county a town (or county name) belongs to, if known. */
+export const countyOf = (raw: string) => findPlace(raw)?.county ?? null;
@@ -4,6 +4,8 @@ import morgan from "morgan";
 
 export const logger = winston.createLogger({
 	level: "info",
+	// Jest sets NODE_ENV=test; keep test output (and logs/app.log) clean
+	silent: process.env.NODE_ENV === "test",
 	format: winston.format.combine(
 		winston.format.timestamp(),
 		winston.format.colorize(),
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "@jest/globals";
+
+import Order from "../src/models/orde.models";
+import {
+	API,
+	auth,
+	buyAndPay,
+	createProduct,
+	registerUser,
+	TestUser,
+	useTestServer,
+} from "./harness";
+
+const ctx = useTestServer();
+
+const dashboard = (user: TestUser, query: Record<string, string> = {}) =>
+	ctx.api().get(`${API}/analytics`).set(auth(user)).query(query);
+
+/**
+ * Three paid orders: two chairs and a desk that were kept, and a chair the
+ * seller cancelled and refunded. The desk went to Mombasa.
+ */
+const sellSome = async () => {
+	const seller = await registerUser(ctx, "seller");
+	const [first, second] = await Promise.all([registerUser(ctx), registerUser(ctx)]);
+	const chair = await createProduct(ctx, seller, { price: 2500, stock: 10 });
+	const desk = await createProduct(ctx, seller, { name: "Writing desk", price: 9000, stock: 3, category: "desks" });
+
+	const chairs = await buyAndPay(ctx, first, [{ product: chair._id, quantity: 2 }]);
+	const deskOrder = await buyAndPay(ctx, second, [{ product: desk._id, quantity: 1 }]);
+	await Order.updateOne({ _id: deskOrder._id }, { "shippingInfo.city": " Mombasa" });
+	const cancelled = await buyAndPay(ctx, second, [{ product: chair._id, quantity: 1 }]);
+	const res = await ctx.api().put(`${API}/order/cancel/${cancelled._id}`).set(auth(seller));
+	expect(res.status).toBe(200);
+	await ctx.emulator.settled();
+
+	return { seller, chair, desk, orders: [chairs, deskOrder, cancelled] };
+};
+
+describe("seller analytics", () => {
+	it("sums revenue, refunds and cancellations over paid orders", async () => {
+		const { seller, orders } = await sellSome();
+		const [chairs, deskOrder, cancelled] = orders;
+		const revenue = chairs!.total + deskOrder!.total + cancelled!.total;
+
+		const res = await dashboard(seller);
+
+		expect(res.status).toBe(200);
+		expect(res.body.summary).toMatchObject({
+			revenue,
+			refunded: Math.round(cancelled!.total),
+			netRevenue: revenue - Math.round(cancelled!.total),
+			paidOrders: 3,
+			averageOrderValue: Math.round((revenue / 3) * 100) / 100,
+			unitsSold: 3,
+			cancelledOrders: 1,
+			cancellationRate: 0.333,
+		});
+	});
+
+	it("buckets revenue by day with empty days as zeros", async () => {
+		const { seller } = await sellSome();
+
+		const res = await dashboard(seller, { interval: "day" });
+
+		const series = res.body.revenue as { start: string; revenue: number; orders: number }[];
+		expect(series.length).toBeGreaterThanOrEqual(30);
+		expect(series.at(-1)).toMatchObject({ orders: 3, revenue: res.body.summary.revenue });
+		expect(series.slice(0, -1).every((point) => point.orders === 0)).toBe(true);
+	});
+
+	it("counts units per product, leaving out cancelled orders", async () => {
+		const { seller, chair, desk } = await sellSome();
+
+		const res = await ctx.api().get(`${API}/analytics/products`).set(auth(seller));
+
+		expect(res.status).toBe(200);
+		expect(res.body.products).toEqual([
+			expect.objectContaining({ product: chair._id, name: chair.name, units: 2, revenue: 5000 }),
+			expect.objectContaining({ product: desk._id, name: "Writing desk", units: 1, revenue: 9000 }),
+		]);
+	});
+
+	it("ranks buyer towns by orders", async () => {
+		const { seller } = await sellSome();
+
+		const res = await ctx.api().get(`${API}/analytics/cities`).set(auth(seller));
+
+		expect(res.body.cities).toEqual([
+			expect.objectContaining({ city: "Nairobi", orders: 2 }),
+			expect.objectContaining({ city: "Mombasa", orders: 1 }),
+		]);
+	});
+
+	it("lists products at or below the stock threshold", async () => {
+		const { seller, desk } = await sellSome();
+
+		const res = await ctx
+			.api()
+			.get(`${API}/analytics/low-stock`)
+			.set(auth(seller))
+			.query({ threshold: 2 });
+
+		expect(res.status).toBe(200);
+		expect(res.body.products).toEqual([expect.objectContaining({ _id: desk._id, stock: 2 })]);
+	});
+
+	it("only counts sales inside the range", async () => {
+		const { seller } = await sellSome();
+
+		const res = await dashboard(seller, { from: "2020-01-01", to: "2020-01-31" });
+
+		expect(res.status).toBe(200);
+		expect(res.body.summary).toMatchObject({ revenue: 0, paidOrders: 0, cancellationRate: 0 });
+		expect(res.body.products).toEqual([]);
+	});
+
+	it("rejects backwards or overlong ranges", async () => {
+		const seller = await registerUser(ctx, "seller");
+
+		const backwards = await dashboard(seller, { from: "2026-02-01", to: "2026-01-01" });
+		const overlong = await dashboard(seller, { from: "2024-01-01", to: "2026-01-01" });
+
+		expect(backwards.status).toBe(400);
+		expect(overlong.status).toBe(400);
+	});
+
+	it("is for sellers, and admins who name one", async () => {
+		const { seller } = await sellSome();
+		const buyer = await registerUser(ctx);
+		const admin = await registerUser(ctx, "admin");
+
+		expect((await dashboard(buyer)).status).toBe(403);
+		expect((await dashboard(admin)).status).toBe(400);
+		const res = await dashboard(admin, { seller: seller.id });
+		expect(res.status).toBe(200);
+		expect(res.body.summary.paidOrders).toBe(3);
+	});
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "@jest/globals";
+
+import User from "../src/models/user.models";
+import { API, auth, registerUser, useTestServer } from "./harness";
+
+const ctx = useTestServer();
+
+describe("register", () => {
+	it("creates a buyer and starts a session", async () => {
+		const res = await ctx.api().post(`${API}/auth/register`).send({
+			fullName: "Wanjiru Kamau",
+			email: "wanjiru@example.com",
+			password: "password123",
+		});
+
+		expect(res.status).toBe(201);
+		expect(res.body.user).toMatchObject({ email: "wanjiru@example.com", role: "buyer" });
+		expect(res.body.token).toEqual(expect.any(String));
+		expect(res.body.refreshToken).toEqual(expect.any(String));
+
+		const stored = await User.findOne({ email: "wanjiru@example.com" });
+		expect(stored?.password).not.toBe("password123");
+	});
+
+	it("leaves new sellers waiting for approval", async () => {
+		const res = await ctx.api().post(`${API}/auth/register`).send({
+			fullName: "Otieno Furniture",
+			email: "otieno@example.com",
+			password: "password123",
+			role: "seller",
+		});
+
+		expect(res.status).toBe(201);
+		const stored = await User.findOne({ email: "otieno@example.com" });
+		expect(stored?.isApproved).toBe(false);
+	});
+
+	it("rejects an email that is already registered", async () => {
+		const user = await registerUser(ctx);
+
+		const res = await ctx.api().post(`${API}/auth/register`).send({
+			fullName: "Someone Else",
+			email: user.email,
+			password: "password123",
+		});
+
+		expect(res.status).toBe(400);
+		expect(res.body.message).toBe("User already exists");
+	});
+
+	it("refuses to register admins", async () => {
+		const res = await ctx.api().post(`${API}/auth/register`).send({
+			fullName: "Sneaky Admin",
+			email: "sneaky@example.com",
+			password: "password123",
+			role: "admin",
+		});
+
+		expect(res.status).toBe(400);
+	});
+});
+
+describe("login", () => {
+	it("returns the user without the password hash", async () => {
+		const user = await registerUser(ctx);
+
+		const res = await ctx
+			.api()
+			.post(`${API}/auth/login`)
+			.send({ email: user.email, password: "password123" });
+
+		expect(res.status).toBe(200);
+		expect(res.body.user.email).toBe(user.email);
+		expect(res.body.user.password).toBeUndefined();
+		expect(res.body.token).toEqual(expect.any(String));
+	});
+
+	it("rejects a wrong password", async () => {
+		const user = await registerUser(ctx);
+
+		const res = await ctx
+			.api()
+			.post(`${API}/auth/login`)
+			.send({ email: user.email, password: "not-the-password" });
+
+		expect(res.status).toBe(401);
+	});
+
+	it("reports an unknown email", async () => {
+		const res = await ctx
+			.api()
+			.post(`${API}/auth/login`)
+			.send({ email: "nobody@example.com", password: "password123" });
+
+		expect(res.status).toBe(404);
+	});
+
+	it("turns suspended users away", async () => {
+		const user = await registerUser(ctx);
+		await User.updateOne({ _id: user.id }, { isSuspended: true });
+
+		const res = await ctx
+			.api()
+			.post(`${API}/auth/login`)
+			.send({ email: user.email, password: "password123" });
+
+		expect(res.status).toBe(403);
+	});
+});
+
+describe("access tokens", () => {
+	it("opens protected routes", async () => {
+		const user = await registerUser(ctx);
+
+		const res = await ctx.api().get(`${API}/auth/profile/${user.id}`).set(auth(user));
+
+		expect(res.status).toBe(200);
+		expect(res.body.email).toBe(user.email);
+	});
+
+	it("are required on protected routes", async () => {
+		const res = await ctx.api().get(`${API}/cart`);
+
+		expect(res.status).toBe(401);
+	});
+
+	it("stop working after logging out of all devices", async () => {
+		const user = await registerUser(ctx);
+
+		const logout = await ctx.api().post(`${API}/auth/logout-all`).set(auth(user));
+		expect(logout.status).toBe(200);
+
+		const res = await ctx.api().get(`${API}/cart`).set(auth(user));
+		expect(res.status).toBe(401);
+		expect(res.body.message).toBe("Session has been revoked");
+	});
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { API, auth, createProduct, registerUser, TestUser, useTestServer } from "./harness";
+
+const ctx = useTestServer();
+
+const addToCart = (buyer: TestUser, productId: string, quantity: number) =>
+	ctx.api().post(`${API}/cart`).set(auth(buyer)).send({ productId, quantity });
+
+type CartBody = {
+	items: { product: { _id: string }; quantity: number; price: number }[];
+	subTotal: number;
+	shipping: number;
+	discount: number;
+	total: number;
+};
+
+const expectConsistentTotals = (cart: CartBody, subTotal: number) => {
+	expect(cart.subTotal).toBe(subTotal);
+	expect(cart.shipping).toBeGreaterThanOrEqual(0);
+	expect(cart.total).toBe(cart.subTotal + cart.shipping - cart.discount);
+};
+
+describe("cart totals", () => {
+	it("prices a new line from the product, not the request", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const product = await createProduct(ctx, seller, { price: 2500 });
+
+		const res = await ctx
+			.api()
+			.post(`${API}/cart`)
+			.set(auth(buyer))
+			.send({ productId: product._id, quantity: 2, price: 1 });
+
+		expect(res.status).toBe(200);
+		expect(res.body.cart.items).toHaveLength(1);
+		expect(res.body.cart.items[0]).toMatchObject({ quantity: 2, price: 2500 });
+		expectConsistentTotals(res.body.cart, 5000);
+	});
+
+	it("merges repeat adds of the same product", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const product = await createProduct(ctx, seller, { price: 1200 });
+
+		await addToCart(buyer, product._id, 1);
+		const res = await addToCart(buyer, product._id, 2);
+
+		expect(res.status).toBe(200);
+		expect(res.body.cart.items).toHaveLength(1);
+		expect(res.body.cart.items[0].quantity).toBe(3);
+		expectConsistentTotals(res.body.cart, 3600);
+	});
+
+	it("adds up lines from different sellers", async () => {
+		const [sellerA, sellerB, buyer] = await Promise.all([
+			registerUser(ctx, "seller"),
+			registerUser(ctx, "seller"),
+			registerUser(ctx),
+		]);
+		const chair = await createProduct(ctx, sellerA, { price: 2500 });
+		const desk = await createProduct(ctx, sellerB, { name: "Writing desk", price: 9000, category: "desks" });
+
+		await addToCart(buyer, chair._id, 2);
+		const res = await addToCart(buyer, desk._id, 1);
+
+		expect(res.body.cart.items).toHaveLength(2);
+		expectConsistentTotals(res.body.cart, 14000);
+	});
+
+	it("recomputes totals when a quantity changes", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const product = await createProduct(ctx, seller, { price: 2500 });
+		await addToCart(buyer, product._id, 1);
+
+		const res = await ctx
+			.api()
+			.put(`${API}/cart/${product._id}`)
+			.set(auth(buyer))
+			.send({ quantity: 4 });
+
+		expect(res.status).toBe(200);
+		expectConsistentTotals(res.body.cart, 10000);
+	});
+
+	it("recomputes totals when a line is removed", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const chair = await createProduct(ctx, seller, { price: 2500 });
+		const sofa = await createProduct(ctx, seller, { name: "Three-seater sofa", price: 30000, category: "sofas" });
+		await addToCart(buyer, chair._id, 1);
+		await addToCart(buyer, sofa._id, 1);
+
+		const res = await ctx.api().delete(`${API}/cart/${sofa._id}`).set(auth(buyer));
+
+		expect(res.status).toBe(200);
+		expect(res.body.cart.items).toHaveLength(1);
+		expectConsistentTotals(res.body.cart, 2500);
+
+		const fetched = await ctx.api().get(`${API}/cart`).set(auth(buyer));
+		expect(fetched.body.cart.total).toBe(res.body.cart.total);
+	});
+
+	it("leaves a deleted product out of the totals", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const chair = await createProduct(ctx, seller, { price: 2500 });
+		const sofa = await createProduct(ctx, seller, { name: "Three-seater sofa", price: 30000, category: "sofas" });
+		await addToCart(buyer, chair._id, 1);
+		await addToCart(buyer, sofa._id, 1);
+		await ctx.api().delete(`${API}/products/${sofa._id}`).set(auth(seller));
+
+		const res = await ctx
+			.api()
+			.put(`${API}/cart/${chair._id}`)
+			.set(auth(buyer))
+			.send({ quantity: 2 });
+
+		expect(res.status).toBe(200);
+		expectConsistentTotals(res.body.cart, 5000);
+	});
+
+	it("rejects a malformed variant id when removing a line", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const buyer = await registerUser(ctx);
+		const product = await createProduct(ctx, seller);
+		await addToCart(buyer, product._id, 1);
+
+		const res = await ctx
+			.api()
+			.delete(`${API}/cart/${product._id}`)
+			.set(auth(buyer))
+			.query({ variantId: "not-an-id" });
+
+		expect(res.status).toBe(400);
+	});
+
+	it("only lets buyers shop", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller);
+
+		const res = await addToCart(seller, product._id, 1);
+
+		expect(res.status).toBe(403);
+	});
+
+	it("rejects unknown products", async () => {
+		const buyer = await registerUser(ctx);
+
+		const res = await addToCart(buyer, "64b000000000000000000000", 1);
+
+		expect(res.status).toBe(400);
+		expect(res.body.message).toBe("Product not found");
+	});
+});
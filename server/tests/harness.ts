@@ -0,0 +1,190 @@
+import { afterAll, afterEach, beforeAll, expect } from "@jest/globals";
+import { Server } from "http";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { AddressInfo } from "net";
+import request from "supertest";
+
+import { apiVersion, createApp } from "../src/app";
+import User from "../src/models/user.models";
+import { DarajaEmulator, startDarajaEmulator } from "../src/services/darajaEmulator";
+import { ImageStorage, setImageStorage } from "../src/services/imageStorage";
+
+export const API = apiVersion;
+
+type TestServer = {
+	server: Server;
+	emulator: DarajaEmulator;
+	// a fresh supertest client for the running app
+	api: () => ReturnType<typeof request>;
+};
+
+// Uploads are kept as URLs only; nothing is written anywhere
+const memoryImageStorage = (): ImageStorage => ({
+	async save(file, folder) {
+		return `https://images.test/${folder}/${Date.now()}-${file.originalname}`;
+	},
+	async remove() {},
+});
+
+/**
+ * Boot the app for one test file: an in-memory MongoDB replica set (cancelling
+ * orders uses transactions), the Daraja emulator, and the app on a free port
+ * so the emulator's callbacks reach it. Collections are emptied after each
+ * test. Fields are filled in by `beforeAll`.
+ */
+export const useTestServer = (): TestServer => {
+	const ctx = {} as TestServer;
+	let mongo: MongoMemoryReplSet;
+
+	beforeAll(async () => {
+		mongo = await MongoMemoryReplSet.create({
+			replSet: { count: 1, storageEngine: "wiredTiger" },
+		});
+		await mongoose.connect(mongo.getUri());
+		// collections and unique indexes must exist before the first transaction
+		await Promise.all(Object.values(mongoose.models).map((model) => model.init()));
+
+		setImageStorage(memoryImageStorage());
+
+		ctx.emulator = await startDarajaEmulator({
+			consumerKey: process.env.CONSUMER_KEY,
+			consumerSecret: process.env.CONSUMER_SECRET,
+			passKey: process.env.PASS_KEY,
+			// long enough for initiatePayment to store the CheckoutRequestID
+			callbackDelayMs: 200,
+		});
+		process.env.MPESA_BASE_URL = ctx.emulator.url;
+
+		const app = createApp();
+		ctx.server = await new Promise<Server>((resolve) => {
+			const server = app.listen(0, "127.0.0.1", () => resolve(server));
+		});
+		const { port } = ctx.server.address() as AddressInfo;
+		process.env.MPESA_CALLBACK_URL = `http://127.0.0.1:${port}${API}/mpesa/callback`;
+		ctx.api = () => request(ctx.server);
+	});
+
+	afterEach(async () => {
+		await ctx.emulator.settled();
+		ctx.emulator.reset();
+		await Promise.all(
+			Object.values(mongoose.connection.collections).map((collection) =>
+				collection.deleteMany({})
+			)
+		);
+	});
+
+	afterAll(async () => {
+		await ctx.emulator?.close();
+		// beforeAll may have failed before listening, e.g. if mongod could not start
+		if (ctx.server) await new Promise((resolve) => ctx.server.close(resolve));
+		setImageStorage(null);
+		await mongoose.disconnect();
+		await mongo?.stop();
+	});
+
+	return ctx;
+};
+
+export type TestUser = { id: string; token: string; email: string };
+
+let userCount = 0;
+
+/**
+ * Register through the API. Sellers are approved straight away unless
+ * `approved` is false.
+ */
+export const registerUser = async (
+	ctx: TestServer,
+	role: "buyer" | "seller" | "admin" = "buyer",
+	{ approved = true }: { approved?: boolean } = {}
+): Promise<TestUser> => {
+	userCount += 1;
+	const email = `${role}${userCount}@example.com`;
+	const res = await ctx
+		.api()
+		.post(`${API}/auth/register`)
+		.send({
+			fullName: `Test ${role} ${userCount}`,
+			email,
+			password: "password123",
+			// admins cannot self-register; promote a buyer instead
+			role: role === "admin" ? "buyer" : role,
+		});
+	expect(res.status).toBe(201);
+	const id = String(res.body.user.id);
+	if (role === "admin") {
+		await User.updateOne({ _id: id }, { role: "admin", isApproved: true });
+	} else if (role === "seller" && approved) {
+		await User.updateOne({ _id: id }, { isApproved: true });
+	}
+	return { id, token: res.body.token, email };
+};
+
+export const auth = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+type ProductFields = {
+	name?: string;
+	price?: number;
+	stock?: number;
+	category?: string;
+};
+
+// Create a product through the multipart endpoint, with one image
+export const createProduct = async (
+	ctx: TestServer,
+	seller: TestUser,
+	{ name = "Oak dining chair", price = 2500, stock = 10, category = "chairs" }: ProductFields = {}
+) => {
+	const res = await ctx
+		.api()
+		.post(`${API}/products`)
+		.set(auth(seller))
+		.field("seller", seller.id)
+		.field("name", name)
+		.field("category", category)
+		.field("description", "Solid oak, seats one")
+		.field("price", String(price))
+		.field("stock", String(stock))
+		.attach("images", Buffer.from("not really a jpeg"), {
+			filename: "chair.jpg",
+			contentType: "image/jpeg",
+		});
+	expect(res.status).toBe(200);
+	return res.body.newProduct as { _id: string; price: number; stock: number; name: string };
+};
+
+export const PHONE = "0712345678";
+
+// Start an M-Pesa checkout for the given products
+export const initiatePayment = (
+	ctx: TestServer,
+	buyer: TestUser,
+	items: { product: string; quantity: number }[]
+) =>
+	ctx
+		.api()
+		.post(`${API}/order/initiate-payment`)
+		.set(auth(buyer))
+		.send({
+			items,
+			paymentMethod: "mpesa",
+			phoneNumber: PHONE,
+			shippingInfo: { city: "Nairobi", address: "Argwings Kodhek Rd" },
+		});
+
+/**
+ * Check out and let the emulator deliver a successful callback.
+ * @returns the paid order
+ */
+export const buyAndPay = async (
+	ctx: TestServer,
+	buyer: TestUser,
+	items: { product: string; quantity: number }[]
+) => {
+	const res = await initiatePayment(ctx, buyer, items);
+	expect(res.status).toBe(200);
+	await ctx.emulator.settled();
+	return res.body.order as { _id: string; orderNumber: string; total: number };
+};
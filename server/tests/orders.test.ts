@@ -0,0 +1,189 @@
+import { describe, expect, it } from "@jest/globals";
+
+import Order from "../src/models/orde.models";
+import Product from "../src/models/product.models";
+import Refund from "../src/models/refund.models";
+import { setB2CClient } from "../src/services/mpesaB2c";
+import {
+	API,
+	auth,
+	buyAndPay,
+	createProduct,
+	initiatePayment,
+	registerUser,
+	TestUser,
+	useTestServer,
+} from "./harness";
+
+const ctx = useTestServer();
+
+const stockOf = async (productId: string) => (await Product.findById(productId))?.stock;
+
+const cancel = (user: TestUser, orderId: string, note?: string) =>
+	ctx
+		.api()
+		.put(`${API}/order/cancel/${orderId}`)
+		.set(auth(user))
+		.send(note ? { note } : {});
+
+const setUp = async () => {
+	const seller = await registerUser(ctx, "seller");
+	const buyer = await registerUser(ctx);
+	const product = await createProduct(ctx, seller, { price: 2500, stock: 5 });
+	return { seller, buyer, product };
+};
+
+describe("cancelOrder", () => {
+	it("returns the stock of an unpaid order without a refund", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "timeout" });
+		const started = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+		expect(await stockOf(product._id)).toBe(3);
+
+		const res = await cancel(buyer, started.body.order._id, "Changed my mind");
+
+		expect(res.status).toBe(200);
+		expect(res.body.order.status).toBe("cancelled");
+		expect(res.body.refund).toBeNull();
+		expect(await stockOf(product._id)).toBe(5);
+		const history = (await Order.findById(started.body.order._id))?.statusHistory ?? [];
+		expect(history.at(-1)).toMatchObject({ status: "cancelled", note: "Changed my mind" });
+	});
+
+	it("refunds a payment that lands after the order was cancelled", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "success", delayMs: 1000 });
+		const started = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+
+		const res = await cancel(buyer, started.body.order._id);
+		expect(res.status).toBe(200);
+		await ctx.emulator.settled();
+
+		const order = await Order.findById(started.body.order._id);
+		expect(order?.status).toBe("cancelled");
+		expect(order?.paymentStatus).toBe("refunded");
+		expect(await Refund.findOne({ order: order?._id })).toMatchObject({ status: "completed" });
+		expect(await stockOf(product._id)).toBe(5);
+	});
+
+	it("refunds a paid order straight away when the seller cancels", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+
+		const res = await cancel(seller, order._id);
+
+		expect(res.status).toBe(200);
+		expect(res.body.refund).toMatchObject({ status: "processing", amount: Math.round(order.total) });
+		expect(await stockOf(product._id)).toBe(5);
+
+		await ctx.emulator.settled();
+		const payout = ctx.emulator.requests.find((r) => r.api === "b2c")?.body;
+		expect(payout).toMatchObject({ PartyB: "254712345678", Amount: Math.round(order.total) });
+		const refund = await Refund.findById(res.body.refund._id);
+		expect(refund?.status).toBe("completed");
+		expect(refund?.mpesaReceiptNumber).toEqual(expect.any(String));
+		expect((await Order.findById(order._id))?.paymentStatus).toBe("refunded");
+	});
+
+	it("waits for the seller to approve a refund when the buyer cancels", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+
+		const res = await cancel(buyer, order._id);
+
+		expect(res.status).toBe(200);
+		expect(res.body.refund.status).toBe("requested");
+		expect(ctx.emulator.requests.filter((r) => r.api === "b2c")).toHaveLength(0);
+
+		const approved = await ctx
+			.api()
+			.patch(`${API}/refunds/${res.body.refund._id}/approve`)
+			.set(auth(seller));
+		expect(approved.status).toBe(200);
+		await ctx.emulator.settled();
+
+		expect((await Refund.findById(res.body.refund._id))?.status).toBe("completed");
+		expect((await Order.findById(order._id))?.paymentStatus).toBe("refunded");
+	});
+
+	it("holds the refund for review when the payout times out", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		ctx.emulator.script("b2c", { outcome: "timeout" });
+
+		const res = await cancel(seller, order._id);
+		await ctx.emulator.settled();
+
+		const refund = await Refund.findById(res.body.refund._id);
+		expect(refund?.status).toBe("needs_review");
+		expect(refund?.resultDesc).toMatch(/^Queue timeout/);
+		expect((await Order.findById(order._id))?.paymentStatus).toBe("paid");
+		const retry = await ctx.api().patch(`${API}/refunds/${refund?._id}/approve`).set(auth(seller));
+		expect(retry.status).toBe(400);
+	});
+
+	it("fails a refund Daraja refuses, and holds one that got no answer", async () => {
+		const { seller, buyer, product } = await setUp();
+		const refused = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		const unanswered = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		ctx.emulator.script("b2c", { outcome: "reject", status: 500, errorMessage: "Service unavailable" });
+
+		const first = await cancel(seller, refused._id);
+		setB2CClient({
+			name: "offline",
+			sendPayment: () => Promise.reject(new Error("timeout of 15000ms exceeded")),
+		});
+		const second = await cancel(seller, unanswered._id).finally(() => setB2CClient(null));
+
+		expect(first.body.refund).toMatchObject({ status: "failed", resultDesc: "Service unavailable" });
+		expect(second.body.refund.status).toBe("needs_review");
+	});
+
+	it("lets an admin settle a timed-out refund that was paid", async () => {
+		const { seller, buyer, product } = await setUp();
+		const admin = await registerUser(ctx, "admin");
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		ctx.emulator.script("b2c", { outcome: "timeout" });
+		const { body } = await cancel(seller, order._id);
+		await ctx.emulator.settled();
+
+		const res = await ctx
+			.api()
+			.patch(`${API}/refunds/${body.refund._id}/review`)
+			.set(auth(admin))
+			.send({ paid: true, receipt: "SJK4H7PQ2X" });
+
+		expect(res.status).toBe(200);
+		expect(res.body.refund).toMatchObject({ status: "completed", mpesaReceiptNumber: "SJK4H7PQ2X" });
+		expect((await Order.findById(order._id))?.paymentStatus).toBe("refunded");
+	});
+
+	it("only lets the parties to the order cancel it", async () => {
+		const { buyer, product } = await setUp();
+		const stranger = await registerUser(ctx);
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+
+		const res = await cancel(stranger, order._id);
+
+		expect(res.status).toBe(403);
+		expect((await Order.findById(order._id))?.status).toBe("pending");
+	});
+
+	it("cannot cancel a shipped order", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		for (const status of ["confirmed", "shipped"]) {
+			const moved = await ctx
+				.api()
+				.put(`${API}/order/${order._id}`)
+				.set(auth(seller))
+				.send({ status });
+			expect(moved.status).toBe(200);
+		}
+
+		const res = await cancel(buyer, order._id);
+
+		expect(res.status).toBe(400);
+		expect(await stockOf(product._id)).toBe(4);
+	});
+});
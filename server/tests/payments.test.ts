@@ -0,0 +1,175 @@
+import { describe, expect, it } from "@jest/globals";
+
+import Cart from "../src/models/cart.models";
+import Checkout from "../src/models/checkout.models";
+import MpesaCallback from "../src/models/mpesaCallback.models";
+import MpesaTransaction from "../src/models/mpesa.models";
+import Order from "../src/models/orde.models";
+import Product from "../src/models/product.models";
+import Reservation from "../src/models/reservation.models";
+import { commitReservation } from "../src/services/reservation";
+import {
+	API,
+	auth,
+	createProduct,
+	initiatePayment,
+	registerUser,
+	TestUser,
+	useTestServer,
+} from "./harness";
+
+const ctx = useTestServer();
+
+const stockOf = async (productId: string) => (await Product.findById(productId))?.stock;
+
+const setUp = async (stock = 5) => {
+	const seller = await registerUser(ctx, "seller");
+	const buyer = await registerUser(ctx);
+	const product = await createProduct(ctx, seller, { price: 2500, stock });
+	return { seller, buyer, product };
+};
+
+const fillCart = (buyer: TestUser, productId: string, quantity: number) =>
+	ctx.api().post(`${API}/cart`).set(auth(buyer)).send({ productId, quantity });
+
+describe("initiatePayment", () => {
+	it("reserves stock and sends an STK push for the order total", async () => {
+		const { buyer, product } = await setUp();
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+
+		expect(res.status).toBe(200);
+		expect(res.body.checkoutRequestId).toMatch(/^ws_CO_/);
+		expect(res.body.order).toMatchObject({ status: "pending", paymentStatus: "pending" });
+		expect(await stockOf(product._id)).toBe(3);
+
+		const reservation = await Reservation.findOne({ transaction: res.body.transactionId });
+		expect(reservation?.status).toBe("active");
+		expect(reservation?.items[0]).toMatchObject({ quantity: 2 });
+
+		const push = ctx.emulator.requests.find((r) => r.api === "stk")?.body as Record<string, unknown>;
+		expect(push).toMatchObject({
+			Amount: Math.round(res.body.order.total),
+			PartyA: "254712345678",
+			PhoneNumber: "254712345678",
+			CallBackURL: process.env.MPESA_CALLBACK_URL,
+		});
+	});
+
+	it("refuses more than is in stock and holds nothing", async () => {
+		const { buyer, product } = await setUp(1);
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+
+		expect(res.status).toBe(400);
+		expect(await stockOf(product._id)).toBe(1);
+		expect(await Order.countDocuments()).toBe(0);
+		expect(ctx.emulator.requests.filter((r) => r.api === "stk")).toHaveLength(0);
+	});
+
+	it("gives the stock back when Daraja refuses the push", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "reject", status: 500, errorMessage: "Service unavailable" });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+
+		expect(res.status).toBe(400);
+		expect(await stockOf(product._id)).toBe(5);
+		expect(await Order.countDocuments()).toBe(0);
+		expect(await MpesaTransaction.countDocuments()).toBe(0);
+	});
+});
+
+describe("callBack", () => {
+	it("marks the orders paid and keeps the stock taken", async () => {
+		const { buyer, product } = await setUp();
+		await fillCart(buyer, product._id, 2);
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+		await ctx.emulator.settled();
+
+		expect(ctx.emulator.callbacks).toHaveLength(1);
+		expect(ctx.emulator.callbacks[0]?.status).toBe(200);
+
+		const order = await Order.findById(res.body.order._id);
+		expect(order?.paymentStatus).toBe("paid");
+		expect(order?.mpesaReceiptNumber).toEqual(expect.any(String));
+		expect(order?.mpesaCheckoutRequestID).toBe(res.body.checkoutRequestId);
+		expect((await Checkout.findById(res.body.checkout.id))?.paymentStatus).toBe("paid");
+		expect((await MpesaTransaction.findById(res.body.transactionId))?.status).toBe("success");
+		expect((await Reservation.findOne({ transaction: res.body.transactionId }))?.status).toBe(
+			"committed"
+		);
+		expect(await stockOf(product._id)).toBe(3);
+		expect(await Cart.exists({ user: buyer.id })).toBeNull();
+	});
+
+	it("drops the orders and restores stock when the buyer cancels the prompt", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "fail", resultCode: 1032 });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+		expect(await stockOf(product._id)).toBe(3);
+		await ctx.emulator.settled();
+
+		expect(await Order.exists({ _id: res.body.order._id })).toBeNull();
+		expect(await Checkout.exists({ _id: res.body.checkout.id })).toBeNull();
+		const tx = await MpesaTransaction.findById(res.body.transactionId);
+		expect(tx).toMatchObject({ status: "failed", resultCode: 1032 });
+		expect((await Reservation.findOne({ transaction: tx?._id }))?.status).toBe("released");
+		expect(await stockOf(product._id)).toBe(5);
+	});
+
+	it("leaves the orders alone when a failure arrives after the reservation was settled", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "fail", resultCode: 1, delayMs: 1000 });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+		// as the sweeper does when an STK query reports the payment went through
+		await commitReservation(res.body.transactionId);
+		await ctx.emulator.settled();
+
+		expect(await Order.exists({ _id: res.body.order._id })).not.toBeNull();
+		expect(await Checkout.exists({ _id: res.body.checkout.id })).not.toBeNull();
+		expect(await stockOf(product._id)).toBe(3);
+	});
+
+	it("handles a redelivered callback only once", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "fail", resultCode: 1, duplicates: 2 });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 2 }]);
+		await ctx.emulator.settled();
+
+		expect(ctx.emulator.callbacks.map((c) => c.status)).toEqual([200, 200, 200]);
+		const entry = await MpesaCallback.findOne({ checkoutRequestId: res.body.checkoutRequestId });
+		expect(entry).toMatchObject({ deliveries: 3, status: "processed", outcome: "payment_failed" });
+		// restored once, not three times
+		expect(await stockOf(product._id)).toBe(5);
+	});
+
+	it("does not mark orders paid for the wrong amount", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "success", amount: 1 });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		await ctx.emulator.settled();
+
+		expect((await Order.findById(res.body.order._id))?.paymentStatus).toBe("pending");
+		expect((await MpesaTransaction.findById(res.body.transactionId))?.status).toBe("flagged");
+	});
+
+	it("leaves the payment pending while the customer has not answered", async () => {
+		const { buyer, product } = await setUp();
+		ctx.emulator.script("stk", { outcome: "timeout" });
+
+		const res = await initiatePayment(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		await ctx.emulator.settled();
+
+		expect(ctx.emulator.callbacks).toHaveLength(0);
+		expect((await Order.findById(res.body.order._id))?.paymentStatus).toBe("pending");
+		expect((await Reservation.findOne({ transaction: res.body.transactionId }))?.status).toBe(
+			"active"
+		);
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "@jest/globals";
+
+import Listing from "../src/models/listings.models";
+import User from "../src/models/user.models";
+import { API, auth, createProduct, registerUser, TestUser, useTestServer } from "./harness";
+
+const ctx = useTestServer();
+
+describe("product CRUD", () => {
+	it("lets an approved seller list a product with images", async () => {
+		const seller = await registerUser(ctx, "seller");
+
+		const product = await createProduct(ctx, seller, { name: "Mvule coffee table", price: 7800 });
+
+		expect(product).toMatchObject({ name: "Mvule coffee table", price: 7800, stock: 10 });
+		const res = await ctx.api().get(`${API}/products/${product._id}`);
+		expect(res.status).toBe(200);
+		expect(res.body.seller).toBe(seller.id);
+		expect(res.body.images).toHaveLength(1);
+		expect(res.body.image).toBe(res.body.images[0]);
+		expect(await Listing.exists({ product: product._id, seller: seller.id })).toBeTruthy();
+	});
+
+	it("keeps sellers waiting for approval from listing", async () => {
+		const seller = await registerUser(ctx, "seller", { approved: false });
+
+		const res = await ctx
+			.api()
+			.post(`${API}/products`)
+			.set(auth(seller))
+			.field("seller", seller.id)
+			.field("name", "Pending chair")
+			.field("description", "Not approved yet")
+			.field("price", "1000")
+			.field("stock", "1");
+
+		expect(res.status).toBe(403);
+		expect(res.body.code).toBe("SELLER_PENDING_APPROVAL");
+	});
+
+	it("does not let buyers list products", async () => {
+		const buyer = await registerUser(ctx);
+
+		const res = await ctx
+			.api()
+			.post(`${API}/products`)
+			.set(auth(buyer))
+			.field("seller", buyer.id)
+			.field("name", "Buyer chair")
+			.field("description", "Should not be listed")
+			.field("price", "1000")
+			.field("stock", "1");
+
+		expect(res.status).toBe(403);
+	});
+
+	it("requires an image", async () => {
+		const seller = await registerUser(ctx, "seller");
+
+		const res = await ctx
+			.api()
+			.post(`${API}/products`)
+			.set(auth(seller))
+			.field("seller", seller.id)
+			.field("name", "Imageless chair")
+			.field("description", "Nothing to see")
+			.field("price", "1000")
+			.field("stock", "1");
+
+		expect(res.status).toBe(400);
+		expect(res.body.message).toBe("image required");
+	});
+
+	it("updates price and stock", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller);
+
+		const res = await ctx
+			.api()
+			.put(`${API}/products/${product._id}`)
+			.set(auth(seller))
+			.field("price", "3100")
+			.field("stock", "4");
+
+		expect(res.status).toBe(200);
+		expect(res.body.product).toMatchObject({ price: 3100, stock: 4 });
+	});
+
+	it("keeps a variant product's price and stock derived from its variants", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller);
+		const variants = [
+			{ sku: "CHAIR-OAK", attributes: { material: "oak" }, price: 4000, stock: 3 },
+			{ sku: "CHAIR-PINE", attributes: { material: "pine" }, price: 2500, stock: 2 },
+		];
+		await ctx
+			.api()
+			.put(`${API}/products/${product._id}`)
+			.set(auth(seller))
+			.field("variants", JSON.stringify(variants));
+
+		const res = await ctx
+			.api()
+			.put(`${API}/products/${product._id}`)
+			.set(auth(seller))
+			.field("price", "100")
+			.field("stock", "99");
+
+		expect(res.status).toBe(200);
+		expect(res.body.product).toMatchObject({ price: 2500, stock: 5 });
+	});
+
+	it("deletes a product", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller);
+
+		const res = await ctx.api().delete(`${API}/products/${product._id}`).set(auth(seller));
+
+		expect(res.status).toBe(200);
+		const gone = await ctx.api().get(`${API}/products/${product._id}`);
+		expect(gone.status).toBe(404);
+		expect(await Listing.exists({ product: product._id })).toBeNull();
+	});
+
+	it("only lets the owner change or delete a product", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const rival = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller);
+
+		const updated = await ctx
+			.api()
+			.put(`${API}/products/${product._id}`)
+			.set(auth(rival))
+			.field("price", "1");
+		const deleted = await ctx.api().delete(`${API}/products/${product._id}`).set(auth(rival));
+
+		expect(updated.status).toBe(403);
+		expect(deleted.status).toBe(403);
+		const kept = await ctx.api().get(`${API}/products/${product._id}`);
+		expect(kept.body.price).toBe(product.price);
+	});
+
+	it("only lets the owner set stock", async () => {
+		const seller = await registerUser(ctx, "seller");
+		const rival = await registerUser(ctx, "seller");
+		const product = await createProduct(ctx, seller, { stock: 2 });
+		const stock = (user?: TestUser) => {
+			const req = ctx.api().put(`${API}/products/${product._id}/stock`);
+			return (user ? req.set(auth(user)) : req).send({ stock: 7 });
+		};
+
+		expect((await stock()).status).toBe(401);
+		expect((await stock(rival)).status).toBe(403);
+		const invalid = await ctx
+			.api()
+			.put(`${API}/products/${product._id}/stock`)
+			.set(auth(seller))
+			.send({ stock: -1.5 });
+		expect(invalid.status).toBe(400);
+		const res = await stock(seller);
+
+		expect(res.status).toBe(200);
+		expect(res.body.product.stock).toBe(7);
+	});
+
+	it("hides a suspended seller's listings", async () => {
+		const seller = await registerUser(ctx, "seller");
+		await createProduct(ctx, seller);
+		const listings = () => ctx.api().get(`${API}/products/listing/${seller.id}`);
+		expect((await listings()).body.listings).toHaveLength(1);
+
+		await User.updateOne({ _id: seller.id }, { isSuspended: true });
+
+		const res = await listings();
+		expect(res.status).toBe(200);
+		expect(res.body.listings).toEqual([]);
+	});
+
+	it("lists products with a search filter", async () => {
+		const seller = await registerUser(ctx, "seller");
+		await createProduct(ctx, seller, { name: "Rattan armchair" });
+		await createProduct(ctx, seller, { name: "Pine bookshelf", category: "cabinets" });
+
+		const res = await ctx.api().get(`${API}/products`).query({ category: "cabinets" });
+
+		expect(res.status).toBe(200);
+		const names = res.body.products.map((p: { name: string }) => p.name);
+		expect(names).toEqual(["Pine bookshelf"]);
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@jest/globals";
+
+import Product from "../src/models/product.models";
+import {
+	API,
+	auth,
+	buyAndPay,
+	createProduct,
+	registerUser,
+	TestUser,
+	useTestServer,
+} from "./harness";
+
+const ctx = useTestServer();
+
+const review = (user: TestUser, product: string, stars: number, content = "Sturdy and well made") =>
+	ctx.api().post(`${API}/review`).set(auth(user)).send({ product, content, stars });
+
+// Walk a paid order through to the buyer's door
+const deliver = async (seller: TestUser, orderId: string) => {
+	for (const status of ["confirmed", "shipped", "out_for_delivery", "delivered"]) {
+		const res = await ctx
+			.api()
+			.put(`${API}/order/${orderId}`)
+			.set(auth(seller))
+			.send({ status });
+		expect(res.status).toBe(200);
+	}
+};
+
+const setUp = async () => {
+	const seller = await registerUser(ctx, "seller");
+	const buyer = await registerUser(ctx);
+	const product = await createProduct(ctx, seller);
+	return { seller, buyer, product };
+};
+
+describe("reviews", () => {
+	it("are only open to buyers whose order was delivered", async () => {
+		const { buyer, product } = await setUp();
+		await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+
+		const res = await review(buyer, product._id, 5);
+
+		expect(res.status).toBe(403);
+	});
+
+	it("update the product rating once delivered", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		await deliver(seller, order._id);
+
+		const res = await review(buyer, product._id, 4);
+
+		expect(res.status).toBe(201);
+		expect(res.body.review).toMatchObject({ stars: 4, verifiedPurchase: true, order: order._id });
+		expect(res.body.rating).toMatchObject({ reviewCount: 1, averageRating: 4 });
+		const stored = await Product.findById(product._id);
+		expect(stored?.reviewCount).toBe(1);
+		expect(stored?.averageRating).toBe(4);
+	});
+
+	it("allow one review per buyer and product", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		await deliver(seller, order._id);
+		await review(buyer, product._id, 4);
+
+		const res = await review(buyer, product._id, 1, "Changed my mind");
+
+		expect(res.status).toBe(409);
+		expect((await Product.findById(product._id))?.averageRating).toBe(4);
+	});
+
+	it("are listed on the product with its rating", async () => {
+		const { seller, buyer, product } = await setUp();
+		const order = await buyAndPay(ctx, buyer, [{ product: product._id, quantity: 1 }]);
+		await deliver(seller, order._id);
+		await review(buyer, product._id, 5, "Worth every shilling");
+
+		const res = await ctx.api().get(`${API}/review/${product._id}`);
+
+		expect(res.status).toBe(200);
+		expect(res.body.reviews).toHaveLength(1);
+		expect(res.body.reviews[0]).toMatchObject({ content: "Worth every shilling", stars: 5 });
+		expect(res.body.rating.ratingHistogram).toMatchObject({ 5: 1, 4: 0 });
+	});
+
+	it("validate the star count", async () => {
+		const { buyer, product } = await setUp();
+
+		const res = await review(buyer, product._id, 6);
+
+		expect(res.status).toBe(400);
+	});
+});
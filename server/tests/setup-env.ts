@@ -0,0 +1,16 @@
+// Runs before each test file loads the app, so modules that read the
+// environment at import time see these values
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.PUSH_SENDER = "memory";
+
+// M-Pesa goes to the Daraja emulator started by the harness
+process.env.CONSUMER_KEY = "test-consumer-key";
+process.env.CONSUMER_SECRET = "test-consumer-secret";
+process.env.PASS_KEY = "test-pass-key";
+process.env.BUSINESS_SHORT_CODE = "174379";
+process.env.B2C_INITIATOR_NAME = "testapi";
+process.env.B2C_SECURITY_CREDENTIAL = "test-security-credential";
+delete process.env.TEST_MODE;
+delete process.env.MPESA_CALLBACK_TOKEN;
+delete process.env.MPESA_CALLBACK_IP_ALLOWLIST;
+delete process.env.GEOCODER;
@@ -0,0 +1,76 @@
+import {
+	createAddress,
+	deleteAddress,
+	getAddresses,
+	updateAddress,
+} from "@/SERVICE/api";
+import { Address, AddressInput } from "@/types";
+import { create } from "zustand";
+
+type AddressState = {
+	// default first, then most recently used
+	addresses: Address[];
+	isLoading: boolean;
+	error: string | null;
+	fetchAddresses: () => Promise<void>;
+	defaultAddress: () => Address | null;
+	save: (input: AddressInput, id?: string) => Promise<Address | null>;
+	remove: (id: string) => Promise<boolean>;
+	makeDefault: (id: string) => Promise<boolean>;
+	reset: () => void;
+};
+
+// The buyer's delivery address book
+export const useAddressStore = create<AddressState>()((set, get) => ({
+	addresses: [],
+	isLoading: false,
+	error: null,
+
+	fetchAddresses: async () => {
+		set({ isLoading: true, error: null });
+		try {
+			const { addresses } = await getAddresses();
+			set({ addresses, isLoading: false });
+		} catch (error: unknown) {
+			set({
+				isLoading: false,
+				error: error instanceof Error ? error.message : "Failed to load addresses",
+			});
+		}
+	},
+
+	defaultAddress: () =>
+		get().addresses.find((address) => address.isDefault) ?? get().addresses[0] ?? null,
+
+	save: async (input, id) => {
+		try {
+			const { address, addresses } = id
+				? await updateAddress(id, input)
+				: await createAddress(input);
+			set({ addresses, error: null });
+			return address;
+		} catch (error: unknown) {
+			set({
+				error: error instanceof Error ? error.message : "Failed to save address",
+			});
+			return null;
+		}
+	},
+
+	remove: async (id) => {
+		try {
+			const { addresses } = await deleteAddress(id);
+			set({ addresses, error: null });
+			return true;
+		} catch (error: unknown) {
+			set({
+				error: error instanceof Error ? error.message : "Failed to delete address",
+			});
+			return false;
+		}
+	},
+
+	makeDefault: async (id) => Boolean(await get().save({ isDefault: true }, id)),
+
+	reset: () => set({ addresses: [], isLoading: false, error: null }),
+}));
@@ -0,0 +1,79 @@
+import {
+	getProductAlerts,
+	subscribeToProduct,
+	unsubscribeFromProduct,
+} from "@/SERVICE/api";
+import { ProductAlert, ProductAlertInput } from "@/types";
+import { create } from "zustand";
+
+type AlertState = {
+	alerts: ProductAlert[];
+	error: string | null;
+	fetchAlerts: () => Promise<void>;
+	isWatching: (productId: string) => boolean;
+	watch: (productId: string, options?: ProductAlertInput) => Promise<boolean>;
+	unwatch: (productId: string) => Promise<boolean>;
+	reset: () => void;
+};
+
+const productIdOf = (alert: ProductAlert) => {
+	const raw = alert.product as ProductAlert["product"] & { _id?: string };
+	return raw._id || raw.id;
+};
+
+// Price-drop / back-in-stock alerts the buyer has set up
+export const useAlertStore = create<AlertState>()((set, get) => ({
+	alerts: [],
+	error: null,
+
+	fetchAlerts: async () => {
+		try {
+			const { alerts } = await getProductAlerts();
+			set({ alerts, error: null });
+		} catch (error: unknown) {
+			set({
+				error: error instanceof Error ? error.message : "Failed to load alerts",
+			});
+		}
+	},
+
+	isWatching: (productId) =>
+		get().alerts.some((alert) => productIdOf(alert) === productId),
+
+	watch: async (productId, options) => {
+		try {
+			const { alert } = await subscribeToProduct(productId, options);
+			set((state) => ({
+				alerts: [
+					alert,
+					...state.alerts.filter((a) => productIdOf(a) !== productId),
+				],
+				error: null,
+			}));
+			return true;
+		} catch (error: unknown) {
+			set({
+				error: error instanceof Error ? error.message : "Failed to save alert",
+			});
+			return false;
+		}
+	},
+
+	unwatch: async (productId) => {
+		try {
+			await unsubscribeFromProduct(productId);
+			set((state) => ({
+				alerts: state.alerts.filter((a) => productIdOf(a) !== productId),
+				error: null,
+			}));
+			return true;
+		} catch (error: unknown) {
+			set({
+				error: error instanceof Error ? error.message : "Failed to remove alert",
+			});
+			return false;
+		}
+	},
+
+	reset: () => set({ alerts: [], error: null }),
+}));
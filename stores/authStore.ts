@@ -5,14 +5,22 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import {
 	getUserProfile,
 	loginUser,
+	logoutAllDevices,
+	logoutSession,
 	registerUser,
 	setAuthToken,
+	setSessionHandlers,
 } from "@/SERVICE/api";
+import { useAddressStore } from "./addressStore";
+import { useAlertStore } from "./alertStore";
+import { useNotificationStore } from "./notificationStore";
+import { useWishlistStore } from "./wishlistStore";
 import { RegisterInput, User } from "../types";
 
 interface AuthState {
 	user: User | null;
 	token: string | null;
+	refreshToken: string | null;
 	setUser: (user: User | null) => void;
 	isAuthenticated: () => boolean;
 	isLoading: boolean;
@@ -20,6 +28,8 @@ interface AuthState {
 	login: (email: string, password: string) => Promise<void>;
 	register: (user: RegisterInput) => Promise<void>;
 	logout: () => void;
+	logoutAllDevices: () => Promise<void>;
+	clearSession: () => void;
 	getProfile: (id: string) => Promise<void>;
 }
 
@@ -28,6 +38,7 @@ export const useAuthStore = create<AuthState>()(
 		(set, get) => ({
 			user: null,
 			token: null,
+			refreshToken: null,
 			isLoading: false,
 			error: null,
 			setUser: (user: User | null) => set({ user }),
@@ -43,6 +54,7 @@ export const useAuthStore = create<AuthState>()(
 					set({
 						user: response.user,
 						token: response.token,
+						refreshToken: response.refreshToken,
 						isLoading: false,
 					});
 				} catch (error: unknown) {
@@ -53,6 +65,7 @@ export const useAuthStore = create<AuthState>()(
 						error: errorMessage,
 						user: null,
 						token: null,
+						refreshToken: null,
 					});
 					throw error;
 				}
@@ -65,6 +78,7 @@ export const useAuthStore = create<AuthState>()(
 					set({
 						user: response.user,
 						token: response.token,
+						refreshToken: response.refreshToken,
 						isLoading: false,
 					});
 				} catch (error: unknown) {
@@ -75,6 +89,7 @@ export const useAuthStore = create<AuthState>()(
 						error: errorMessage,
 						user: null,
 						token: null,
+						refreshToken: null,
 					});
 					throw error;
 				}
@@ -98,10 +113,31 @@ export const useAuthStore = create<AuthState>()(
 				}
 			},
 			logout: () => {
+				const { refreshToken } = get();
+				if (refreshToken) {
+					// best effort, the local session is cleared either way
+					logoutSession(refreshToken).catch((error) =>
+						console.error("Failed to revoke session:", error)
+					);
+				}
+				// this device stops receiving pushes for the signed-out account
+				useNotificationStore.getState().unregisterDevice();
+				get().clearSession();
+			},
+			logoutAllDevices: async () => {
+				await logoutAllDevices();
+				get().clearSession();
+			},
+			clearSession: () => {
 				setAuthToken(null);  
+				useNotificationStore.getState().reset();
+				useWishlistStore.getState().reset();
+				useAlertStore.getState().reset();
+				useAddressStore.getState().reset();
 				set({
 					user: null,
 					token: null,
+					refreshToken: null,
 					error: null,
 					isLoading: false,
 				});
@@ -113,7 +149,15 @@ export const useAuthStore = create<AuthState>()(
 			partialize: (state) => ({
 				user: state.user,
 				token: state.token,
+				refreshToken: state.refreshToken,
 			}),  
 		}
 	)
 );
+
+setSessionHandlers({
+	getRefreshToken: () => useAuthStore.getState().refreshToken,
+	onRefreshed: (token, refreshToken) =>
+		useAuthStore.setState({ token, refreshToken }),
+	onSessionExpired: () => useAuthStore.getState().clearSession(),
+});
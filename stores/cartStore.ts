@@ -1,5 +1,5 @@
 import { addToCart, getCart, removeFromCart, updateCart as updateCartApi } from "@/SERVICE/api";
-import { CartItem, Product } from "@/types";
+import { CartItem, Product, ProductVariant } from "@/types";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
@@ -20,9 +20,13 @@ type CartState = {
 	shippingCost: number;
 
 	// basic ops
-	addItem: (product: Product, qty?: number) => Promise<void>;
-	setQuantity: (productId: string, qty: number) => void;
-	removeItem: (productId: string) => Promise<void>;
+	addItem: (
+		product: Product,
+		qty?: number,
+		variant?: ProductVariant | null
+	) => Promise<void>;
+	setQuantity: (productId: string, qty: number, variantId?: string) => void;
+	removeItem: (productId: string, variantId?: string) => Promise<void>;
 	clear: () => void;
 	setBuyerCity: (city: string) => void;
 	setShippingCost: (cost: number) => void;
@@ -35,6 +39,13 @@ type CartState = {
 	subtotal: () => number;
 };
 
+// A cart line is one product, or one variant of a product
+const isLine = (item: CartItem, productId: string, variantId?: string) =>
+	item.product.id === productId && (item.variant?._id ?? "") === (variantId ?? "");
+
+export const unitPrice = (item: CartItem) =>
+	Number(item.variant?.price ?? item.product.price ?? 0);
+
 function mapServerCartToItems(payload: any): CartItem[] {
 	const list = payload?.cart?.items ?? payload?.items ?? [];
 	return list
@@ -48,8 +59,13 @@ function mapServerCartToItems(payload: any): CartItem[] {
 				image: p.image || "",
 				category: p.category || "",
 				stock: Number(p.stock || 0),
+				variants: p.variants,
 			};
-			return { product, quantity: Number(it?.quantity ?? 1) } as CartItem;
+			const variant = it?.variant
+				? p.variants?.find((v: ProductVariant) => v._id === String(it.variant)) ??
+					null
+				: null;
+			return { product, variant, quantity: Number(it?.quantity ?? 1) } as CartItem;
 		})
 		.filter((it: CartItem) => !!it.product.id);
 }
@@ -64,7 +80,7 @@ export const useCartStore = create<CartState>()(
 			buyerCity: "",
 			shippingCost: 0,
 
-			addItem: async (product, qty = 1) => {
+			addItem: async (product, qty = 1, variant = null) => {
 				if (typeof addToCart !== 'function') {
 					throw new Error(`addToCart is not imported correctly. Type: ${typeof addToCart}`);
 				}
@@ -74,7 +90,9 @@ export const useCartStore = create<CartState>()(
 
 				// Optimistic update
 				set((state) => {
-					const idx = state.items.findIndex((i) => i.product.id === product.id);
+					const idx = state.items.findIndex((i) =>
+						isLine(i, product.id, variant?._id)
+					);
 					if (idx > -1) {
 						const next = [...state.items];
 						next[idx] = {
@@ -83,18 +101,20 @@ export const useCartStore = create<CartState>()(
 						};
 						return { items: next };
 					}
-					return { items: [...state.items, { product, quantity: qty }] };
+					return { items: [...state.items, { product, variant, quantity: qty }] };
 				});
 
 				try {
 					// Backend gets userId from JWT token automatically
 					console.log("📤 Calling addToCart with:", {
 						productId: product.id,
+						variantId: variant?._id,
 						quantity: qty,
-						price: product.price, // Pass price to backend
+						price: variant?.price ?? product.price, // Pass price to backend
 					});
 					await addToCart({
 						productId: product.id,
+						variantId: variant?._id,
 						quantity: qty,
 						
 					});
@@ -108,17 +128,17 @@ export const useCartStore = create<CartState>()(
 				}
 			},
 
-			setQuantity: (productId, qty) => {
+			setQuantity: (productId, qty, variantId) => {
 				const nextQty = Math.max(1, qty);
 				const prev = get().items;
 
 				set({
 					items: prev.map((i) =>
-						i.product.id === productId ? { ...i, quantity: nextQty } : i
+						isLine(i, productId, variantId) ? { ...i, quantity: nextQty } : i
 					),
 				});
 
-				updateCartApi(productId, nextQty).catch((err) => {
+				updateCartApi(productId, nextQty, variantId).catch((err) => {
 					console.error("Failed to update cart", err);
 					set({
 						items: prev,
@@ -127,16 +147,16 @@ export const useCartStore = create<CartState>()(
 				});
 			},
 
-			removeItem: async (productId) => {
+			removeItem: async (productId, variantId) => {
 				const prev = get().items;
 
 				// Optimistic update
 				set((state) => ({
-					items: state.items.filter((i) => i.product.id !== productId),
+					items: state.items.filter((i) => !isLine(i, productId, variantId)),
 				}));
 
 				try {
-					await removeFromCart(productId);
+					await removeFromCart(productId, variantId);
 					console.log("Item removed from cart");
 				} catch (err: any) {
 					// Revert optimistic update on failure
@@ -182,7 +202,7 @@ export const useCartStore = create<CartState>()(
 
 			subtotal: () =>
 				get().items.reduce(
-					(sum, it) => sum + Number(it.product.price || 0) * (it.quantity || 1),
+					(sum, it) => sum + unitPrice(it) * (it.quantity || 1),
 					0
 				),
 		}),
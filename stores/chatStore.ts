@@ -0,0 +1,296 @@
+import {
+	chatSocketUrl,
+	getConversation,
+	getConversationMessages,
+	getConversations,
+	markConversationRead,
+	openConversation,
+	sendConversationMessage,
+} from "@/SERVICE/api";
+import { ChatMessage, ChatTarget, Conversation } from "@/types";
+import { create } from "zustand";
+
+type ChatState = {
+	conversations: Conversation[];
+	// across every thread, for the inbox badge
+	unreadCount: number;
+	// newest first per conversation id, as the server pages them
+	messages: Record<string, ChatMessage[]>;
+	cursors: Record<string, string | null>;
+	// the thread on screen; its incoming messages are marked read at once
+	activeId: string | null;
+	isLoading: boolean;
+	error: string | null;
+	connect: (token: string) => void;
+	disconnect: () => void;
+	fetchConversations: () => Promise<void>;
+	open: (target: ChatTarget) => Promise<Conversation | null>;
+	close: () => void;
+	loadOlder: (conversationId: string) => Promise<void>;
+	send: (conversationId: string, body: string) => Promise<boolean>;
+	markRead: (conversationId: string) => Promise<void>;
+	reset: () => void;
+};
+
+type SocketEvent =
+	| {
+			type: "message";
+			conversationId: string;
+			message: ChatMessage;
+			buyerUnread: number;
+			sellerUnread: number;
+	  }
+	| { type: "read"; conversationId: string; readBy: string; readAt: string }
+	| { type: "ready" | "ack" | "typing" | "error"; message?: string };
+
+const MAX_RETRY_MS = 30000;
+
+let socket: WebSocket | null = null;
+let socketToken: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retries = 0;
+
+const initialState = {
+	conversations: [],
+	unreadCount: 0,
+	messages: {},
+	cursors: {},
+	activeId: null,
+	isLoading: false,
+	error: null,
+};
+
+const totalUnread = (conversations: Conversation[]) =>
+	conversations.reduce((sum, c) => sum + (c.unreadCount || 0), 0);
+
+const myId = (conversation: Conversation) =>
+	conversation.role === "buyer" ? conversation.buyer._id : conversation.seller._id;
+
+// Adds messages the list does not have yet (the sender gets their own
+// message both from the REST reply and from the socket)
+const mergeNewest = (existing: ChatMessage[], incoming: ChatMessage[]) => {
+	const known = new Set(existing.map((m) => m._id));
+	return [...incoming.filter((m) => !known.has(m._id)), ...existing];
+};
+
+// Puts a conversation at the top of the inbox, replacing any older copy
+const upsertFirst = (conversations: Conversation[], conversation: Conversation) => [
+	conversation,
+	...conversations.filter((c) => c._id !== conversation._id),
+];
+
+export const useChatStore = create<ChatState>()((set, get) => {
+	const handleEvent = (event: SocketEvent) => {
+		if (event.type === "message") {
+			const { conversationId, message } = event;
+			const conversation = get().conversations.find((c) => c._id === conversationId);
+			if (!conversation) {
+				// a thread someone else just started
+				get().fetchConversations();
+				return;
+			}
+			const updated: Conversation = {
+				...conversation,
+				lastMessage: { body: message.body, sender: message.sender, at: message.createdAt },
+				unreadCount:
+					conversation.role === "buyer" ? event.buyerUnread : event.sellerUnread,
+				updatedAt: message.createdAt,
+			};
+			set((state) => {
+				const conversations = upsertFirst(state.conversations, updated);
+				const loaded = state.messages[conversationId];
+				return {
+					conversations,
+					unreadCount: totalUnread(conversations),
+					messages: loaded
+						? { ...state.messages, [conversationId]: mergeNewest(loaded, [message]) }
+						: state.messages,
+				};
+			});
+			if (get().activeId === conversationId && message.sender !== myId(conversation)) {
+				get().markRead(conversationId);
+			}
+			return;
+		}
+
+		if (event.type === "read") {
+			// the other side opened the thread: our messages are now seen
+			set((state) => {
+				const loaded = state.messages[event.conversationId];
+				if (!loaded) return state;
+				return {
+					messages: {
+						...state.messages,
+						[event.conversationId]: loaded.map((m) =>
+							m.sender !== event.readBy && !m.readAt ? { ...m, readAt: event.readAt } : m
+						),
+					},
+				};
+			});
+			return;
+		}
+
+		if (event.type === "error") console.warn("Chat socket error:", event.message);
+	};
+
+	const scheduleReconnect = () => {
+		if (!socketToken || retryTimer) return;
+		// back off 1s, 2s, 4s ... up to 30s between attempts
+		const delay = Math.min(1000 * 2 ** retries, MAX_RETRY_MS);
+		retries += 1;
+		retryTimer = setTimeout(() => {
+			retryTimer = null;
+			if (socketToken) get().connect(socketToken);
+		}, delay);
+	};
+
+	return {
+		...initialState,
+
+		connect: (token) => {
+			if (socket && socketToken === token) return;
+			get().disconnect();
+			socketToken = token;
+
+			const ws = new WebSocket(chatSocketUrl(token));
+			socket = ws;
+			ws.onopen = () => {
+				retries = 0;
+				// catch up on anything sent while we were offline
+				get().fetchConversations();
+			};
+			ws.onmessage = (e) => {
+				try {
+					handleEvent(JSON.parse(String(e.data)));
+				} catch (error) {
+					console.error("Bad chat event:", error);
+				}
+			};
+			ws.onclose = () => {
+				if (socket !== ws) return;
+				socket = null;
+				scheduleReconnect();
+			};
+		},
+
+		disconnect: () => {
+			socketToken = null;
+			retries = 0;
+			if (retryTimer) clearTimeout(retryTimer);
+			retryTimer = null;
+			const ws = socket;
+			socket = null;
+			ws?.close();
+		},
+
+		fetchConversations: async () => {
+			try {
+				const { conversations, unreadCount } = await getConversations();
+				set({ conversations, unreadCount });
+			} catch (error: unknown) {
+				set({
+					error:
+						error instanceof Error ? error.message : "Failed to load conversations",
+				});
+			}
+		},
+
+		open: async (target) => {
+			set({ isLoading: true, error: null });
+			try {
+				const conversation =
+					"conversationId" in target
+						? await getConversation(target.conversationId)
+						: await openConversation(target);
+				const { messages, nextCursor } = await getConversationMessages(
+					conversation._id
+				);
+				set((state) => {
+					const conversations = upsertFirst(state.conversations, conversation);
+					return {
+						conversations,
+						unreadCount: totalUnread(conversations),
+						messages: { ...state.messages, [conversation._id]: messages },
+						cursors: { ...state.cursors, [conversation._id]: nextCursor },
+						activeId: conversation._id,
+						isLoading: false,
+					};
+				});
+				if (conversation.unreadCount > 0) get().markRead(conversation._id);
+				return conversation;
+			} catch (error: unknown) {
+				set({
+					isLoading: false,
+					error: error instanceof Error ? error.message : "Failed to open chat",
+				});
+				return null;
+			}
+		},
+
+		close: () => set({ activeId: null }),
+
+		loadOlder: async (conversationId) => {
+			const cursor = get().cursors[conversationId];
+			if (!cursor || get().isLoading) return;
+			set({ isLoading: true });
+			try {
+				const { messages, nextCursor } = await getConversationMessages(
+					conversationId,
+					cursor
+				);
+				set((state) => ({
+					messages: {
+						...state.messages,
+						[conversationId]: [...(state.messages[conversationId] ?? []), ...messages],
+					},
+					cursors: { ...state.cursors, [conversationId]: nextCursor },
+					isLoading: false,
+				}));
+			} catch (error: unknown) {
+				set({
+					isLoading: false,
+					error: error instanceof Error ? error.message : "Failed to load messages",
+				});
+			}
+		},
+
+		send: async (conversationId, body) => {
+			try {
+				const message = await sendConversationMessage(conversationId, body);
+				set((state) => ({
+					messages: {
+						...state.messages,
+						[conversationId]: mergeNewest(state.messages[conversationId] ?? [], [
+							message,
+						]),
+					},
+				}));
+				return true;
+			} catch (error: unknown) {
+				set({
+					error: error instanceof Error ? error.message : "Failed to send message",
+				});
+				return false;
+			}
+		},
+
+		markRead: async (conversationId) => {
+			set((state) => {
+				const conversations = state.conversations.map((c) =>
+					c._id === conversationId ? { ...c, unreadCount: 0 } : c
+				);
+				return { conversations, unreadCount: totalUnread(conversations) };
+			});
+			try {
+				await markConversationRead(conversationId);
+			} catch (error: unknown) {
+				console.error("Failed to mark conversation read:", error);
+			}
+		},
+
+		reset: () => {
+			get().disconnect();
+			set(initialState);
+		},
+	};
+});
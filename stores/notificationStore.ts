@@ -0,0 +1,164 @@
+import Constants from "expo-constants";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { create } from "zustand";
+
+import {
+	getNotifications,
+	markAllNotificationsRead,
+	markNotificationRead,
+	registerPushToken,
+	unregisterPushToken,
+} from "@/SERVICE/api";
+import { AppNotification } from "@/types";
+
+type NotificationState = {
+	notifications: AppNotification[];
+	unreadCount: number;
+	// cursor for the next (older) page, null once everything is loaded
+	nextCursor: string | null;
+	// this device's Expo push token once registered with the server
+	pushToken: string | null;
+	isLoading: boolean;
+	error: string | null;
+	fetchNotifications: () => Promise<void>;
+	loadMore: () => Promise<void>;
+	markRead: (id: string) => Promise<void>;
+	markAllRead: () => Promise<void>;
+	registerDevice: () => Promise<void>;
+	unregisterDevice: () => void;
+	reset: () => void;
+};
+
+const initialState = {
+	notifications: [],
+	unreadCount: 0,
+	nextCursor: null,
+	pushToken: null,
+	isLoading: false,
+	error: null,
+};
+
+// Asks for permission and returns the Expo push token, or null when the
+// user declines or the device cannot receive pushes (e.g. a simulator)
+const requestExpoPushToken = async (): Promise<string | null> => {
+	if (Platform.OS === "android") {
+		await Notifications.setNotificationChannelAsync("default", {
+			name: "default",
+			importance: Notifications.AndroidImportance.DEFAULT,
+		});
+	}
+
+	let { status } = await Notifications.getPermissionsAsync();
+	if (status !== "granted") {
+		({ status } = await Notifications.requestPermissionsAsync());
+	}
+	if (status !== "granted") return null;
+
+	const projectId =
+		Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+	const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+	return data;
+};
+
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+	...initialState,
+
+	fetchNotifications: async () => {
+		set({ isLoading: true, error: null });
+		try {
+			const page = await getNotifications();
+			set({
+				notifications: page.notifications,
+				unreadCount: page.unreadCount,
+				nextCursor: page.nextCursor,
+				isLoading: false,
+			});
+		} catch (error: unknown) {
+			set({
+				isLoading: false,
+				error:
+					error instanceof Error ? error.message : "Failed to load notifications",
+			});
+		}
+	},
+
+	loadMore: async () => {
+		const { nextCursor, isLoading } = get();
+		if (!nextCursor || isLoading) return;
+		set({ isLoading: true, error: null });
+		try {
+			const page = await getNotifications({ before: nextCursor });
+			set((state) => ({
+				notifications: [...state.notifications, ...page.notifications],
+				unreadCount: page.unreadCount,
+				nextCursor: page.nextCursor,
+				isLoading: false,
+			}));
+		} catch (error: unknown) {
+			set({
+				isLoading: false,
+				error:
+					error instanceof Error ? error.message : "Failed to load notifications",
+			});
+		}
+	},
+
+	markRead: async (id) => {
+		const target = get().notifications.find((n) => n._id === id);
+		if (!target || target.readAt) return;
+		// update locally first so the badge reacts immediately
+		const readAt = new Date().toISOString();
+		set((state) => ({
+			notifications: state.notifications.map((n) =>
+				n._id === id ? { ...n, readAt } : n
+			),
+			unreadCount: Math.max(0, state.unreadCount - 1),
+		}));
+		try {
+			await markNotificationRead(id);
+		} catch (error: unknown) {
+			console.error("Failed to mark notification read:", error);
+		}
+	},
+
+	markAllRead: async () => {
+		const readAt = new Date().toISOString();
+		set((state) => ({
+			notifications: state.notifications.map((n) =>
+				n.readAt ? n : { ...n, readAt }
+			),
+			unreadCount: 0,
+		}));
+		try {
+			await markAllNotificationsRead();
+		} catch (error: unknown) {
+			console.error("Failed to mark notifications read:", error);
+		}
+	},
+
+	registerDevice: async () => {
+		try {
+			const token = await requestExpoPushToken();
+			if (!token) return;
+			await registerPushToken(token);
+			set({ pushToken: token });
+		} catch (error: unknown) {
+			// the in-app list still works without push
+			console.warn("Push notifications unavailable:", error);
+		}
+	},
+
+	unregisterDevice: () => {
+		const { pushToken } = get();
+		if (pushToken) {
+			// best effort, must start while the session token is still set
+			unregisterPushToken(pushToken).catch((error) =>
+				console.error("Failed to unregister push token:", error)
+			);
+		}
+		set({ pushToken: null });
+	},
+
+	reset: () => set(initialState),
+}));
@@ -1,4 +1,5 @@
 import {
+    cancelOrder as cancelOrderApi,
     getBuyerOrders,
     getSellerOrders,
     order,
@@ -22,7 +23,11 @@ interface OrderState {
   fetchOrders: (userId: string, userRole?: "buyer" | "seller") => Promise<void>;
 
   // Update order status
-  updateOrderStatus: (orderId: string, status: string) => Promise<void>;
+  updateOrderStatus: (
+    orderId: string,
+    status: string,
+    note?: string,
+  ) => Promise<void>;
 
   // Clear orders
   clearOrders: () => void;
@@ -53,9 +58,17 @@ export const useOrderStore = create<OrderState>()(
               transaction: response.transaction ?? response.order?.transaction,
             };
 
+            // A cart with items from several sellers comes back as one order per seller
+            const newOrders: Order[] = (response.orders ?? [response.order]).map(
+              (o: any) => ({
+                ...o,
+                transactionId: response.transactionId ?? o?.transactionId,
+              }),
+            );
+
             // Add to orders list
             set((state) => ({
-              orders: [newOrder, ...state.orders],
+              orders: [...newOrders, ...state.orders],
               currentOrder: newOrder,
               isLoading: false,
             }));
@@ -122,6 +135,9 @@ export const useOrderStore = create<OrderState>()(
               typeof order.seller === "object" && order.seller?._id
                 ? order.seller._id
                 : order.seller,
+            sellerName: order.sellerName,
+            checkout: order.checkout,
+            checkoutNumber: order.checkoutNumber,
             items: order.items || [],
             subTotal: order.subTotal,
             shipping: order.shipping,
@@ -130,6 +146,7 @@ export const useOrderStore = create<OrderState>()(
             paymentStatus: order.paymentStatus,
             phoneNumber: order.phoneNumber,
             status: order.status,
+            statusHistory: order.statusHistory || [],
             shippingInfo: order.shippingInfo,
             mpesaReceiptNumber: order.mpesaReceiptNumber,
             mpesaCheckoutRequestID: order.mpesaCheckoutRequestID,
@@ -153,25 +170,36 @@ export const useOrderStore = create<OrderState>()(
         }
       },
 
-      updateOrderStatus: async (orderId: string, status: string) => {
+      updateOrderStatus: async (
+        orderId: string,
+        status: string,
+        note?: string,
+      ) => {
         set({ isLoading: true, error: null });
         try {
           console.log(`📋 Updating order ${orderId} status to ${status}`);
 
           // Update backend
-          const response = await updateOrderStatusApi(orderId, status);
-
-          // Update local state optimistically
+          const response =
+            status === "cancelled"
+              ? await cancelOrderApi(orderId, note)
+              : await updateOrderStatusApi(orderId, status, note);
+
+          // Take the server's status and history; it may reject the change
+          const changes: Partial<Order> = { status };
+          if (response?.order?.statusHistory) {
+            changes.statusHistory = response.order.statusHistory;
+          }
           set((state) => ({
             orders: state.orders.map((order) =>
               order.id === orderId || order._id === orderId
-                ? { ...order, status }
+                ? { ...order, ...changes }
                 : order,
             ),
             currentOrder:
               state.currentOrder?.id === orderId ||
               state.currentOrder?._id === orderId
-                ? { ...state.currentOrder, status }
+                ? { ...state.currentOrder, ...changes }
                 : state.currentOrder,
             isLoading: false,
           }));
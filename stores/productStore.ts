@@ -1,9 +1,12 @@
-import { Product } from "@/types";
+import { Product, ProductQuery } from "@/types";
 import { create } from "zustand";
 
 import {
 	addProduct,
+	addProductImages,
+	arrangeProductImages,
 	deleteProduct,
+	deleteProductImage,
 	getProduct,
 	getProductListing,
 	getProducts,
@@ -12,22 +15,55 @@ import {
 	updateStock,
 } from "@/SERVICE/api";
 
+// Catalog filters; the cursor and limit are managed by the store
+export type ProductFilters = Omit<ProductQuery, "cursor" | "limit">;
+
+const mapProduct = (p: any): Product => ({
+	...p,
+	id: p._id || p.id,
+});
+
+// Swap in the server's copy of a product after an update
+const replaceProduct = (
+	set: (fn: (state: ProductStore) => Partial<ProductStore>) => void,
+	raw: any
+) => {
+	const product = mapProduct(raw);
+	set((state) => ({
+		products: state.products.map((p) => (p.id === product.id ? product : p)),
+	}));
+	return product;
+};
+
 interface ProductStore {
 	products: Product[];
 	isLoading: boolean;
+	isLoadingMore: boolean;
+	filters: ProductFilters;
+	nextCursor: string | null;
+	hasMore: boolean;
 	createProduct: (product: FormData) => Promise<void>;
 	update_product: (id: string, updatedProduct: Product) => Promise<void>;
 	updateStock: (id: string, stock: number) => Promise<void>;
 	removeProduct: (id: string) => void;
-	fetchProducts: () => Promise<void>;
+	fetchProducts: (filters?: ProductFilters) => Promise<void>;
+	fetchMoreProducts: () => Promise<void>;
 	fetchProduct: (id: string) => Promise<Product | null>;
 	fetchSellersListings: (sellerId: string) => Promise<void>;
 	updateProductWithImage: (id: string, formData: FormData) => Promise<void>;
+	// gallery management; each resolves with the updated product
+	addImages: (id: string, formData: FormData) => Promise<Product>;
+	arrangeImages: (id: string, images: string[]) => Promise<Product>;
+	removeImage: (id: string, url: string) => Promise<Product>;
 }
 
-export const useProductStore = create<ProductStore>()((set) => ({
+export const useProductStore = create<ProductStore>()((set, get) => ({
 	products: [],
 	isLoading: false,
+	isLoadingMore: false,
+	filters: {},
+	nextCursor: null,
+	hasMore: false,
 	createProduct: async (formData: FormData) => {
 		try {
 			set({ isLoading: true });
@@ -97,22 +133,48 @@ export const useProductStore = create<ProductStore>()((set) => ({
 			console.error("Error removing product:", error);
 		}
 	},
-	fetchProducts: async () => {
+	// Load the first page; called without filters it refreshes the current ones
+	fetchProducts: async (filters?: ProductFilters) => {
+		const activeFilters = filters ?? get().filters;
 		try {
-			set({ isLoading: true });
-			const products = await getProducts();
+			set({ isLoading: true, filters: activeFilters });
+			const page = await getProducts(activeFilters);
+			// a newer search may have started while this one was in flight
+			if (get().filters !== activeFilters) return;
 
-			const mapped = products.map((p: any) => ({
-				...p,
-				id: p._id || p.id,
-			}));
-			console.log("data:", mapped);
-			set({ products: mapped, isLoading: false });
+			set({
+				products: page.products.map(mapProduct),
+				nextCursor: page.nextCursor,
+				hasMore: page.hasMore,
+				isLoading: false,
+			});
 		} catch (error) {
 			console.error("Error fetching products:", error);
 			set({ isLoading: false });
 		}
 	},
+	fetchMoreProducts: async () => {
+		const { filters, nextCursor, hasMore, isLoading, isLoadingMore } = get();
+		if (!hasMore || !nextCursor || isLoading || isLoadingMore) return;
+		try {
+			set({ isLoadingMore: true });
+			const page = await getProducts({ ...filters, cursor: nextCursor });
+			if (get().filters !== filters) {
+				set({ isLoadingMore: false });
+				return;
+			}
+
+			set((state) => ({
+				products: [...state.products, ...page.products.map(mapProduct)],
+				nextCursor: page.nextCursor,
+				hasMore: page.hasMore,
+				isLoadingMore: false,
+			}));
+		} catch (error) {
+			console.error("Error fetching more products:", error);
+			set({ isLoadingMore: false });
+		}
+	},
 	fetchProduct: async (id: string) => {
 		try {
 			set({ isLoading: true });
@@ -180,4 +242,16 @@ export const useProductStore = create<ProductStore>()((set) => ({
 			throw error;
 		}
 	},
+	addImages: async (id: string, formData: FormData) => {
+		const response = await addProductImages(id, formData);
+		return replaceProduct(set, response.product);
+	},
+	arrangeImages: async (id: string, images: string[]) => {
+		const response = await arrangeProductImages(id, images);
+		return replaceProduct(set, response.product);
+	},
+	removeImage: async (id: string, url: string) => {
+		const response = await deleteProductImage(id, url);
+		return replaceProduct(set, response.product);
+	},
 }));
@@ -1,25 +1,48 @@
-import { addReview, getReviews } from "@/SERVICE/api";
-import { Review } from "@/types";
+import {
+	addReview,
+	getMyReview,
+	getReviews,
+	markReviewHelpful,
+	replyToReview,
+	reportReview,
+	updateReview,
+} from "@/SERVICE/api";
+import { RatingSummary, Review, ReviewReportReason } from "@/types";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 
 type ReviewState = {
 	reviews: Review[];
+	// totals kept by the server across the seller's products
+	rating: RatingSummary | null;
+	// the signed-in buyer's review of the product being rated
+	myReview: Review | null;
 	isLoading: boolean;
 	error: string | null;
+	// creates the buyer's review, or edits it if they already left one
 	leaveReview: (
 		product: string,
 		content: string,
 		stars: number
-	) => Promise<void>;
+	) => Promise<boolean>;
+	fetchMyReview: (product: string) => Promise<void>;
 	fetchReviews: (sellerId: string) => Promise<void>;
+	setHelpful: (reviewId: string, helpful: boolean) => Promise<void>;
+	reply: (reviewId: string, content: string) => Promise<boolean>;
+	report: (
+		reviewId: string,
+		reason: ReviewReportReason,
+		note?: string
+	) => Promise<boolean>;
 };
 
 export const useReviewStore = create<ReviewState>()(
 	persist(
-		(set) => ({
+		(set, get) => ({
 			reviews: [],
+			rating: null,
+			myReview: null,
 			isLoading: false,
 			error: null,
 
@@ -27,20 +50,31 @@ export const useReviewStore = create<ReviewState>()(
 				set({ isLoading: true, error: null });
 				try {
 					console.log("Submitting review:", { product, content, stars }); 
-					const response = await addReview({ product, content, stars });
+					const mine = get().myReview;
+					const existingId =
+						mine && mine.product === product ? (mine._id ?? mine.id) : undefined;
+					const response = existingId
+						? await updateReview(existingId, { content, stars })
+						: await addReview({ product, content, stars });
 					console.log("Review response:", response); 
 
 					if (response.success) {
 						set((state) => ({
-							reviews: [...state.reviews, response.review],
+							reviews: existingId
+								? state.reviews.map((r) =>
+										r.id === existingId ? { ...r, content, stars } : r
+								  )
+								: [...state.reviews, response.review],
+							myReview: response.review,
 							isLoading: false,
 						}));
-					} else {
-						set({
-							error: response.message || "Failed to submit review",
-							isLoading: false,
-						});
+						return true;
 					}
+					set({
+						error: response.message || "Failed to submit review",
+						isLoading: false,
+					});
+					return false;
 				} catch (error) {
 					console.error("Failed to leave review:", error);
 					set({
@@ -48,6 +82,17 @@ export const useReviewStore = create<ReviewState>()(
 							error instanceof Error ? error.message : "Failed to leave review",
 						isLoading: false,
 					});
+					return false;
+				}
+			},
+
+			fetchMyReview: async (product) => {
+				set({ myReview: null, error: null });
+				try {
+					const response = await getMyReview(product);
+					set({ myReview: response?.review ?? null });
+				} catch (error) {
+					console.error("Failed to fetch your review:", error);
 				}
 			},
 
@@ -66,7 +111,11 @@ export const useReviewStore = create<ReviewState>()(
 						console.log("First review product:", reviewsArray[0]?.product);
 					}
 
-					set({ reviews: reviewsArray, isLoading: false });
+					set({
+						reviews: reviewsArray,
+						rating: response?.rating ?? null,
+						isLoading: false,
+					});
 				} catch (error) {
 					console.error("Failed to fetch reviews:", error);
 					set({
@@ -79,10 +128,59 @@ export const useReviewStore = create<ReviewState>()(
 					});
 				}
 			},
+
+			setHelpful: async (reviewId, helpful) => {
+				try {
+					const response = await markReviewHelpful(reviewId, helpful);
+					set((state) => ({
+						reviews: state.reviews.map((r) =>
+							r.id === reviewId ? { ...r, likesCount: response.likesCount } : r
+						),
+					}));
+				} catch (error) {
+					set({
+						error:
+							error instanceof Error ? error.message : "Failed to vote on review",
+					});
+				}
+			},
+
+			reply: async (reviewId, content) => {
+				set({ error: null });
+				try {
+					const response = await replyToReview(reviewId, content);
+					set((state) => ({
+						reviews: state.reviews.map((r) =>
+							r.id === reviewId ? { ...r, replies: response.replies } : r
+						),
+					}));
+					return true;
+				} catch (error) {
+					set({
+						error:
+							error instanceof Error ? error.message : "Failed to reply to review",
+					});
+					return false;
+				}
+			},
+
+			report: async (reviewId, reason, note) => {
+				set({ error: null });
+				try {
+					await reportReview(reviewId, reason, note);
+					return true;
+				} catch (error) {
+					set({
+						error:
+							error instanceof Error ? error.message : "Failed to report review",
+					});
+					return false;
+				}
+			},
 		}),
 		{
 			name: "review_store",
-			partialize: (state) => ({ reviews: state.reviews }),
+			partialize: (state) => ({ reviews: state.reviews, rating: state.rating }),
 			version: 1,
 			storage: createJSONStorage(() => AsyncStorage),
 		}
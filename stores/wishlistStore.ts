@@ -0,0 +1,116 @@
+import {
+	addToWishlist,
+	getWishlist,
+	moveWishlistItemToCart,
+	removeFromWishlist,
+} from "@/SERVICE/api";
+import { WishlistItem } from "@/types";
+import { create } from "zustand";
+
+import { useCartStore } from "./cartStore";
+
+type WishlistState = {
+	items: WishlistItem[];
+	// product ids with a filled heart; updated before the server answers
+	savedIds: string[];
+	isLoading: boolean;
+	error: string | null;
+	fetchWishlist: () => Promise<void>;
+	isSaved: (productId: string) => boolean;
+	add: (productId: string, variantId?: string) => Promise<boolean>;
+	remove: (productId: string) => Promise<boolean>;
+	toggle: (productId: string) => Promise<boolean>;
+	moveToCart: (productId: string, variantId?: string) => Promise<boolean>;
+	reset: () => void;
+};
+
+// The server sends products as stored; the app keys them by `id`
+const mapItems = (items: WishlistItem[]): WishlistItem[] =>
+	items.map((item) => {
+		const raw = item.product as WishlistItem["product"] & { _id?: string };
+		return { ...item, product: { ...raw, id: raw._id || raw.id } };
+	});
+
+const fromServer = (items: WishlistItem[]) => {
+	const mapped = mapItems(items);
+	return { items: mapped, savedIds: mapped.map((item) => item.product.id) };
+};
+
+export const useWishlistStore = create<WishlistState>()((set, get) => ({
+	items: [],
+	savedIds: [],
+	isLoading: false,
+	error: null,
+
+	fetchWishlist: async () => {
+		set({ isLoading: true, error: null });
+		try {
+			const { items } = await getWishlist();
+			set({ ...fromServer(items), isLoading: false });
+		} catch (error: unknown) {
+			set({
+				isLoading: false,
+				error: error instanceof Error ? error.message : "Failed to load wishlist",
+			});
+		}
+	},
+
+	isSaved: (productId) => get().savedIds.includes(productId),
+
+	add: async (productId, variantId) => {
+		const previous = get().savedIds;
+		set({ savedIds: [productId, ...previous.filter((id) => id !== productId)] });
+		try {
+			const { items } = await addToWishlist(productId, variantId);
+			set({ ...fromServer(items), error: null });
+			return true;
+		} catch (error: unknown) {
+			set({
+				savedIds: previous,
+				error: error instanceof Error ? error.message : "Failed to save item",
+			});
+			return false;
+		}
+	},
+
+	remove: async (productId) => {
+		const previous = get().savedIds;
+		set({ savedIds: previous.filter((id) => id !== productId) });
+		try {
+			const { items } = await removeFromWishlist(productId);
+			set({ ...fromServer(items), error: null });
+			return true;
+		} catch (error: unknown) {
+			set({
+				savedIds: previous,
+				error: error instanceof Error ? error.message : "Failed to remove item",
+			});
+			return false;
+		}
+	},
+
+	toggle: (productId) =>
+		get().isSaved(productId) ? get().remove(productId) : get().add(productId),
+
+	moveToCart: async (productId, variantId) => {
+		set({ isLoading: true, error: null });
+		try {
+			await moveWishlistItemToCart(productId, variantId ? { variantId } : {});
+			set((state) => ({
+				items: state.items.filter((item) => item.product.id !== productId),
+				savedIds: state.savedIds.filter((id) => id !== productId),
+				isLoading: false,
+			}));
+			await useCartStore.getState().fetchCart();
+			return true;
+		} catch (error: unknown) {
+			set({
+				isLoading: false,
+				error: error instanceof Error ? error.message : "Failed to move item to cart",
+			});
+			return false;
+		}
+	},
+
+	reset: () => set({ items: [], savedIds: [], isLoading: false, error: null }),
+}));
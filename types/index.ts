@@ -3,6 +3,8 @@ export interface User {
 	fullName: string;
 	email: string;
 	role: "buyer" | "seller";
+	isApproved?: boolean;
+	isSuspended?: boolean;
 	location?: {
 		city?: string;
 		address?: string;
@@ -24,14 +26,70 @@ export interface RegisterInput {
 	};
 }
 
+export interface VariantAttributes {
+	color?: string;
+	material?: string;
+	size?: string;
+}
+
+export interface ProductVariant {
+	_id?: string;
+	sku: string;
+	attributes: VariantAttributes;
+	price: number;
+	stock: number;
+	images?: string[];
+}
+
 export interface Product {
 	id: string;
 	name: string;
 	description: string;
 	price: number;
+	// cover image, always images[0] when there is a gallery
 	image: string;
+	images?: string[];
 	category: string;
 	stock: number;
+	// when present, price is the cheapest variant and stock the total
+	variants?: ProductVariant[];
+	averageRating?: number;
+	reviewCount?: number;
+	ratingHistogram?: RatingHistogram;
+	// used to price shipping; bulky and oversized items add a surcharge
+	weightKg?: number | null;
+	shippingClass?: ShippingClass;
+}
+
+export type ShippingClass = "standard" | "bulky" | "oversized";
+
+// Number of reviews at each star rating
+export type RatingHistogram = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface RatingSummary {
+	reviewCount: number;
+	averageRating: number;
+	ratingHistogram: RatingHistogram;
+}
+
+export type ProductSort = "newest" | "price_asc" | "price_desc" | "rating";
+
+export interface ProductQuery {
+	q?: string;
+	category?: string;
+	minPrice?: number;
+	maxPrice?: number;
+	inStock?: boolean;
+	sellerId?: string;
+	sort?: ProductSort;
+	limit?: number;
+	cursor?: string;
+}
+
+export interface ProductPage {
+	products: Product[];
+	nextCursor: string | null;
+	hasMore: boolean;
 }
 
 export interface AddProduct {
@@ -42,6 +100,7 @@ export interface AddProduct {
 	image: string;
 	category: string;
 	stock: number;
+	variants?: ProductVariant[];
 }
 
 export interface Cart {
@@ -54,13 +113,34 @@ export interface Cart {
 	total: number;
 }
 
+export type OrderStatus =
+	| "pending"
+	| "confirmed"
+	| "shipped"
+	| "out_for_delivery"
+	| "delivered"
+	| "cancelled"
+	| "returned";
+
+export interface OrderStatusEvent {
+	status: OrderStatus;
+	at: string;
+	// populated with the user who made the change; empty for automatic changes
+	by?: { _id: string; fullName?: string; role?: string } | string | null;
+	note?: string;
+}
+
 export interface Order {
 	id: string;
 	_id?: string;
 	buyer?: Buyer | string; 
 	user?: string;  
 	seller?: string;
+	sellerName?: string;
 	orderNumber?: string;  
+	// set when one checkout was split into one order per seller
+	checkout?: string;
+	checkoutNumber?: string;
 	transactionId?: string;  
 	transaction?: {
 		id: string;
@@ -73,6 +153,9 @@ export interface Order {
 	items?: {
 	 
 		product: string;
+		variant?: string | null;
+		sku?: string;
+		attributes?: VariantAttributes;
 		name: string;
 		price: number;
 		quantity: number;
@@ -80,18 +163,26 @@ export interface Order {
 	}[];
 	subTotal?: number;  
 	shipping?: number;  
+	// coupon discount, already taken off `total`
+	discount?: number;
+	couponCode?: string | null;
 	total?: number;  
 	totalAmount?: number;  
 	paymentMethod: "mpesa";  
-	paymentStatus: "pending" | "paid" | "failed" | "cancelled" | "timeout";
+	paymentStatus:
+		| "pending"
+		| "paid"
+		| "failed"
+		| "cancelled"
+		| "timeout"
+		| "refunded"
+		| "partially_refunded";
 	phoneNumber?: string;
 	mpesaCheckoutRequestID?: string;
 	mpesaReceiptNumber?: string;
-	shippingInfo?: {
-		city: string;
-		address: string;
-	};
+	shippingInfo?: ShippingInfo;
 	status: string
+	statusHistory?: OrderStatusEvent[];
 	createdAt?: string;
 	updatedAt?: string;
 	resultDesc?: string;
@@ -101,23 +192,69 @@ export interface makeOrder {
 	buyer?: string; 
 	items: {
 		product: string;
+		variant?: string | null;
 		quantity: number;
 	}[];
 	phoneNumber: string;
 	paymentMethod: "mpesa";  
-	shippingInfo: {
-		city: string;
-		address: string;
-	};
+	// null pays without a code, even if one was applied to the cart
+	couponCode?: string | null;
+	// a saved address; without one (and without shippingInfo) the default is used
+	addressId?: string;
+	shippingInfo?: ShippingInfo;
+}
+
+// Where an order goes; copied from the address book when one was picked
+export interface ShippingInfo {
+	addressId?: string;
+	label?: string | null;
+	recipientName?: string;
+	phone?: string;
+	county?: string | null;
+	// the town
+	city: string;
+	address: string;
+	landmark?: string;
+	latitude?: number | null;
+	longitude?: number | null;
+}
+
+export interface Address {
+	_id: string;
+	label: string;
+	recipientName: string;
+	phone: string;
+	county: string | null;
+	town: string;
+	addressLine: string;
+	landmark: string;
+	latitude: number | null;
+	longitude: number | null;
+	isDefault: boolean;
 }
 
+export type AddressInput = Partial<Omit<Address, "_id">>;
+
 export interface CartItem {
 	product: Product;
+	// the chosen variant for products sold in variants
+	variant?: ProductVariant | null;
 	quantity: number;
 }
 
+export interface ReviewReply {
+	_id?: string;
+	author?: { _id?: string; fullName?: string } | string;
+	authorRole: "seller" | "buyer" | "admin";
+	content: string;
+	createdAt?: string;
+}
+
+export type ReviewReportReason = "abusive" | "spam" | "off_topic" | "other";
+
 export interface Review {
 	id?: string;
+	_id?: string;
 	product:
 		| string
 		| {
@@ -130,6 +267,11 @@ export interface Review {
 		  };
 	content: string;
 	stars: number;
+	// left against a delivered order
+	verifiedPurchase?: boolean;
+	// users who found the review helpful
+	likesCount?: number;
+	replies?: ReviewReply[];
 	user?:
 		| {
 				id?: string;
@@ -146,3 +288,266 @@ export interface Buyer {
 	name?: string;
 	email?: string;
 }
+
+export type NotificationType =
+	| "payment_received"
+	| "new_order"
+	| "order_status"
+	| "new_review"
+	| "account_approved"
+	| "price_drop"
+	| "back_in_stock"
+	| "refund_requested"
+	| "refund_completed"
+	| "claim_update";
+
+export interface AppNotification {
+	_id: string;
+	type: NotificationType;
+	title: string;
+	body: string;
+	// e.g. { orderId } or { productId, reviewId }
+	data?: Record<string, string>;
+	readAt: string | null;
+	createdAt: string;
+}
+
+export interface NotificationPage {
+	notifications: AppNotification[];
+	unreadCount: number;
+	// pass as `before` for the next page; null on the last page
+	nextCursor: string | null;
+}
+
+export type ChatRole = "buyer" | "seller";
+
+export interface ChatParticipant {
+	_id: string;
+	fullName: string;
+	profilePic?: string;
+}
+
+export interface Conversation {
+	_id: string;
+	buyer: ChatParticipant;
+	seller: ChatParticipant;
+	subject: "product" | "order";
+	product?: { _id: string; name: string; image?: string; images?: string[] } | null;
+	order?: { _id: string; orderNumber: string; status: string } | null;
+	lastMessage?: { body: string; sender: string; at: string } | null;
+	// the signed-in user's side of the thread and what they have not read
+	role: ChatRole;
+	unreadCount: number;
+	updatedAt: string;
+}
+
+export interface ChatMessage {
+	_id: string;
+	conversation: string;
+	sender: string;
+	body: string;
+	// set once the other participant has opened the thread
+	readAt: string | null;
+	createdAt: string;
+}
+
+// what a chat is opened from: a listing, an order, or the inbox
+export type ChatTarget =
+	| { productId: string }
+	| { orderId: string }
+	| { conversationId: string };
+
+export interface WishlistItem {
+	product: Product;
+	// the option saved with the product, if it comes in variants
+	variant: ProductVariant | null;
+	// live price and stock of the product (or saved variant)
+	price: number;
+	stock: number;
+	inStock: boolean;
+	priceWhenAdded: number;
+	// negative when the price dropped since it was saved
+	priceChange: number;
+	addedAt: string;
+}
+
+export interface ProductAlert {
+	_id: string;
+	product: Product;
+	// the watched option, if the product comes in variants
+	variant: string | null;
+	onPriceDrop: boolean;
+	// alert only at or below this price; null: any drop
+	targetPrice: number | null;
+	onBackInStock: boolean;
+	lastNotifiedAt: string | null;
+}
+
+export type ProductAlertInput = {
+	variantId?: string | null;
+	onPriceDrop?: boolean;
+	targetPrice?: number | null;
+	onBackInStock?: boolean;
+};
+
+// One seller's parcel, as priced by the server's shipping rate tables
+export interface ShippingQuote {
+	seller: string;
+	fee: number;
+	free: boolean;
+	distanceKm: number | null;
+	zone: string | null;
+	breakdown: { base: number; weight: number; handling: number };
+	source: "seller" | "platform" | "default";
+}
+
+export interface ShippingQuoteResponse {
+	fee: number;
+	quotes: ShippingQuote[];
+	buyerCity: string;
+}
+
+export type RefundStatus =
+	| "requested"
+	| "approved"
+	| "processing"
+	| "completed"
+	| "failed"
+	| "needs_review";
+
+// Money going back to the buyer's M-Pesa for a cancelled paid order
+export interface Refund {
+	_id: string;
+	order:
+		| string
+		| {
+				_id: string;
+				orderNumber?: string;
+				total?: number;
+				status?: string;
+				paymentStatus?: Order["paymentStatus"];
+		  };
+	// set when a return or damage claim led to it
+	claim?: string | null;
+	buyer: string;
+	seller: string;
+	amount: number;
+	phoneNumber: string;
+	reason: string;
+	status: RefundStatus;
+	attempts: number;
+	mpesaReceiptNumber: string | null;
+	// why the last payout failed
+	resultDesc: string | null;
+	approvedAt: string | null;
+	completedAt: string | null;
+	createdAt: string;
+}
+
+export type ClaimType = "return" | "damage";
+
+export type ClaimReason =
+	| "damaged_in_transit"
+	| "defective"
+	| "not_as_described"
+	| "wrong_item"
+	| "missing_parts"
+	| "changed_mind";
+
+export type ClaimStatus =
+	| "open"
+	| "accepted"
+	| "partial_refund"
+	| "rejected"
+	| "escalated"
+	| "withdrawn";
+
+export type ClaimDecision = "accept" | "partial_refund" | "reject";
+
+export interface ClaimEvent {
+	status: ClaimStatus;
+	at: string;
+	// empty when the claim was escalated automatically
+	by?: string | null;
+	note?: string;
+}
+
+// A return or damage claim on a delivered order
+export interface Claim {
+	_id: string;
+	order: string | { _id: string; orderNumber?: string; total?: number };
+	buyer: string;
+	seller: string;
+	type: ClaimType;
+	reason: ClaimReason;
+	description: string;
+	photos: string[];
+	status: ClaimStatus;
+	timeline: ClaimEvent[];
+	// the seller must answer by then or support takes over
+	respondBy: string;
+	decision?: {
+		outcome: ClaimDecision;
+		amount: number;
+		note?: string;
+		role: "seller" | "admin";
+		at: string;
+	};
+	refund?: string | null;
+	createdAt: string;
+}
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+// A seller's sales over a date range; revenue counts orders paid in it
+export interface SalesSummary {
+	revenue: number;
+	// completed M-Pesa refunds in the range
+	refunded: number;
+	netRevenue: number;
+	paidOrders: number;
+	averageOrderValue: number;
+	unitsSold: number;
+	cancelledOrders: number;
+	// share of the paid orders that were cancelled, 0 to 1
+	cancellationRate: number;
+}
+
+export interface RevenuePoint {
+	// start of the day, week or month
+	start: string;
+	revenue: number;
+	orders: number;
+}
+
+export interface ProductSales {
+	product: string;
+	name: string | null;
+	image: string | null;
+	units: number;
+	revenue: number;
+}
+
+export interface CitySales {
+	city: string;
+	orders: number;
+	revenue: number;
+}
+
+export interface LowStockProduct {
+	_id: string;
+	name: string;
+	image: string | null;
+	stock: number;
+	// only the variants that are running low
+	variants: { _id: string; sku: string; stock: number }[];
+}
+
+export interface SellerAnalytics {
+	range: { from: string; to: string };
+	summary: SalesSummary;
+	revenue: RevenuePoint[];
+	products: ProductSales[];
+	cities: CitySales[];
+	lowStock: LowStockProduct[];
+}